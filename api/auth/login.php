@@ -24,7 +24,7 @@ $password = $input['password'];
 
 try {
     // Find user by email
-    $stmt = $pdo->prepare('SELECT id, email, password_hash FROM users WHERE email = ?');
+    $stmt = $pdo->prepare('SELECT id, email, password_hash, role FROM users WHERE email = ?');
     $stmt->execute([$email]);
     $user = $stmt->fetch();
     
@@ -46,7 +46,8 @@ try {
     jsonResponse([
         'user' => [
             'id' => $user['id'],
-            'email' => $user['email']
+            'email' => $user['email'],
+            'role' => $user['role']
         ],
         'token' => $token
     ]);
@@ -16,7 +16,7 @@ $user = requireAuth();
 
 try {
     // Fetch full user data from database
-    $stmt = $pdo->prepare('SELECT id, email, created_at FROM users WHERE id = ?');
+    $stmt = $pdo->prepare('SELECT id, email, role, created_at FROM users WHERE id = ?');
     $stmt->execute([$user['id']]);
     $userData = $stmt->fetch();
     
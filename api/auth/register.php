@@ -41,7 +41,7 @@ try {
         errorResponse('Email already registered', 409);
     }
     
-    // Create user
+    // Create user; every account is a single owner with its own data, so it starts as an admin
     $userId = generateUUID();
     $passwordHash = password_hash($password, PASSWORD_DEFAULT);
     
@@ -57,7 +57,8 @@ try {
     jsonResponse([
         'user' => [
             'id' => $userId,
-            'email' => $email
+            'email' => $email,
+            'role' => 'admin'
         ],
         'token' => $token
     ], 201);
@@ -0,0 +1,46 @@
+<?php
+/**
+ * Delete Category Endpoint
+ * DELETE /api/categories/delete.php?id=xxx
+ * Only empty categories can be deleted; merge a category to move its products elsewhere.
+ * Subcategories move up to the top level.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'DELETE') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$categoryId = $_GET['id'] ?? null;
+
+if (!$categoryId) {
+    errorResponse('Category ID is required');
+}
+
+try {
+    $category = findCategory($pdo, $user['id'], $categoryId);
+    
+    if (!$category) {
+        errorResponse('Category not found', 404);
+    }
+    
+    $stmt = $pdo->prepare('SELECT COUNT(*) FROM products WHERE user_id = ? AND category = ?');
+    $stmt->execute([$user['id'], $category['name']]);
+    $productCount = (int) $stmt->fetchColumn();
+    
+    if ($productCount > 0) {
+        errorResponse("This category has $productCount product(s); merge it into another category instead", 409);
+    }
+    
+    $stmt = $pdo->prepare('DELETE FROM categories WHERE id = ?');
+    $stmt->execute([$categoryId]);
+    
+    jsonResponse(['success' => true, 'message' => 'Category deleted']);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,60 @@
+<?php
+/**
+ * Categories Endpoint
+ * GET /api/categories/ - List all categories for user with their product counts
+ * POST /api/categories/ - Create new category
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+try {
+    if ($method === 'GET') {
+        $stmt = $pdo->prepare('
+            SELECT c.id, c.name, c.parent_id, c.color, c.icon, c.created_at,
+                   (SELECT COUNT(*) FROM products p WHERE p.user_id = c.user_id AND p.category = c.name) AS product_count
+            FROM categories c
+            WHERE c.user_id = ?
+            ORDER BY c.name ASC
+        ');
+        $stmt->execute([$user['id']]);
+        
+        jsonResponse(array_map('formatCategory', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        // Create new category
+        $input = getJsonInput();
+        
+        $name = preg_replace('/\s+/', ' ', trim($input['name'] ?? ''));
+        
+        if ($name === '') {
+            errorResponse('Category name is required');
+        }
+        
+        // Check for duplicate category name for this user (case-insensitive collation)
+        $stmt = $pdo->prepare('SELECT id FROM categories WHERE user_id = ? AND name = ?');
+        $stmt->execute([$user['id'], $name]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A category with this name already exists', 409);
+        }
+        
+        $details = categoryDetails($pdo, $user['id'], $input) + ['parent_id' => null, 'color' => null, 'icon' => null];
+        $categoryId = generateUUID();
+        
+        $stmt = $pdo->prepare('INSERT INTO categories (id, user_id, name, parent_id, color, icon) VALUES (?, ?, ?, ?, ?, ?)');
+        $stmt->execute([$categoryId, $user['id'], mb_substr($name, 0, 100), $details['parent_id'], $details['color'], $details['icon']]);
+        
+        jsonResponse(formatCategory(findCategory($pdo, $user['id'], $categoryId)), 201);
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
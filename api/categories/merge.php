@@ -0,0 +1,68 @@
+<?php
+/**
+ * Merge Category Endpoint
+ * POST /api/categories/merge.php?id=xxx
+ * Body: { target_id }
+ * Moves everything in the category into the target, then deletes it. Subcategories move
+ * under the target too.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$categoryId = $_GET['id'] ?? null;
+
+if (!$categoryId) {
+    errorResponse('Category ID is required');
+}
+
+$input = getJsonInput();
+
+try {
+    $category = findCategory($pdo, $user['id'], $categoryId);
+    $target = !empty($input['target_id']) ? findCategory($pdo, $user['id'], $input['target_id']) : null;
+    
+    if (!$category || !$target) {
+        errorResponse('Category not found', 404);
+    }
+    
+    if ($target['id'] === $category['id']) {
+        errorResponse('Choose a different category to merge into');
+    }
+    
+    // The target cannot sit under the category being removed
+    if (in_array($target['name'], categoryNamesWithDescendants($pdo, $user['id'], $categoryId), true)) {
+        errorResponse('Cannot merge a category into one of its own subcategories');
+    }
+    
+    $pdo->beginTransaction();
+    
+    try {
+        renameCategoryReferences($pdo, $user['id'], $category['name'], $target['name']);
+        
+        $stmt = $pdo->prepare('UPDATE categories SET parent_id = ? WHERE user_id = ? AND parent_id = ?');
+        $stmt->execute([$target['id'], $user['id'], $categoryId]);
+        
+        $stmt = $pdo->prepare('DELETE FROM categories WHERE id = ?');
+        $stmt->execute([$categoryId]);
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    jsonResponse(formatCategory(findCategory($pdo, $user['id'], $target['id'])));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
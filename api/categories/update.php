@@ -0,0 +1,85 @@
+<?php
+/**
+ * Update Category Endpoint
+ * PUT /api/categories/update.php?id=xxx
+ * A new name is carried over to the category's products, tax rate and past sales
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'PUT') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$categoryId = $_GET['id'] ?? null;
+
+if (!$categoryId) {
+    errorResponse('Category ID is required');
+}
+
+$input = getJsonInput();
+
+try {
+    $category = findCategory($pdo, $user['id'], $categoryId);
+    
+    if (!$category) {
+        errorResponse('Category not found', 404);
+    }
+    
+    $details = categoryDetails($pdo, $user['id'], $input, $categoryId);
+    
+    if (isset($input['name'])) {
+        $name = mb_substr(preg_replace('/\s+/', ' ', trim($input['name'])), 0, 100);
+        
+        if ($name === '') {
+            errorResponse('Category name is required');
+        }
+        
+        // Check for duplicate name (excluding current category); use merge to combine two categories
+        $stmt = $pdo->prepare('SELECT id FROM categories WHERE user_id = ? AND name = ? AND id != ?');
+        $stmt->execute([$user['id'], $name, $categoryId]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A category with this name already exists', 409);
+        }
+        
+        if ($name !== $category['name']) {
+            $details['name'] = $name;
+        }
+    }
+    
+    if (empty($details)) {
+        jsonResponse(formatCategory($category));
+    }
+    
+    $pdo->beginTransaction();
+    
+    try {
+        $updates = array_map(function ($column) {
+            return "$column = ?";
+        }, array_keys($details));
+        
+        $stmt = $pdo->prepare('UPDATE categories SET ' . implode(', ', $updates) . ' WHERE id = ?');
+        $stmt->execute(array_merge(array_values($details), [$categoryId]));
+        
+        if (isset($details['name'])) {
+            renameCategoryReferences($pdo, $user['id'], $category['name'], $details['name']);
+        }
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    jsonResponse(formatCategory(findCategory($pdo, $user['id'], $categoryId)));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
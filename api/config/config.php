@@ -44,6 +44,9 @@ try {
 define('JWT_SECRET', 'change-this-to-a-secure-random-string-in-production');
 define('JWT_EXPIRE', 86400 * 7); // 7 days in seconds
 
+// Signs the verification code printed on receipts; changing it invalidates every printed code
+define('RECEIPT_SIGNING_SECRET', 'change-this-to-another-secure-random-string-in-production');
+
 /**
  * Generate UUID v4
  */
@@ -0,0 +1,247 @@
+<?php
+/**
+ * Credit Notes Endpoint
+ * GET /api/credit-notes/ - List credit notes for user (optional invoice_id, from, to filters)
+ * POST /api/credit-notes/ - Return some or all of an invoice's lines, with optional restock
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/payments.php';
+require_once __DIR__ . '/../lib/sequences.php';
+require_once __DIR__ . '/../lib/credit_notes.php';
+require_once __DIR__ . '/../lib/stock.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+/**
+ * Decode JSON and cast numeric columns from a credit note row
+ */
+function formatCreditNote($creditNote) {
+    $creditNote['products'] = json_decode($creditNote['products'], true);
+    foreach (['subtotal', 'discount_total', 'tax', 'total', 'applied_to_balance', 'refunded_amount'] as $field) {
+        $creditNote[$field] = (float) $creditNote[$field];
+    }
+    $creditNote['prices_include_tax'] = (bool) $creditNote['prices_include_tax'];
+    $creditNote['restocked'] = (bool) $creditNote['restocked'];
+    return $creditNote;
+}
+
+try {
+    if ($method === 'GET') {
+        $sql = '
+            SELECT cn.*, i.invoice_number 
+            FROM credit_notes cn 
+            JOIN invoices i ON i.id = cn.invoice_id 
+            WHERE cn.user_id = ?
+        ';
+        $params = [$user['id']];
+        
+        if (!empty($_GET['invoice_id'])) {
+            $sql .= ' AND cn.invoice_id = ?';
+            $params[] = $_GET['invoice_id'];
+        }
+        
+        if (!empty($_GET['from'])) {
+            $sql .= ' AND DATE(cn.created_at) >= ?';
+            $params[] = $_GET['from'];
+        }
+        
+        if (!empty($_GET['to'])) {
+            $sql .= ' AND DATE(cn.created_at) <= ?';
+            $params[] = $_GET['to'];
+        }
+        
+        $sql .= ' ORDER BY cn.created_at DESC';
+        
+        $stmt = $pdo->prepare($sql);
+        $stmt->execute($params);
+        
+        jsonResponse(array_map('formatCreditNote', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        $input = getJsonInput();
+        
+        if (empty($input['invoice_id'])) {
+            errorResponse('invoice_id is required');
+        }
+        
+        if (empty($input['lines']) || !is_array($input['lines'])) {
+            errorResponse('At least one line to return is required');
+        }
+        
+        $restock = !isset($input['restock']) || !empty($input['restock']);
+        $reason = !empty($input['reason']) ? trim($input['reason']) : null;
+        
+        $pdo->beginTransaction();
+        
+        try {
+            // Lock the invoice so concurrent returns cannot exceed what was sold
+            $stmt = $pdo->prepare('
+                SELECT id, invoice_number, customer_id, customer_name, subtotal, tax, total,
+                       amount_paid, returned_total, prices_include_tax, products, voided_at 
+                FROM invoices 
+                WHERE id = ? AND user_id = ? 
+                FOR UPDATE
+            ');
+            $stmt->execute([$input['invoice_id'], $user['id']]);
+            $invoice = $stmt->fetch();
+            
+            if (!$invoice) {
+                $pdo->rollBack();
+                errorResponse('Invoice not found', 404);
+            }
+            
+            if ($invoice['voided_at'] !== null) {
+                $pdo->rollBack();
+                errorResponse('Cannot return items from a voided invoice');
+            }
+            
+            $soldLines = json_decode($invoice['products'], true) ?: [];
+            $returned = returnedQuantities($pdo, $invoice['id']);
+            $invoiceSubtotal = (float) $invoice['subtotal'];
+            
+            $lines = [];
+            $subtotal = 0;
+            $discountTotal = 0;
+            $tax = 0;
+            
+            foreach ($input['lines'] as $requested) {
+                $index = intval($requested['line_index'] ?? -1);
+                $quantity = intval($requested['quantity'] ?? 0);
+                
+                if (!isset($soldLines[$index])) {
+                    $pdo->rollBack();
+                    errorResponse("Invoice has no line $index");
+                }
+                if ($quantity <= 0) {
+                    continue;
+                }
+                
+                $line = $soldLines[$index];
+                $alreadyReturned = $returned[$index] ?? 0;
+                
+                if ($quantity > (int) $line['quantity'] - $alreadyReturned) {
+                    $pdo->rollBack();
+                    errorResponse("Cannot return more {$line['name']} than was sold");
+                }
+                
+                $gross = (float) $line['price'] * (int) $line['quantity'];
+                $invoiceTaxShare = $invoiceSubtotal > 0 ? (float) $invoice['tax'] * $gross / $invoiceSubtotal : 0;
+                $creditLine = creditNoteLine($line, $index, $quantity, $alreadyReturned, $invoiceTaxShare);
+                
+                $subtotal += round((float) $line['price'] * $quantity, 2);
+                $discountTotal += $creditLine['discount_amount'] + $creditLine['invoice_discount_share'];
+                $tax += $creditLine['tax_amount'];
+                $lines[] = $creditLine;
+            }
+            
+            if (count($lines) === 0) {
+                $pdo->rollBack();
+                errorResponse('At least one line to return is required');
+            }
+            
+            $subtotal = round($subtotal, 2);
+            $discountTotal = round($discountTotal, 2);
+            $tax = round($tax, 2);
+            $net = round($subtotal - $discountTotal, 2);
+            $total = $invoice['prices_include_tax'] ? $net : round($net + $tax, 2);
+            
+            // Anything the customer still owes is cancelled first; only the rest is paid back
+            $balanceDue = max(0, round((float) $invoice['total'] - (float) $invoice['returned_total'] - (float) $invoice['amount_paid'], 2));
+            $appliedToBalance = min($balanceDue, $total);
+            $refundedAmount = round($total - $appliedToBalance, 2);
+            
+            $refundMethod = null;
+            if ($refundedAmount > 0) {
+                $refundMethod = $input['refund_method'] ?? '';
+                if (!in_array($refundMethod, PAYMENT_METHODS, true)) {
+                    $pdo->rollBack();
+                    errorResponse('A valid refund method is required');
+                }
+            }
+            
+            $creditNoteId = generateUUID();
+            $creditNoteNumber = 'CN-' . str_pad(nextSequenceValue($pdo, $user['id'], 'credit_note'), 6, '0', STR_PAD_LEFT);
+            
+            $stmt = $pdo->prepare('
+                INSERT INTO credit_notes (
+                    id, user_id, credit_note_number, invoice_id, customer_id, customer_name, issuer_name,
+                    reason, products, subtotal, discount_total, tax, total, prices_include_tax,
+                    applied_to_balance, refunded_amount, refund_method, restocked
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ');
+            $stmt->execute([
+                $creditNoteId,
+                $user['id'],
+                $creditNoteNumber,
+                $invoice['id'],
+                $invoice['customer_id'],
+                $invoice['customer_name'],
+                $user['email'],
+                $reason,
+                json_encode($lines),
+                $subtotal,
+                $discountTotal,
+                $tax,
+                $total,
+                $invoice['prices_include_tax'] ? 1 : 0,
+                $appliedToBalance,
+                $refundedAmount,
+                $refundMethod,
+                $restock ? 1 : 0
+            ]);
+            
+            // Put returned stock back on the shelf, bundles as the components they were sold as
+            if ($restock) {
+                foreach ($lines as $line) {
+                    foreach (lineStockQuantities($line) as $productId => $quantity) {
+                        recordStockMovement(
+                            $pdo,
+                            $user['id'],
+                            $productId,
+                            'return',
+                            $quantity,
+                            $user['email'],
+                            $reason,
+                            ['type' => 'credit_note', 'id' => $creditNoteId, 'number' => $creditNoteNumber]
+                        );
+                    }
+                }
+            }
+            
+            $returnedTotal = round((float) $invoice['returned_total'] + $total, 2);
+            $stmt = $pdo->prepare('UPDATE invoices SET returned_total = ?, payment_status = ? WHERE id = ?');
+            $stmt->execute([
+                $returnedTotal,
+                paymentStatus((float) $invoice['total'] - $returnedTotal, (float) $invoice['amount_paid']),
+                $invoice['id']
+            ]);
+            
+            $pdo->commit();
+            
+            $stmt = $pdo->prepare('
+                SELECT cn.*, i.invoice_number 
+                FROM credit_notes cn 
+                JOIN invoices i ON i.id = cn.invoice_id 
+                WHERE cn.id = ?
+            ');
+            $stmt->execute([$creditNoteId]);
+            
+            jsonResponse(formatCreditNote($stmt->fetch()), 201);
+            
+        } catch (Exception $e) {
+            if ($pdo->inTransaction()) {
+                $pdo->rollBack();
+            }
+            throw $e;
+        }
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,39 @@
+<?php
+/**
+ * Delete Customer Endpoint
+ * DELETE /api/customers/delete.php?id=xxx
+ * Past invoices keep their customer name snapshot; only the link is cleared
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'DELETE') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$customerId = $_GET['id'] ?? null;
+
+if (!$customerId) {
+    errorResponse('Customer ID is required');
+}
+
+try {
+    // Verify customer belongs to user
+    $stmt = $pdo->prepare('SELECT id FROM customers WHERE id = ? AND user_id = ?');
+    $stmt->execute([$customerId, $user['id']]);
+    
+    if (!$stmt->fetch()) {
+        errorResponse('Customer not found', 404);
+    }
+    
+    // Delete the customer (invoices.customer_id is set to NULL by the foreign key)
+    $stmt = $pdo->prepare('DELETE FROM customers WHERE id = ?');
+    $stmt->execute([$customerId]);
+    
+    jsonResponse(['success' => true, 'message' => 'Customer deleted']);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,103 @@
+<?php
+/**
+ * Customers Endpoint
+ * GET /api/customers/ - List all customers for user with their purchase totals
+ * GET /api/customers/?id=xxx - Get a single customer
+ * POST /api/customers/ - Create new customer
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+/**
+ * Cast aggregate columns from a customer row
+ */
+function formatCustomer($customer) {
+    $customer['invoice_count'] = (int) $customer['invoice_count'];
+    $customer['total_spent'] = (float) $customer['total_spent'];
+    $customer['balance'] = (float) $customer['balance'];
+    return $customer;
+}
+
+try {
+    $selectSql = '
+        SELECT c.id, c.name, c.phone, c.email, c.address, c.created_at,
+               COUNT(i.id) AS invoice_count,
+               COALESCE(SUM(i.total - i.returned_total), 0) AS total_spent,
+               COALESCE(SUM(GREATEST(i.total - i.returned_total - i.amount_paid, 0)), 0) AS balance,
+               MAX(i.created_at) AS last_purchase_at
+        FROM customers c
+        LEFT JOIN invoices i ON i.customer_id = c.id AND i.voided_at IS NULL
+        WHERE c.user_id = ?
+    ';
+
+    if ($method === 'GET') {
+        if (!empty($_GET['id'])) {
+            $stmt = $pdo->prepare($selectSql . ' AND c.id = ? GROUP BY c.id');
+            $stmt->execute([$user['id'], $_GET['id']]);
+            $customer = $stmt->fetch();
+            
+            if (!$customer) {
+                errorResponse('Customer not found', 404);
+            }
+            
+            jsonResponse(formatCustomer($customer));
+        }
+        
+        $stmt = $pdo->prepare($selectSql . ' GROUP BY c.id ORDER BY c.name ASC');
+        $stmt->execute([$user['id']]);
+        
+        jsonResponse(array_map('formatCustomer', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        // Create new customer
+        $input = getJsonInput();
+        
+        // Collapse repeated spaces so "Musa  Ibrahim" and "Musa Ibrahim" are one customer
+        $name = preg_replace('/\s+/', ' ', trim($input['name'] ?? ''));
+        
+        if ($name === '') {
+            errorResponse('Customer name is required');
+        }
+        
+        // Check for duplicate customer name for this user (case-insensitive collation)
+        $stmt = $pdo->prepare('SELECT id FROM customers WHERE user_id = ? AND name = ?');
+        $stmt->execute([$user['id'], $name]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A customer with this name already exists', 409);
+        }
+        
+        $customerId = generateUUID();
+        $phone = !empty($input['phone']) ? trim($input['phone']) : null;
+        $email = !empty($input['email']) ? trim($input['email']) : null;
+        $address = !empty($input['address']) ? trim($input['address']) : null;
+        
+        $stmt = $pdo->prepare('
+            INSERT INTO customers (id, user_id, name, phone, email, address) 
+            VALUES (?, ?, ?, ?, ?, ?)
+        ');
+        $stmt->execute([$customerId, $user['id'], $name, $phone, $email, $address]);
+        
+        jsonResponse([
+            'id' => $customerId,
+            'name' => $name,
+            'phone' => $phone,
+            'email' => $email,
+            'address' => $address,
+            'invoice_count' => 0,
+            'total_spent' => 0,
+            'balance' => 0,
+            'last_purchase_at' => null
+        ], 201);
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,96 @@
+<?php
+/**
+ * Update Customer Endpoint
+ * PUT /api/customers/update.php?id=xxx
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'PUT') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$customerId = $_GET['id'] ?? null;
+
+if (!$customerId) {
+    errorResponse('Customer ID is required');
+}
+
+$input = getJsonInput();
+
+try {
+    // Verify customer belongs to user
+    $stmt = $pdo->prepare('SELECT id FROM customers WHERE id = ? AND user_id = ?');
+    $stmt->execute([$customerId, $user['id']]);
+    
+    if (!$stmt->fetch()) {
+        errorResponse('Customer not found', 404);
+    }
+    
+    // Build update query dynamically
+    $updates = [];
+    $params = [];
+    
+    if (isset($input['name'])) {
+        $name = preg_replace('/\s+/', ' ', trim($input['name']));
+        
+        if ($name === '') {
+            errorResponse('Customer name is required');
+        }
+        
+        // Check for duplicate name (excluding current customer)
+        $stmt = $pdo->prepare('SELECT id FROM customers WHERE user_id = ? AND name = ? AND id != ?');
+        $stmt->execute([$user['id'], $name, $customerId]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A customer with this name already exists', 409);
+        }
+        
+        $updates[] = 'name = ?';
+        $params[] = $name;
+    }
+    
+    // Empty strings clear the optional contact fields
+    foreach (['phone', 'email', 'address'] as $field) {
+        if (array_key_exists($field, $input)) {
+            $updates[] = "$field = ?";
+            $params[] = !empty($input[$field]) ? trim($input[$field]) : null;
+        }
+    }
+    
+    if (empty($updates)) {
+        errorResponse('No fields to update');
+    }
+    
+    $params[] = $customerId;
+    $sql = 'UPDATE customers SET ' . implode(', ', $updates) . ' WHERE id = ?';
+    
+    $stmt = $pdo->prepare($sql);
+    $stmt->execute($params);
+    
+    // Fetch updated customer with purchase totals
+    $stmt = $pdo->prepare('
+        SELECT c.id, c.name, c.phone, c.email, c.address, c.created_at,
+               COUNT(i.id) AS invoice_count,
+               COALESCE(SUM(i.total - i.returned_total), 0) AS total_spent,
+               COALESCE(SUM(GREATEST(i.total - i.returned_total - i.amount_paid, 0)), 0) AS balance,
+               MAX(i.created_at) AS last_purchase_at
+        FROM customers c
+        LEFT JOIN invoices i ON i.customer_id = c.id AND i.voided_at IS NULL
+        WHERE c.id = ?
+        GROUP BY c.id
+    ');
+    $stmt->execute([$customerId]);
+    $customer = $stmt->fetch();
+    
+    $customer['invoice_count'] = (int) $customer['invoice_count'];
+    $customer['total_spent'] = (float) $customer['total_spent'];
+    $customer['balance'] = (float) $customer['balance'];
+    
+    jsonResponse($customer);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
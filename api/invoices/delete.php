@@ -1,7 +1,8 @@
 <?php
 /**
- * Delete Invoice Endpoint
- * DELETE /api/invoices/delete.php?id=xxx
+ * Purge Invoice Endpoint
+ * DELETE /api/invoices/delete.php?id=xxx - Permanently remove a voided invoice
+ * The number is kept in purged_invoices, so the invoice sequence still accounts for every number issued
  */
 
 require_once __DIR__ . '/../config/config.php';
@@ -19,20 +20,62 @@ if (!$invoiceId) {
 }
 
 try {
-    // Verify invoice belongs to user
-    $stmt = $pdo->prepare('SELECT id FROM invoices WHERE id = ? AND user_id = ?');
-    $stmt->execute([$invoiceId, $user['id']]);
+    $pdo->beginTransaction();
     
-    if (!$stmt->fetch()) {
-        errorResponse('Invoice not found', 404);
+    try {
+        // Verify invoice belongs to user
+        $stmt = $pdo->prepare('
+            SELECT id, invoice_number, total, created_at, voided_at, voided_by, void_reason 
+            FROM invoices 
+            WHERE id = ? AND user_id = ? 
+            FOR UPDATE
+        ');
+        $stmt->execute([$invoiceId, $user['id']]);
+        $invoice = $stmt->fetch();
+        
+        if (!$invoice) {
+            $pdo->rollBack();
+            errorResponse('Invoice not found', 404);
+        }
+        
+        // Sales are cancelled by voiding; only a voided record can be purged
+        if ($invoice['voided_at'] === null) {
+            $pdo->rollBack();
+            errorResponse('Void the invoice before purging it');
+        }
+        
+        // Tombstone first, so the number is never left unaccounted for
+        $stmt = $pdo->prepare('
+            INSERT INTO purged_invoices 
+                (id, user_id, invoice_number, total, issued_at, voided_at, voided_by, void_reason, purged_by) 
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ');
+        $stmt->execute([
+            $invoice['id'],
+            $user['id'],
+            $invoice['invoice_number'],
+            $invoice['total'],
+            $invoice['created_at'],
+            $invoice['voided_at'],
+            $invoice['voided_by'],
+            $invoice['void_reason'],
+            $user['email']
+        ]);
+        
+        $stmt = $pdo->prepare('DELETE FROM invoices WHERE id = ?');
+        $stmt->execute([$invoiceId]);
+        
+        $pdo->commit();
+        
+        jsonResponse(['success' => true, 'message' => 'Invoice purged']);
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
     }
     
-    // Delete the invoice
-    $stmt = $pdo->prepare('DELETE FROM invoices WHERE id = ?');
-    $stmt->execute([$invoiceId]);
-    
-    jsonResponse(['success' => true, 'message' => 'Invoice deleted']);
-    
 } catch (PDOException $e) {
     errorResponse('Database error: ' . $e->getMessage(), 500);
 }
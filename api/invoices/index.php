@@ -1,12 +1,19 @@
 <?php
 /**
  * Invoices Endpoint
- * GET /api/invoices/ - List all invoices for user (with optional date filters)
- * POST /api/invoices/ - Create new invoice (with stock decrement)
+ * GET /api/invoices/ - List all invoices for user (with optional date, customer, category and payment status filters)
+ * POST /api/invoices/ - Create new invoice (with stock decrement); the invoice number is assigned here
  */
 
 require_once __DIR__ . '/../config/config.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/payments.php';
+require_once __DIR__ . '/../lib/sequences.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/profit.php';
+require_once __DIR__ . '/../lib/products.php';
+require_once __DIR__ . '/../lib/categories.php';
+require_once __DIR__ . '/../lib/receipts.php';
 
 $user = requireAuth();
 $method = $_SERVER['REQUEST_METHOD'];
@@ -28,6 +35,38 @@ try {
             $params[] = $_GET['to'];
         }
         
+        // Customer filter (for purchase history)
+        if (!empty($_GET['customer_id'])) {
+            $sql .= ' AND customer_id = ?';
+            $params[] = $_GET['customer_id'];
+        }
+        
+        // Category filter: sales with at least one item in the category or its subcategories
+        if (!empty($_GET['category_id'])) {
+            list($condition, $categoryParams) = categoryLineCondition(
+                categoryNamesWithDescendants($pdo, $user['id'], $_GET['category_id'])
+            );
+            $sql .= " AND $condition";
+            $params = array_merge($params, $categoryParams);
+        }
+        
+        // Voided invoices are included unless asked otherwise (History shows them struck through)
+        if (isset($_GET['voided']) && $_GET['voided'] === '0') {
+            $sql .= ' AND voided_at IS NULL';
+        }
+        
+        // Payment status filter, e.g. payment_status=unpaid,partial for receivables
+        if (!empty($_GET['payment_status'])) {
+            $statuses = array_values(array_intersect(
+                explode(',', $_GET['payment_status']),
+                ['paid', 'partial', 'unpaid']
+            ));
+            if (count($statuses) > 0) {
+                $sql .= ' AND payment_status IN (' . implode(',', array_fill(0, count($statuses), '?')) . ')';
+                $params = array_merge($params, $statuses);
+            }
+        }
+        
         // Year filter (for tax tracking)
         if (!empty($_GET['year'])) {
             $sql .= ' AND YEAR(created_at) = ?';
@@ -48,9 +87,21 @@ try {
         // Parse JSON products and convert numeric fields
         foreach ($invoices as &$invoice) {
             $invoice['products'] = json_decode($invoice['products'], true);
+            $invoice['discount'] = $invoice['discount'] ? json_decode($invoice['discount'], true) : null;
             $invoice['subtotal'] = (float) $invoice['subtotal'];
+            $invoice['discount_total'] = (float) $invoice['discount_total'];
             $invoice['tax'] = (float) $invoice['tax'];
             $invoice['total'] = (float) $invoice['total'];
+            $invoice['prices_include_tax'] = (bool) $invoice['prices_include_tax'];
+            $invoice['payments'] = $invoice['payments'] ? json_decode($invoice['payments'], true) : [];
+            $invoice['shares'] = $invoice['shares'] ? json_decode($invoice['shares'], true) : [];
+            $invoice['amount_paid'] = (float) $invoice['amount_paid'];
+            $invoice['change_due'] = (float) $invoice['change_due'];
+            $invoice['returned_total'] = (float) $invoice['returned_total'];
+            // A voided sale is no longer owed
+            $invoice['balance_due'] = $invoice['voided_at'] !== null
+                ? 0.0
+                : max(0, round($invoice['total'] - $invoice['returned_total'] - $invoice['amount_paid'], 2));
         }
         
         jsonResponse($invoices);
@@ -60,7 +111,7 @@ try {
         $input = getJsonInput();
         
         // Validate required fields
-        $required = ['invoice_number', 'company_name', 'customer_name', 'issuer_name', 'products'];
+        $required = ['company_name', 'customer_name', 'issuer_name', 'products'];
         foreach ($required as $field) {
             if (empty($input[$field])) {
                 errorResponse("$field is required");
@@ -71,63 +122,152 @@ try {
             errorResponse('At least one product is required');
         }
         
+        $parents = findParentProducts($pdo, $user['id'], array_map(function ($line) {
+            return isStockedLine($line) ? $line['id'] : null;
+        }, $input['products']));
+        if (!empty($parents)) {
+            errorResponse('Choose a variant of ' . implode(', ', $parents));
+        }
+        
+        // Linked customer must belong to this user; the name is kept as a snapshot either way
+        $customerId = !empty($input['customer_id']) ? $input['customer_id'] : null;
+        if ($customerId) {
+            $stmt = $pdo->prepare('SELECT id FROM customers WHERE id = ? AND user_id = ?');
+            $stmt->execute([$customerId, $user['id']]);
+            
+            if (!$stmt->fetch()) {
+                errorResponse('Customer not found', 404);
+            }
+        }
+        
+        // Selling on credit needs a customer record to hold the balance
+        list($payments, $amountPaid, $changeDue, $paymentStatus) = normalisePayments(
+            $input['payments'] ?? null,
+            floatval($input['total'] ?? 0),
+            $customerId !== null
+        );
+        
         // Start transaction
         $pdo->beginTransaction();
         
         try {
-            // Deduct stock for each product
-            foreach ($input['products'] as $product) {
-                if (!empty($product['id']) && $product['id'] !== 'custom') {
-                    $stmt = $pdo->prepare('
-                        UPDATE products 
-                        SET stock = stock - ? 
-                        WHERE id = ? AND user_id = ? AND stock >= ?
-                    ');
-                    $stmt->execute([
-                        intval($product['quantity']),
-                        $product['id'],
-                        $user['id'],
-                        intval($product['quantity'])
-                    ]);
+            // Bundles are sold as their components, so record what each one is made of first
+            $input['products'] = captureBundleComponents($pdo, $user['id'], $input['products']);
+            
+            // Check stock against the store's overselling policy before anything is written
+            $shortages = findStockShortages($pdo, $user['id'], $input['products']);
+            $overridden = false;
+            
+            if (!empty($shortages)) {
+                $stmt = $pdo->prepare('SELECT stock_policy, stock_override_pin_hash FROM settings WHERE user_id = ?');
+                $stmt->execute([$user['id']]);
+                $policy = $stmt->fetch() ?: ['stock_policy' => 'allow_negative', 'stock_override_pin_hash' => null];
+                
+                if ($policy['stock_policy'] !== 'allow_negative') {
+                    $canOverride = $policy['stock_policy'] === 'override' && $policy['stock_override_pin_hash'];
+                    $pin = (string) ($input['stock_override_pin'] ?? '');
+                    $overridden = $canOverride && $pin !== '' && password_verify($pin, $policy['stock_override_pin_hash']);
                     
-                    // Check if stock update was successful
-                    if ($stmt->rowCount() === 0) {
-                        // Product might not exist or insufficient stock
-                        // We'll allow it to proceed for custom products
+                    if (!$overridden) {
+                        $message = 'Not enough stock for this sale';
+                        if ($canOverride) {
+                            $message = $pin !== '' ? 'Override PIN is incorrect' : 'Not enough stock - a manager override is required';
+                        }
+                        
+                        $pdo->rollBack();
+                        jsonResponse([
+                            'error' => $message,
+                            'code' => 'insufficient_stock',
+                            'override_allowed' => (bool) $canOverride,
+                            'lines' => $shortages
+                        ], 409);
                     }
                 }
             }
+            $shortProductIds = array_column($shortages, 'product_id');
+            
+            // Freeze each line's unit cost so later cost changes don't rewrite past margins
+            $input['products'] = captureLineCosts($pdo, $user['id'], $input['products']);
             
             // Create invoice
             $invoiceId = generateUUID();
+            $invoiceNumber = nextInvoiceNumber($pdo, $user['id']);
+            
+            // Deduct stock for each product through the ledger. Where the policy lets a sale
+            // exceed what is on hand, the level goes negative rather than the sale being lost.
+            foreach ($input['products'] as $product) {
+                foreach (lineStockQuantities($product) as $productId => $quantity) {
+                    $reason = $productId !== $product['id'] ? "Part of {$product['name']}" : null;
+                    if ($overridden && in_array($productId, $shortProductIds, true)) {
+                        $reason = 'Sold beyond stock with manager override';
+                    }
+                    
+                    recordStockMovement(
+                        $pdo,
+                        $user['id'],
+                        $productId,
+                        'sale',
+                        -$quantity,
+                        $user['email'],
+                        $reason,
+                        ['type' => 'invoice', 'id' => $invoiceId, 'number' => $invoiceNumber]
+                    );
+                }
+            }
+            
+            // The creation time is set here rather than by the database because it is signed
+            $createdAt = date('Y-m-d H:i:s');
+            $verificationHash = receiptVerificationHash([
+                'user_id' => $user['id'],
+                'invoice_number' => $invoiceNumber,
+                'created_at' => $createdAt,
+                'customer_name' => $input['customer_name'],
+                'total' => floatval($input['total'] ?? 0),
+                'products' => $input['products']
+            ]);
             
             $stmt = $pdo->prepare('
                 INSERT INTO invoices (
                     id, user_id, invoice_number, company_name, company_address, 
-                    company_phone, customer_name, issuer_name, subtotal, tax, total, products
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    company_phone, company_email, customer_id, customer_name, issuer_name, subtotal,
+                    discount, discount_total, tax, total, prices_include_tax, payments, amount_paid,
+                    change_due, payment_status, products, verification_hash, created_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             ');
             
             $stmt->execute([
                 $invoiceId,
                 $user['id'],
-                $input['invoice_number'],
+                $invoiceNumber,
                 $input['company_name'],
                 $input['company_address'] ?? null,
                 $input['company_phone'] ?? null,
+                $input['company_email'] ?? null,
+                $customerId,
                 $input['customer_name'],
                 $input['issuer_name'],
                 floatval($input['subtotal'] ?? 0),
+                !empty($input['discount']) ? json_encode($input['discount']) : null,
+                floatval($input['discount_total'] ?? 0),
                 floatval($input['tax'] ?? 0),
                 floatval($input['total'] ?? 0),
-                json_encode($input['products'])
+                !empty($input['prices_include_tax']) ? 1 : 0,
+                json_encode($payments),
+                $amountPaid,
+                $changeDue,
+                $paymentStatus,
+                json_encode($input['products']),
+                $verificationHash,
+                $createdAt
             ]);
             
             $pdo->commit();
             
             jsonResponse([
                 'id' => $invoiceId,
-                'invoice_number' => $input['invoice_number'],
+                'invoice_number' => $invoiceNumber,
+                'created_at' => $createdAt,
+                'verification_hash' => $verificationHash,
                 'message' => 'Invoice created successfully'
             ], 201);
             
@@ -0,0 +1,95 @@
+<?php
+/**
+ * Invoice Payments Endpoint
+ * POST /api/invoices/payments.php?id=xxx - Record a later payment against a credit sale
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/payments.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$invoiceId = $_GET['id'] ?? null;
+
+if (!$invoiceId) {
+    errorResponse('Invoice ID is required');
+}
+
+$payment = normalisePayment(getJsonInput());
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        // Lock the invoice so two cashiers cannot both settle the same balance
+        $stmt = $pdo->prepare('
+            SELECT id, total, payments, amount_paid, returned_total, voided_at 
+            FROM invoices 
+            WHERE id = ? AND user_id = ? 
+            FOR UPDATE
+        ');
+        $stmt->execute([$invoiceId, $user['id']]);
+        $invoice = $stmt->fetch();
+        
+        if (!$invoice) {
+            $pdo->rollBack();
+            errorResponse('Invoice not found', 404);
+        }
+        
+        if ($invoice['voided_at'] !== null) {
+            $pdo->rollBack();
+            errorResponse('Cannot take payment on a voided invoice');
+        }
+        
+        // Returned goods no longer need paying for
+        $total = (float) $invoice['total'] - (float) $invoice['returned_total'];
+        $amountPaid = (float) $invoice['amount_paid'];
+        $balance = round($total - $amountPaid, 2);
+        
+        if ($balance <= 0.01) {
+            $pdo->rollBack();
+            errorResponse('This invoice is already fully paid');
+        }
+        
+        if ($payment['amount'] > $balance + 0.01) {
+            $pdo->rollBack();
+            errorResponse('Payment is more than the balance due');
+        }
+        
+        $payments = $invoice['payments'] ? json_decode($invoice['payments'], true) : [];
+        $payments[] = $payment;
+        $amountPaid = round($amountPaid + $payment['amount'], 2);
+        $status = paymentStatus($total, $amountPaid);
+        
+        $stmt = $pdo->prepare('
+            UPDATE invoices 
+            SET payments = ?, amount_paid = ?, payment_status = ? 
+            WHERE id = ?
+        ');
+        $stmt->execute([json_encode($payments), $amountPaid, $status, $invoiceId]);
+        
+        $pdo->commit();
+        
+        jsonResponse([
+            'id' => $invoiceId,
+            'payments' => $payments,
+            'amount_paid' => $amountPaid,
+            'balance_due' => round($total - $amountPaid, 2),
+            'payment_status' => $status,
+            'change_due' => isset($payment['tendered']) ? round($payment['tendered'] - $payment['amount'], 2) : 0
+        ]);
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,71 @@
+<?php
+/**
+ * Invoice Shares Endpoint
+ * POST /api/invoices/shares.php?id=xxx - Log a receipt sent to the customer by email, WhatsApp or the device's share sheet
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+const SHARE_CHANNELS = ['email', 'whatsapp', 'device'];
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$invoiceId = $_GET['id'] ?? null;
+
+if (!$invoiceId) {
+    errorResponse('Invoice ID is required');
+}
+
+$input = getJsonInput();
+$channel = $input['channel'] ?? '';
+$recipient = trim($input['recipient'] ?? '');
+
+if (!in_array($channel, SHARE_CHANNELS, true)) {
+    errorResponse("Invalid share channel: $channel");
+}
+
+$share = [
+    'channel' => $channel,
+    // Unknown when the customer has no contact stored or the share sheet picked the app
+    'recipient' => $recipient !== '' ? mb_substr($recipient, 0, 255) : null,
+    'shared_by' => $user['email'],
+    'shared_at' => date('c'),
+];
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        $stmt = $pdo->prepare('SELECT id, shares FROM invoices WHERE id = ? AND user_id = ? FOR UPDATE');
+        $stmt->execute([$invoiceId, $user['id']]);
+        $invoice = $stmt->fetch();
+        
+        if (!$invoice) {
+            $pdo->rollBack();
+            errorResponse('Invoice not found', 404);
+        }
+        
+        $shares = $invoice['shares'] ? json_decode($invoice['shares'], true) : [];
+        $shares[] = $share;
+        
+        $stmt = $pdo->prepare('UPDATE invoices SET shares = ? WHERE id = ?');
+        $stmt->execute([json_encode($shares), $invoiceId]);
+        
+        $pdo->commit();
+        
+        jsonResponse(['id' => $invoiceId, 'shares' => $shares]);
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,99 @@
+<?php
+/**
+ * Void Invoice Endpoint
+ * POST /api/invoices/void.php?id=xxx - Cancel a sale, keeping the record and putting its stock back
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$invoiceId = $_GET['id'] ?? null;
+
+if (!$invoiceId) {
+    errorResponse('Invoice ID is required');
+}
+
+$input = getJsonInput();
+$reason = trim($input['reason'] ?? '');
+
+if ($reason === '') {
+    errorResponse('A reason is required to void an invoice');
+}
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        $stmt = $pdo->prepare('
+            SELECT id, invoice_number, products, voided_at 
+            FROM invoices 
+            WHERE id = ? AND user_id = ? 
+            FOR UPDATE
+        ');
+        $stmt->execute([$invoiceId, $user['id']]);
+        $invoice = $stmt->fetch();
+        
+        if (!$invoice) {
+            $pdo->rollBack();
+            errorResponse('Invoice not found', 404);
+        }
+        
+        if ($invoice['voided_at'] !== null) {
+            $pdo->rollBack();
+            errorResponse('This invoice is already voided');
+        }
+        
+        // Returned items have already been settled and restocked through their credit notes
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM credit_notes WHERE invoice_id = ?');
+        $stmt->execute([$invoiceId]);
+        if ((int) $stmt->fetchColumn() > 0) {
+            $pdo->rollBack();
+            errorResponse('This invoice has returns against it - return the remaining items instead');
+        }
+        
+        // Put the sold stock back, bundles as the components they were sold as
+        foreach (json_decode($invoice['products'], true) ?: [] as $product) {
+            foreach (lineStockQuantities($product) as $productId => $quantity) {
+                recordStockMovement(
+                    $pdo,
+                    $user['id'],
+                    $productId,
+                    'void',
+                    $quantity,
+                    $user['email'],
+                    $reason,
+                    ['type' => 'invoice', 'id' => $invoiceId, 'number' => $invoice['invoice_number']]
+                );
+            }
+        }
+        
+        $stmt = $pdo->prepare('
+            UPDATE invoices 
+            SET voided_at = NOW(), voided_by = ?, void_reason = ? 
+            WHERE id = ?
+        ');
+        $stmt->execute([$user['email'], mb_substr($reason, 0, 255), $invoiceId]);
+        
+        $pdo->commit();
+        
+        $stmt = $pdo->prepare('SELECT voided_at, voided_by, void_reason FROM invoices WHERE id = ?');
+        $stmt->execute([$invoiceId]);
+        
+        jsonResponse(array_merge(['id' => $invoiceId], $stmt->fetch()));
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,171 @@
+<?php
+/**
+ * Category Helpers
+ * Products, category tax rates and the lines captured on invoices and credit notes all hold
+ * the category name, so renaming or merging a category rewrites the name in each of them
+ */
+
+// Icons the app knows how to draw; anything else is stored as no icon
+const CATEGORY_ICONS = ['wifi', 'cpu', 'wrench', 'package', 'cable', 'smartphone', 'monitor', 'printer', 'shopping-bag', 'tag'];
+
+/**
+ * Cast a categories row for JSON output
+ */
+function formatCategory($category) {
+    $category['product_count'] = (int) ($category['product_count'] ?? 0);
+    return $category;
+}
+
+function findCategory($pdo, $userId, $id) {
+    $stmt = $pdo->prepare('
+        SELECT c.id, c.name, c.parent_id, c.color, c.icon, c.created_at,
+               (SELECT COUNT(*) FROM products p WHERE p.user_id = c.user_id AND p.category = c.name) AS product_count
+        FROM categories c
+        WHERE c.id = ? AND c.user_id = ?
+    ');
+    $stmt->execute([$id, $userId]);
+
+    return $stmt->fetch();
+}
+
+/**
+ * Add a category name set on a product to the managed categories if it is not there yet
+ */
+function ensureCategory($pdo, $userId, $name) {
+    $stmt = $pdo->prepare('INSERT IGNORE INTO categories (id, user_id, name) VALUES (?, ?, ?)');
+    $stmt->execute([generateUUID(), $userId, mb_substr($name, 0, 100)]);
+}
+
+/**
+ * Validate the optional parent, colour and icon fields, failing the request on bad input.
+ * Returns the columns to write. $categoryId is the category being edited, if any.
+ */
+function categoryDetails($pdo, $userId, $input, $categoryId = null) {
+    $details = [];
+
+    if (array_key_exists('parent_id', $input)) {
+        $parentId = !empty($input['parent_id']) ? $input['parent_id'] : null;
+
+        // Walk up from the new parent to make sure the category would not become its own ancestor
+        $ancestorId = $parentId;
+        while ($ancestorId !== null) {
+            if ($ancestorId === $categoryId) {
+                errorResponse('A category cannot be placed under itself or one of its subcategories');
+            }
+            $ancestor = findCategory($pdo, $userId, $ancestorId);
+            if (!$ancestor) {
+                errorResponse('Parent category not found', 404);
+            }
+            $ancestorId = $ancestor['parent_id'];
+        }
+
+        $details['parent_id'] = $parentId;
+    }
+
+    if (array_key_exists('color', $input)) {
+        $color = !empty($input['color']) ? strtolower(trim($input['color'])) : null;
+        if ($color !== null && !preg_match('/^#[0-9a-f]{6}$/', $color)) {
+            errorResponse('Colour must be a hex value like #22c55e');
+        }
+        $details['color'] = $color;
+    }
+
+    if (array_key_exists('icon', $input)) {
+        $icon = !empty($input['icon']) ? $input['icon'] : null;
+        if ($icon !== null && !in_array($icon, CATEGORY_ICONS, true)) {
+            errorResponse('Unknown icon');
+        }
+        $details['icon'] = $icon;
+    }
+
+    return $details;
+}
+
+/**
+ * Rewrite a category name wherever it is stored. Call inside a transaction.
+ * When merging, $to already exists and keeps its own tax rate.
+ */
+function renameCategoryReferences($pdo, $userId, $from, $to) {
+    $stmt = $pdo->prepare('UPDATE products SET category = ? WHERE user_id = ? AND category = ?');
+    $stmt->execute([$to, $userId, $from]);
+
+    $stmt = $pdo->prepare('SELECT category_tax_rates FROM settings WHERE user_id = ? FOR UPDATE');
+    $stmt->execute([$userId]);
+    $rates = json_decode($stmt->fetchColumn() ?: '', true) ?: [];
+    if (array_key_exists($from, $rates) && $from !== $to) {
+        if (!array_key_exists($to, $rates)) {
+            $rates[$to] = $rates[$from];
+        }
+        unset($rates[$from]);
+        $stmt = $pdo->prepare('UPDATE settings SET category_tax_rates = ? WHERE user_id = ?');
+        $stmt->execute([json_encode((object) $rates), $userId]);
+    }
+
+    // Lines captured on past sales and returns, so reports by category stay together
+    foreach (['invoices', 'credit_notes'] as $table) {
+        $stmt = $pdo->prepare("
+            SELECT id, products FROM $table
+            WHERE user_id = ? AND JSON_SEARCH(products, 'one', ?, NULL, '$[*].category') IS NOT NULL
+            FOR UPDATE
+        ");
+        $stmt->execute([$userId, escapeJsonSearch($from)]);
+
+        $update = $pdo->prepare("UPDATE $table SET products = ? WHERE id = ?");
+        foreach ($stmt->fetchAll() as $document) {
+            $lines = json_decode($document['products'], true) ?: [];
+            foreach ($lines as &$line) {
+                if (($line['category'] ?? null) === $from) {
+                    $line['category'] = $to;
+                }
+            }
+            unset($line);
+            $update->execute([json_encode($lines), $document['id']]);
+        }
+    }
+}
+
+/**
+ * JSON_SEARCH matches like LIKE, so a literal % or _ in a name has to be escaped
+ */
+function escapeJsonSearch($value) {
+    return addcslashes($value, '\\%_');
+}
+
+/**
+ * Names of a category and all of its subcategories, for filtering by a parent category
+ */
+function categoryNamesWithDescendants($pdo, $userId, $categoryId) {
+    $stmt = $pdo->prepare('SELECT id, name, parent_id FROM categories WHERE user_id = ?');
+    $stmt->execute([$userId]);
+    $categories = $stmt->fetchAll();
+
+    $names = [];
+    $queue = [$categoryId];
+    while (!empty($queue)) {
+        $id = array_shift($queue);
+        foreach ($categories as $category) {
+            if ($category['id'] === $id) {
+                $names[] = $category['name'];
+            }
+            if ($category['parent_id'] === $id) {
+                $queue[] = $category['id'];
+            }
+        }
+    }
+
+    return $names;
+}
+
+/**
+ * SQL condition and params matching documents with at least one line in one of the named categories.
+ * Only lines that captured their category at the time of sale can match.
+ */
+function categoryLineCondition($names, $column = 'products') {
+    if (empty($names)) {
+        return ['1 = 0', []];
+    }
+
+    $conditions = array_fill(0, count($names), "JSON_SEARCH($column, 'one', ?, NULL, '$[*].category') IS NOT NULL");
+
+    return ['(' . implode(' OR ', $conditions) . ')', array_map('escapeJsonSearch', $names)];
+}
@@ -0,0 +1,47 @@
+<?php
+/**
+ * Credit Note Helpers
+ * Works out the value of returned invoice lines and how much has been returned already
+ */
+
+/**
+ * Quantities already returned per invoice line index
+ */
+function returnedQuantities($pdo, $invoiceId) {
+    $stmt = $pdo->prepare('SELECT products FROM credit_notes WHERE invoice_id = ?');
+    $stmt->execute([$invoiceId]);
+
+    $returned = [];
+    foreach ($stmt->fetchAll() as $row) {
+        foreach (json_decode($row['products'], true) ?: [] as $line) {
+            $index = (int) $line['line_index'];
+            $returned[$index] = ($returned[$index] ?? 0) + (int) $line['quantity'];
+        }
+    }
+
+    return $returned;
+}
+
+/**
+ * Value of returning $quantity more units of an invoice line after $alreadyReturned.
+ * Each amount is the difference between two cumulative roundings, so returning a line
+ * in several goes adds up to exactly what was charged for it.
+ */
+function creditNoteLine($line, $lineIndex, $quantity, $alreadyReturned, $invoiceTaxShare) {
+    $sold = (int) $line['quantity'];
+    $portion = function ($amount) use ($sold, $quantity, $alreadyReturned) {
+        $before = round($amount * $alreadyReturned / $sold, 2);
+        $after = round($amount * ($alreadyReturned + $quantity) / $sold, 2);
+        return round($after - $before, 2);
+    };
+
+    $creditLine = $line;
+    $creditLine['line_index'] = $lineIndex;
+    $creditLine['quantity'] = $quantity;
+    $creditLine['discount_amount'] = $portion((float) ($line['discount_amount'] ?? 0));
+    $creditLine['invoice_discount_share'] = $portion((float) ($line['invoice_discount_share'] ?? 0));
+    // Lines saved before per-line tax was recorded take their share of the invoice tax
+    $creditLine['tax_amount'] = $portion(isset($line['tax_amount']) ? (float) $line['tax_amount'] : $invoiceTaxShare);
+
+    return $creditLine;
+}
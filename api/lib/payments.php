@@ -0,0 +1,140 @@
+<?php
+/**
+ * Payment Helpers
+ * Validates tenders taken at checkout or later against an invoice, and totals revenue by payment method
+ */
+
+const PAYMENT_METHODS = ['cash', 'card', 'transfer', 'mobile_money'];
+
+/**
+ * Validate one tender. Cash keeps what was handed over in tendered; the amount is what was applied.
+ * At checkout a cash tender may apply nothing and be all change; a later payment must apply something.
+ */
+function normalisePayment($payment, $allowChangeOnly = false) {
+    $method = $payment['method'] ?? '';
+    if (!in_array($method, PAYMENT_METHODS, true)) {
+        errorResponse("Invalid payment method: $method");
+    }
+
+    $amount = round(floatval($payment['amount'] ?? 0), 2);
+    $tendered = $method === 'cash' ? round(floatval($payment['tendered'] ?? $amount), 2) : $amount;
+    // Cash handed over once other tenders had covered the total applies nothing and is all change
+    if ($amount < 0 || $tendered <= 0 || ($amount == 0 && !$allowChangeOnly)) {
+        errorResponse('Payment amounts must be greater than zero');
+    }
+
+    $entry = ['method' => $method, 'amount' => $amount];
+
+    if ($method === 'cash') {
+        if ($tendered < $amount) {
+            errorResponse('Cash tendered cannot be less than the amount applied');
+        }
+        $entry['tendered'] = $tendered;
+    }
+
+    if (!empty($payment['reference'])) {
+        $entry['reference'] = trim($payment['reference']);
+    }
+
+    $entry['paid_at'] = date('c');
+
+    return $entry;
+}
+
+/**
+ * Paid, partially paid or unpaid, allowing a cent of rounding
+ */
+function paymentStatus($total, $amountPaid) {
+    if ($amountPaid >= round($total, 2) - 0.01) {
+        return 'paid';
+    }
+    return $amountPaid > 0 ? 'partial' : 'unpaid';
+}
+
+/**
+ * Validate and clean the payments sent with a new invoice.
+ * Short payment is only accepted for credit sales; overpayment never is.
+ * Returns [payments, amountPaid, changeDue, status].
+ */
+function normalisePayments($payments, $total, $allowCredit = false) {
+    if (!is_array($payments)) {
+        $payments = [];
+    }
+    if (count($payments) === 0 && !$allowCredit) {
+        errorResponse('At least one payment is required');
+    }
+
+    $clean = [];
+    $amountPaid = 0;
+    $changeDue = 0;
+
+    foreach ($payments as $payment) {
+        $entry = normalisePayment($payment, true);
+        if (isset($entry['tendered'])) {
+            $changeDue += $entry['tendered'] - $entry['amount'];
+        }
+        $amountPaid += $entry['amount'];
+        $clean[] = $entry;
+    }
+
+    $amountPaid = round($amountPaid, 2);
+
+    if ($amountPaid > round($total, 2) + 0.01) {
+        errorResponse('Payments exceed the invoice total');
+    }
+    if (!$allowCredit && $amountPaid < round($total, 2) - 0.01) {
+        errorResponse('Payments do not cover the invoice total');
+    }
+
+    return [$clean, $amountPaid, round($changeDue, 2), paymentStatus($total, $amountPaid)];
+}
+
+/**
+ * Total invoice payments by method. Whatever is still owed on credit sales is
+ * reported as "credit", money paid back on credit notes comes off its refund
+ * method, and invoices saved before payments were captured count their full
+ * total under "unrecorded".
+ */
+function summarisePaymentMethods($invoices, $creditNotes = []) {
+    $totals = [];
+
+    $add = function ($method, $amount, $count = 1) use (&$totals) {
+        if (!isset($totals[$method])) {
+            $totals[$method] = ['method' => $method, 'total' => 0, 'count' => 0];
+        }
+        $totals[$method]['total'] = round($totals[$method]['total'] + $amount, 2);
+        $totals[$method]['count'] += $count;
+    };
+
+    foreach ($invoices as $invoice) {
+        if ($invoice['payments'] === null) {
+            $add('unrecorded', (float) $invoice['total']);
+            continue;
+        }
+
+        $payments = json_decode($invoice['payments'], true) ?: [];
+        $paid = 0;
+
+        foreach ($payments as $payment) {
+            $add($payment['method'], (float) $payment['amount']);
+            $paid += (float) $payment['amount'];
+        }
+
+        $outstanding = round((float) $invoice['total'] - (float) ($invoice['returned_total'] ?? 0) - $paid, 2);
+        if ($outstanding > 0.01) {
+            $add('credit', $outstanding);
+        }
+    }
+
+    foreach ($creditNotes as $creditNote) {
+        if ((float) $creditNote['refunded_amount'] > 0 && $creditNote['refund_method']) {
+            $add($creditNote['refund_method'], -(float) $creditNote['refunded_amount'], 0);
+        }
+    }
+
+    usort($totals, function ($a, $b) {
+        return $b['total'] <=> $a['total'];
+    });
+
+    return array_values($totals);
+}
@@ -0,0 +1,322 @@
+<?php
+/**
+ * Products and Variants
+ * A variant is an ordinary product row with a parent_id, so stock, sales and purchasing
+ * work on variants unchanged. A parent with variants only groups them and is not sold itself.
+ * Variant names are the parent name plus the attribute values, e.g. "Router - TP-Link - 300Mbps",
+ * so receipts and the stock ledger read correctly without knowing about variants.
+ *
+ * A bundle is a product with components. It has its own price but holds no stock:
+ * selling one takes each component out of stock instead.
+ */
+
+/**
+ * Clean up [{name, value}] attribute pairs from input, dropping empty ones.
+ * Returns null if no attribute has a value.
+ */
+function normaliseVariantAttributes($attributes) {
+    if (!is_array($attributes)) {
+        return null;
+    }
+
+    $clean = [];
+    foreach ($attributes as $attribute) {
+        $name = trim((string) ($attribute['name'] ?? ''));
+        $value = trim((string) ($attribute['value'] ?? ''));
+        if ($value !== '') {
+            $clean[] = ['name' => mb_substr($name, 0, 50), 'value' => mb_substr($value, 0, 100)];
+        }
+    }
+
+    return empty($clean) ? null : $clean;
+}
+
+function variantName($parentName, $attributes) {
+    return $parentName . ' - ' . implode(' / ', array_column($attributes, 'value'));
+}
+
+/**
+ * Load a product that is to become a parent, failing the request if it cannot be one.
+ * $productId is the product being made a variant, when it already exists.
+ */
+function findVariantParent($pdo, $userId, $parentId, $productId = null) {
+    $stmt = $pdo->prepare('
+        SELECT id, name, price, category, tax_rate_id, parent_id, stock,
+            (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count,
+            (SELECT COUNT(*) FROM product_components c WHERE c.bundle_id = products.id) AS component_count,
+            (SELECT COUNT(*) FROM product_components c WHERE c.component_id = products.id) AS bundle_count
+        FROM products
+        WHERE id = ? AND user_id = ?
+    ');
+    $stmt->execute([$parentId, $userId]);
+    $parent = $stmt->fetch();
+
+    if (!$parent) {
+        errorResponse('Parent product not found', 404);
+    }
+    if ($parent['id'] === $productId) {
+        errorResponse('A product cannot be a variant of itself');
+    }
+    if ($parent['parent_id'] !== null) {
+        errorResponse("{$parent['name']} is itself a variant", 409);
+    }
+    if ((int) $parent['component_count'] > 0) {
+        errorResponse("{$parent['name']} is a bundle and cannot have variants", 409);
+    }
+    if ((int) $parent['bundle_count'] > 0) {
+        errorResponse("{$parent['name']} is part of a bundle - take it out of the bundle before adding variants", 409);
+    }
+    // Once it has variants the parent is never sold, so stock left on it could not be sold either
+    if ((int) $parent['variant_count'] === 0 && (int) $parent['stock'] !== 0) {
+        errorResponse("Move the {$parent['stock']} in stock on {$parent['name']} to a variant before adding variants", 409);
+    }
+
+    return $parent;
+}
+
+/**
+ * Keep variant names in step with their parent after it is renamed
+ */
+function renameVariants($pdo, $userId, $parentId, $parentName) {
+    $stmt = $pdo->prepare('SELECT id, variant_attributes FROM products WHERE user_id = ? AND parent_id = ?');
+    $stmt->execute([$userId, $parentId]);
+
+    $update = $pdo->prepare('UPDATE products SET name = ? WHERE id = ?');
+    foreach ($stmt->fetchAll() as $variant) {
+        $attributes = json_decode($variant['variant_attributes'] ?? '', true) ?: [];
+        if (!empty($attributes)) {
+            $update->execute([variantName($parentName, $attributes), $variant['id']]);
+        }
+    }
+}
+
+/**
+ * Names of the products among $productIds that have variants and so cannot be sold or ordered directly
+ */
+function findParentProducts($pdo, $userId, $productIds) {
+    $productIds = array_values(array_unique(array_filter($productIds)));
+    if (empty($productIds)) {
+        return [];
+    }
+
+    $placeholders = implode(',', array_fill(0, count($productIds), '?'));
+    $stmt = $pdo->prepare("
+        SELECT DISTINCT p.name
+        FROM products p
+        JOIN products v ON v.parent_id = p.id
+        WHERE p.user_id = ? AND p.id IN ($placeholders)
+    ");
+    $stmt->execute(array_merge([$userId], $productIds));
+
+    return $stmt->fetchAll(PDO::FETCH_COLUMN);
+}
+
+/**
+ * Parent id and name of every variant, keyed by the variant's id, for rolling sales up to the parent
+ */
+function productParents($pdo, $userId) {
+    $stmt = $pdo->prepare('
+        SELECT v.id, p.id AS parent_id, p.name AS parent_name
+        FROM products v
+        JOIN products p ON p.id = v.parent_id
+        WHERE v.user_id = ?
+    ');
+    $stmt->execute([$userId]);
+
+    $parents = [];
+    foreach ($stmt->fetchAll() as $row) {
+        $parents[$row['id']] = ['id' => $row['parent_id'], 'name' => $row['parent_name']];
+    }
+
+    return $parents;
+}
+
+/**
+ * Components of bundles, keyed by bundle id, as [{product_id, name, sku, quantity, stock, cost_price}].
+ * Pass null for $bundleIds to load every bundle the user has.
+ */
+function findBundleComponents($pdo, $userId, $bundleIds = null) {
+    $sql = '
+        SELECT c.bundle_id, c.component_id, c.quantity, p.name, p.sku, p.stock, p.cost_price
+        FROM product_components c
+        JOIN products p ON p.id = c.component_id
+        WHERE p.user_id = ?
+    ';
+    $params = [$userId];
+
+    if ($bundleIds !== null) {
+        $bundleIds = array_values(array_unique(array_filter($bundleIds)));
+        if (empty($bundleIds)) {
+            return [];
+        }
+        $sql .= ' AND c.bundle_id IN (' . implode(',', array_fill(0, count($bundleIds), '?')) . ')';
+        $params = array_merge($params, $bundleIds);
+    }
+
+    $stmt = $pdo->prepare($sql . ' ORDER BY p.name ASC');
+    $stmt->execute($params);
+
+    $components = [];
+    foreach ($stmt->fetchAll() as $row) {
+        $components[$row['bundle_id']][] = [
+            'product_id' => $row['component_id'],
+            'name' => $row['name'],
+            'sku' => $row['sku'],
+            'quantity' => (int) $row['quantity'],
+            'stock' => (int) $row['stock'],
+            'cost_price' => $row['cost_price'] !== null ? (float) $row['cost_price'] : null
+        ];
+    }
+
+    return $components;
+}
+
+/**
+ * Names of the products among $productIds that are bundles and so hold no stock of their own
+ */
+function findBundleProducts($pdo, $userId, $productIds) {
+    $productIds = array_values(array_unique(array_filter($productIds)));
+    if (empty($productIds)) {
+        return [];
+    }
+
+    $placeholders = implode(',', array_fill(0, count($productIds), '?'));
+    $stmt = $pdo->prepare("
+        SELECT DISTINCT p.name
+        FROM products p
+        JOIN product_components c ON c.bundle_id = p.id
+        WHERE p.user_id = ? AND p.id IN ($placeholders)
+    ");
+    $stmt->execute(array_merge([$userId], $productIds));
+
+    return $stmt->fetchAll(PDO::FETCH_COLUMN);
+}
+
+/**
+ * Check [{product_id, quantity}] components from input, failing the request if the product
+ * cannot be a bundle or a component cannot go in it. Returns quantities keyed by component id;
+ * an empty list turns a bundle back into an ordinary product.
+ * $product is the bundle's row with id, name, stock, parent_id and variant_count.
+ */
+function normaliseBundleComponents($pdo, $userId, $product, $components) {
+    if (!is_array($components)) {
+        errorResponse('Components must be a list');
+    }
+
+    $quantities = [];
+    foreach ($components as $component) {
+        $componentId = (string) ($component['product_id'] ?? '');
+        $quantity = intval($component['quantity'] ?? 0);
+
+        if ($componentId === '') {
+            errorResponse('Every component needs a product');
+        }
+        if ($quantity < 1) {
+            errorResponse('Component quantities must be at least 1');
+        }
+        // The same product listed twice is one component with the combined quantity
+        $quantities[$componentId] = ($quantities[$componentId] ?? 0) + $quantity;
+    }
+
+    if (!empty($quantities)) {
+        if ($product['parent_id'] !== null) {
+            errorResponse('A variant cannot be a bundle', 409);
+        }
+        if ((int) $product['variant_count'] > 0) {
+            errorResponse('A product with variants cannot be a bundle', 409);
+        }
+        if (isset($quantities[$product['id']])) {
+            errorResponse('A bundle cannot contain itself');
+        }
+        // Stock left on the bundle could never be sold, since sales take it from the components
+        if ((int) $product['stock'] !== 0) {
+            errorResponse("Adjust the stock of {$product['name']} to 0 before making it a bundle", 409);
+        }
+
+        $stmt = $pdo->prepare('SELECT COUNT(*) FROM product_components WHERE component_id = ?');
+        $stmt->execute([$product['id']]);
+        if ((int) $stmt->fetchColumn() > 0) {
+            errorResponse("{$product['name']} is part of another bundle, so it cannot be a bundle itself", 409);
+        }
+
+        $placeholders = implode(',', array_fill(0, count($quantities), '?'));
+        $stmt = $pdo->prepare("
+            SELECT id, name,
+                (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count,
+                (SELECT COUNT(*) FROM product_components c WHERE c.bundle_id = products.id) AS component_count
+            FROM products
+            WHERE user_id = ? AND id IN ($placeholders)
+        ");
+        $stmt->execute(array_merge([$userId], array_keys($quantities)));
+        $found = $stmt->fetchAll();
+
+        if (count($found) !== count($quantities)) {
+            errorResponse('Component product not found', 404);
+        }
+        foreach ($found as $component) {
+            if ((int) $component['variant_count'] > 0) {
+                errorResponse("Choose a variant of {$component['name']}");
+            }
+            if ((int) $component['component_count'] > 0) {
+                errorResponse("{$component['name']} is a bundle - add its components instead");
+            }
+        }
+    }
+
+    return $quantities;
+}
+
+/**
+ * Replace a bundle's components with quantities from normaliseBundleComponents()
+ */
+function saveBundleComponents($pdo, $productId, $quantities) {
+    $stmt = $pdo->prepare('DELETE FROM product_components WHERE bundle_id = ?');
+    $stmt->execute([$productId]);
+
+    $insert = $pdo->prepare('INSERT INTO product_components (bundle_id, component_id, quantity) VALUES (?, ?, ?)');
+    foreach ($quantities as $componentId => $quantity) {
+        $insert->execute([$productId, $componentId, $quantity]);
+    }
+}
+
+/**
+ * Copy each bundle line's components onto the line as [{id, name, quantity}], quantity being
+ * per bundle sold. Stock, voids and returns then follow the bundle as it was made up when sold.
+ * Any components sent by the client are replaced.
+ */
+function captureBundleComponents($pdo, $userId, $lines) {
+    $bundleIds = [];
+    foreach ($lines as $line) {
+        if (isStockedLine($line)) {
+            $bundleIds[] = $line['id'];
+        }
+    }
+
+    $components = findBundleComponents($pdo, $userId, $bundleIds);
+
+    foreach ($lines as &$line) {
+        unset($line['components']);
+        if (isStockedLine($line) && !empty($components[$line['id']])) {
+            $line['components'] = array_map(function ($component) {
+                return ['id' => $component['product_id'], 'name' => $component['name'], 'quantity' => $component['quantity']];
+            }, $components[$line['id']]);
+        }
+    }
+
+    return $lines;
+}
+
+/**
+ * Cast a products row for JSON output, with its bundle components if it has any
+ */
+function formatProduct($product, $components = []) {
+    $product['price'] = (float) $product['price'];
+    $product['cost_price'] = $product['cost_price'] !== null ? (float) $product['cost_price'] : null;
+    $product['stock'] = (int) $product['stock'];
+    $product['reorder_point'] = (int) $product['reorder_point'];
+    $product['reorder_quantity'] = (int) $product['reorder_quantity'];
+    $product['variant_attributes'] = $product['variant_attributes'] !== null ? json_decode($product['variant_attributes'], true) : null;
+    $product['variant_count'] = (int) ($product['variant_count'] ?? 0);
+    $product['components'] = $components;
+    return $product;
+}
@@ -0,0 +1,209 @@
+<?php
+/**
+ * Profit Helpers
+ * Unit costs are captured on invoice lines at the time of sale, so margins reflect
+ * what the goods cost then rather than the product's current cost price
+ */
+
+/**
+ * Copy each stocked line's current cost price and category onto the line.
+ * Lines for products without a cost price get a null unit_cost and count as uncosted.
+ * A bundle line costs what its components cost, and is uncosted if any of them is.
+ */
+function captureLineCosts($pdo, $userId, $lines) {
+    $productIds = [];
+    foreach ($lines as $line) {
+        if (isStockedLine($line)) {
+            $productIds[] = $line['id'];
+            foreach ($line['components'] ?? [] as $component) {
+                $productIds[] = $component['id'];
+            }
+        }
+    }
+
+    $products = [];
+    if (!empty($productIds)) {
+        $placeholders = implode(',', array_fill(0, count($productIds), '?'));
+        $stmt = $pdo->prepare("SELECT id, cost_price, category FROM products WHERE user_id = ? AND id IN ($placeholders)");
+        $stmt->execute(array_merge([$userId], $productIds));
+        foreach ($stmt->fetchAll() as $product) {
+            $products[$product['id']] = $product;
+        }
+    }
+
+    foreach ($lines as &$line) {
+        $product = isStockedLine($line) ? ($products[$line['id']] ?? null) : null;
+        $line['unit_cost'] = $product && $product['cost_price'] !== null ? (float) $product['cost_price'] : null;
+
+        if ($product && !empty($line['components'])) {
+            $line['unit_cost'] = 0;
+            foreach ($line['components'] as $component) {
+                $costPrice = $products[$component['id']]['cost_price'] ?? null;
+                if ($costPrice === null) {
+                    $line['unit_cost'] = null;
+                    break;
+                }
+                $line['unit_cost'] = round($line['unit_cost'] + (float) $costPrice * (int) $component['quantity'], 2);
+            }
+        }
+        $line['category'] = $product ? $product['category'] : ($line['category'] ?? 'Other');
+    }
+
+    return $lines;
+}
+
+/**
+ * Revenue from a line after discounts, excluding tax
+ */
+function lineNetRevenue($line, $pricesIncludeTax, $fallbackTax) {
+    $net = (float) $line['price'] * (int) $line['quantity']
+        - (float) ($line['discount_amount'] ?? 0)
+        - (float) ($line['invoice_discount_share'] ?? 0);
+
+    if ($pricesIncludeTax) {
+        $net -= isset($line['tax_amount']) ? (float) $line['tax_amount'] : $fallbackTax;
+    }
+
+    return $net;
+}
+
+/**
+ * Gross profit for a set of invoices and credit notes. Each document carries its products
+ * JSON, subtotal, tax, prices_include_tax and a sign (1 for sales, -1 for returns).
+ * Lines without a captured unit cost are reported as uncosted revenue and left out of the margin.
+ * $categories maps product id to its current category, for lines sold before categories were captured.
+ * $parents maps variant ids to their parent (see productParents()) to roll variant sales up to the parent.
+ * $onlyCategories, when given, limits the summary to lines in those categories.
+ */
+function summariseProfit($documents, $categories = [], $parents = [], $onlyCategories = null) {
+    $byProduct = [];
+    $byCategory = [];
+    $totals = ['quantity' => 0, 'revenue' => 0, 'costedRevenue' => 0, 'cost' => 0];
+
+    foreach ($documents as $document) {
+        $sign = $document['sign'];
+        $subtotal = (float) $document['subtotal'];
+
+        foreach (json_decode($document['products'], true) ?: [] as $line) {
+            $gross = (float) $line['price'] * (int) $line['quantity'];
+            $fallbackTax = $subtotal > 0 ? (float) $document['tax'] * $gross / $subtotal : 0;
+            $revenue = $sign * lineNetRevenue($line, !empty($document['prices_include_tax']), $fallbackTax);
+            $costed = isset($line['unit_cost']) && $line['unit_cost'] !== null;
+            $cost = $costed ? $sign * (float) $line['unit_cost'] * (int) $line['quantity'] : 0;
+            $quantity = $sign * (int) $line['quantity'];
+
+            $productKey = isStockedLine($line) ? $line['id'] : 'custom:' . $line['name'];
+            $category = $line['category'] ?? ($categories[$line['id']] ?? 'Other');
+            if ($onlyCategories !== null && !in_array($category, $onlyCategories, true)) {
+                continue;
+            }
+            $parent = isStockedLine($line) ? ($parents[$line['id']] ?? null) : null;
+            if ($parent) {
+                $productKey = $parent['id'];
+            }
+
+            if (!isset($byProduct[$productKey])) {
+                $byProduct[$productKey] = [
+                    'product_id' => isStockedLine($line) ? $productKey : null,
+                    'name' => $parent ? $parent['name'] : $line['name'],
+                    'category' => $category,
+                    'quantity' => 0,
+                    'revenue' => 0,
+                    'costedRevenue' => 0,
+                    'cost' => 0
+                ];
+            }
+            if (!isset($byCategory[$category])) {
+                $byCategory[$category] = ['category' => $category, 'quantity' => 0, 'revenue' => 0, 'costedRevenue' => 0, 'cost' => 0];
+            }
+
+            $add = function (&$bucket) use ($quantity, $revenue, $cost, $costed) {
+                $bucket['quantity'] += $quantity;
+                $bucket['revenue'] += $revenue;
+                if ($costed) {
+                    $bucket['costedRevenue'] += $revenue;
+                    $bucket['cost'] += $cost;
+                }
+            };
+            $add($byProduct[$productKey]);
+            $add($byCategory[$category]);
+            $add($totals);
+        }
+    }
+
+    $finish = function ($bucket) {
+        $bucket['revenue'] = round($bucket['revenue'], 2);
+        $bucket['cost'] = round($bucket['cost'], 2);
+        $bucket['grossProfit'] = round($bucket['costedRevenue'] - $bucket['cost'], 2);
+        $bucket['margin'] = abs($bucket['costedRevenue']) >= 0.01
+            ? round($bucket['grossProfit'] / $bucket['costedRevenue'] * 100, 1)
+            : null;
+        $bucket['uncostedRevenue'] = round($bucket['revenue'] - $bucket['costedRevenue'], 2);
+        unset($bucket['costedRevenue']);
+        return $bucket;
+    };
+
+    $byGrossProfit = function ($a, $b) {
+        return $b['grossProfit'] <=> $a['grossProfit'] ?: $b['revenue'] <=> $a['revenue'];
+    };
+
+    $products = array_map($finish, array_values($byProduct));
+    usort($products, $byGrossProfit);
+    $categoryRows = array_map($finish, array_values($byCategory));
+    usort($categoryRows, $byGrossProfit);
+
+    return $finish($totals) + [
+        'byProduct' => $products,
+        'byCategory' => $categoryRows
+    ];
+}
+
+/**
+ * Invoices and credit notes in a date range, tagged with their sign for summariseProfit().
+ * Voided invoices are left out; null dates leave that end of the range open.
+ */
+function profitDocuments($pdo, $userId, $from = null, $to = null) {
+    $range = '';
+    $params = [$userId];
+    if ($from) {
+        $range .= ' AND DATE(created_at) >= ?';
+        $params[] = $from;
+    }
+    if ($to) {
+        $range .= ' AND DATE(created_at) <= ?';
+        $params[] = $to;
+    }
+
+    $stmt = $pdo->prepare("
+        SELECT subtotal, tax, prices_include_tax, products 
+        FROM invoices 
+        WHERE user_id = ? AND voided_at IS NULL$range
+    ");
+    $stmt->execute($params);
+    $documents = [];
+    foreach ($stmt->fetchAll() as $invoice) {
+        $documents[] = $invoice + ['sign' => 1];
+    }
+
+    $stmt = $pdo->prepare("
+        SELECT subtotal, tax, prices_include_tax, products 
+        FROM credit_notes 
+        WHERE user_id = ?$range
+    ");
+    $stmt->execute($params);
+    foreach ($stmt->fetchAll() as $creditNote) {
+        $documents[] = $creditNote + ['sign' => -1];
+    }
+
+    return $documents;
+}
+
+/**
+ * Current category of every product, for lines sold before categories were captured
+ */
+function productCategories($pdo, $userId) {
+    $stmt = $pdo->prepare('SELECT id, category FROM products WHERE user_id = ?');
+    $stmt->execute([$userId]);
+
+    return $stmt->fetchAll(PDO::FETCH_KEY_PAIR);
+}
@@ -0,0 +1,56 @@
+<?php
+/**
+ * Purchasing Helpers
+ * Shared by the purchase order endpoints
+ */
+
+const PURCHASE_ORDER_STATUSES = ['ordered', 'partial', 'received', 'cancelled'];
+
+/**
+ * Decode JSON and cast numeric columns from a purchase order row
+ */
+function formatPurchaseOrder($order) {
+    $order['items'] = json_decode($order['items'], true) ?: [];
+    foreach ($order['items'] as &$item) {
+        $item['quantity'] = (int) $item['quantity'];
+        $item['received_quantity'] = (int) ($item['received_quantity'] ?? 0);
+        $item['unit_cost'] = (float) $item['unit_cost'];
+    }
+    unset($item);
+    $order['total'] = (float) $order['total'];
+    $order['received_total'] = (float) $order['received_total'];
+    return $order;
+}
+
+/**
+ * Fetch one purchase order with its supplier name, or false if it is not the user's
+ */
+function findPurchaseOrder($pdo, $userId, $orderId) {
+    $stmt = $pdo->prepare('
+        SELECT po.*, s.name AS supplier_name 
+        FROM purchase_orders po 
+        JOIN suppliers s ON s.id = po.supplier_id 
+        WHERE po.id = ? AND po.user_id = ?
+    ');
+    $stmt->execute([$orderId, $userId]);
+    $order = $stmt->fetch();
+
+    return $order ? formatPurchaseOrder($order) : false;
+}
+
+/**
+ * Status after a receipt: received once every line is in full, partial once anything has arrived
+ */
+function purchaseOrderStatus($items) {
+    $ordered = 0;
+    $received = 0;
+    foreach ($items as $item) {
+        $ordered += (int) $item['quantity'];
+        $received += min((int) $item['received_quantity'], (int) $item['quantity']);
+    }
+
+    if ($received >= $ordered) {
+        return 'received';
+    }
+    return $received > 0 ? 'partial' : 'ordered';
+}
@@ -0,0 +1,28 @@
+<?php
+/**
+ * Receipt Verification
+ * Each invoice is signed when it is created; the signature goes in the receipt's QR code
+ * so anyone holding the receipt can check it against the records without signing in
+ */
+
+/**
+ * HMAC of what the receipt shows: number, date, customer, lines and total.
+ * Changing any of them in the database afterwards no longer matches the printed code.
+ */
+function receiptVerificationHash($invoice) {
+    $products = is_string($invoice['products']) ? json_decode($invoice['products'], true) : $invoice['products'];
+
+    $content = [
+        $invoice['user_id'],
+        $invoice['invoice_number'],
+        $invoice['created_at'],
+        $invoice['customer_name'],
+        number_format((float) $invoice['total'], 2, '.', '')
+    ];
+    foreach ($products as $line) {
+        $content[] = intval($line['quantity'] ?? 0) . ' x ' . ($line['name'] ?? '') . ' @ '
+            . number_format((float) ($line['price'] ?? 0), 2, '.', '');
+    }
+
+    return hash_hmac('sha256', implode("\n", $content), RECEIPT_SIGNING_SECRET);
+}
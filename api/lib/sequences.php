@@ -0,0 +1,125 @@
+<?php
+/**
+ * Document Number Sequences
+ * Gap-free per-user counters for numbered documents such as invoices and credit notes
+ */
+
+/**
+ * Claim the next value of a named counter. The upsert and LAST_INSERT_ID()
+ * make this atomic, so concurrent requests never receive the same number.
+ * A period (e.g. a year) starts its own counter from 1, or from just past
+ * $floor when values up to it have already been used.
+ */
+function nextSequenceValue($pdo, $userId, $name, $period = '', $floor = 0) {
+    $stmt = $pdo->prepare('
+        INSERT INTO sequences (user_id, name, period, last_value) 
+        VALUES (?, ?, ?, LAST_INSERT_ID(? + 1))
+        ON DUPLICATE KEY UPDATE last_value = LAST_INSERT_ID(GREATEST(last_value, ?) + 1)
+    ');
+    $stmt->execute([$userId, $name, $period, $floor, $floor]);
+
+    return (int) $pdo->lastInsertId();
+}
+
+/**
+ * Build an invoice number such as INV-2025-000042 from the numbering settings
+ */
+function formatInvoiceNumber($format, $sequence, $year) {
+    $number = str_pad((string) $sequence, $format['invoice_number_padding'], '0', STR_PAD_LEFT);
+
+    return $format['invoice_prefix'] . ($format['invoice_number_include_year'] ? $year . '-' : '') . $number;
+}
+
+/**
+ * The numbering settings for a user, or the defaults when none are saved
+ */
+function invoiceNumberFormat($pdo, $userId) {
+    $stmt = $pdo->prepare('
+        SELECT invoice_prefix, invoice_number_padding, invoice_number_include_year, invoice_number_yearly_reset 
+        FROM settings 
+        WHERE user_id = ?
+    ');
+    $stmt->execute([$userId]);
+    $format = $stmt->fetch() ?: [
+        'invoice_prefix' => 'INV-',
+        'invoice_number_padding' => 6,
+        'invoice_number_include_year' => 1,
+        'invoice_number_yearly_reset' => 1
+    ];
+    $format['invoice_number_padding'] = (int) $format['invoice_number_padding'];
+
+    return $format;
+}
+
+/**
+ * Highest sequence already issued in a format, counting purged invoices. Switching the
+ * yearly reset or going back to an earlier prefix or padding moves to another counter,
+ * which has to carry on from here rather than reissue numbers from 1.
+ */
+function highestInvoiceSequence($pdo, $userId, $format, $year) {
+    $lead = $format['invoice_prefix'] . ($format['invoice_number_include_year'] ? $year . '-' : '');
+    $padding = $format['invoice_number_padding'];
+    $highest = 0;
+
+    foreach (['invoices', 'purged_invoices'] as $table) {
+        // Only digits after the lead, padded to this width (longer numbers have no leading zero)
+        $stmt = $pdo->prepare("
+            SELECT MAX(CAST(SUBSTRING(invoice_number, ?) AS UNSIGNED)) FROM $table
+            WHERE user_id = ? AND invoice_number LIKE ?
+              AND SUBSTRING(invoice_number, ?) REGEXP '^[0-9]+$'
+              AND (CHAR_LENGTH(invoice_number) = ? OR (CHAR_LENGTH(invoice_number) > ? AND SUBSTRING(invoice_number, ?, 1) <> '0'))
+        ");
+        $start = mb_strlen($lead) + 1;
+        $length = mb_strlen($lead) + $padding;
+        $stmt->execute([$start, $userId, addcslashes($lead, '\\%_') . '%', $start, $length, $length, $start]);
+        $highest = max($highest, (int) $stmt->fetchColumn());
+    }
+
+    return $highest;
+}
+
+/**
+ * Whether an invoice number has been issued, including to an invoice since purged
+ */
+function invoiceNumberExists($pdo, $userId, $invoiceNumber) {
+    foreach (['invoices', 'purged_invoices'] as $table) {
+        $stmt = $pdo->prepare("SELECT 1 FROM $table WHERE user_id = ? AND invoice_number = ?");
+        $stmt->execute([$userId, $invoiceNumber]);
+        if ($stmt->fetchColumn()) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * The number the next sale would get in a format, without claiming it
+ */
+function upcomingInvoiceNumber($pdo, $userId, $format) {
+    $year = date('Y');
+    $stmt = $pdo->prepare('SELECT last_value FROM sequences WHERE user_id = ? AND name = ? AND period = ?');
+    $stmt->execute([$userId, 'invoice', $format['invoice_number_yearly_reset'] ? $year : '']);
+    $last = max((int) $stmt->fetchColumn(), highestInvoiceSequence($pdo, $userId, $format, $year));
+
+    return formatInvoiceNumber($format, $last + 1, $year);
+}
+
+/**
+ * Claim the next invoice number for a user. Call inside the transaction that saves
+ * the invoice so a failed sale releases its number and the sequence stays gap-free.
+ */
+function nextInvoiceNumber($pdo, $userId) {
+    $format = invoiceNumberFormat($pdo, $userId);
+
+    $year = date('Y');
+    $sequence = nextSequenceValue(
+        $pdo,
+        $userId,
+        'invoice',
+        $format['invoice_number_yearly_reset'] ? $year : '',
+        highestInvoiceSequence($pdo, $userId, $format, $year)
+    );
+
+    return formatInvoiceNumber($format, $sequence, $year);
+}
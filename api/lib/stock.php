@@ -0,0 +1,138 @@
+<?php
+/**
+ * Stock Ledger
+ * Every change to a product's stock goes through here so the ledger explains the current level
+ */
+
+// Movement types a user can post by hand; the rest come from sales, returns and voids
+const MANUAL_STOCK_MOVEMENT_TYPES = ['adjustment', 'receipt', 'write_off'];
+
+/**
+ * Apply a signed quantity to a product's stock and record it in the ledger.
+ * Call inside a transaction: the UPDATE locks the product row so balance_after
+ * matches the order movements are written in.
+ * Returns the movement, or null if the product no longer exists.
+ *
+ * $reference is an optional ['type' => ..., 'id' => ..., 'number' => ...] naming the source document.
+ */
+function recordStockMovement($pdo, $userId, $productId, $type, $quantity, $createdBy, $reason = null, $reference = null) {
+    $stmt = $pdo->prepare('UPDATE products SET stock = stock + ? WHERE id = ? AND user_id = ?');
+    $stmt->execute([$quantity, $productId, $userId]);
+
+    $stmt = $pdo->prepare('SELECT stock FROM products WHERE id = ? AND user_id = ?');
+    $stmt->execute([$productId, $userId]);
+    $balance = $stmt->fetchColumn();
+
+    if ($balance === false) {
+        return null;
+    }
+
+    $movement = [
+        'id' => generateUUID(),
+        'product_id' => $productId,
+        'type' => $type,
+        'quantity' => (int) $quantity,
+        'balance_after' => (int) $balance,
+        'reason' => $reason,
+        'reference_type' => $reference['type'] ?? null,
+        'reference_id' => $reference['id'] ?? null,
+        'reference_number' => $reference['number'] ?? null,
+        'created_by' => $createdBy
+    ];
+
+    $stmt = $pdo->prepare('
+        INSERT INTO stock_movements (
+            id, user_id, product_id, type, quantity, balance_after, reason,
+            reference_type, reference_id, reference_number, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ');
+    $stmt->execute([
+        $movement['id'],
+        $userId,
+        $productId,
+        $type,
+        $movement['quantity'],
+        $movement['balance_after'],
+        $reason,
+        $movement['reference_type'],
+        $movement['reference_id'],
+        $movement['reference_number'],
+        $createdBy
+    ]);
+
+    return $movement;
+}
+
+/**
+ * Whether an invoice line refers to a catalogue product (custom lines carry no stock)
+ */
+function isStockedLine($line) {
+    return !empty($line['id']) && $line['id'] !== 'custom';
+}
+
+/**
+ * Units of stock an invoice line moves, keyed by product id. A bundle line moves its
+ * components (captured on the line when it was sold) rather than the bundle itself.
+ */
+function lineStockQuantities($line) {
+    if (!isStockedLine($line)) {
+        return [];
+    }
+
+    $quantity = intval($line['quantity']);
+    if (empty($line['components'])) {
+        return [$line['id'] => $quantity];
+    }
+
+    $quantities = [];
+    foreach ($line['components'] as $component) {
+        $quantities[$component['id']] = ($quantities[$component['id']] ?? 0) + $quantity * (int) $component['quantity'];
+    }
+
+    return $quantities;
+}
+
+// What happens when a sale asks for more than is on hand
+const STOCK_POLICIES = ['block', 'override', 'allow_negative'];
+
+/**
+ * Compare the stocked lines of a sale with what is on hand. Lines for the same product,
+ * including bundle components, are added together. Locks the product rows, so call inside
+ * the sale's transaction.
+ * Returns one entry per short product: product_id, name, requested, available.
+ */
+function findStockShortages($pdo, $userId, $lines) {
+    $requested = [];
+    foreach ($lines as $line) {
+        foreach (lineStockQuantities($line) as $productId => $quantity) {
+            $requested[$productId] = ($requested[$productId] ?? 0) + $quantity;
+        }
+    }
+
+    if (empty($requested)) {
+        return [];
+    }
+
+    $placeholders = implode(',', array_fill(0, count($requested), '?'));
+    $stmt = $pdo->prepare("
+        SELECT id, name, stock 
+        FROM products 
+        WHERE user_id = ? AND id IN ($placeholders) 
+        FOR UPDATE
+    ");
+    $stmt->execute(array_merge([$userId], array_keys($requested)));
+
+    $shortages = [];
+    foreach ($stmt->fetchAll() as $product) {
+        if ((int) $product['stock'] < $requested[$product['id']]) {
+            $shortages[] = [
+                'product_id' => $product['id'],
+                'name' => $product['name'],
+                'requested' => $requested[$product['id']],
+                'available' => (int) $product['stock']
+            ];
+        }
+    }
+
+    return $shortages;
+}
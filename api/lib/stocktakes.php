@@ -0,0 +1,86 @@
+<?php
+/**
+ * Stocktake Helpers
+ * Shared by the stocktake endpoints
+ */
+
+const STOCKTAKE_STATUSES = ['counting', 'approved', 'cancelled'];
+
+// Ways a counter can record a quantity: add to their running count (scanning) or replace it (typing)
+const STOCKTAKE_COUNT_MODES = ['add', 'set'];
+
+/**
+ * SELECT for stocktake rows with their progress: items snapshotted, items counted and the
+ * net variance of the counted items at cost (items without a cost price are left out)
+ */
+function stocktakeSelectSql() {
+    return '
+        SELECT st.*,
+               (SELECT COUNT(*) FROM stocktake_items i WHERE i.stocktake_id = st.id) AS item_count,
+               (SELECT COUNT(DISTINCT c.product_id) FROM stocktake_counts c WHERE c.stocktake_id = st.id) AS counted_count,
+               (SELECT SUM((
+                    (SELECT SUM(c.quantity) FROM stocktake_counts c
+                     WHERE c.stocktake_id = i.stocktake_id AND c.product_id = i.product_id) - i.system_quantity
+                ) * i.cost_price)
+                FROM stocktake_items i WHERE i.stocktake_id = st.id) AS variance_value
+        FROM stocktakes st
+    ';
+}
+
+/**
+ * Cast numeric columns from a stocktake row
+ */
+function formatStocktake($stocktake) {
+    $stocktake['item_count'] = (int) $stocktake['item_count'];
+    $stocktake['counted_count'] = (int) $stocktake['counted_count'];
+    $stocktake['variance_value'] = round((float) ($stocktake['variance_value'] ?? 0), 2);
+    return $stocktake;
+}
+
+/**
+ * Fetch one stocktake with its items and each counter's count, or false if it is not the user's
+ */
+function findStocktake($pdo, $userId, $stocktakeId) {
+    $stmt = $pdo->prepare(stocktakeSelectSql() . ' WHERE st.id = ? AND st.user_id = ?');
+    $stmt->execute([$stocktakeId, $userId]);
+    $stocktake = $stmt->fetch();
+
+    if (!$stocktake) {
+        return false;
+    }
+
+    $stmt = $pdo->prepare('
+        SELECT product_id, counter, quantity, updated_at
+        FROM stocktake_counts
+        WHERE stocktake_id = ?
+        ORDER BY updated_at ASC, counter ASC
+    ');
+    $stmt->execute([$stocktakeId]);
+    $counts = [];
+    foreach ($stmt->fetchAll() as $count) {
+        $count['quantity'] = (int) $count['quantity'];
+        $counts[$count['product_id']][] = $count;
+    }
+
+    $stmt = $pdo->prepare('
+        SELECT product_id, name, sku, barcode, category, system_quantity, cost_price
+        FROM stocktake_items
+        WHERE stocktake_id = ?
+        ORDER BY name ASC
+    ');
+    $stmt->execute([$stocktakeId]);
+    $stocktake['items'] = array_map(function ($item) use ($counts) {
+        $itemCounts = $counts[$item['product_id']] ?? [];
+        $item['system_quantity'] = (int) $item['system_quantity'];
+        $item['cost_price'] = $item['cost_price'] !== null ? (float) $item['cost_price'] : null;
+        $item['counts'] = array_map(function ($count) {
+            unset($count['product_id']);
+            return $count;
+        }, $itemCounts);
+        // Null until someone counts the product, so "not counted" is distinct from "counted none"
+        $item['counted_quantity'] = empty($itemCounts) ? null : array_sum(array_column($itemCounts, 'quantity'));
+        return $item;
+    }, $stmt->fetchAll());
+
+    return formatStocktake($stocktake);
+}
@@ -134,3 +134,18 @@ function requireAuth() {
     
     return $user;
 }
+
+/**
+ * Require the authenticated user to hold a role - sends 403 error otherwise.
+ * Roles are read from the database so a change takes effect without a new token.
+ * Registration always creates admins; a cashier role has to be set on the users row by hand.
+ */
+function requireRole($pdo, $user, $role) {
+    $stmt = $pdo->prepare('SELECT role FROM users WHERE id = ?');
+    $stmt->execute([$user['id']]);
+    $row = $stmt->fetch();
+    
+    if (!$row || $row['role'] !== $role) {
+        errorResponse('You do not have permission to do this', 403);
+    }
+}
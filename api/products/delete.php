@@ -27,6 +27,26 @@ try {
         errorResponse('Product not found', 404);
     }
     
+    $stmt = $pdo->prepare('SELECT COUNT(*) FROM products WHERE parent_id = ?');
+    $stmt->execute([$productId]);
+    
+    if ((int) $stmt->fetchColumn() > 0) {
+        errorResponse('Delete or detach this product\'s variants first', 409);
+    }
+    
+    $stmt = $pdo->prepare('
+        SELECT b.name 
+        FROM product_components c 
+        JOIN products b ON b.id = c.bundle_id 
+        WHERE c.component_id = ?
+    ');
+    $stmt->execute([$productId]);
+    $bundles = $stmt->fetchAll(PDO::FETCH_COLUMN);
+    
+    if (!empty($bundles)) {
+        errorResponse('Remove this product from ' . implode(', ', $bundles) . ' first', 409);
+    }
+    
     // Delete the product
     $stmt = $pdo->prepare('DELETE FROM products WHERE id = ?');
     $stmt->execute([$productId]);
@@ -0,0 +1,292 @@
+<?php
+/**
+ * Bulk Product Import Endpoint
+ * POST /api/products/import.php
+ * Body: { match_by: 'name' | 'sku', rows: [{ row, name, sku, barcode, price, cost_price, stock, category, reorder_point, reorder_quantity }], dry_run }
+ *
+ * Rows matching an existing product update it, the rest create new products. Blank cells leave
+ * an existing product's value unchanged. Every row is validated first and nothing is written
+ * unless all of them pass; dry_run only reports what would happen.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$input = getJsonInput();
+
+$matchBy = ($input['match_by'] ?? 'name') === 'sku' ? 'sku' : 'name';
+$dryRun = !empty($input['dry_run']);
+
+if (empty($input['rows']) || !is_array($input['rows'])) {
+    errorResponse('At least one row is required');
+}
+
+if (count($input['rows']) > 5000) {
+    errorResponse('Import at most 5000 rows at a time');
+}
+
+/**
+ * Trimmed cell value, or null when the cell is blank
+ */
+function importCell($row, $field) {
+    if (!isset($row[$field])) {
+        return null;
+    }
+    $value = trim((string) $row[$field]);
+    return $value === '' ? null : $value;
+}
+
+/**
+ * Case-insensitive key, matching the unicode_ci collation on the unique constraints
+ */
+function importKey($value) {
+    return mb_strtolower(preg_replace('/\s+/', ' ', $value));
+}
+
+try {
+    $stmt = $pdo->prepare('
+        SELECT id, name, sku, barcode, stock, parent_id,
+            (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count,
+            (SELECT COUNT(*) FROM product_components c WHERE c.bundle_id = products.id) AS component_count
+        FROM products
+        WHERE user_id = ?
+    ');
+    $stmt->execute([$user['id']]);
+    
+    $byName = [];
+    $bySku = [];
+    $byBarcode = [];
+    foreach ($stmt->fetchAll() as $product) {
+        $byName[importKey($product['name'])] = $product;
+        if ($product['sku'] !== null) {
+            $bySku[importKey($product['sku'])] = $product;
+        }
+        if ($product['barcode'] !== null) {
+            $byBarcode[$product['barcode']] = $product;
+        }
+    }
+    
+    $results = [];
+    $plans = [];
+    $seenKeys = [];
+    $seenNames = [];
+    $seenSkus = [];
+    $seenBarcodes = [];
+    
+    foreach (array_values($input['rows']) as $index => $row) {
+        $rowNumber = intval($row['row'] ?? $index + 1);
+        $errors = [];
+        
+        $name = importCell($row, 'name');
+        $sku = importCell($row, 'sku');
+        $name = $name !== null ? preg_replace('/\s+/', ' ', $name) : null;
+        $key = $matchBy === 'sku' ? $sku : $name;
+        
+        $existing = null;
+        if ($key === null) {
+            $errors[] = $matchBy === 'sku' ? 'SKU is required to match products' : 'Name is required';
+        } else {
+            $existing = ($matchBy === 'sku' ? $bySku : $byName)[importKey($key)] ?? null;
+            if (isset($seenKeys[importKey($key)])) {
+                $errors[] = "Same {$matchBy} as row {$seenKeys[importKey($key)]}";
+            }
+            $seenKeys[importKey($key)] = $rowNumber;
+        }
+        
+        $fields = [];
+        
+        if ($name !== null) {
+            $clash = $byName[importKey($name)] ?? null;
+            if ($clash && (!$existing || $clash['id'] !== $existing['id'])) {
+                $errors[] = "A product named \"{$clash['name']}\" already exists";
+            } elseif (isset($seenNames[importKey($name)])) {
+                $errors[] = "Same name as row {$seenNames[importKey($name)]}";
+            }
+            $seenNames[importKey($name)] = $rowNumber;
+            if ($existing && $existing['parent_id'] !== null && $name !== $existing['name']) {
+                $errors[] = 'Variants are named after their parent and cannot be renamed here';
+            }
+            $fields['name'] = $name;
+        } elseif (!$existing) {
+            $errors[] = 'Name is required for a new product';
+        }
+        
+        if ($sku !== null) {
+            if (mb_strlen($sku) > 64) {
+                $errors[] = 'SKU must be 64 characters or fewer';
+            }
+            $clash = $bySku[importKey($sku)] ?? null;
+            if ($clash && (!$existing || $clash['id'] !== $existing['id'])) {
+                $errors[] = "SKU {$sku} already belongs to \"{$clash['name']}\"";
+            } elseif ($matchBy === 'name' && isset($seenSkus[importKey($sku)])) {
+                $errors[] = "Same SKU as row {$seenSkus[importKey($sku)]}";
+            }
+            $seenSkus[importKey($sku)] = $rowNumber;
+            $fields['sku'] = $sku;
+        }
+        
+        $barcode = importCell($row, 'barcode');
+        if ($barcode !== null) {
+            if (mb_strlen($barcode) > 64) {
+                $errors[] = 'Barcode must be 64 characters or fewer';
+            }
+            $clash = $byBarcode[$barcode] ?? null;
+            if ($clash && (!$existing || $clash['id'] !== $existing['id'])) {
+                $errors[] = "Barcode {$barcode} already belongs to \"{$clash['name']}\"";
+            } elseif (isset($seenBarcodes[$barcode])) {
+                $errors[] = "Same barcode as row {$seenBarcodes[$barcode]}";
+            }
+            $seenBarcodes[$barcode] = $rowNumber;
+            $fields['barcode'] = $barcode;
+        }
+        
+        foreach (['price' => 'Price', 'cost_price' => 'Cost price'] as $field => $label) {
+            $value = importCell($row, $field);
+            if ($value === null) {
+                continue;
+            }
+            if (!is_numeric($value) || (float) $value < 0) {
+                $errors[] = "$label must be a number of 0 or more";
+            } else {
+                $fields[$field] = round((float) $value, 2);
+            }
+        }
+        if (!$existing && !isset($fields['price'])) {
+            $errors[] = 'Price is required for a new product';
+        }
+        
+        foreach (['stock' => 'Stock', 'reorder_point' => 'Reorder point', 'reorder_quantity' => 'Reorder quantity'] as $field => $label) {
+            $value = importCell($row, $field);
+            if ($value === null) {
+                continue;
+            }
+            if (!preg_match('/^-?\d+$/', $value) || ($field !== 'stock' && (int) $value < 0)) {
+                $errors[] = "$label must be a whole number" . ($field !== 'stock' ? ' of 0 or more' : '');
+            } else {
+                $fields[$field] = (int) $value;
+            }
+        }
+        if (isset($fields['stock']) && $existing && (int) $existing['variant_count'] > 0 && $fields['stock'] !== (int) $existing['stock']) {
+            $errors[] = 'Stock is held on the variants of this product';
+        }
+        if (isset($fields['stock']) && $existing && (int) $existing['component_count'] > 0 && $fields['stock'] !== 0) {
+            $errors[] = 'A bundle holds no stock - adjust its components instead';
+        }
+        
+        $category = importCell($row, 'category');
+        if ($category !== null) {
+            $fields['category'] = mb_substr($category, 0, 100);
+        }
+        
+        $results[] = [
+            'row' => $rowNumber,
+            'action' => $existing ? 'update' : 'create',
+            'name' => $name ?? ($existing['name'] ?? ''),
+            'product_id' => $existing['id'] ?? null,
+            'errors' => $errors
+        ];
+        $plans[] = ['existing' => $existing, 'fields' => $fields];
+    }
+    
+    $failed = count(array_filter($results, function ($result) {
+        return !empty($result['errors']);
+    }));
+    $summary = [
+        'created' => count(array_filter($results, function ($result) { return $result['action'] === 'create'; })),
+        'updated' => count(array_filter($results, function ($result) { return $result['action'] === 'update'; })),
+        'failed' => $failed,
+        'applied' => false,
+        'rows' => $results
+    ];
+    
+    if ($failed > 0 && !$dryRun) {
+        jsonResponse(['error' => "$failed row" . ($failed === 1 ? ' has' : 's have') . ' errors; nothing was imported', 'code' => 'invalid_rows'] + $summary, 422);
+    }
+    
+    if ($dryRun) {
+        jsonResponse($summary);
+    }
+    
+    $pdo->beginTransaction();
+    
+    try {
+        foreach ($plans as $index => $plan) {
+            $fields = $plan['fields'];
+            
+            // Category names typed into the file become managed categories
+            if (isset($fields['category']) || !$plan['existing']) {
+                ensureCategory($pdo, $user['id'], $fields['category'] ?? 'Other');
+            }
+            
+            if ($plan['existing']) {
+                $productId = $plan['existing']['id'];
+                $stock = $fields['stock'] ?? null;
+                unset($fields['stock']);
+                
+                if (!empty($fields)) {
+                    $sets = implode(', ', array_map(function ($field) { return "$field = ?"; }, array_keys($fields)));
+                    $stmt = $pdo->prepare("UPDATE products SET $sets WHERE id = ?");
+                    $stmt->execute(array_merge(array_values($fields), [$productId]));
+                }
+                
+                // Imported stock levels are booked as adjustments so the ledger still explains them
+                if ($stock !== null && $stock !== (int) $plan['existing']['stock']) {
+                    recordStockMovement(
+                        $pdo,
+                        $user['id'],
+                        $productId,
+                        'adjustment',
+                        $stock - (int) $plan['existing']['stock'],
+                        $user['email'],
+                        'Bulk import'
+                    );
+                }
+            } else {
+                $productId = generateUUID();
+                $stmt = $pdo->prepare('
+                    INSERT INTO products (id, user_id, name, sku, barcode, price, cost_price, stock, reorder_point, reorder_quantity, category) 
+                    VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
+                ');
+                $stmt->execute([
+                    $productId,
+                    $user['id'],
+                    $fields['name'],
+                    $fields['sku'] ?? null,
+                    $fields['barcode'] ?? null,
+                    $fields['price'],
+                    $fields['cost_price'] ?? null,
+                    $fields['reorder_point'] ?? 10,
+                    $fields['reorder_quantity'] ?? 0,
+                    $fields['category'] ?? 'Other'
+                ]);
+                
+                if (!empty($fields['stock'])) {
+                    recordStockMovement($pdo, $user['id'], $productId, 'opening', $fields['stock'], $user['email'], 'Opening stock (bulk import)');
+                }
+                
+                $summary['rows'][$index]['product_id'] = $productId;
+            }
+        }
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    $summary['applied'] = true;
+    jsonResponse($summary);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -2,69 +2,169 @@
 /**
  * Products Endpoint
  * GET /api/products/ - List all products for user
- * POST /api/products/ - Create new product
+ * GET /api/products/?id=xxx - Get a single product
+ * POST /api/products/ - Create new product, or a bundle when components are given
  */
 
 require_once __DIR__ . '/../config/config.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/products.php';
+require_once __DIR__ . '/../lib/categories.php';
 
 $user = requireAuth();
 $method = $_SERVER['REQUEST_METHOD'];
 
 try {
     if ($method === 'GET') {
+        $columns = '
+            id, name, sku, barcode, price, cost_price, stock, reorder_point, reorder_quantity, category, tax_rate_id,
+            parent_id, variant_attributes, created_at,
+            (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count
+        ';
+        
+        if (!empty($_GET['id'])) {
+            $stmt = $pdo->prepare("SELECT $columns FROM products WHERE id = ? AND user_id = ?");
+            $stmt->execute([$_GET['id'], $user['id']]);
+            $product = $stmt->fetch();
+            
+            if (!$product) {
+                errorResponse('Product not found', 404);
+            }
+            
+            $components = findBundleComponents($pdo, $user['id'], [$product['id']]);
+            jsonResponse(formatProduct($product, $components[$product['id']] ?? []));
+        }
+        
         // List all products for the user
-        $stmt = $pdo->prepare('
-            SELECT id, name, price, stock, category, created_at 
-            FROM products 
-            WHERE user_id = ? 
-            ORDER BY created_at DESC
-        ');
+        $stmt = $pdo->prepare("SELECT $columns FROM products WHERE user_id = ? ORDER BY created_at DESC");
         $stmt->execute([$user['id']]);
         $products = $stmt->fetchAll();
+        $components = findBundleComponents($pdo, $user['id']);
         
-        // Convert price to float
-        foreach ($products as &$product) {
-            $product['price'] = (float) $product['price'];
-            $product['stock'] = (int) $product['stock'];
-        }
-        
-        jsonResponse($products);
+        jsonResponse(array_map(function ($product) use ($components) {
+            return formatProduct($product, $components[$product['id']] ?? []);
+        }, $products));
         
     } elseif ($method === 'POST') {
         // Create new product
         $input = getJsonInput();
         
+        $parentId = !empty($input['parent_id']) ? $input['parent_id'] : null;
+        $attributes = null;
+        
+        if ($parentId) {
+            $parent = findVariantParent($pdo, $user['id'], $parentId);
+            $attributes = normaliseVariantAttributes($input['variant_attributes'] ?? null);
+            
+            if (!$attributes) {
+                errorResponse('A variant needs at least one attribute, e.g. Size: Large');
+            }
+            
+            // Variants sit in the parent's category and tax rate unless given their own
+            $input['name'] = variantName($parent['name'], $attributes);
+            $input += ['price' => $parent['price'], 'category' => $parent['category'], 'tax_rate_id' => $parent['tax_rate_id']];
+        }
+        
         if (empty($input['name'])) {
             errorResponse('Product name is required');
         }
         
         $productId = generateUUID();
         $name = trim($input['name']);
+        $sku = !empty($input['sku']) ? trim($input['sku']) : null;
+        $barcode = !empty($input['barcode']) ? trim($input['barcode']) : null;
         $price = floatval($input['price'] ?? 0);
+        // Left empty when unknown, so the product's sales stay out of margin figures
+        $costPrice = isset($input['cost_price']) && $input['cost_price'] !== '' ? round(floatval($input['cost_price']), 2) : null;
         $stock = intval($input['stock'] ?? 0);
+        $reorderPoint = max(0, intval($input['reorder_point'] ?? 10));
+        $reorderQuantity = max(0, intval($input['reorder_quantity'] ?? 0));
         $category = trim($input['category'] ?? 'Other');
+        $taxRateId = !empty($input['tax_rate_id']) ? $input['tax_rate_id'] : null;
         
         // Check for duplicate product name for this user
         $stmt = $pdo->prepare('SELECT id FROM products WHERE user_id = ? AND name = ?');
         $stmt->execute([$user['id'], $name]);
         
         if ($stmt->fetch()) {
-            errorResponse('A product with this name already exists', 409);
+            errorResponse($parentId ? 'A variant with these attributes already exists' : 'A product with this name already exists', 409);
+        }
+        
+        if ($sku !== null) {
+            $stmt = $pdo->prepare('SELECT id FROM products WHERE user_id = ? AND sku = ?');
+            $stmt->execute([$user['id'], $sku]);
+            
+            if ($stmt->fetch()) {
+                errorResponse('A product with this SKU already exists', 409);
+            }
+        }
+        
+        if ($barcode !== null) {
+            $stmt = $pdo->prepare('SELECT id FROM products WHERE user_id = ? AND barcode = ?');
+            $stmt->execute([$user['id'], $barcode]);
+            
+            if ($stmt->fetch()) {
+                errorResponse('A product with this barcode already exists', 409);
+            }
         }
         
-        $stmt = $pdo->prepare('
-            INSERT INTO products (id, user_id, name, price, stock, category) 
-            VALUES (?, ?, ?, ?, ?, ?)
-        ');
-        $stmt->execute([$productId, $user['id'], $name, $price, $stock, $category]);
+        $components = normaliseBundleComponents($pdo, $user['id'], [
+            'id' => $productId,
+            'name' => $name,
+            'stock' => $stock,
+            'parent_id' => $parentId,
+            'variant_count' => 0
+        ], $input['components'] ?? []);
+        
+        $pdo->beginTransaction();
+        
+        try {
+            $stmt = $pdo->prepare('
+                INSERT INTO products (
+                    id, user_id, name, sku, barcode, price, cost_price, stock, reorder_point, reorder_quantity,
+                    category, tax_rate_id, parent_id, variant_attributes
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
+            ');
+            $stmt->execute([
+                $productId, $user['id'], $name, $sku, $barcode, $price, $costPrice, $reorderPoint, $reorderQuantity,
+                $category, $taxRateId, $parentId, $attributes !== null ? json_encode($attributes) : null
+            ]);
+            
+            ensureCategory($pdo, $user['id'], $category);
+            
+            saveBundleComponents($pdo, $productId, $components);
+            
+            // Starting stock opens the product's ledger
+            if ($stock !== 0) {
+                recordStockMovement($pdo, $user['id'], $productId, 'opening', $stock, $user['email'], 'Opening stock');
+            }
+            
+            $pdo->commit();
+            
+        } catch (Exception $e) {
+            if ($pdo->inTransaction()) {
+                $pdo->rollBack();
+            }
+            throw $e;
+        }
         
         jsonResponse([
             'id' => $productId,
             'name' => $name,
+            'sku' => $sku,
+            'barcode' => $barcode,
             'price' => $price,
+            'cost_price' => $costPrice,
             'stock' => $stock,
-            'category' => $category
+            'reorder_point' => $reorderPoint,
+            'reorder_quantity' => $reorderQuantity,
+            'category' => $category,
+            'tax_rate_id' => $taxRateId,
+            'parent_id' => $parentId,
+            'variant_attributes' => $attributes,
+            'variant_count' => 0,
+            'components' => findBundleComponents($pdo, $user['id'], [$productId])[$productId] ?? []
         ], 201);
         
     } else {
@@ -6,6 +6,9 @@
 
 require_once __DIR__ . '/../config/config.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/products.php';
+require_once __DIR__ . '/../lib/categories.php';
 
 if ($_SERVER['REQUEST_METHOD'] !== 'PUT') {
     errorResponse('Method not allowed', 405);
@@ -22,10 +25,17 @@ $input = getJsonInput();
 
 try {
     // Verify product belongs to user
-    $stmt = $pdo->prepare('SELECT id FROM products WHERE id = ? AND user_id = ?');
+    $stmt = $pdo->prepare('
+        SELECT id, name, stock, parent_id, variant_attributes,
+            (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count,
+            (SELECT COUNT(*) FROM product_components c WHERE c.bundle_id = products.id) AS component_count
+        FROM products
+        WHERE id = ? AND user_id = ?
+    ');
     $stmt->execute([$productId, $user['id']]);
+    $existing = $stmt->fetch();
     
-    if (!$stmt->fetch()) {
+    if (!$existing) {
         errorResponse('Product not found', 404);
     }
     
@@ -33,27 +43,88 @@ try {
     $updates = [];
     $params = [];
     
+    // parent_id attaches the product to a parent (null detaches it); a variant's name follows its attributes
+    $parentId = array_key_exists('parent_id', $input) ? ($input['parent_id'] ?: null) : $existing['parent_id'];
+    $attributes = array_key_exists('variant_attributes', $input)
+        ? normaliseVariantAttributes($input['variant_attributes'])
+        : json_decode($existing['variant_attributes'] ?? '', true);
+    
+    if ($parentId !== $existing['parent_id'] || array_key_exists('variant_attributes', $input)) {
+        if ($parentId) {
+            if ((int) $existing['variant_count'] > 0) {
+                errorResponse('A product with variants cannot become a variant', 409);
+            }
+            if (!$attributes) {
+                errorResponse('A variant needs at least one attribute, e.g. Size: Large');
+            }
+            
+            if ($parentId === $existing['parent_id']) {
+                $stmt = $pdo->prepare('SELECT name FROM products WHERE id = ?');
+                $stmt->execute([$parentId]);
+                $parentName = $stmt->fetchColumn();
+            } else {
+                $parentName = findVariantParent($pdo, $user['id'], $parentId, $productId)['name'];
+            }
+            $input['name'] = variantName($parentName, $attributes);
+        }
+        
+        $updates[] = 'parent_id = ?';
+        $params[] = $parentId;
+        $updates[] = 'variant_attributes = ?';
+        $params[] = $parentId && $attributes ? json_encode($attributes) : null;
+    } elseif ($parentId) {
+        unset($input['name']);
+    }
+    
     if (isset($input['name'])) {
         // Check for duplicate name (excluding current product)
         $stmt = $pdo->prepare('SELECT id FROM products WHERE user_id = ? AND name = ? AND id != ?');
         $stmt->execute([$user['id'], $input['name'], $productId]);
         
         if ($stmt->fetch()) {
-            errorResponse('A product with this name already exists', 409);
+            errorResponse($parentId ? 'A variant with these attributes already exists' : 'A product with this name already exists', 409);
         }
         
         $updates[] = 'name = ?';
         $params[] = trim($input['name']);
     }
     
+    // Empty clears the SKU or barcode
+    foreach (['sku' => 'SKU', 'barcode' => 'barcode'] as $field => $label) {
+        if (!array_key_exists($field, $input)) {
+            continue;
+        }
+        $code = !empty($input[$field]) ? trim($input[$field]) : null;
+        
+        if ($code !== null) {
+            $stmt = $pdo->prepare("SELECT id FROM products WHERE user_id = ? AND $field = ? AND id != ?");
+            $stmt->execute([$user['id'], $code, $productId]);
+            
+            if ($stmt->fetch()) {
+                errorResponse("A product with this $label already exists", 409);
+            }
+        }
+        
+        $updates[] = "$field = ?";
+        $params[] = $code;
+    }
+    
     if (isset($input['price'])) {
         $updates[] = 'price = ?';
         $params[] = floatval($input['price']);
     }
     
-    if (isset($input['stock'])) {
-        $updates[] = 'stock = ?';
-        $params[] = intval($input['stock']);
+    // Null or an empty string clears the cost price
+    if (array_key_exists('cost_price', $input)) {
+        $updates[] = 'cost_price = ?';
+        $params[] = isset($input['cost_price']) && $input['cost_price'] !== '' ? round(floatval($input['cost_price']), 2) : null;
+    }
+    
+    foreach (['reorder_point', 'reorder_quantity'] as $field) {
+        if (isset($input[$field])) {
+            $updates[] = "$field = ?";
+            $params[] = max(0, intval($input[$field]));
+        }
     }
     
     if (isset($input['category'])) {
@@ -61,25 +132,102 @@ try {
         $params[] = trim($input['category']);
     }
     
-    if (empty($updates)) {
+    // Null clears the override so the category/default rate applies
+    if (array_key_exists('tax_rate_id', $input)) {
+        $updates[] = 'tax_rate_id = ?';
+        $params[] = !empty($input['tax_rate_id']) ? $input['tax_rate_id'] : null;
+    }
+    
+    // Stock is held on the variants; the parent only groups them
+    if (isset($input['stock']) && intval($input['stock']) !== (int) $existing['stock'] && (int) $existing['variant_count'] > 0) {
+        errorResponse('Set stock on the variants of this product instead', 409);
+    }
+    
+    // components replaces the bundle's make-up; an empty list makes it an ordinary product again
+    $components = null;
+    if (array_key_exists('components', $input)) {
+        $components = normaliseBundleComponents($pdo, $user['id'], [
+            'id' => $productId,
+            'name' => $input['name'] ?? $existing['name'],
+            'stock' => isset($input['stock']) ? intval($input['stock']) : $existing['stock'],
+            'parent_id' => $parentId,
+            'variant_count' => $existing['variant_count']
+        ], $input['components'] ?? []);
+    }
+    
+    $isBundle = $components !== null ? !empty($components) : (int) $existing['component_count'] > 0;
+    if ($isBundle && isset($input['stock']) && intval($input['stock']) !== 0) {
+        errorResponse('A bundle holds no stock - adjust its components instead', 409);
+    }
+    
+    if (empty($updates) && !isset($input['stock']) && $components === null) {
         errorResponse('No fields to update');
     }
     
-    $params[] = $productId;
-    $sql = 'UPDATE products SET ' . implode(', ', $updates) . ' WHERE id = ?';
+    $pdo->beginTransaction();
     
-    $stmt = $pdo->prepare($sql);
-    $stmt->execute($params);
+    try {
+        if (!empty($updates)) {
+            $params[] = $productId;
+            $sql = 'UPDATE products SET ' . implode(', ', $updates) . ' WHERE id = ?';
+            
+            $stmt = $pdo->prepare($sql);
+            $stmt->execute($params);
+        }
+        
+        if (isset($input['category'])) {
+            ensureCategory($pdo, $user['id'], trim($input['category']));
+        }
+        
+        if (isset($input['name']) && (int) $existing['variant_count'] > 0) {
+            renameVariants($pdo, $user['id'], $productId, trim($input['name']));
+        }
+        
+        if ($components !== null) {
+            saveBundleComponents($pdo, $productId, $components);
+        }
+        
+        // A new stock level is booked as an adjustment for the difference
+        $stockChange = 0;
+        if (isset($input['stock'])) {
+            $stmt = $pdo->prepare('SELECT stock FROM products WHERE id = ? FOR UPDATE');
+            $stmt->execute([$productId]);
+            $stockChange = intval($input['stock']) - (int) $stmt->fetchColumn();
+        }
+        
+        if ($stockChange !== 0) {
+            recordStockMovement(
+                $pdo,
+                $user['id'],
+                $productId,
+                'adjustment',
+                $stockChange,
+                $user['email'],
+                !empty($input['stock_reason']) ? trim($input['stock_reason']) : 'Stock level edited'
+            );
+        }
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
     
     // Fetch updated product
-    $stmt = $pdo->prepare('SELECT id, name, price, stock, category, created_at FROM products WHERE id = ?');
+    $stmt = $pdo->prepare('
+        SELECT id, name, sku, barcode, price, cost_price, stock, reorder_point, reorder_quantity, category, tax_rate_id,
+            parent_id, variant_attributes, created_at,
+            (SELECT COUNT(*) FROM products v WHERE v.parent_id = products.id) AS variant_count
+        FROM products
+        WHERE id = ?
+    ');
     $stmt->execute([$productId]);
-    $product = $stmt->fetch();
-    
-    $product['price'] = (float) $product['price'];
-    $product['stock'] = (int) $product['stock'];
+    $components = findBundleComponents($pdo, $user['id'], [$productId]);
     
-    jsonResponse($product);
+    jsonResponse(formatProduct($stmt->fetch(), $components[$productId] ?? []));
     
 } catch (PDOException $e) {
     errorResponse('Database error: ' . $e->getMessage(), 500);
@@ -0,0 +1,41 @@
+<?php
+/**
+ * Cancel Purchase Order Endpoint
+ * POST /api/purchase-orders/cancel.php?id=xxx
+ * Goods already received stay in stock; only the outstanding quantities are dropped
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/purchasing.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$orderId = $_GET['id'] ?? null;
+
+if (!$orderId) {
+    errorResponse('Purchase order ID is required');
+}
+
+try {
+    $order = findPurchaseOrder($pdo, $user['id'], $orderId);
+    
+    if (!$order) {
+        errorResponse('Purchase order not found', 404);
+    }
+    
+    if ($order['status'] === 'cancelled' || $order['status'] === 'received') {
+        errorResponse("Purchase order is already {$order['status']}");
+    }
+    
+    $stmt = $pdo->prepare("UPDATE purchase_orders SET status = 'cancelled' WHERE id = ? AND status IN ('ordered', 'partial')");
+    $stmt->execute([$orderId]);
+    
+    jsonResponse(findPurchaseOrder($pdo, $user['id'], $orderId));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,177 @@
+<?php
+/**
+ * Purchase Orders Endpoint
+ * GET /api/purchase-orders/ - List purchase orders for user (optional supplier_id, status filters)
+ * GET /api/purchase-orders/?id=xxx - Single purchase order with its goods receipts
+ * POST /api/purchase-orders/ - Create a purchase order for a supplier
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/sequences.php';
+require_once __DIR__ . '/../lib/purchasing.php';
+require_once __DIR__ . '/../lib/products.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+try {
+    if ($method === 'GET') {
+        if (!empty($_GET['id'])) {
+            $order = findPurchaseOrder($pdo, $user['id'], $_GET['id']);
+            
+            if (!$order) {
+                errorResponse('Purchase order not found', 404);
+            }
+            
+            // Stock receipts booked against this order, oldest first
+            $stmt = $pdo->prepare("
+                SELECT sm.id, sm.product_id, p.name AS product_name, sm.quantity, sm.reason, sm.created_by, sm.created_at 
+                FROM stock_movements sm 
+                JOIN products p ON p.id = sm.product_id 
+                WHERE sm.user_id = ? AND sm.reference_type = 'purchase_order' AND sm.reference_id = ? 
+                ORDER BY sm.seq ASC
+            ");
+            $stmt->execute([$user['id'], $order['id']]);
+            $order['receipts'] = array_map(function ($receipt) {
+                $receipt['quantity'] = (int) $receipt['quantity'];
+                return $receipt;
+            }, $stmt->fetchAll());
+            
+            jsonResponse($order);
+        }
+        
+        $sql = '
+            SELECT po.*, s.name AS supplier_name 
+            FROM purchase_orders po 
+            JOIN suppliers s ON s.id = po.supplier_id 
+            WHERE po.user_id = ?
+        ';
+        $params = [$user['id']];
+        
+        if (!empty($_GET['supplier_id'])) {
+            $sql .= ' AND po.supplier_id = ?';
+            $params[] = $_GET['supplier_id'];
+        }
+        
+        if (!empty($_GET['status']) && in_array($_GET['status'], PURCHASE_ORDER_STATUSES, true)) {
+            $sql .= ' AND po.status = ?';
+            $params[] = $_GET['status'];
+        }
+        
+        $sql .= ' ORDER BY po.created_at DESC';
+        
+        $stmt = $pdo->prepare($sql);
+        $stmt->execute($params);
+        
+        jsonResponse(array_map('formatPurchaseOrder', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        $input = getJsonInput();
+        
+        if (empty($input['supplier_id'])) {
+            errorResponse('supplier_id is required');
+        }
+        
+        if (empty($input['items']) || !is_array($input['items'])) {
+            errorResponse('At least one item is required');
+        }
+        
+        $stmt = $pdo->prepare('SELECT id FROM suppliers WHERE id = ? AND user_id = ?');
+        $stmt->execute([$input['supplier_id'], $user['id']]);
+        
+        if (!$stmt->fetch()) {
+            errorResponse('Supplier not found', 404);
+        }
+        
+        // Product names are copied onto the order so it still reads correctly after a rename
+        $productIds = array_values(array_unique(array_map(function ($item) {
+            return (string) ($item['product_id'] ?? '');
+        }, $input['items'])));
+        $placeholders = implode(',', array_fill(0, count($productIds), '?'));
+        $stmt = $pdo->prepare("SELECT id, name FROM products WHERE user_id = ? AND id IN ($placeholders)");
+        $stmt->execute(array_merge([$user['id']], $productIds));
+        $productNames = $stmt->fetchAll(PDO::FETCH_KEY_PAIR);
+        
+        $parents = findParentProducts($pdo, $user['id'], $productIds);
+        if (!empty($parents)) {
+            errorResponse('Order a variant of ' . implode(', ', $parents));
+        }
+        
+        $bundles = findBundleProducts($pdo, $user['id'], $productIds);
+        if (!empty($bundles)) {
+            errorResponse('Order the components of ' . implode(', ', $bundles));
+        }
+        
+        $items = [];
+        $total = 0;
+        
+        foreach ($input['items'] as $item) {
+            $productId = (string) ($item['product_id'] ?? '');
+            $quantity = intval($item['quantity'] ?? 0);
+            $unitCost = round(floatval($item['unit_cost'] ?? 0), 2);
+            
+            if (!isset($productNames[$productId])) {
+                errorResponse('Product not found', 404);
+            }
+            if ($quantity <= 0) {
+                errorResponse("Quantity for {$productNames[$productId]} must be at least 1");
+            }
+            if ($unitCost < 0) {
+                errorResponse("Unit cost for {$productNames[$productId]} cannot be negative");
+            }
+            
+            $items[] = [
+                'product_id' => $productId,
+                'name' => $productNames[$productId],
+                'quantity' => $quantity,
+                'unit_cost' => $unitCost,
+                'received_quantity' => 0
+            ];
+            $total += $quantity * $unitCost;
+        }
+        
+        $notes = !empty($input['notes']) ? trim($input['notes']) : null;
+        $expectedAt = !empty($input['expected_at']) ? $input['expected_at'] : null;
+        
+        $pdo->beginTransaction();
+        
+        try {
+            $orderId = generateUUID();
+            $poNumber = 'PO-' . str_pad(nextSequenceValue($pdo, $user['id'], 'purchase_order'), 6, '0', STR_PAD_LEFT);
+            
+            $stmt = $pdo->prepare('
+                INSERT INTO purchase_orders (
+                    id, user_id, po_number, supplier_id, items, total, notes, expected_at, created_by
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ');
+            $stmt->execute([
+                $orderId,
+                $user['id'],
+                $poNumber,
+                $input['supplier_id'],
+                json_encode($items),
+                round($total, 2),
+                $notes,
+                $expectedAt,
+                $user['email']
+            ]);
+            
+            $pdo->commit();
+            
+        } catch (Exception $e) {
+            if ($pdo->inTransaction()) {
+                $pdo->rollBack();
+            }
+            throw $e;
+        }
+        
+        jsonResponse(findPurchaseOrder($pdo, $user['id'], $orderId), 201);
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
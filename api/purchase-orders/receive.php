@@ -0,0 +1,138 @@
+<?php
+/**
+ * Receive Goods Endpoint
+ * POST /api/purchase-orders/receive.php?id=xxx
+ * Books some or all of an order's outstanding quantities into stock and takes
+ * each line's unit cost as the product's latest cost price
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/purchasing.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$orderId = $_GET['id'] ?? null;
+
+if (!$orderId) {
+    errorResponse('Purchase order ID is required');
+}
+
+$input = getJsonInput();
+
+if (empty($input['lines']) || !is_array($input['lines'])) {
+    errorResponse('At least one line to receive is required');
+}
+
+$reason = !empty($input['reason']) ? trim($input['reason']) : null;
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        // Lock the order so two deliveries cannot both book the same outstanding quantity
+        $stmt = $pdo->prepare('
+            SELECT id, po_number, status, items, received_total 
+            FROM purchase_orders 
+            WHERE id = ? AND user_id = ? 
+            FOR UPDATE
+        ');
+        $stmt->execute([$orderId, $user['id']]);
+        $order = $stmt->fetch();
+        
+        if (!$order) {
+            $pdo->rollBack();
+            errorResponse('Purchase order not found', 404);
+        }
+        
+        if ($order['status'] === 'cancelled' || $order['status'] === 'received') {
+            $pdo->rollBack();
+            errorResponse("Purchase order is already {$order['status']}");
+        }
+        
+        $items = json_decode($order['items'], true) ?: [];
+        $receivedValue = 0;
+        $booked = 0;
+        
+        foreach ($input['lines'] as $requested) {
+            $index = intval($requested['line_index'] ?? -1);
+            $quantity = intval($requested['quantity'] ?? 0);
+            
+            if (!isset($items[$index])) {
+                $pdo->rollBack();
+                errorResponse("Purchase order has no line $index");
+            }
+            if ($quantity <= 0) {
+                continue;
+            }
+            
+            $item = $items[$index];
+            $outstanding = (int) $item['quantity'] - (int) ($item['received_quantity'] ?? 0);
+            
+            if ($quantity > $outstanding) {
+                $pdo->rollBack();
+                errorResponse("Cannot receive more {$item['name']} than is outstanding");
+            }
+            
+            $movement = recordStockMovement(
+                $pdo,
+                $user['id'],
+                $item['product_id'],
+                'receipt',
+                $quantity,
+                $user['email'],
+                $reason,
+                ['type' => 'purchase_order', 'id' => $order['id'], 'number' => $order['po_number']]
+            );
+            
+            if (!$movement) {
+                $pdo->rollBack();
+                errorResponse("{$item['name']} is no longer in the product list", 409);
+            }
+            
+            $stmt = $pdo->prepare('UPDATE products SET cost_price = ? WHERE id = ? AND user_id = ?');
+            $stmt->execute([$item['unit_cost'], $item['product_id'], $user['id']]);
+            
+            $items[$index]['received_quantity'] = (int) ($item['received_quantity'] ?? 0) + $quantity;
+            $receivedValue += $quantity * (float) $item['unit_cost'];
+            $booked++;
+        }
+        
+        if ($booked === 0) {
+            $pdo->rollBack();
+            errorResponse('At least one line to receive is required');
+        }
+        
+        $status = purchaseOrderStatus($items);
+        
+        $stmt = $pdo->prepare('
+            UPDATE purchase_orders 
+            SET items = ?, status = ?, received_total = ?, received_at = IF(? = \'received\', NOW(), received_at) 
+            WHERE id = ?
+        ');
+        $stmt->execute([
+            json_encode($items),
+            $status,
+            round((float) $order['received_total'] + $receivedValue, 2),
+            $status,
+            $order['id']
+        ]);
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    jsonResponse(findPurchaseOrder($pdo, $user['id'], $orderId));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
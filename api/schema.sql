@@ -6,29 +6,88 @@
 -- USE pos_database;
 
 -- Users table (replaces Supabase Auth)
+-- Each account owns its own data and is created as an admin. Nothing in the app creates cashier
+-- accounts or shares data between accounts, so the admin-only checks (stock control, stocktake
+-- approval) only restrict an account whose role is set to 'cashier' by hand here.
 CREATE TABLE IF NOT EXISTS users (
     id CHAR(36) PRIMARY KEY,
     email VARCHAR(255) NOT NULL UNIQUE,
     password_hash VARCHAR(255) NOT NULL,
+    role ENUM('admin', 'cashier') NOT NULL DEFAULT 'admin',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     INDEX idx_email (email)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- Product categories (products, tax rates and captured invoice lines refer to categories by name)
+CREATE TABLE IF NOT EXISTS categories (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    parent_id CHAR(36) DEFAULT NULL,
+    color VARCHAR(7) DEFAULT NULL,
+    icon VARCHAR(50) DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (parent_id) REFERENCES categories(id) ON DELETE SET NULL,
+    UNIQUE KEY unique_category_per_user (user_id, name),
+    INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- Products table
 CREATE TABLE IF NOT EXISTS products (
     id CHAR(36) PRIMARY KEY,
     user_id CHAR(36) NOT NULL,
     name VARCHAR(255) NOT NULL,
+    sku VARCHAR(64) DEFAULT NULL,
+    barcode VARCHAR(64) DEFAULT NULL,
     price DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    cost_price DECIMAL(12, 2) DEFAULT NULL,
     stock INT NOT NULL DEFAULT 0,
+    -- Flag the product as low at or below reorder_point; reorder_quantity is the usual order size
+    reorder_point INT NOT NULL DEFAULT 10,
+    reorder_quantity INT NOT NULL DEFAULT 0,
     category VARCHAR(100) NOT NULL DEFAULT 'Other',
+    tax_rate_id VARCHAR(36) DEFAULT NULL,
+    -- Variants point at their parent product and list their attributes as [{name, value}]
+    parent_id CHAR(36) DEFAULT NULL,
+    variant_attributes JSON DEFAULT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (parent_id) REFERENCES products(id),
     UNIQUE KEY unique_product_per_user (user_id, name),
+    UNIQUE KEY unique_sku_per_user (user_id, sku),
+    UNIQUE KEY unique_barcode_per_user (user_id, barcode),
     INDEX idx_user_id (user_id),
+    INDEX idx_parent_id (parent_id),
     INDEX idx_stock (stock)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- Bundle components: selling a bundle takes each component out of stock instead of the bundle itself
+CREATE TABLE IF NOT EXISTS product_components (
+    bundle_id CHAR(36) NOT NULL,
+    component_id CHAR(36) NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    PRIMARY KEY (bundle_id, component_id),
+    FOREIGN KEY (bundle_id) REFERENCES products(id) ON DELETE CASCADE,
+    FOREIGN KEY (component_id) REFERENCES products(id),
+    INDEX idx_component_id (component_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Customers table
+-- The unicode_ci collation makes the unique name case-insensitive, so "musa ibrahim" matches "Musa Ibrahim"
+CREATE TABLE IF NOT EXISTS customers (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    phone VARCHAR(50) DEFAULT NULL,
+    email VARCHAR(255) DEFAULT NULL,
+    address VARCHAR(255) DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_customer_per_user (user_id, name),
+    INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- Invoices table
 CREATE TABLE IF NOT EXISTS invoices (
     id CHAR(36) PRIMARY KEY,
@@ -37,19 +96,318 @@ CREATE TABLE IF NOT EXISTS invoices (
     company_name VARCHAR(255) NOT NULL,
     company_address VARCHAR(255) DEFAULT NULL,
     company_phone VARCHAR(50) DEFAULT NULL,
+    company_email VARCHAR(255) DEFAULT NULL,
+    customer_id CHAR(36) DEFAULT NULL,
     customer_name VARCHAR(255) NOT NULL,
     issuer_name VARCHAR(255) NOT NULL,
     subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    discount JSON DEFAULT NULL,
+    discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
     tax DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
     total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    prices_include_tax TINYINT(1) NOT NULL DEFAULT 0,
+    payments JSON DEFAULT NULL,
+    amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    change_due DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    payment_status ENUM('paid', 'partial', 'unpaid') NOT NULL DEFAULT 'paid',
+    returned_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    voided_at TIMESTAMP NULL DEFAULT NULL,
+    voided_by VARCHAR(255) DEFAULT NULL,
+    void_reason VARCHAR(255) DEFAULT NULL,
     products JSON NOT NULL,
+    -- HMAC printed in the receipt's QR code (see api/lib/receipts.php)
+    verification_hash CHAR(64) DEFAULT NULL,
+    -- Receipts sent to the customer (see api/invoices/shares.php)
+    shares JSON DEFAULT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
     INDEX idx_user_id (user_id),
+    INDEX idx_customer_id (customer_id),
+    INDEX idx_payment_status (payment_status),
     INDEX idx_created_at (created_at),
-    INDEX idx_invoice_number (invoice_number)
+    INDEX idx_verification (invoice_number, verification_hash),
+    UNIQUE KEY unique_invoice_number (user_id, invoice_number)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Purged invoices (what is left of a voided invoice after an admin purge, so no number goes missing)
+CREATE TABLE IF NOT EXISTS purged_invoices (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    invoice_number VARCHAR(50) NOT NULL,
+    total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    issued_at TIMESTAMP NULL DEFAULT NULL,
+    voided_at TIMESTAMP NULL DEFAULT NULL,
+    voided_by VARCHAR(255) DEFAULT NULL,
+    void_reason VARCHAR(255) DEFAULT NULL,
+    purged_by VARCHAR(255) NOT NULL,
+    purged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_purged_number (user_id, invoice_number)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Credit notes table (returns against an invoice; lines use the invoice products shape plus line_index)
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    credit_note_number VARCHAR(50) NOT NULL,
+    invoice_id CHAR(36) NOT NULL,
+    customer_id CHAR(36) DEFAULT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    issuer_name VARCHAR(255) NOT NULL,
+    reason VARCHAR(255) DEFAULT NULL,
+    products JSON NOT NULL,
+    subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    tax DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    prices_include_tax TINYINT(1) NOT NULL DEFAULT 0,
+    applied_to_balance DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    refund_method VARCHAR(20) DEFAULT NULL,
+    restocked TINYINT(1) NOT NULL DEFAULT 1,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_credit_note_number (user_id, credit_note_number),
+    INDEX idx_invoice_id (invoice_id),
+    INDEX idx_created_at (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Document number sequences (one counter per user, name and optional period)
+CREATE TABLE IF NOT EXISTS sequences (
+    user_id CHAR(36) NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    period VARCHAR(10) NOT NULL DEFAULT '',
+    last_value INT NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, name, period),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- Suppliers table
+CREATE TABLE IF NOT EXISTS suppliers (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    contact_name VARCHAR(255) DEFAULT NULL,
+    phone VARCHAR(50) DEFAULT NULL,
+    email VARCHAR(255) DEFAULT NULL,
+    address VARCHAR(255) DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_supplier_per_user (user_id, name),
+    INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Purchase orders table (items: product_id, name, quantity, unit_cost, received_quantity)
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    po_number VARCHAR(50) NOT NULL,
+    supplier_id CHAR(36) NOT NULL,
+    status ENUM('ordered', 'partial', 'received', 'cancelled') NOT NULL DEFAULT 'ordered',
+    items JSON NOT NULL,
+    total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    received_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00,
+    notes VARCHAR(500) DEFAULT NULL,
+    expected_at DATE DEFAULT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    received_at TIMESTAMP NULL DEFAULT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (supplier_id) REFERENCES suppliers(id),
+    UNIQUE KEY unique_po_number (user_id, po_number),
+    INDEX idx_supplier_id (supplier_id),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Stock movements table (ledger of every change to a product's stock; quantity is signed)
+-- seq records write order, since several movements can share a created_at second
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id CHAR(36) PRIMARY KEY,
+    seq BIGINT UNSIGNED NOT NULL AUTO_INCREMENT UNIQUE,
+    user_id CHAR(36) NOT NULL,
+    product_id CHAR(36) NOT NULL,
+    type ENUM('opening', 'sale', 'return', 'void', 'adjustment', 'receipt', 'write_off') NOT NULL,
+    quantity INT NOT NULL,
+    balance_after INT NOT NULL,
+    reason VARCHAR(255) DEFAULT NULL,
+    reference_type VARCHAR(20) DEFAULT NULL,
+    reference_id CHAR(36) DEFAULT NULL,
+    reference_number VARCHAR(50) DEFAULT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+    INDEX idx_product_created (product_id, created_at),
+    INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Stocktakes table (physical stock counts; status moves from counting to approved or cancelled)
+-- category scopes the count to one category and its subcategories; null counts every product
+CREATE TABLE IF NOT EXISTS stocktakes (
+    id CHAR(36) PRIMARY KEY,
+    user_id CHAR(36) NOT NULL,
+    stocktake_number VARCHAR(50) NOT NULL,
+    status ENUM('counting', 'approved', 'cancelled') NOT NULL DEFAULT 'counting',
+    category VARCHAR(100) DEFAULT NULL,
+    notes VARCHAR(500) DEFAULT NULL,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    approved_by VARCHAR(255) DEFAULT NULL,
+    approved_at TIMESTAMP NULL DEFAULT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_stocktake_number (user_id, stocktake_number),
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Stocktake items (the system quantity and cost of each product when the count started)
+-- Product details are copied so a finished stocktake still reads correctly after products change
+CREATE TABLE IF NOT EXISTS stocktake_items (
+    stocktake_id CHAR(36) NOT NULL,
+    product_id CHAR(36) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    sku VARCHAR(64) DEFAULT NULL,
+    barcode VARCHAR(64) DEFAULT NULL,
+    category VARCHAR(100) DEFAULT NULL,
+    system_quantity INT NOT NULL,
+    cost_price DECIMAL(12, 2) DEFAULT NULL,
+    PRIMARY KEY (stocktake_id, product_id),
+    FOREIGN KEY (stocktake_id) REFERENCES stocktakes(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Stocktake counts (one running count per product per counter; the counted quantity is their sum)
+CREATE TABLE IF NOT EXISTS stocktake_counts (
+    stocktake_id CHAR(36) NOT NULL,
+    product_id CHAR(36) NOT NULL,
+    counter VARCHAR(100) NOT NULL,
+    quantity INT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (stocktake_id, product_id, counter),
+    FOREIGN KEY (stocktake_id, product_id) REFERENCES stocktake_items(stocktake_id, product_id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Settings table (one row per user: company profile and preferences)
+CREATE TABLE IF NOT EXISTS settings (
+    user_id CHAR(36) PRIMARY KEY,
+    company_name VARCHAR(255) NOT NULL DEFAULT '',
+    company_address VARCHAR(255) DEFAULT NULL,
+    company_phone VARCHAR(50) DEFAULT NULL,
+    company_email VARCHAR(255) DEFAULT NULL,
+    currency_symbol VARCHAR(10) NOT NULL DEFAULT '₦',
+    tax_rates JSON DEFAULT NULL,
+    default_tax_rate_id VARCHAR(36) NOT NULL DEFAULT 'vat',
+    category_tax_rates JSON DEFAULT NULL,
+    prices_include_tax TINYINT(1) NOT NULL DEFAULT 0,
+    invoice_prefix VARCHAR(20) NOT NULL DEFAULT 'INV-',
+    invoice_number_padding TINYINT UNSIGNED NOT NULL DEFAULT 6,
+    invoice_number_include_year TINYINT(1) NOT NULL DEFAULT 1,
+    invoice_number_yearly_reset TINYINT(1) NOT NULL DEFAULT 1,
+    stock_policy ENUM('block', 'override', 'allow_negative') NOT NULL DEFAULT 'allow_negative',
+    stock_override_pin_hash VARCHAR(255) DEFAULT NULL,
+    receipt_show_bundle_components TINYINT(1) NOT NULL DEFAULT 1,
+    receipt_template ENUM('58mm', '80mm', 'a4') NOT NULL DEFAULT '80mm',
+    receipt_logo MEDIUMTEXT DEFAULT NULL,
+    receipt_header VARCHAR(1000) NOT NULL DEFAULT '',
+    receipt_footer VARCHAR(1000) NOT NULL DEFAULT '**Thank you for your patronage!**\nPlease keep this receipt for your records',
+    receipt_return_policy VARCHAR(2000) NOT NULL DEFAULT '',
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Upgrading an existing database
+-- Run the statements below once if your tables were created before these columns existed
+-- ALTER TABLE invoices ADD COLUMN company_email VARCHAR(255) DEFAULT NULL AFTER company_phone;
+-- ALTER TABLE invoices ADD COLUMN prices_include_tax TINYINT(1) NOT NULL DEFAULT 0 AFTER total;
+-- ALTER TABLE invoices
+--     ADD COLUMN discount JSON DEFAULT NULL AFTER subtotal,
+--     ADD COLUMN discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00 AFTER discount;
+-- ALTER TABLE products ADD COLUMN tax_rate_id VARCHAR(36) DEFAULT NULL AFTER category;
+-- ALTER TABLE settings
+--     ADD COLUMN tax_rates JSON DEFAULT NULL AFTER currency_symbol,
+--     ADD COLUMN default_tax_rate_id VARCHAR(36) NOT NULL DEFAULT 'vat' AFTER tax_rates,
+--     ADD COLUMN category_tax_rates JSON DEFAULT NULL AFTER default_tax_rate_id,
+--     ADD COLUMN prices_include_tax TINYINT(1) NOT NULL DEFAULT 0 AFTER category_tax_rates;
+-- UPDATE settings SET tax_rates = JSON_ARRAY(
+--     JSON_OBJECT('id', 'vat', 'name', 'VAT', 'rate', vat_rate, 'tax_class', 'standard'),
+--     JSON_OBJECT('id', 'zero', 'name', 'Zero-rated', 'rate', 0, 'tax_class', 'zero_rated'),
+--     JSON_OBJECT('id', 'exempt', 'name', 'Exempt', 'rate', 0, 'tax_class', 'exempt')
+-- );
+-- ALTER TABLE settings DROP COLUMN vat_rate;
+-- ALTER TABLE invoices
+--     ADD COLUMN payments JSON DEFAULT NULL AFTER prices_include_tax,
+--     ADD COLUMN amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0.00 AFTER payments,
+--     ADD COLUMN change_due DECIMAL(12, 2) NOT NULL DEFAULT 0.00 AFTER amount_paid;
+-- (create the customers table above first)
+-- ALTER TABLE invoices
+--     ADD COLUMN customer_id CHAR(36) DEFAULT NULL AFTER company_email,
+--     ADD INDEX idx_customer_id (customer_id),
+--     ADD FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL;
+-- ALTER TABLE invoices
+--     ADD COLUMN payment_status ENUM('paid', 'partial', 'unpaid') NOT NULL DEFAULT 'paid' AFTER change_due,
+--     ADD INDEX idx_payment_status (payment_status);
+-- Invoices saved before payments were captured were all settled at the till
+-- UPDATE invoices SET amount_paid = total WHERE payments IS NULL;
+-- (create the credit_notes and sequences tables above first)
+-- ALTER TABLE invoices ADD COLUMN returned_total DECIMAL(12, 2) NOT NULL DEFAULT 0.00 AFTER payment_status;
+-- ALTER TABLE users ADD COLUMN role ENUM('admin', 'cashier') NOT NULL DEFAULT 'admin' AFTER password_hash;
+-- ALTER TABLE invoices
+--     ADD COLUMN voided_at TIMESTAMP NULL DEFAULT NULL AFTER returned_total,
+--     ADD COLUMN voided_by VARCHAR(255) DEFAULT NULL AFTER voided_at,
+--     ADD COLUMN void_reason VARCHAR(255) DEFAULT NULL AFTER voided_by;
+-- ALTER TABLE settings
+--     ADD COLUMN invoice_prefix VARCHAR(20) NOT NULL DEFAULT 'INV-' AFTER prices_include_tax,
+--     ADD COLUMN invoice_number_padding TINYINT UNSIGNED NOT NULL DEFAULT 6 AFTER invoice_prefix,
+--     ADD COLUMN invoice_number_include_year TINYINT(1) NOT NULL DEFAULT 1 AFTER invoice_number_padding,
+--     ADD COLUMN invoice_number_yearly_reset TINYINT(1) NOT NULL DEFAULT 1 AFTER invoice_number_include_year;
+-- ALTER TABLE invoices
+--     DROP INDEX idx_invoice_number,
+--     ADD UNIQUE KEY unique_invoice_number (user_id, invoice_number);
+-- (create the stock_movements table above first)
+-- Existing stock levels become each product's opening balance
+-- INSERT INTO stock_movements (id, user_id, product_id, type, quantity, balance_after, reason, created_by)
+--     SELECT UUID(), user_id, id, 'opening', stock, stock, 'Balance before stock ledger', 'system' FROM products;
+-- ALTER TABLE settings
+--     ADD COLUMN stock_policy ENUM('block', 'override', 'allow_negative') NOT NULL DEFAULT 'allow_negative' AFTER invoice_number_yearly_reset,
+--     ADD COLUMN stock_override_pin_hash VARCHAR(255) DEFAULT NULL AFTER stock_policy;
+-- (create the suppliers and purchase_orders tables above)
+-- ALTER TABLE products ADD COLUMN cost_price DECIMAL(12, 2) DEFAULT NULL AFTER price;
+-- ALTER TABLE products
+--     ADD COLUMN reorder_point INT NOT NULL DEFAULT 10 AFTER stock,
+--     ADD COLUMN reorder_quantity INT NOT NULL DEFAULT 0 AFTER reorder_point;
+-- ALTER TABLE products
+--     ADD COLUMN sku VARCHAR(64) DEFAULT NULL AFTER name,
+--     ADD UNIQUE KEY unique_sku_per_user (user_id, sku);
+-- ALTER TABLE products
+--     ADD COLUMN barcode VARCHAR(64) DEFAULT NULL AFTER sku,
+--     ADD UNIQUE KEY unique_barcode_per_user (user_id, barcode);
+-- ALTER TABLE products
+--     ADD COLUMN parent_id CHAR(36) DEFAULT NULL AFTER tax_rate_id,
+--     ADD COLUMN variant_attributes JSON DEFAULT NULL AFTER parent_id,
+--     ADD INDEX idx_parent_id (parent_id),
+--     ADD FOREIGN KEY (parent_id) REFERENCES products(id);
+-- (create the categories table above first)
+-- Categories already in use become managed categories
+-- INSERT INTO categories (id, user_id, name)
+--     SELECT UUID(), user_id, category FROM products GROUP BY user_id, category;
+-- (create the stocktakes, stocktake_items and stocktake_counts tables above)
+-- (create the product_components table above)
+-- ALTER TABLE settings ADD COLUMN receipt_show_bundle_components TINYINT(1) NOT NULL DEFAULT 1 AFTER stock_override_pin_hash;
+-- ALTER TABLE settings ADD COLUMN receipt_template ENUM('58mm', '80mm', 'a4') NOT NULL DEFAULT '80mm' AFTER receipt_show_bundle_components;
+-- Invoices created before this have no verification code, so their receipts print without one
+-- ALTER TABLE invoices
+--     ADD COLUMN verification_hash CHAR(64) DEFAULT NULL AFTER products,
+--     ADD INDEX idx_verification (invoice_number, verification_hash);
+-- ALTER TABLE settings
+--     ADD COLUMN receipt_logo MEDIUMTEXT DEFAULT NULL AFTER receipt_template,
+--     ADD COLUMN receipt_header VARCHAR(1000) NOT NULL DEFAULT '' AFTER receipt_logo,
+--     ADD COLUMN receipt_footer VARCHAR(1000) NOT NULL DEFAULT '**Thank you for your patronage!**\nPlease keep this receipt for your records' AFTER receipt_header,
+--     ADD COLUMN receipt_return_policy VARCHAR(2000) NOT NULL DEFAULT '' AFTER receipt_footer;
+-- ALTER TABLE invoices ADD COLUMN shares JSON DEFAULT NULL AFTER verification_hash;
+-- (create the purged_invoices table above; invoices purged before it existed left no record)
+-- Product categories are now added to the categories list when a product is saved rather than when
+-- the list is read; run the category backfill above once more to pick up any added since
+
 -- Sample data for testing (optional)
 -- INSERT INTO users (id, email, password_hash) VALUES 
 -- (UUID(), 'test@example.com', '$2y$10$...'); -- Use actual password hash
@@ -0,0 +1,347 @@
+<?php
+/**
+ * Settings Endpoint
+ * GET /api/settings/ - Get company profile and preferences for user
+ * PUT /api/settings/ - Update company profile and/or preferences
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/sequences.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+const TAX_CLASSES = ['standard', 'zero_rated', 'exempt'];
+const RECEIPT_TEMPLATES = ['58mm', '80mm', 'a4'];
+const DEFAULT_RECEIPT_FOOTER = "**Thank you for your patronage!**\nPlease keep this receipt for your records";
+// Logos are stored as a data URL; about 500 KB once base64 encoded
+const MAX_RECEIPT_LOGO_LENGTH = 700000;
+
+/**
+ * Tax rates every new account starts with
+ */
+function defaultTaxRates() {
+    return [
+        ['id' => 'vat', 'name' => 'VAT', 'rate' => 7.5, 'tax_class' => 'standard'],
+        ['id' => 'zero', 'name' => 'Zero-rated', 'rate' => 0, 'tax_class' => 'zero_rated'],
+        ['id' => 'exempt', 'name' => 'Exempt', 'rate' => 0, 'tax_class' => 'exempt']
+    ];
+}
+
+/**
+ * Load settings for a user, falling back to defaults when no row exists yet
+ */
+function loadSettings($pdo, $userId) {
+    $stmt = $pdo->prepare('
+        SELECT company_name, company_address, company_phone, company_email, currency_symbol,
+               tax_rates, default_tax_rate_id, category_tax_rates, prices_include_tax,
+               invoice_prefix, invoice_number_padding, invoice_number_include_year, invoice_number_yearly_reset,
+               stock_policy, stock_override_pin_hash, receipt_show_bundle_components, receipt_template,
+               receipt_logo, receipt_header, receipt_footer, receipt_return_policy
+        FROM settings
+        WHERE user_id = ?
+    ');
+    $stmt->execute([$userId]);
+    $settings = $stmt->fetch();
+
+    if (!$settings) {
+        $settings = [
+            'company_name' => '',
+            'company_address' => '',
+            'company_phone' => '',
+            'company_email' => '',
+            'currency_symbol' => '₦',
+            'tax_rates' => null,
+            'default_tax_rate_id' => 'vat',
+            'category_tax_rates' => null,
+            'prices_include_tax' => 0,
+            'invoice_prefix' => 'INV-',
+            'invoice_number_padding' => 6,
+            'invoice_number_include_year' => 1,
+            'invoice_number_yearly_reset' => 1,
+            'stock_policy' => 'allow_negative',
+            'stock_override_pin_hash' => null,
+            'receipt_show_bundle_components' => 1,
+            'receipt_template' => '80mm',
+            'receipt_logo' => null,
+            'receipt_header' => '',
+            'receipt_footer' => DEFAULT_RECEIPT_FOOTER,
+            'receipt_return_policy' => ''
+        ];
+    }
+
+    $settings['company_address'] = $settings['company_address'] ?? '';
+    $settings['company_phone'] = $settings['company_phone'] ?? '';
+    $settings['company_email'] = $settings['company_email'] ?? '';
+    $settings['tax_rates'] = $settings['tax_rates'] ? json_decode($settings['tax_rates'], true) : defaultTaxRates();
+    $settings['category_tax_rates'] = $settings['category_tax_rates']
+        ? (object) json_decode($settings['category_tax_rates'], true)
+        : (object) [];
+    $settings['prices_include_tax'] = (bool) $settings['prices_include_tax'];
+    $settings['invoice_number_padding'] = (int) $settings['invoice_number_padding'];
+    $settings['invoice_number_include_year'] = (bool) $settings['invoice_number_include_year'];
+    $settings['invoice_number_yearly_reset'] = (bool) $settings['invoice_number_yearly_reset'];
+    $settings['receipt_show_bundle_components'] = (bool) $settings['receipt_show_bundle_components'];
+
+    return $settings;
+}
+
+/**
+ * Settings as sent to the client: the override PIN is only reported as set or not
+ */
+function publicSettings($settings) {
+    $settings['stock_override_pin_set'] = !empty($settings['stock_override_pin_hash']);
+    unset($settings['stock_override_pin_hash']);
+
+    return $settings;
+}
+
+/**
+ * Validate and normalise a list of tax rates from the request body
+ */
+function normaliseTaxRates($taxRates) {
+    if (!is_array($taxRates) || count($taxRates) === 0) {
+        errorResponse('At least one tax rate is required');
+    }
+
+    $normalised = [];
+    foreach ($taxRates as $taxRate) {
+        $id = trim($taxRate['id'] ?? '');
+        $name = trim($taxRate['name'] ?? '');
+        $taxClass = $taxRate['tax_class'] ?? 'standard';
+        $rate = floatval($taxRate['rate'] ?? 0);
+
+        if ($id === '' || $name === '') {
+            errorResponse('Every tax rate needs an id and a name');
+        }
+        if (isset($normalised[$id])) {
+            errorResponse("Duplicate tax rate id: $id");
+        }
+        if (!in_array($taxClass, TAX_CLASSES, true)) {
+            errorResponse("Invalid tax class for $name");
+        }
+        if ($rate < 0 || $rate > 100) {
+            errorResponse("Rate for $name must be between 0 and 100");
+        }
+
+        $normalised[$id] = [
+            'id' => $id,
+            'name' => $name,
+            // Only standard-rated supplies carry a non-zero rate
+            'rate' => $taxClass === 'standard' ? $rate : 0,
+            'tax_class' => $taxClass
+        ];
+    }
+
+    return array_values($normalised);
+}
+
+try {
+    if ($method === 'GET') {
+        jsonResponse(publicSettings(loadSettings($pdo, $user['id'])));
+
+    } elseif ($method === 'PUT') {
+        $input = getJsonInput();
+
+        // Merge provided fields over the current settings
+        $settings = loadSettings($pdo, $user['id']);
+        $numberingFields = ['invoice_prefix', 'invoice_number_padding', 'invoice_number_include_year', 'invoice_number_yearly_reset'];
+        $previousNumbering = array_intersect_key($settings, array_flip($numberingFields));
+
+        foreach (['company_name', 'company_address', 'company_phone', 'company_email', 'currency_symbol'] as $field) {
+            if (isset($input[$field])) {
+                $settings[$field] = trim($input[$field]);
+            }
+        }
+
+        if ($settings['currency_symbol'] === '') {
+            errorResponse('Currency symbol is required');
+        }
+
+        if (isset($input['tax_rates'])) {
+            $settings['tax_rates'] = normaliseTaxRates($input['tax_rates']);
+        }
+
+        if (isset($input['default_tax_rate_id'])) {
+            $settings['default_tax_rate_id'] = $input['default_tax_rate_id'];
+        }
+
+        if (isset($input['category_tax_rates'])) {
+            $settings['category_tax_rates'] = (object) (is_array($input['category_tax_rates']) ? $input['category_tax_rates'] : []);
+        }
+
+        if (isset($input['prices_include_tax'])) {
+            $settings['prices_include_tax'] = (bool) $input['prices_include_tax'];
+        }
+
+        // Invoice numbering
+        if (isset($input['invoice_prefix'])) {
+            $settings['invoice_prefix'] = trim($input['invoice_prefix']);
+        }
+
+        if (isset($input['invoice_number_padding'])) {
+            $settings['invoice_number_padding'] = intval($input['invoice_number_padding']);
+        }
+
+        foreach (['invoice_number_include_year', 'invoice_number_yearly_reset', 'receipt_show_bundle_components'] as $field) {
+            if (isset($input[$field])) {
+                $settings[$field] = (bool) $input[$field];
+            }
+        }
+
+        if (isset($input['receipt_template'])) {
+            if (!in_array($input['receipt_template'], RECEIPT_TEMPLATES, true)) {
+                errorResponse('Invalid receipt template');
+            }
+            $settings['receipt_template'] = $input['receipt_template'];
+        }
+
+        // Receipt design; the text keeps its formatting markers and is rendered by the client
+        foreach (['receipt_header' => 1000, 'receipt_footer' => 1000, 'receipt_return_policy' => 2000] as $field => $maxLength) {
+            if (isset($input[$field])) {
+                $settings[$field] = trim((string) $input[$field]);
+                if (mb_strlen($settings[$field]) > $maxLength) {
+                    errorResponse("Receipt text is limited to $maxLength characters");
+                }
+            }
+        }
+
+        if (array_key_exists('receipt_logo', $input)) {
+            $logo = $input['receipt_logo'] ?: null;
+            if ($logo !== null && (
+                strlen($logo) > MAX_RECEIPT_LOGO_LENGTH ||
+                !preg_match('#^data:image/png;base64,[A-Za-z0-9+/]+=*$#', $logo)
+            )) {
+                errorResponse('Logo must be a PNG image under 500 KB');
+            }
+            $settings['receipt_logo'] = $logo;
+        }
+
+        if (mb_strlen($settings['invoice_prefix']) > 20) {
+            errorResponse('Invoice prefix must be 20 characters or fewer');
+        }
+
+        if ($settings['invoice_number_padding'] < 1 || $settings['invoice_number_padding'] > 10) {
+            errorResponse('Invoice number padding must be between 1 and 10 digits');
+        }
+
+        // Without the year in the number, restarting the count each year would repeat numbers
+        if ($settings['invoice_number_yearly_reset'] && !$settings['invoice_number_include_year']) {
+            errorResponse('Yearly reset requires the year to be part of the invoice number');
+        }
+
+        // A numbering change must not lead to a number that has already been issued
+        $numbering = array_intersect_key($settings, array_flip($numberingFields));
+        if ($numbering != $previousNumbering) {
+            $upcoming = upcomingInvoiceNumber($pdo, $user['id'], $numbering);
+            if (invoiceNumberExists($pdo, $user['id'], $upcoming)) {
+                errorResponse("This numbering would issue $upcoming again, which is already in use", 409);
+            }
+        }
+
+        // Stock control is the manager's call, or a cashier could lift their own override
+        if (isset($input['stock_policy']) || array_key_exists('stock_override_pin', $input)) {
+            requireRole($pdo, $user, 'admin');
+        }
+
+        if (isset($input['stock_policy'])) {
+            if (!in_array($input['stock_policy'], STOCK_POLICIES, true)) {
+                errorResponse('Invalid stock policy');
+            }
+            $settings['stock_policy'] = $input['stock_policy'];
+        }
+
+        // An empty PIN removes it; otherwise only the hash is stored
+        if (array_key_exists('stock_override_pin', $input)) {
+            $pin = (string) ($input['stock_override_pin'] ?? '');
+            if ($pin !== '' && !preg_match('/^\d{4,8}$/', $pin)) {
+                errorResponse('Override PIN must be 4 to 8 digits');
+            }
+            $settings['stock_override_pin_hash'] = $pin !== '' ? password_hash($pin, PASSWORD_DEFAULT) : null;
+        }
+
+        if ($settings['stock_policy'] === 'override' && empty($settings['stock_override_pin_hash'])) {
+            errorResponse('Set an override PIN to allow manager overrides');
+        }
+
+        // References to tax rates must point at rates that still exist
+        $rateIds = array_column($settings['tax_rates'], 'id');
+
+        if (!in_array($settings['default_tax_rate_id'], $rateIds, true)) {
+            errorResponse('Default tax rate must be one of the configured rates');
+        }
+
+        $categoryTaxRates = [];
+        foreach ((array) $settings['category_tax_rates'] as $category => $rateId) {
+            if (in_array($rateId, $rateIds, true)) {
+                $categoryTaxRates[$category] = $rateId;
+            }
+        }
+
+        $stmt = $pdo->prepare('
+            INSERT INTO settings (
+                user_id, company_name, company_address, company_phone, company_email, currency_symbol,
+                tax_rates, default_tax_rate_id, category_tax_rates, prices_include_tax,
+                invoice_prefix, invoice_number_padding, invoice_number_include_year, invoice_number_yearly_reset,
+                stock_policy, stock_override_pin_hash, receipt_show_bundle_components, receipt_template,
+                receipt_logo, receipt_header, receipt_footer, receipt_return_policy
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE
+                company_name = VALUES(company_name),
+                company_address = VALUES(company_address),
+                company_phone = VALUES(company_phone),
+                company_email = VALUES(company_email),
+                currency_symbol = VALUES(currency_symbol),
+                tax_rates = VALUES(tax_rates),
+                default_tax_rate_id = VALUES(default_tax_rate_id),
+                category_tax_rates = VALUES(category_tax_rates),
+                prices_include_tax = VALUES(prices_include_tax),
+                invoice_prefix = VALUES(invoice_prefix),
+                invoice_number_padding = VALUES(invoice_number_padding),
+                invoice_number_include_year = VALUES(invoice_number_include_year),
+                invoice_number_yearly_reset = VALUES(invoice_number_yearly_reset),
+                stock_policy = VALUES(stock_policy),
+                stock_override_pin_hash = VALUES(stock_override_pin_hash),
+                receipt_show_bundle_components = VALUES(receipt_show_bundle_components),
+                receipt_template = VALUES(receipt_template),
+                receipt_logo = VALUES(receipt_logo),
+                receipt_header = VALUES(receipt_header),
+                receipt_footer = VALUES(receipt_footer),
+                receipt_return_policy = VALUES(receipt_return_policy)
+        ');
+        $stmt->execute([
+            $user['id'],
+            $settings['company_name'],
+            $settings['company_address'] ?: null,
+            $settings['company_phone'] ?: null,
+            $settings['company_email'] ?: null,
+            $settings['currency_symbol'],
+            json_encode($settings['tax_rates']),
+            $settings['default_tax_rate_id'],
+            json_encode((object) $categoryTaxRates),
+            $settings['prices_include_tax'] ? 1 : 0,
+            $settings['invoice_prefix'],
+            $settings['invoice_number_padding'],
+            $settings['invoice_number_include_year'] ? 1 : 0,
+            $settings['invoice_number_yearly_reset'] ? 1 : 0,
+            $settings['stock_policy'],
+            $settings['stock_override_pin_hash'],
+            $settings['receipt_show_bundle_components'] ? 1 : 0,
+            $settings['receipt_template'],
+            $settings['receipt_logo'],
+            $settings['receipt_header'],
+            $settings['receipt_footer'],
+            $settings['receipt_return_policy']
+        ]);
+
+        jsonResponse(publicSettings(loadSettings($pdo, $user['id'])));
+
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
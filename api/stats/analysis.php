@@ -7,6 +7,7 @@
 
 require_once __DIR__ . '/../config/config.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/payments.php';
 
 if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
     errorResponse('Method not allowed', 405);
@@ -20,7 +21,7 @@ try {
     $stmt = $pdo->prepare('
         SELECT total, created_at 
         FROM invoices 
-        WHERE user_id = ? AND DATE(created_at) >= ?
+        WHERE user_id = ? AND voided_at IS NULL AND DATE(created_at) >= ?
         ORDER BY created_at ASC
     ');
     $stmt->execute([$user['id'], $fourWeeksAgo]);
@@ -29,14 +30,31 @@ try {
     // Get invoices from last 6 months for monthly analysis
     $sixMonthsAgo = date('Y-m-d', strtotime('-6 months'));
     $stmt = $pdo->prepare('
-        SELECT total, created_at 
+        SELECT total, payments, returned_total, created_at 
         FROM invoices 
-        WHERE user_id = ? AND DATE(created_at) >= ?
+        WHERE user_id = ? AND voided_at IS NULL AND DATE(created_at) >= ?
         ORDER BY created_at ASC
     ');
     $stmt->execute([$user['id'], $sixMonthsAgo]);
     $monthlyInvoices = $stmt->fetchAll();
     
+    // Returns count as negative sales on the day the credit note was issued
+    $stmt = $pdo->prepare('
+        SELECT total, refunded_amount, refund_method, created_at 
+        FROM credit_notes 
+        WHERE user_id = ? AND DATE(created_at) >= ?
+    ');
+    $stmt->execute([$user['id'], $sixMonthsAgo]);
+    $creditNotes = $stmt->fetchAll();
+    
+    $returns = array_map(function ($creditNote) {
+        return ['total' => -(float) $creditNote['total'], 'created_at' => $creditNote['created_at'], 'is_return' => true];
+    }, $creditNotes);
+    $recentInvoices = array_merge($recentInvoices, array_filter($returns, function ($entry) use ($fourWeeksAgo) {
+        return date('Y-m-d', strtotime($entry['created_at'])) >= $fourWeeksAgo;
+    }));
+    $monthlyInvoices = array_merge($monthlyInvoices, $returns);
+    
     // Process weekly data (daily breakdown for current week)
     $weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
     $weeklyData = [];
@@ -62,7 +80,9 @@ try {
         // This week data for chart
         if ($invoiceDate >= $thisWeekStart) {
             $weeklyData[$dayOfWeek]['total'] += $total;
-            $weeklyData[$dayOfWeek]['count']++;
+            if (empty($invoice['is_return'])) {
+                $weeklyData[$dayOfWeek]['count']++;
+            }
             $thisWeekTotal += $total;
         }
         
@@ -80,6 +100,7 @@ try {
     $weeklyTotals = [];
     $thisMonthTotal = 0;
     $lastMonthTotal = 0;
+    $thisMonthInvoices = [];
     
     $thisMonthStart = date('Y-m-01');
     $lastMonthStart = date('Y-m-01', strtotime('-1 month'));
@@ -98,12 +119,17 @@ try {
                 $weeklyTotals[$weekKey] = ['date' => 'Week ' . $weekNumber, 'total' => 0, 'count' => 0];
             }
             $weeklyTotals[$weekKey]['total'] += $total;
-            $weeklyTotals[$weekKey]['count']++;
+            if (empty($invoice['is_return'])) {
+                $weeklyTotals[$weekKey]['count']++;
+            }
         }
         
         // This month
         if ($invoiceDate >= $thisMonthStart) {
             $thisMonthTotal += $total;
+            if (empty($invoice['is_return'])) {
+                $thisMonthInvoices[] = $invoice;
+            }
         }
         
         // Last month
@@ -112,6 +138,8 @@ try {
         }
     }
     
+    // Returns are appended after the invoices, so put the weeks back in order
+    ksort($weeklyTotals);
     $monthlyData = array_values($weeklyTotals);
     
     jsonResponse([
@@ -120,7 +148,13 @@ try {
         'thisWeekTotal' => $thisWeekTotal,
         'lastWeekTotal' => $lastWeekTotal,
         'thisMonthTotal' => $thisMonthTotal,
-        'lastMonthTotal' => $lastMonthTotal
+        'lastMonthTotal' => $lastMonthTotal,
+        'thisMonthByPaymentMethod' => summarisePaymentMethods(
+            $thisMonthInvoices,
+            array_filter($creditNotes, function ($creditNote) use ($thisMonthStart) {
+                return date('Y-m-d', strtotime($creditNote['created_at'])) >= $thisMonthStart;
+            })
+        )
     ]);
     
 } catch (PDOException $e) {
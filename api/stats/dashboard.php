@@ -6,6 +6,9 @@
 
 require_once __DIR__ . '/../config/config.php';
 require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/payments.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/profit.php';
 
 if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
     errorResponse('Method not allowed', 405);
@@ -14,9 +17,15 @@ if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
 $user = requireAuth();
 
 try {
-    // Get total sales
-    $stmt = $pdo->prepare('SELECT COALESCE(SUM(total), 0) as total_sales FROM invoices WHERE user_id = ?');
-    $stmt->execute([$user['id']]);
+    // Get total sales, net of returns
+    $stmt = $pdo->prepare('
+        SELECT COALESCE(SUM(total), 0) - (
+            SELECT COALESCE(SUM(total), 0) FROM credit_notes WHERE user_id = ?
+        ) as total_sales 
+        FROM invoices 
+        WHERE user_id = ? AND voided_at IS NULL
+    ');
+    $stmt->execute([$user['id'], $user['id']]);
     $totalSales = (float) $stmt->fetch()['total_sales'];
     
     // Get total products count
@@ -24,22 +33,30 @@ try {
     $stmt->execute([$user['id']]);
     $totalProducts = (int) $stmt->fetch()['count'];
     
-    // Get total invoices count
-    $stmt = $pdo->prepare('SELECT COUNT(*) as count FROM invoices WHERE user_id = ?');
+    // Get total invoices count, leaving out voided sales
+    $stmt = $pdo->prepare('SELECT COUNT(*) as count FROM invoices WHERE user_id = ? AND voided_at IS NULL');
     $stmt->execute([$user['id']]);
     $totalInvoices = (int) $stmt->fetch()['count'];
     
-    // Get low stock count (stock <= 10)
-    $stmt = $pdo->prepare('SELECT COUNT(*) as count FROM products WHERE user_id = ? AND stock <= 10');
+    // Get low stock count (at or below each product's reorder point); parents and bundles hold no stock of their own
+    $stmt = $pdo->prepare('
+        SELECT COUNT(*) as count 
+        FROM products 
+        WHERE user_id = ? AND stock <= reorder_point 
+            AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parent_id = products.id)
+            AND NOT EXISTS (SELECT 1 FROM product_components c WHERE c.bundle_id = products.id)
+    ');
     $stmt->execute([$user['id']]);
     $lowStockCount = (int) $stmt->fetch()['count'];
     
     // Get low stock products
     $stmt = $pdo->prepare('
-        SELECT id, name, stock, category 
+        SELECT id, name, stock, reorder_point, category 
         FROM products 
-        WHERE user_id = ? AND stock <= 10 
-        ORDER BY stock ASC 
+        WHERE user_id = ? AND stock <= reorder_point 
+            AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parent_id = products.id)
+            AND NOT EXISTS (SELECT 1 FROM product_components c WHERE c.bundle_id = products.id)
+        ORDER BY stock - reorder_point ASC 
         LIMIT 10
     ');
     $stmt->execute([$user['id']]);
@@ -47,14 +64,35 @@ try {
     
     foreach ($lowStockProducts as &$product) {
         $product['stock'] = (int) $product['stock'];
+        $product['reorder_point'] = (int) $product['reorder_point'];
     }
     
+    // Revenue by payment method
+    $stmt = $pdo->prepare('
+        SELECT total, payments, returned_total 
+        FROM invoices 
+        WHERE user_id = ? AND voided_at IS NULL
+    ');
+    $stmt->execute([$user['id']]);
+    $invoices = $stmt->fetchAll();
+    
+    $stmt = $pdo->prepare('SELECT refunded_amount, refund_method FROM credit_notes WHERE user_id = ?');
+    $stmt->execute([$user['id']]);
+    $salesByPaymentMethod = summarisePaymentMethods($invoices, $stmt->fetchAll());
+    
+    // All-time gross profit on lines with a captured unit cost
+    $profit = summariseProfit(profitDocuments($pdo, $user['id']), productCategories($pdo, $user['id']));
+    
     jsonResponse([
         'totalSales' => $totalSales,
+        'grossProfit' => $profit['grossProfit'],
+        'grossMargin' => $profit['margin'],
+        'uncostedRevenue' => $profit['uncostedRevenue'],
         'totalProducts' => $totalProducts,
         'totalInvoices' => $totalInvoices,
         'lowStockCount' => $lowStockCount,
-        'lowStockProducts' => $lowStockProducts
+        'lowStockProducts' => $lowStockProducts,
+        'salesByPaymentMethod' => $salesByPaymentMethod
     ]);
     
 } catch (PDOException $e) {
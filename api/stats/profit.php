@@ -0,0 +1,39 @@
+<?php
+/**
+ * Profitability Endpoint
+ * GET /api/stats/profit.php?from=2025-01-01&to=2025-01-31&group_by=parent
+ * Returns gross profit and margin overall, per product and per category. Credit notes
+ * in the period are netted off; the range defaults to the current month.
+ * group_by=parent reports each product's variants as one row under the parent.
+ * category_id limits the figures to items in that category and its subcategories.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/profit.php';
+require_once __DIR__ . '/../lib/products.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$from = !empty($_GET['from']) ? $_GET['from'] : date('Y-m-01');
+$to = !empty($_GET['to']) ? $_GET['to'] : date('Y-m-d');
+$groupByParent = ($_GET['group_by'] ?? '') === 'parent';
+
+try {
+    $summary = summariseProfit(
+        profitDocuments($pdo, $user['id'], $from, $to),
+        productCategories($pdo, $user['id']),
+        $groupByParent ? productParents($pdo, $user['id']) : [],
+        !empty($_GET['category_id']) ? categoryNamesWithDescendants($pdo, $user['id'], $_GET['category_id']) : null
+    );
+    
+    jsonResponse(['from' => $from, 'to' => $to, 'groupBy' => $groupByParent ? 'parent' : 'product'] + $summary);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,116 @@
+<?php
+/**
+ * Reorder Report Endpoint
+ * GET /api/stats/reorder.php?days=30
+ * For every product: units sold over the last N days (net of returns), daily sales rate,
+ * days of stock left, units already on order and a suggested order quantity.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$days = max(7, min(365, intval($_GET['days'] ?? 30)));
+$since = date('Y-m-d', strtotime("-$days days"));
+
+/**
+ * Add up stocked line quantities per product across rows of products JSON.
+ * Bundles count towards the sales of their components.
+ */
+function quantitiesByProduct($rows) {
+    $quantities = [];
+    foreach ($rows as $row) {
+        foreach (json_decode($row['products'], true) ?: [] as $line) {
+            foreach (lineStockQuantities($line) as $productId => $quantity) {
+                $quantities[$productId] = ($quantities[$productId] ?? 0) + $quantity;
+            }
+        }
+    }
+    return $quantities;
+}
+
+try {
+    $stmt = $pdo->prepare('
+        SELECT id, name, category, stock, reorder_point, reorder_quantity 
+        FROM products 
+        WHERE user_id = ? AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parent_id = products.id)
+            AND NOT EXISTS (SELECT 1 FROM product_components c WHERE c.bundle_id = products.id)
+        ORDER BY name ASC
+    ');
+    $stmt->execute([$user['id']]);
+    $products = $stmt->fetchAll();
+    
+    $stmt = $pdo->prepare('SELECT products FROM invoices WHERE user_id = ? AND voided_at IS NULL AND DATE(created_at) >= ?');
+    $stmt->execute([$user['id'], $since]);
+    $sold = quantitiesByProduct($stmt->fetchAll());
+    
+    $stmt = $pdo->prepare('SELECT products FROM credit_notes WHERE user_id = ? AND DATE(created_at) >= ?');
+    $stmt->execute([$user['id'], $since]);
+    $returned = quantitiesByProduct($stmt->fetchAll());
+    
+    // Units still expected on open purchase orders
+    $stmt = $pdo->prepare("SELECT items FROM purchase_orders WHERE user_id = ? AND status IN ('ordered', 'partial')");
+    $stmt->execute([$user['id']]);
+    $onOrder = [];
+    foreach ($stmt->fetchAll() as $order) {
+        foreach (json_decode($order['items'], true) ?: [] as $item) {
+            $outstanding = max(0, (int) $item['quantity'] - (int) ($item['received_quantity'] ?? 0));
+            $onOrder[$item['product_id']] = ($onOrder[$item['product_id']] ?? 0) + $outstanding;
+        }
+    }
+    
+    $rows = [];
+    foreach ($products as $product) {
+        $id = $product['id'];
+        $stock = (int) $product['stock'];
+        $reorderPoint = (int) $product['reorder_point'];
+        $reorderQuantity = (int) $product['reorder_quantity'];
+        $unitsSold = max(0, ($sold[$id] ?? 0) - ($returned[$id] ?? 0));
+        $dailySales = $unitsSold / $days;
+        $incoming = $onOrder[$id] ?? 0;
+        
+        // Below the reorder point once what is already on order arrives: order enough to cover
+        // another period at the current rate, and never less than the usual order size
+        $needsReorder = $stock + $incoming <= $reorderPoint;
+        $suggested = 0;
+        if ($needsReorder) {
+            $target = (int) ceil($dailySales * $days) + $reorderPoint;
+            $suggested = max($reorderQuantity, $target - $stock - $incoming, 1);
+        }
+        
+        $rows[] = [
+            'product_id' => $id,
+            'name' => $product['name'],
+            'category' => $product['category'],
+            'stock' => $stock,
+            'reorder_point' => $reorderPoint,
+            'reorder_quantity' => $reorderQuantity,
+            'units_sold' => $unitsSold,
+            'daily_sales' => round($dailySales, 2),
+            'days_left' => $dailySales > 0 ? max(0, (int) floor($stock / $dailySales)) : null,
+            'on_order' => $incoming,
+            'needs_reorder' => $needsReorder,
+            'suggested_quantity' => $suggested
+        ];
+    }
+    
+    // Products to reorder first, soonest to run out at the top
+    usort($rows, function ($a, $b) {
+        return $b['needs_reorder'] <=> $a['needs_reorder']
+            ?: ($a['days_left'] ?? PHP_INT_MAX) <=> ($b['days_left'] ?? PHP_INT_MAX)
+            ?: $a['stock'] - $a['reorder_point'] <=> $b['stock'] - $b['reorder_point'];
+    });
+    
+    jsonResponse([
+        'days' => $days,
+        'products' => $rows
+    ]);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
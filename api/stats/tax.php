@@ -2,7 +2,8 @@
 /**
  * Tax Tracking Endpoint
  * GET /api/stats/tax.php?year=2024
- * Returns monthly and quarterly tax data for a given year
+ * Returns monthly and quarterly tax data for a given year, plus a breakdown by tax rate.
+ * Credit notes are netted off as negative sales and tax.
  */
 
 require_once __DIR__ . '/../config/config.php';
@@ -16,16 +17,33 @@ $user = requireAuth();
 $year = intval($_GET['year'] ?? date('Y'));
 
 try {
-    // Get all invoices for the specified year
+    // Get all invoices for the specified year, leaving out voided sales
     $stmt = $pdo->prepare('
-        SELECT subtotal, tax, total, created_at 
+        SELECT subtotal, tax, total, prices_include_tax, products, created_at 
         FROM invoices 
-        WHERE user_id = ? AND YEAR(created_at) = ?
+        WHERE user_id = ? AND voided_at IS NULL AND YEAR(created_at) = ?
         ORDER BY created_at ASC
     ');
     $stmt->execute([$user['id'], $year]);
     $invoices = $stmt->fetchAll();
     
+    // Credit notes reverse the tax and sales of returned lines in the period they are issued
+    $stmt = $pdo->prepare('
+        SELECT subtotal, tax, total, prices_include_tax, products, created_at 
+        FROM credit_notes 
+        WHERE user_id = ? AND YEAR(created_at) = ?
+        ORDER BY created_at ASC
+    ');
+    $stmt->execute([$user['id'], $year]);
+    
+    $documents = [];
+    foreach ($invoices as $invoice) {
+        $documents[] = $invoice + ['sign' => 1];
+    }
+    foreach ($stmt->fetchAll() as $creditNote) {
+        $documents[] = $creditNote + ['sign' => -1];
+    }
+    
     // Initialize monthly data
     $months = [
         'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
@@ -50,34 +68,104 @@ try {
         'Q4' => ['quarter' => 'Q4', 'tax' => 0, 'sales' => 0, 'invoiceCount' => 0]
     ];
     
+    // Tax collected per rate, keyed by rate name, percentage and class
+    $rateBreakdown = [];
+    
     // Totals
     $totalTax = 0;
     $totalSales = 0;
     $totalInvoices = 0;
+    $totalReturns = 0;
     
-    // Process invoices
-    foreach ($invoices as $invoice) {
+    // Process invoices and credit notes
+    foreach ($documents as $invoice) {
+        $sign = $invoice['sign'];
+        $isSale = $sign > 0;
         $month = date('M', strtotime($invoice['created_at']));
         $monthNum = (int) date('n', strtotime($invoice['created_at']));
         
-        $tax = (float) $invoice['tax'];
-        $sales = (float) $invoice['subtotal'];
+        $tax = $sign * (float) $invoice['tax'];
+        // Net sales excluding tax, regardless of whether prices were tax-inclusive
+        $sales = $sign * (float) $invoice['total'] - $tax;
         
         // Monthly
         $monthlyData[$month]['tax'] += $tax;
         $monthlyData[$month]['sales'] += $sales;
-        $monthlyData[$month]['invoiceCount']++;
         
         // Quarterly
         $quarter = 'Q' . ceil($monthNum / 3);
         $quarterlyData[$quarter]['tax'] += $tax;
         $quarterlyData[$quarter]['sales'] += $sales;
-        $quarterlyData[$quarter]['invoiceCount']++;
+        
+        if ($isSale) {
+            $monthlyData[$month]['invoiceCount']++;
+            $quarterlyData[$quarter]['invoiceCount']++;
+        }
+        
+        // By rate - lines record the rate applied at the time of sale
+        $lines = json_decode($invoice['products'], true) ?: [];
+        $hasRateInfo = false;
+        
+        foreach ($lines as $line) {
+            if (!isset($line['tax_rate_name'])) {
+                continue;
+            }
+            $hasRateInfo = true;
+            
+            $key = $line['tax_rate_name'] . '|' . $line['tax_rate'] . '|' . $line['tax_class'];
+            if (!isset($rateBreakdown[$key])) {
+                $rateBreakdown[$key] = [
+                    'name' => $line['tax_rate_name'],
+                    'rate' => (float) $line['tax_rate'],
+                    'taxClass' => $line['tax_class'],
+                    'taxable' => 0,
+                    'tax' => 0,
+                    'lineCount' => 0
+                ];
+            }
+            
+            $lineTax = $sign * (float) ($line['tax_amount'] ?? 0);
+            // Discounts come off before tax, so the taxable amount is net of them
+            $lineNet = $sign * (
+                (float) $line['price'] * (int) $line['quantity']
+                - (float) ($line['discount_amount'] ?? 0)
+                - (float) ($line['invoice_discount_share'] ?? 0)
+            );
+            
+            $rateBreakdown[$key]['taxable'] += $invoice['prices_include_tax'] ? $lineNet - $lineTax : $lineNet;
+            $rateBreakdown[$key]['tax'] += $lineTax;
+            if ($isSale) {
+                $rateBreakdown[$key]['lineCount']++;
+            }
+        }
+        
+        // Invoices created before per-line rates were recorded
+        if (!$hasRateInfo) {
+            if (!isset($rateBreakdown['unclassified'])) {
+                $rateBreakdown['unclassified'] = [
+                    'name' => 'Unclassified',
+                    'rate' => null,
+                    'taxClass' => null,
+                    'taxable' => 0,
+                    'tax' => 0,
+                    'lineCount' => 0
+                ];
+            }
+            $rateBreakdown['unclassified']['taxable'] += $sales;
+            $rateBreakdown['unclassified']['tax'] += $tax;
+            if ($isSale) {
+                $rateBreakdown['unclassified']['lineCount'] += count($lines);
+            }
+        }
         
         // Totals
         $totalTax += $tax;
         $totalSales += $sales;
-        $totalInvoices++;
+        if ($isSale) {
+            $totalInvoices++;
+        } else {
+            $totalReturns -= $sales;
+        }
     }
     
     // Get available years for the dropdown
@@ -98,9 +186,11 @@ try {
     jsonResponse([
         'monthlyData' => array_values($monthlyData),
         'quarterlyData' => array_values($quarterlyData),
+        'rateBreakdown' => array_values($rateBreakdown),
         'totalTax' => $totalTax,
         'totalSales' => $totalSales,
         'totalInvoices' => $totalInvoices,
+        'totalReturns' => $totalReturns,
         'availableYears' => $years,
         'selectedYear' => $year
     ]);
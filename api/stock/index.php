@@ -0,0 +1,132 @@
+<?php
+/**
+ * Stock Movements Endpoint
+ * GET /api/stock/?product_id=xxx - Ledger for a product, oldest first (optional from, to filters)
+ * POST /api/stock/ - Post a manual adjustment, receipt or write-off
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/products.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+/**
+ * Cast numeric columns from a movement row
+ */
+function formatStockMovement($movement) {
+    $movement['quantity'] = (int) $movement['quantity'];
+    $movement['balance_after'] = (int) $movement['balance_after'];
+    return $movement;
+}
+
+try {
+    if ($method === 'GET') {
+        if (empty($_GET['product_id'])) {
+            errorResponse('product_id is required');
+        }
+        
+        $sql = '
+            SELECT id, product_id, type, quantity, balance_after, reason, reference_type, 
+                   reference_id, reference_number, created_by, created_at 
+            FROM stock_movements 
+            WHERE user_id = ? AND product_id = ?
+        ';
+        $params = [$user['id'], $_GET['product_id']];
+        
+        if (!empty($_GET['from'])) {
+            $sql .= ' AND DATE(created_at) >= ?';
+            $params[] = $_GET['from'];
+        }
+        
+        if (!empty($_GET['to'])) {
+            $sql .= ' AND DATE(created_at) <= ?';
+            $params[] = $_GET['to'];
+        }
+        
+        // seq is the order movements were written in, so running balances read top to bottom
+        $sql .= ' ORDER BY seq ASC';
+        
+        $stmt = $pdo->prepare($sql);
+        $stmt->execute($params);
+        
+        jsonResponse(array_map('formatStockMovement', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        $input = getJsonInput();
+        
+        $type = $input['type'] ?? '';
+        $quantity = intval($input['quantity'] ?? 0);
+        $reason = trim($input['reason'] ?? '');
+        
+        if (empty($input['product_id'])) {
+            errorResponse('product_id is required');
+        }
+        
+        if (!in_array($type, MANUAL_STOCK_MOVEMENT_TYPES, true)) {
+            errorResponse('Type must be one of: ' . implode(', ', MANUAL_STOCK_MOVEMENT_TYPES));
+        }
+        
+        if ($quantity === 0) {
+            errorResponse('Quantity cannot be zero');
+        }
+        
+        // Receipts add stock and write-offs remove it; adjustments carry their own sign
+        if ($type === 'receipt' && $quantity < 0) {
+            errorResponse('A receipt must add stock');
+        }
+        if ($type === 'write_off') {
+            $quantity = -abs($quantity);
+        }
+        
+        if ($reason === '' && $type !== 'receipt') {
+            errorResponse('A reason is required');
+        }
+        
+        if (!empty(findParentProducts($pdo, $user['id'], [$input['product_id']]))) {
+            errorResponse('Stock is held on the variants of this product', 409);
+        }
+        
+        if (!empty(findBundleProducts($pdo, $user['id'], [$input['product_id']]))) {
+            errorResponse('A bundle holds no stock - adjust its components instead', 409);
+        }
+        
+        $pdo->beginTransaction();
+        
+        try {
+            $movement = recordStockMovement(
+                $pdo,
+                $user['id'],
+                $input['product_id'],
+                $type,
+                $quantity,
+                $user['email'],
+                $reason !== '' ? mb_substr($reason, 0, 255) : null
+            );
+            
+            if (!$movement) {
+                $pdo->rollBack();
+                errorResponse('Product not found', 404);
+            }
+            
+            $pdo->commit();
+            
+            $movement['created_at'] = date('Y-m-d H:i:s');
+            jsonResponse($movement, 201);
+            
+        } catch (Exception $e) {
+            if ($pdo->inTransaction()) {
+                $pdo->rollBack();
+            }
+            throw $e;
+        }
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,97 @@
+<?php
+/**
+ * Approve Stocktake Endpoint
+ * POST /api/stocktakes/approve.php?id=xxx
+ * Posts each counted product's variance (counted minus the snapshot) to stock as an adjustment.
+ * Sales made while counting stay in the current level, since only the difference is applied.
+ * Products nobody counted are left as they are.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stock.php';
+require_once __DIR__ . '/../lib/stocktakes.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+requireRole($pdo, $user, 'admin');
+$stocktakeId = $_GET['id'] ?? null;
+
+if (!$stocktakeId) {
+    errorResponse('Stocktake ID is required');
+}
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        // Lock the stocktake so counting stops and it cannot be approved twice
+        $stmt = $pdo->prepare('SELECT id, stocktake_number, status FROM stocktakes WHERE id = ? AND user_id = ? FOR UPDATE');
+        $stmt->execute([$stocktakeId, $user['id']]);
+        $stocktake = $stmt->fetch();
+        
+        if (!$stocktake) {
+            $pdo->rollBack();
+            errorResponse('Stocktake not found', 404);
+        }
+        
+        if ($stocktake['status'] !== 'counting') {
+            $pdo->rollBack();
+            errorResponse("Stocktake is already {$stocktake['status']}");
+        }
+        
+        $stmt = $pdo->prepare('
+            SELECT i.product_id, i.system_quantity, SUM(c.quantity) AS counted_quantity
+            FROM stocktake_items i
+            JOIN stocktake_counts c ON c.stocktake_id = i.stocktake_id AND c.product_id = i.product_id
+            WHERE i.stocktake_id = ?
+            GROUP BY i.product_id, i.system_quantity
+        ');
+        $stmt->execute([$stocktakeId]);
+        $counted = $stmt->fetchAll();
+        
+        if (empty($counted)) {
+            $pdo->rollBack();
+            errorResponse('Count at least one product before approving');
+        }
+        
+        foreach ($counted as $item) {
+            $variance = (int) $item['counted_quantity'] - (int) $item['system_quantity'];
+            
+            if ($variance === 0) {
+                continue;
+            }
+            
+            // A product deleted since the count started has no stock left to correct
+            recordStockMovement(
+                $pdo,
+                $user['id'],
+                $item['product_id'],
+                'adjustment',
+                $variance,
+                $user['email'],
+                "Stocktake: counted {$item['counted_quantity']}, expected {$item['system_quantity']}",
+                ['type' => 'stocktake', 'id' => $stocktake['id'], 'number' => $stocktake['stocktake_number']]
+            );
+        }
+        
+        $stmt = $pdo->prepare("UPDATE stocktakes SET status = 'approved', approved_by = ?, approved_at = NOW() WHERE id = ?");
+        $stmt->execute([$user['email'], $stocktakeId]);
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    jsonResponse(findStocktake($pdo, $user['id'], $stocktakeId));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,41 @@
+<?php
+/**
+ * Cancel Stocktake Endpoint
+ * POST /api/stocktakes/cancel.php?id=xxx
+ * Abandons a count without touching stock; the counts stay on record
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stocktakes.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$stocktakeId = $_GET['id'] ?? null;
+
+if (!$stocktakeId) {
+    errorResponse('Stocktake ID is required');
+}
+
+try {
+    $stocktake = findStocktake($pdo, $user['id'], $stocktakeId);
+    
+    if (!$stocktake) {
+        errorResponse('Stocktake not found', 404);
+    }
+    
+    if ($stocktake['status'] !== 'counting') {
+        errorResponse("Stocktake is already {$stocktake['status']}");
+    }
+    
+    $stmt = $pdo->prepare("UPDATE stocktakes SET status = 'cancelled' WHERE id = ? AND status = 'counting'");
+    $stmt->execute([$stocktakeId]);
+    
+    jsonResponse(findStocktake($pdo, $user['id'], $stocktakeId));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,110 @@
+<?php
+/**
+ * Stocktake Count Endpoint
+ * POST /api/stocktakes/count.php?id=xxx
+ * Body: { product_id, counter, quantity, mode }
+ * Records one counter's count of a product. mode "add" adds to their running count (one scan
+ * adds 1); mode "set" replaces it, and a null quantity clears it. Each counter keeps their own
+ * count so several people can count the same product in different places.
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/stocktakes.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'POST') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$stocktakeId = $_GET['id'] ?? null;
+
+if (!$stocktakeId) {
+    errorResponse('Stocktake ID is required');
+}
+
+$input = getJsonInput();
+
+$productId = (string) ($input['product_id'] ?? '');
+$counter = preg_replace('/\s+/', ' ', trim($input['counter'] ?? ''));
+$mode = $input['mode'] ?? 'set';
+$quantity = isset($input['quantity']) && $input['quantity'] !== '' ? intval($input['quantity']) : null;
+
+if ($productId === '') {
+    errorResponse('product_id is required');
+}
+
+if ($counter === '') {
+    errorResponse('Counter name is required');
+}
+
+if (mb_strlen($counter) > 100) {
+    errorResponse('Counter name must be 100 characters or fewer');
+}
+
+if (!in_array($mode, STOCKTAKE_COUNT_MODES, true)) {
+    errorResponse('Mode must be one of: ' . implode(', ', STOCKTAKE_COUNT_MODES));
+}
+
+if ($mode === 'add' && !$quantity) {
+    errorResponse('Quantity to add cannot be zero');
+}
+
+if ($mode === 'set' && $quantity !== null && $quantity < 0) {
+    errorResponse('Counted quantity cannot be negative');
+}
+
+try {
+    $pdo->beginTransaction();
+    
+    try {
+        // A shared lock lets counters work side by side but waits for an approval in progress
+        $stmt = $pdo->prepare('SELECT status FROM stocktakes WHERE id = ? AND user_id = ? LOCK IN SHARE MODE');
+        $stmt->execute([$stocktakeId, $user['id']]);
+        $status = $stmt->fetchColumn();
+        
+        if ($status === false) {
+            $pdo->rollBack();
+            errorResponse('Stocktake not found', 404);
+        }
+        
+        if ($status !== 'counting') {
+            $pdo->rollBack();
+            errorResponse("Stocktake is already $status");
+        }
+        
+        $stmt = $pdo->prepare('SELECT name FROM stocktake_items WHERE stocktake_id = ? AND product_id = ?');
+        $stmt->execute([$stocktakeId, $productId]);
+        
+        if ($stmt->fetchColumn() === false) {
+            $pdo->rollBack();
+            errorResponse('That product is not part of this stocktake', 404);
+        }
+        
+        if ($mode === 'set' && $quantity === null) {
+            $stmt = $pdo->prepare('DELETE FROM stocktake_counts WHERE stocktake_id = ? AND product_id = ? AND counter = ?');
+            $stmt->execute([$stocktakeId, $productId, $counter]);
+        } else {
+            // Taking a scan back never leaves a count below zero
+            $stmt = $pdo->prepare('
+                INSERT INTO stocktake_counts (stocktake_id, product_id, counter, quantity)
+                VALUES (?, ?, ?, GREATEST(0, ?))
+                ON DUPLICATE KEY UPDATE quantity = ' . ($mode === 'add' ? 'GREATEST(0, quantity + ?)' : '?')
+            );
+            $stmt->execute([$stocktakeId, $productId, $counter, $quantity, $quantity]);
+        }
+        
+        $pdo->commit();
+        
+    } catch (Exception $e) {
+        if ($pdo->inTransaction()) {
+            $pdo->rollBack();
+        }
+        throw $e;
+    }
+    
+    jsonResponse(findStocktake($pdo, $user['id'], $stocktakeId));
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,141 @@
+<?php
+/**
+ * Stocktakes Endpoint
+ * GET /api/stocktakes/ - List stocktakes for user with their progress (optional status filter)
+ * GET /api/stocktakes/?id=xxx - Single stocktake with its items and counts
+ * POST /api/stocktakes/ - Start a stocktake, snapshotting current stock levels
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+require_once __DIR__ . '/../lib/sequences.php';
+require_once __DIR__ . '/../lib/stocktakes.php';
+require_once __DIR__ . '/../lib/categories.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+try {
+    if ($method === 'GET') {
+        if (!empty($_GET['id'])) {
+            $stocktake = findStocktake($pdo, $user['id'], $_GET['id']);
+            
+            if (!$stocktake) {
+                errorResponse('Stocktake not found', 404);
+            }
+            
+            jsonResponse($stocktake);
+        }
+        
+        $sql = stocktakeSelectSql() . ' WHERE st.user_id = ?';
+        $params = [$user['id']];
+        
+        if (!empty($_GET['status']) && in_array($_GET['status'], STOCKTAKE_STATUSES, true)) {
+            $sql .= ' AND st.status = ?';
+            $params[] = $_GET['status'];
+        }
+        
+        $sql .= ' ORDER BY st.created_at DESC';
+        
+        $stmt = $pdo->prepare($sql);
+        $stmt->execute($params);
+        
+        jsonResponse(array_map('formatStocktake', $stmt->fetchAll()));
+        
+    } elseif ($method === 'POST') {
+        $input = getJsonInput();
+        
+        // Two open counts of the same shelf would post the same variance twice
+        $stmt = $pdo->prepare("SELECT stocktake_number FROM stocktakes WHERE user_id = ? AND status = 'counting' LIMIT 1");
+        $stmt->execute([$user['id']]);
+        $open = $stmt->fetchColumn();
+        
+        if ($open) {
+            errorResponse("Stocktake $open is still being counted; approve or cancel it first", 409);
+        }
+        
+        $category = null;
+        $categoryNames = null;
+        if (!empty($input['category_id'])) {
+            $scope = findCategory($pdo, $user['id'], $input['category_id']);
+            if (!$scope) {
+                errorResponse('Category not found', 404);
+            }
+            $category = $scope['name'];
+            $categoryNames = categoryNamesWithDescendants($pdo, $user['id'], $scope['id']);
+        }
+        
+        $notes = !empty($input['notes']) ? trim($input['notes']) : null;
+        
+        $pdo->beginTransaction();
+        
+        try {
+            // Parents and bundles hold no stock of their own; their variants and components are counted instead
+            $sql = '
+                SELECT id, name, sku, barcode, category, stock, cost_price
+                FROM products
+                WHERE user_id = ? AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parent_id = products.id)
+                    AND NOT EXISTS (SELECT 1 FROM product_components c WHERE c.bundle_id = products.id)
+            ';
+            $params = [$user['id']];
+            
+            if ($categoryNames !== null) {
+                $sql .= ' AND category IN (' . implode(',', array_fill(0, count($categoryNames), '?')) . ')';
+                $params = array_merge($params, $categoryNames);
+            }
+            
+            // Lock the rows so no sale slips between reading a level and saving the snapshot
+            $stmt = $pdo->prepare($sql . ' FOR UPDATE');
+            $stmt->execute($params);
+            $products = $stmt->fetchAll();
+            
+            if (empty($products)) {
+                $pdo->rollBack();
+                errorResponse($category ? "There are no products in $category to count" : 'There are no products to count');
+            }
+            
+            $stocktakeId = generateUUID();
+            $stocktakeNumber = 'ST-' . str_pad(nextSequenceValue($pdo, $user['id'], 'stocktake'), 6, '0', STR_PAD_LEFT);
+            
+            $stmt = $pdo->prepare('
+                INSERT INTO stocktakes (id, user_id, stocktake_number, category, notes, created_by)
+                VALUES (?, ?, ?, ?, ?, ?)
+            ');
+            $stmt->execute([$stocktakeId, $user['id'], $stocktakeNumber, $category, $notes, $user['email']]);
+            
+            $stmt = $pdo->prepare('
+                INSERT INTO stocktake_items (
+                    stocktake_id, product_id, name, sku, barcode, category, system_quantity, cost_price
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ');
+            foreach ($products as $product) {
+                $stmt->execute([
+                    $stocktakeId,
+                    $product['id'],
+                    $product['name'],
+                    $product['sku'],
+                    $product['barcode'],
+                    $product['category'],
+                    $product['stock'],
+                    $product['cost_price']
+                ]);
+            }
+            
+            $pdo->commit();
+            
+        } catch (Exception $e) {
+            if ($pdo->inTransaction()) {
+                $pdo->rollBack();
+            }
+            throw $e;
+        }
+        
+        jsonResponse(findStocktake($pdo, $user['id'], $stocktakeId), 201);
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,45 @@
+<?php
+/**
+ * Delete Supplier Endpoint
+ * DELETE /api/suppliers/delete.php?id=xxx
+ * Suppliers with purchase orders are kept so the orders stay traceable
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'DELETE') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$supplierId = $_GET['id'] ?? null;
+
+if (!$supplierId) {
+    errorResponse('Supplier ID is required');
+}
+
+try {
+    // Verify supplier belongs to user
+    $stmt = $pdo->prepare('SELECT id FROM suppliers WHERE id = ? AND user_id = ?');
+    $stmt->execute([$supplierId, $user['id']]);
+    
+    if (!$stmt->fetch()) {
+        errorResponse('Supplier not found', 404);
+    }
+    
+    $stmt = $pdo->prepare('SELECT COUNT(*) FROM purchase_orders WHERE supplier_id = ?');
+    $stmt->execute([$supplierId]);
+    
+    if ((int) $stmt->fetchColumn() > 0) {
+        errorResponse('This supplier has purchase orders and cannot be deleted', 409);
+    }
+    
+    $stmt = $pdo->prepare('DELETE FROM suppliers WHERE id = ?');
+    $stmt->execute([$supplierId]);
+    
+    jsonResponse(['success' => true, 'message' => 'Supplier deleted']);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
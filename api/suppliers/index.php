@@ -0,0 +1,86 @@
+<?php
+/**
+ * Suppliers Endpoint
+ * GET /api/suppliers/ - List all suppliers for user with their purchasing totals
+ * POST /api/suppliers/ - Create new supplier
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+$user = requireAuth();
+$method = $_SERVER['REQUEST_METHOD'];
+
+try {
+    if ($method === 'GET') {
+        $stmt = $pdo->prepare("
+            SELECT s.id, s.name, s.contact_name, s.phone, s.email, s.address, s.created_at,
+                   COUNT(po.id) AS order_count,
+                   SUM(po.status IN ('ordered', 'partial')) AS open_order_count,
+                   COALESCE(SUM(po.received_total), 0) AS total_received
+            FROM suppliers s
+            LEFT JOIN purchase_orders po ON po.supplier_id = s.id
+            WHERE s.user_id = ?
+            GROUP BY s.id
+            ORDER BY s.name ASC
+        ");
+        $stmt->execute([$user['id']]);
+        $suppliers = $stmt->fetchAll();
+        
+        foreach ($suppliers as &$supplier) {
+            $supplier['order_count'] = (int) $supplier['order_count'];
+            $supplier['open_order_count'] = (int) $supplier['open_order_count'];
+            $supplier['total_received'] = (float) $supplier['total_received'];
+        }
+        
+        jsonResponse($suppliers);
+        
+    } elseif ($method === 'POST') {
+        // Create new supplier
+        $input = getJsonInput();
+        
+        $name = preg_replace('/\s+/', ' ', trim($input['name'] ?? ''));
+        
+        if ($name === '') {
+            errorResponse('Supplier name is required');
+        }
+        
+        // Check for duplicate supplier name for this user (case-insensitive collation)
+        $stmt = $pdo->prepare('SELECT id FROM suppliers WHERE user_id = ? AND name = ?');
+        $stmt->execute([$user['id'], $name]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A supplier with this name already exists', 409);
+        }
+        
+        $supplierId = generateUUID();
+        $contactName = !empty($input['contact_name']) ? trim($input['contact_name']) : null;
+        $phone = !empty($input['phone']) ? trim($input['phone']) : null;
+        $email = !empty($input['email']) ? trim($input['email']) : null;
+        $address = !empty($input['address']) ? trim($input['address']) : null;
+        
+        $stmt = $pdo->prepare('
+            INSERT INTO suppliers (id, user_id, name, contact_name, phone, email, address) 
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        ');
+        $stmt->execute([$supplierId, $user['id'], $name, $contactName, $phone, $email, $address]);
+        
+        jsonResponse([
+            'id' => $supplierId,
+            'name' => $name,
+            'contact_name' => $contactName,
+            'phone' => $phone,
+            'email' => $email,
+            'address' => $address,
+            'order_count' => 0,
+            'open_order_count' => 0,
+            'total_received' => 0
+        ], 201);
+        
+    } else {
+        errorResponse('Method not allowed', 405);
+    }
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
@@ -0,0 +1,80 @@
+<?php
+/**
+ * Update Supplier Endpoint
+ * PUT /api/suppliers/update.php?id=xxx
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../middleware/auth.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'PUT') {
+    errorResponse('Method not allowed', 405);
+}
+
+$user = requireAuth();
+$supplierId = $_GET['id'] ?? null;
+
+if (!$supplierId) {
+    errorResponse('Supplier ID is required');
+}
+
+$input = getJsonInput();
+
+try {
+    // Verify supplier belongs to user
+    $stmt = $pdo->prepare('SELECT id FROM suppliers WHERE id = ? AND user_id = ?');
+    $stmt->execute([$supplierId, $user['id']]);
+    
+    if (!$stmt->fetch()) {
+        errorResponse('Supplier not found', 404);
+    }
+    
+    // Build update query dynamically
+    $updates = [];
+    $params = [];
+    
+    if (isset($input['name'])) {
+        $name = preg_replace('/\s+/', ' ', trim($input['name']));
+        
+        if ($name === '') {
+            errorResponse('Supplier name is required');
+        }
+        
+        // Check for duplicate name (excluding current supplier)
+        $stmt = $pdo->prepare('SELECT id FROM suppliers WHERE user_id = ? AND name = ? AND id != ?');
+        $stmt->execute([$user['id'], $name, $supplierId]);
+        
+        if ($stmt->fetch()) {
+            errorResponse('A supplier with this name already exists', 409);
+        }
+        
+        $updates[] = 'name = ?';
+        $params[] = $name;
+    }
+    
+    // Empty strings clear the optional contact fields
+    foreach (['contact_name', 'phone', 'email', 'address'] as $field) {
+        if (array_key_exists($field, $input)) {
+            $updates[] = "$field = ?";
+            $params[] = !empty($input[$field]) ? trim($input[$field]) : null;
+        }
+    }
+    
+    if (empty($updates)) {
+        errorResponse('No fields to update');
+    }
+    
+    $params[] = $supplierId;
+    $sql = 'UPDATE suppliers SET ' . implode(', ', $updates) . ' WHERE id = ?';
+    
+    $stmt = $pdo->prepare($sql);
+    $stmt->execute($params);
+    
+    $stmt = $pdo->prepare('SELECT id, name, contact_name, phone, email, address, created_at FROM suppliers WHERE id = ?');
+    $stmt->execute([$supplierId]);
+    
+    jsonResponse($stmt->fetch());
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
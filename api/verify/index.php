@@ -0,0 +1,63 @@
+<?php
+/**
+ * Receipt Verification Endpoint (public, no sign-in)
+ * GET /api/verify/?invoice_number=...&hash=... - Check a scanned receipt against the records
+ *
+ * Only a receipt's own code finds its invoice, so the numbers of other businesses' invoices
+ * cannot be probed. Status is one of:
+ *   valid     - the invoice exists, is not voided and still matches what was printed
+ *   voided    - the invoice exists but has since been cancelled
+ *   altered   - the invoice exists but its details were changed after the receipt was printed
+ *   not_found - no invoice was issued with this number and code
+ */
+
+require_once __DIR__ . '/../config/config.php';
+require_once __DIR__ . '/../lib/receipts.php';
+
+if ($_SERVER['REQUEST_METHOD'] !== 'GET') {
+    errorResponse('Method not allowed', 405);
+}
+
+$invoiceNumber = trim($_GET['invoice_number'] ?? '');
+$hash = strtolower(trim($_GET['hash'] ?? ''));
+
+if ($invoiceNumber === '' || !preg_match('/^[0-9a-f]{64}$/', $hash)) {
+    errorResponse('invoice_number and a 64-character hash are required');
+}
+
+try {
+    $stmt = $pdo->prepare('
+        SELECT i.user_id, i.invoice_number, i.company_name, i.customer_name, i.total, i.products, i.created_at,
+               i.voided_at, i.verification_hash, s.currency_symbol
+        FROM invoices i
+        LEFT JOIN settings s ON s.user_id = i.user_id
+        WHERE i.invoice_number = ? AND i.verification_hash = ?
+    ');
+    $stmt->execute([$invoiceNumber, $hash]);
+    $invoice = $stmt->fetch();
+    
+    if (!$invoice) {
+        jsonResponse(['status' => 'not_found', 'invoice_number' => $invoiceNumber]);
+    }
+    
+    if (!hash_equals($invoice['verification_hash'], receiptVerificationHash($invoice))) {
+        $status = 'altered';
+    } elseif ($invoice['voided_at'] !== null) {
+        $status = 'voided';
+    } else {
+        $status = 'valid';
+    }
+    
+    jsonResponse([
+        'status' => $status,
+        'invoice_number' => $invoice['invoice_number'],
+        'company_name' => $invoice['company_name'],
+        'created_at' => $invoice['created_at'],
+        'total' => (float) $invoice['total'],
+        'currency_symbol' => $invoice['currency_symbol'] ?? '₦',
+        'voided_at' => $invoice['voided_at']
+    ]);
+    
+} catch (PDOException $e) {
+    errorResponse('Database error: ' . $e->getMessage(), 500);
+}
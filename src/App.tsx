@@ -4,16 +4,26 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { SettingsProvider } from "@/hooks/useSettings";
 import { AppLayout } from "@/components/AppLayout";
 import Dashboard from "./pages/Dashboard";
 import CreateSale from "./pages/CreateSale";
 import Auth from "./pages/Auth";
 import History from "./pages/History";
 import Products from "./pages/Products";
+import ProductDetail from "./pages/ProductDetail";
+import Categories from "./pages/Categories";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Receivables from "./pages/Receivables";
+import Purchasing from "./pages/Purchasing";
+import Stocktakes from "./pages/Stocktakes";
+import StocktakeDetail from "./pages/StocktakeDetail";
 import Settings from "./pages/Settings";
 import Audits from "./pages/Audits";
 import Analysis from "./pages/Analysis";
 import TaxTracking from "./pages/TaxTracking";
+import VerifyReceipt from "./pages/VerifyReceipt";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,78 +32,145 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <BrowserRouter>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route
-              path="/"
-              element={
-                <AppLayout>
-                  <Dashboard />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/create-sale"
-              element={
-                <AppLayout>
-                  <CreateSale />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/products"
-              element={
-                <AppLayout>
-                  <Products />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/history"
-              element={
-                <AppLayout>
-                  <History />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/settings"
-              element={
-                <AppLayout>
-                  <Settings />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/audits"
-              element={
-                <AppLayout>
-                  <Audits />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/analysis"
-              element={
-                <AppLayout>
-                  <Analysis />
-                </AppLayout>
-              }
-            />
-            <Route
-              path="/tax-tracking"
-              element={
-                <AppLayout>
-                  <TaxTracking />
-                </AppLayout>
-              }
-            />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </TooltipProvider>
+        <SettingsProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/verify/:invoiceNumber" element={<VerifyReceipt />} />
+              <Route
+                path="/"
+                element={
+                  <AppLayout>
+                    <Dashboard />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/create-sale"
+                element={
+                  <AppLayout>
+                    <CreateSale />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/products"
+                element={
+                  <AppLayout>
+                    <Products />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/products/:id"
+                element={
+                  <AppLayout>
+                    <ProductDetail />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/categories"
+                element={
+                  <AppLayout>
+                    <Categories />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/customers"
+                element={
+                  <AppLayout>
+                    <Customers />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/customers/:id"
+                element={
+                  <AppLayout>
+                    <CustomerDetail />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/receivables"
+                element={
+                  <AppLayout>
+                    <Receivables />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/purchasing"
+                element={
+                  <AppLayout>
+                    <Purchasing />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/stocktakes"
+                element={
+                  <AppLayout>
+                    <Stocktakes />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/stocktakes/:id"
+                element={
+                  <AppLayout>
+                    <StocktakeDetail />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/history"
+                element={
+                  <AppLayout>
+                    <History />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <AppLayout>
+                    <Settings />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/audits"
+                element={
+                  <AppLayout>
+                    <Audits />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/analysis"
+                element={
+                  <AppLayout>
+                    <Analysis />
+                  </AppLayout>
+                }
+              />
+              <Route
+                path="/tax-tracking"
+                element={
+                  <AppLayout>
+                    <TaxTracking />
+                  </AppLayout>
+                }
+              />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </TooltipProvider>
+        </SettingsProvider>
       </AuthProvider>
     </BrowserRouter>
   </QueryClientProvider>
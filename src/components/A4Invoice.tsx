@@ -0,0 +1,211 @@
+import { Invoice } from "@/types/invoice";
+import { Customer } from "@/lib/api";
+import { format } from "date-fns";
+import { useSettings } from "@/hooks/useSettings";
+import { summariseTaxByRate } from "@/lib/tax";
+import { formatDiscount, roundMoney } from "@/lib/discounts";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { receiptVerificationUrl } from "@/lib/receiptVerification";
+import { QrCode } from "@/components/QrCode";
+import { ReceiptText } from "@/components/ReceiptText";
+
+interface A4InvoiceProps {
+  invoice: Invoice;
+  // The invoice's customer, for the bill-to address and contact details
+  customer?: Customer | null;
+}
+
+/**
+ * On-screen preview of the A4 tax invoice; the printed and downloaded copy is the PDF from invoicePdf
+ */
+export const A4Invoice = ({ invoice, customer }: A4InvoiceProps) => {
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const taxSummary = summariseTaxByRate(invoice.products);
+  const lineDiscountTotal = invoice.products.reduce((sum, p) => sum + (p.discount_amount ?? 0), 0);
+  const invoiceDiscountAmount = invoice.products.reduce((sum, p) => sum + (p.invoice_discount_share ?? 0), 0);
+  const balanceDue = roundMoney(invoice.total - (invoice.amountPaid ?? invoice.total));
+  const { refund } = invoice;
+  const sign = refund ? "-" : "";
+  const discountSign = refund ? "+" : "-";
+  const money = (value: number) => `${currency}${value.toFixed(2)}`;
+  const verificationUrl = receiptVerificationUrl(invoice);
+
+  return (
+    <div className="w-[560px] max-w-full bg-white text-black text-[11px] p-8 shadow-lg space-y-6">
+      {/* Letterhead */}
+      <div className="flex justify-between gap-6 border-b pb-4">
+        <div className="space-y-0.5">
+          {settings.receipt_logo && (
+            <img src={settings.receipt_logo} alt="" className="mb-2 max-h-16 max-w-[200px]" />
+          )}
+          <h1 className="text-lg font-bold">{invoice.companyName}</h1>
+          {invoice.companyAddress && <p>{invoice.companyAddress}</p>}
+          {invoice.companyPhone && <p>Tel: {invoice.companyPhone}</p>}
+          {invoice.companyEmail && <p>{invoice.companyEmail}</p>}
+          <ReceiptText text={settings.receipt_header} className="pt-1" largeClassName="text-base" />
+        </div>
+        <div className="text-right space-y-0.5">
+          <h2 className="text-base font-bold">{refund ? "CREDIT NOTE" : "TAX INVOICE"}</h2>
+          <p>{refund ? "Credit Note" : "Invoice"} #: {invoice.id}</p>
+          {refund && <p>Original Invoice #: {refund.originalInvoiceNumber}</p>}
+          <p>Date: {format(invoice.date, "dd/MM/yyyy HH:mm")}</p>
+          <p>Cashier: {invoice.issuerName}</p>
+        </div>
+      </div>
+
+      {/* Bill to */}
+      <div className="flex justify-between gap-6">
+        <div className="space-y-0.5">
+          <p className="font-bold">BILL TO</p>
+          <p>{invoice.customerName}</p>
+          {customer?.address && <p>{customer.address}</p>}
+          {customer?.phone && <p>Tel: {customer.phone}</p>}
+          {customer?.email && <p>{customer.email}</p>}
+        </div>
+        {invoice.voided && (
+          <div className="text-right text-red-600 space-y-0.5">
+            <p className="text-sm font-bold">VOID</p>
+            <p>{format(invoice.voided.at, "dd/MM/yyyy HH:mm")} by {invoice.voided.by}</p>
+            <p>Reason: {invoice.voided.reason}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Lines */}
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-[#2980b9] text-white">
+            <th className="p-1.5 text-left">#</th>
+            <th className="p-1.5 text-left">Description</th>
+            <th className="p-1.5 text-right">Qty</th>
+            <th className="p-1.5 text-right">Unit Price</th>
+            <th className="p-1.5 text-left">Tax</th>
+            <th className="p-1.5 text-right">Discount</th>
+            <th className="p-1.5 text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.products.map((product, index) => (
+            <tr key={product.id} className="border-b align-top">
+              <td className="p-1.5">{index + 1}</td>
+              <td className="p-1.5">
+                {product.name}
+                {settings.receipt_show_bundle_components && product.components?.map((component) => (
+                  <p key={component.id} className="text-[10px] text-gray-500">
+                    - {component.quantity * product.quantity} x {component.name}
+                  </p>
+                ))}
+              </td>
+              <td className="p-1.5 text-right">{product.quantity}</td>
+              <td className="p-1.5 text-right">{money(product.price)}</td>
+              <td className="p-1.5">{product.tax_rate_name ? `${product.tax_rate_name} ${product.tax_rate ?? 0}%` : ""}</td>
+              <td className="p-1.5 text-right">
+                {product.discount && (product.discount_amount ?? 0) > 0
+                  ? `${discountSign}${money(product.discount_amount ?? 0)}`
+                  : ""}
+              </td>
+              <td className="p-1.5 text-right">{sign}{money(product.price * product.quantity)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Totals */}
+      <div className="ml-auto w-1/2 space-y-1">
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>{sign}{money(invoice.subtotal)}</span>
+        </div>
+        {lineDiscountTotal > 0 && (
+          <div className="flex justify-between">
+            <span>Line Discounts</span>
+            <span>{discountSign}{money(lineDiscountTotal)}</span>
+          </div>
+        )}
+        {invoice.discount && invoiceDiscountAmount > 0 && (
+          <div className="flex justify-between">
+            <span>Discount ({formatDiscount(invoice.discount, currency)})</span>
+            <span>{discountSign}{money(invoiceDiscountAmount)}</span>
+          </div>
+        )}
+        {taxSummary.length > 0 ? (
+          taxSummary.map((entry) => (
+            <div key={`${entry.name}-${entry.rate}`} className="flex justify-between">
+              <span>
+                {entry.name} ({entry.rate}%){invoice.pricesIncludeTax ? " incl." : ""}
+              </span>
+              <span>{sign}{money(entry.tax)}</span>
+            </div>
+          ))
+        ) : (
+          <div className="flex justify-between">
+            <span>VAT</span>
+            <span>{sign}{money(invoice.tax)}</span>
+          </div>
+        )}
+        <div className="flex justify-between border-t pt-1 text-sm font-bold">
+          <span>{refund ? "Total Refund" : "Total"}</span>
+          <span>{sign}{money(invoice.total)}</span>
+        </div>
+        {refund && refund.appliedToBalance > 0 && (
+          <div className="flex justify-between">
+            <span>Taken off balance owed</span>
+            <span>{money(refund.appliedToBalance)}</span>
+          </div>
+        )}
+        {refund && refund.refundedAmount > 0 && refund.refundMethod && (
+          <div className="flex justify-between">
+            <span>Refunded ({PAYMENT_METHOD_LABELS[refund.refundMethod]})</span>
+            <span>{money(refund.refundedAmount)}</span>
+          </div>
+        )}
+        {!refund && invoice.amountPaid !== undefined && (
+          <>
+            <div className="flex justify-between">
+              <span>Amount Paid</span>
+              <span>{money(invoice.amountPaid)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>Balance Due</span>
+              <span>{money(Math.max(0, balanceDue))}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Payments and notes */}
+      {((invoice.payments?.length ?? 0) > 0 || invoice.discount?.reason || refund?.reason) && (
+        <div className="space-y-0.5 text-[10px]">
+          {invoice.payments?.map((payment, index) => (
+            <div key={index} className="flex justify-between">
+              <span>
+                Paid by {PAYMENT_METHOD_LABELS[payment.method]}
+                {payment.reference ? ` (Ref: ${payment.reference})` : ""}
+              </span>
+              <span>{money(payment.tendered ?? payment.amount)}</span>
+            </div>
+          ))}
+          {(invoice.changeDue ?? 0) > 0 && (
+            <div className="flex justify-between">
+              <span>Change</span>
+              <span>{money(invoice.changeDue ?? 0)}</span>
+            </div>
+          )}
+          {invoice.discount?.reason && <p>Discount: {invoice.discount.reason}</p>}
+          {refund?.reason && <p>Reason for return: {refund.reason}</p>}
+        </div>
+      )}
+
+      <ReceiptText text={settings.receipt_return_policy} className="text-[10px]" largeClassName="text-sm" />
+      <ReceiptText text={settings.receipt_footer} className="text-center text-[10px]" largeClassName="text-sm" />
+
+      {verificationUrl && (
+        <div className="flex items-center gap-3">
+          <QrCode value={verificationUrl} size={88} />
+          <p className="text-[10px] text-gray-500">Scan to check this invoice against our records</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useLocation, useNavigate } from "react-router-dom";
-import { LayoutDashboard, ShoppingCart, Package, History, Settings, ClipboardList, LogOut, BarChart3, Receipt } from "lucide-react";
+import { LayoutDashboard, ShoppingCart, Package, History, Settings, ClipboardList, LogOut, BarChart3, Receipt, Users, Wallet, Truck, ClipboardCheck } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import {
   Sidebar,
@@ -20,6 +20,10 @@ const menuItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
   { title: "Create Sale", url: "/create-sale", icon: ShoppingCart },
   { title: "Products", url: "/products", icon: Package },
+  { title: "Purchasing", url: "/purchasing", icon: Truck },
+  { title: "Stocktakes", url: "/stocktakes", icon: ClipboardCheck },
+  { title: "Customers", url: "/customers", icon: Users },
+  { title: "Receivables", url: "/receivables", icon: Wallet },
   { title: "History", url: "/history", icon: History },
   { title: "Audits", url: "/audits", icon: ClipboardList },
   { title: "Analysis", url: "/analysis", icon: BarChart3 },
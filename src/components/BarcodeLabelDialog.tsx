@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Printer } from "lucide-react";
+import { Product } from "@/lib/api";
+import { LABEL_SHEET_LAYOUTS, LabelSheetId, labelCode } from "@/lib/barcodes";
+import { BarcodeLabel, printBarcodeLabels } from "@/utils/printLabels";
+import { toast } from "sonner";
+
+interface BarcodeLabelDialogProps {
+  open: boolean;
+  products: Product[];
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BarcodeLabelDialog = ({ open, products, currency, onOpenChange }: BarcodeLabelDialogProps) => {
+  const [copies, setCopies] = useState<Record<string, string>>({});
+  const [layoutId, setLayoutId] = useState<LabelSheetId>("avery-l7160");
+  const [showPrice, setShowPrice] = useState(true);
+
+  const labelled = products.filter((product) => labelCode(product));
+
+  useEffect(() => {
+    if (open) setCopies({});
+  }, [open]);
+
+  const labels: BarcodeLabel[] = labelled.flatMap((product) => {
+    const count = Math.max(0, parseInt(copies[product.id] ?? "") || 0);
+    const label: BarcodeLabel = {
+      name: product.name,
+      code: labelCode(product) ?? "",
+      price: showPrice ? `${currency}${product.price.toLocaleString()}` : undefined,
+    };
+    return Array.from({ length: count }, () => label);
+  });
+
+  const layout = LABEL_SHEET_LAYOUTS.find((sheet) => sheet.id === layoutId) ?? LABEL_SHEET_LAYOUTS[0];
+  const sheetCount = Math.ceil(labels.length / (layout.columns * layout.rows));
+
+  const fillFromStock = () => {
+    setCopies(Object.fromEntries(labelled.map((product) => [product.id, String(Math.max(0, product.stock))])));
+  };
+
+  const handlePrint = async () => {
+    if (!(await printBarcodeLabels(labels, layout))) {
+      toast.error("Unable to print. Please allow popups for this site.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Print Barcode Labels</DialogTitle>
+          <DialogDescription>
+            Labels use the product's barcode, or its SKU when it has none.
+            {labelled.length < products.length &&
+              ` ${products.length - labelled.length} product(s) without either are not listed.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="label-layout">Label Sheet</Label>
+            <Select value={layoutId} onValueChange={(value) => setLayoutId(value as LabelSheetId)}>
+              <SelectTrigger id="label-layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border border-border z-50">
+                {LABEL_SHEET_LAYOUTS.map((sheet) => (
+                  <SelectItem key={sheet.id} value={sheet.id}>{sheet.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Checkbox id="label-price" checked={showPrice} onCheckedChange={(checked) => setShowPrice(checked === true)} />
+            <Label htmlFor="label-price">Show price</Label>
+          </div>
+        </div>
+
+        {labelled.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Add a barcode or SKU to a product to print labels for it.
+          </p>
+        ) : (
+          <div className="max-h-[45vh] overflow-y-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead className="text-center">In Stock</TableHead>
+                  <TableHead className="w-[100px]">Labels</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {labelled.map((product) => (
+                  <TableRow key={product.id}>
+                    <TableCell className="font-medium">{product.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{labelCode(product)}</TableCell>
+                    <TableCell className="text-center">{product.stock}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={copies[product.id] ?? ""}
+                        onChange={(e) => setCopies({ ...copies, [product.id]: e.target.value })}
+                        placeholder="0"
+                        className="h-8"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="outline" onClick={fillFromStock} disabled={labelled.length === 0}>
+            One per unit in stock
+          </Button>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-muted-foreground">
+              {labels.length} label(s) · {sheetCount} sheet(s)
+            </span>
+            <Button className="gap-2" onClick={handlePrint} disabled={labels.length === 0}>
+              <Printer className="h-4 w-4" />
+              Print
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { api, Product } from "@/lib/api";
+import { bundleCost } from "@/lib/bundles";
+import { toast } from "sonner";
+
+interface ComponentRow {
+  product_id: string;
+  quantity: string;
+}
+
+interface BundleDialogProps {
+  open: boolean;
+  bundle: Product;
+  // Products that can go in a bundle: not the bundle itself, parents or other bundles
+  candidates: Product[];
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export const BundleDialog = ({ open, bundle, candidates, currency, onOpenChange, onSaved }: BundleDialogProps) => {
+  const [rows, setRows] = useState<ComponentRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(
+      bundle.components.length > 0
+        ? bundle.components.map((component) => ({ product_id: component.product_id, quantity: component.quantity.toString() }))
+        : [{ product_id: "", quantity: "1" }]
+    );
+  }, [open, bundle]);
+
+  const filledRows = rows.filter((row) => row.product_id);
+  const cost = bundleCost(
+    filledRows.map((row) => ({
+      cost_price: candidates.find((candidate) => candidate.id === row.product_id)?.cost_price ?? null,
+      quantity: parseInt(row.quantity) || 0,
+    }))
+  );
+
+  const updateRow = (index: number, field: keyof ComponentRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filledRows.some((row) => !(parseInt(row.quantity) >= 1))) {
+      toast.error("Component quantities must be at least 1");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.updateProduct(bundle.id, {
+        components: filledRows.map((row) => ({ product_id: row.product_id, quantity: parseInt(row.quantity) })),
+      });
+      toast.success(filledRows.length > 0 ? "Bundle contents saved" : `${bundle.name} is no longer a bundle`);
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save bundle");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Bundle Contents</DialogTitle>
+          <DialogDescription>
+            Selling one {bundle.name} takes these products out of stock. Remove them all to sell it as an ordinary product.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="bundle-form" onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_80px_40px] gap-2">
+              <Label>Product</Label>
+              <Label>Qty</Label>
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_80px_40px] gap-2">
+                <Select value={row.product_id} onValueChange={(value) => updateRow(index, "product_id", value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a product" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border border-border z-50">
+                    {candidates
+                      .filter((candidate) => candidate.id === row.product_id || !rows.some((other) => other.product_id === candidate.id))
+                      .map((candidate) => (
+                        <SelectItem key={candidate.id} value={candidate.id}>
+                          {candidate.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, "quantity", e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setRows([...rows, { product_id: "", quantity: "1" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add Product
+            </Button>
+          </div>
+
+          {filledRows.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Contents cost{" "}
+              {cost === null ? "unknown (a product has no cost price)" : `${currency}${cost.toLocaleString()}`}
+              {" · "}sells for {currency}{bundle.price.toLocaleString()}
+            </p>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="bundle-form" disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Contents
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
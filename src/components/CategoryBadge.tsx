@@ -0,0 +1,25 @@
+import { Category } from "@/lib/api";
+import { CATEGORY_ICONS } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+interface CategoryBadgeProps {
+  name: string;
+  // The managed category, when one matches the name; plain text otherwise
+  category?: Category;
+  className?: string;
+}
+
+export const CategoryBadge = ({ name, category, className }: CategoryBadgeProps) => {
+  const Icon = category?.icon ? CATEGORY_ICONS[category.icon] : null;
+
+  return (
+    <span className={cn("inline-flex items-center gap-1.5", className)}>
+      {Icon ? (
+        <Icon className="h-3.5 w-3.5 shrink-0" style={{ color: category?.color ?? undefined }} />
+      ) : (
+        category?.color && <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: category.color }} />
+      )}
+      {name}
+    </span>
+  );
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { api, Category } from "@/lib/api";
+import { categoryTree } from "@/lib/categories";
+import { CategoryBadge } from "@/components/CategoryBadge";
+
+// Select value for no category filter
+const ALL_CATEGORIES = "all";
+
+interface CategoryFilterProps {
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Category picker for report filters; choosing a parent category includes its subcategories
+ */
+export const CategoryFilter = ({ value, onChange, className }: CategoryFilterProps) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    api.getCategories().then(setCategories).catch((error) => console.error("Failed to load categories:", error));
+  }, []);
+
+  return (
+    <Select value={value ?? ALL_CATEGORIES} onValueChange={(next) => onChange(next === ALL_CATEGORIES ? null : next)}>
+      <SelectTrigger className={className ?? "w-[200px]"}>
+        <SelectValue placeholder="All categories" />
+      </SelectTrigger>
+      <SelectContent className="bg-popover border border-border z-50">
+        <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+        {categoryTree(categories).map(({ category, depth }) => (
+          <SelectItem key={category.id} value={category.id}>
+            <span style={{ paddingLeft: depth * 12 }}>
+              <CategoryBadge name={category.name} category={category} />
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown, Loader2, UserPlus } from "lucide-react";
+import { api, Customer } from "@/lib/api";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const WALK_IN_CUSTOMER = "Walk-in Customer";
+
+export interface SelectedCustomer {
+  id: string | null;
+  name: string;
+}
+
+interface CustomerPickerProps {
+  value: SelectedCustomer | null;
+  onChange: (customer: SelectedCustomer) => void;
+}
+
+export const CustomerPicker = ({ value, onChange }: CustomerPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newPhone, setNewPhone] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    api.getCustomers()
+      .then(setCustomers)
+      .catch((error) => console.error("Failed to load customers:", error));
+  }, []);
+
+  const normalisedSearch = search.trim().replace(/\s+/g, " ").toLowerCase();
+  const exactMatch = customers.some((customer) => customer.name.toLowerCase() === normalisedSearch);
+
+  const select = (customer: SelectedCustomer) => {
+    onChange(customer);
+    setOpen(false);
+    setSearch("");
+  };
+
+  const startCreate = () => {
+    setNewName(search.trim());
+    setNewPhone("");
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setSaving(true);
+    try {
+      const customer = await api.createCustomer({ name: newName.trim(), phone: newPhone.trim() || undefined });
+      setCustomers([...customers, customer].sort((a, b) => a.name.localeCompare(b.name)));
+      setCreating(false);
+      select({ id: customer.id, name: customer.name });
+      toast.success("Customer added");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to add customer";
+      toast.error(message.includes("exists") ? "Customer already exists" : message);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setCreating(false);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+        >
+          {value ? value.name : "Select or add a customer"}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        {creating ? (
+          <div className="p-3 space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Name *</Label>
+              <Input value={newName} onChange={(e) => setNewName(e.target.value)} autoFocus />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Phone (optional)</Label>
+              <Input value={newPhone} onChange={(e) => setNewPhone(e.target.value)} placeholder="080..." />
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" className="flex-1" onClick={handleCreate} disabled={saving || !newName.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Customer
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setCreating(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Command>
+            <CommandInput placeholder="Search by name or phone..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>No matching customers</CommandEmpty>
+              <CommandGroup>
+                <CommandItem
+                  value={WALK_IN_CUSTOMER}
+                  onSelect={() => select({ id: null, name: WALK_IN_CUSTOMER })}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value && !value.id ? "opacity-100" : "opacity-0")} />
+                  {WALK_IN_CUSTOMER}
+                </CommandItem>
+                {customers.map((customer) => (
+                  <CommandItem
+                    key={customer.id}
+                    value={`${customer.name} ${customer.phone || ""} ${customer.id}`}
+                    onSelect={() => select({ id: customer.id, name: customer.name })}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value?.id === customer.id ? "opacity-100" : "opacity-0")} />
+                    <span className="flex-1 truncate">{customer.name}</span>
+                    {customer.phone && <span className="text-xs text-muted-foreground">{customer.phone}</span>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            <div className="border-t border-border p-1">
+              <Button type="button" variant="ghost" size="sm" className="w-full justify-start gap-2 text-primary" onClick={startCreate}>
+                <UserPlus className="h-4 w-4" />
+                {normalisedSearch && !exactMatch ? `Add "${search.trim()}"` : "Add new customer"}
+              </Button>
+            </div>
+          </Command>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,56 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Discount, DiscountType } from "@/lib/api";
+
+interface DiscountInputProps {
+  discount: Discount;
+  currency: string;
+  onChange: (discount: Discount) => void;
+}
+
+export const DiscountInput = ({ discount, currency, onChange }: DiscountInputProps) => {
+  return (
+    <div className="grid gap-3 md:grid-cols-[110px_110px_1fr]">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Discount</Label>
+        <Select
+          value={discount.type}
+          onValueChange={(value) => onChange({ ...discount, type: value as DiscountType })}
+        >
+          <SelectTrigger className="bg-background">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="percent">Percent (%)</SelectItem>
+            <SelectItem value="fixed">Amount ({currency})</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">
+          {discount.type === "percent" ? "Percent" : "Amount"}
+        </Label>
+        <Input
+          type="number"
+          min="0"
+          max={discount.type === "percent" ? "100" : undefined}
+          step="0.01"
+          value={discount.value || ""}
+          onChange={(e) => onChange({ ...discount, value: parseFloat(e.target.value) || 0 })}
+          placeholder="0"
+          className="bg-background"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Reason (optional)</Label>
+        <Input
+          value={discount.reason || ""}
+          onChange={(e) => onChange({ ...discount, reason: e.target.value })}
+          placeholder="e.g. Loyal customer"
+          className="bg-background"
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,25 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Product, Invoice } from "@/types/invoice";
-import { Plus, Trash2, Receipt } from "lucide-react";
+import { Plus, Trash2, Receipt, Tag, AlertTriangle, ScanLine } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { api } from "@/lib/api";
+import { api, BundleComponent, Category, Discount, VariantAttribute } from "@/lib/api";
+import { DiscountInput } from "@/components/DiscountInput";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { CustomerPicker, SelectedCustomer } from "@/components/CustomerPicker";
+import { applyTaxRate, calculateInvoiceTotals, resolveTaxRate, summariseTaxByRate } from "@/lib/tax";
+import { requestedQuantities } from "@/lib/stock";
+import { findProductByCode } from "@/lib/barcodes";
+import { groupVariants, sellableProducts, variantLabel } from "@/lib/variants";
+import { bundleAvailability, isBundle, lineComponents } from "@/lib/bundles";
+import { categoryTree } from "@/lib/categories";
 import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { Link } from "react-router-dom";
 
 interface InvoiceFormProps {
   onGenerateInvoice: (invoice: Invoice) => void;
@@ -18,20 +29,32 @@ interface CatalogProduct {
   id: string;
   name: string;
   price: number;
+  stock: number;
   category: string;
+  tax_rate_id?: string | null;
+  sku: string | null;
+  barcode: string | null;
+  parent_id: string | null;
+  variant_attributes: VariantAttribute[] | null;
+  variant_count: number;
+  components: BundleComponent[];
 }
 
 export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
   const { user } = useAuth();
-  const [companyName, setCompanyName] = useState("PURE TRUST TPS");
-  const [companyAddress, setCompanyAddress] = useState("Lagos, Nigeria");
-  const [companyPhone, setCompanyPhone] = useState("+234 800 000 0000");
-  const [customerName, setCustomerName] = useState("");
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const [customer, setCustomer] = useState<SelectedCustomer | null>(null);
   const [products, setProducts] = useState<Product[]>([
     { id: "1", name: "", price: 0, quantity: 1 },
   ]);
   const [catalogProducts, setCatalogProducts] = useState<CatalogProduct[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [invoiceDiscount, setInvoiceDiscount] = useState<Discount | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scanCode, setScanCode] = useState("");
+  const [scanError, setScanError] = useState<string>();
+  const scanInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (user) {
@@ -41,10 +64,9 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
 
   const fetchProducts = async () => {
     try {
-      const data = await api.getProducts();
+      const [data, categoryData] = await Promise.all([api.getProducts(), api.getCategories()]);
       setCatalogProducts(data);
-      const uniqueCategories = [...new Set(data.map(p => p.category))];
-      setCategories(uniqueCategories.length > 0 ? uniqueCategories : ["Other"]);
+      setCategories(categoryData);
     } catch (error) {
       console.error('Failed to fetch products:', error);
     }
@@ -68,7 +90,7 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
       setProducts(
         products.map((p) =>
           p.id === productId
-            ? { ...p, name: "Custom Product", price: 0 }
+            ? applyTaxRate({ ...p, name: "Custom Product", price: 0, components: undefined }, resolveTaxRate({}, settings))
             : p
         )
       );
@@ -80,13 +102,69 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
       setProducts(
         products.map((p) =>
           p.id === productId
-            ? { ...p, id: catalogProduct.id, name: catalogProduct.name, price: catalogProduct.price }
+            ? applyTaxRate(
+                {
+                  ...p,
+                  id: catalogProduct.id,
+                  name: catalogProduct.name,
+                  price: catalogProduct.price,
+                  components: lineComponents(catalogProduct.components),
+                },
+                resolveTaxRate(catalogProduct, settings)
+              )
             : p
         )
       );
     }
   };
 
+  // Keyboard-wedge scanners type the code and press Enter, so a scan arrives as one keydown
+  const handleScan = (code: string) => {
+    setScanCode("");
+    if (!code.trim()) return;
+
+    const catalogProduct = findProductByCode(sellableProducts(catalogProducts), code);
+    if (!catalogProduct) {
+      const message = `No product with barcode or SKU "${code.trim()}"`;
+      setScanError(message);
+      toast({ title: "Unknown code", description: message, variant: "destructive" });
+      return;
+    }
+
+    setScanError(undefined);
+    setProducts((lines) => {
+      if (lines.some((p) => p.id === catalogProduct.id)) {
+        let incremented = false;
+        return lines.map((p) => {
+          if (incremented || p.id !== catalogProduct.id) return p;
+          incremented = true;
+          return { ...p, quantity: p.quantity + 1 };
+        });
+      }
+
+      const line = applyTaxRate(
+        {
+          id: catalogProduct.id,
+          name: catalogProduct.name,
+          price: catalogProduct.price,
+          quantity: 1,
+          components: lineComponents(catalogProduct.components),
+        },
+        resolveTaxRate(catalogProduct, settings)
+      );
+      const blankIndex = lines.findIndex((p) => !p.name);
+      return blankIndex === -1
+        ? [...lines, line]
+        : lines.map((p, index) => (index === blankIndex ? line : p));
+    });
+  };
+
+  const toggleScanning = () => {
+    setScanning(!scanning);
+    setScanCode("");
+    setScanError(undefined);
+  };
+
   const updateQuantity = (id: string, quantity: number) => {
     setProducts(
       products.map((p) => (p.id === id ? { ...p, quantity } : p))
@@ -99,23 +177,39 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
     );
   };
 
-  const calculateTotals = () => {
-    const subtotal = products.reduce(
-      (sum, p) => sum + p.price * p.quantity,
-      0
+  const updateLineDiscount = (id: string, discount: Discount | null) => {
+    setProducts(
+      products.map((p) => (p.id === id ? { ...p, discount } : p))
+    );
+  };
+
+  const isInvalidDiscount = (discount: Discount | null | undefined, base: number) =>
+    !!discount && (discount.value < 0 || (discount.type === "percent" ? discount.value > 100 : discount.value > base));
+
+  const calculateTotals = (lines: Product[]) => {
+    // Lines picked before a rate was stamped fall back to the default rate
+    const ratedLines = lines.map((p) =>
+      p.tax_rate_id ? p : applyTaxRate(p, resolveTaxRate({}, settings))
     );
-    const tax = subtotal * 0.075;
-    const total = subtotal + tax;
-    return { subtotal, tax, total };
+    return calculateInvoiceTotals(ratedLines, settings.prices_include_tax, invoiceDiscount);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!customerName.trim()) {
+    if (!settings.company_name.trim()) {
       toast({
         title: "Error",
-        description: "Please enter customer name",
+        description: "Please set your company name in Settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!customer) {
+      toast({
+        title: "Error",
+        description: "Please select a customer",
         variant: "destructive",
       });
       return;
@@ -134,33 +228,108 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
       return;
     }
 
-    const { subtotal, tax, total } = calculateTotals();
+    if (validProducts.some((p) => isInvalidDiscount(p.discount, p.price * p.quantity))) {
+      toast({
+        title: "Error",
+        description: "A line discount is more than the line amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (settings.stock_policy === "block" && shortLineIds.size > 0) {
+      toast({
+        title: "Not enough stock",
+        description: "Reduce the highlighted quantities to what is on hand",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { lines, subtotal, discountTotal, tax, total } = calculateTotals(validProducts);
+
+    if (isInvalidDiscount(invoiceDiscount, subtotal)) {
+      toast({
+        title: "Error",
+        description: "The invoice discount is more than the invoice amount",
+        variant: "destructive",
+      });
+      return;
+    }
 
     const invoice: Invoice = {
-      id: `INV-${Date.now().toString().slice(-8)}`,
-      companyName,
-      companyAddress,
-      companyPhone,
-      customerName,
+      // Numbered by the server when the sale is saved
+      id: "",
+      companyName: settings.company_name,
+      companyAddress: settings.company_address || undefined,
+      companyPhone: settings.company_phone || undefined,
+      companyEmail: settings.company_email || undefined,
+      customerId: customer.id,
+      customerName: customer.name,
       issuerName: user?.email || "Unknown",
-      products: validProducts,
+      products: lines,
       date: new Date(),
       subtotal,
+      discount: invoiceDiscount && invoiceDiscount.value > 0 ? invoiceDiscount : null,
+      discountTotal,
       tax,
+      pricesIncludeTax: settings.prices_include_tax,
       total,
     };
 
     onGenerateInvoice(invoice);
     toast({
       title: "Invoice Generated",
-      description: "Your POS receipt is ready to print",
+      description: "Take payment to complete the sale",
     });
   };
 
-  const { subtotal, tax, total } = calculateTotals();
+  const { lines: previewLines, subtotal, discountTotal, tax, total } = calculateTotals(products);
+  const taxSummary = summariseTaxByRate(previewLines);
 
   const isCustomProduct = (productName: string) => productName === "Custom Product";
 
+  // A bundle is in stock as far as its components make up complete bundles
+  const renderCatalogItem = (catalogProduct: CatalogProduct, label: string, className = "") => {
+    const stock = isBundle(catalogProduct) ? bundleAvailability(catalogProduct.components) : catalogProduct.stock;
+    return (
+      <SelectItem
+        key={catalogProduct.id}
+        value={catalogProduct.id}
+        className={`cursor-pointer ${className}`}
+      >
+        <div className="flex justify-between items-center w-full gap-4">
+          <span>{label}</span>
+          <span className="text-muted-foreground text-xs">
+            <span className={stock <= 0 ? "text-destructive" : ""}>
+              {stock <= 0 ? "Out of stock" : `${stock} ${isBundle(catalogProduct) ? "available" : "in stock"}`}
+            </span>
+            {" · "}
+            {currency}{catalogProduct.price.toLocaleString()}
+          </span>
+        </div>
+      </SelectItem>
+    );
+  };
+
+  // Managed categories in tree order, then any product categories the list has not picked up yet
+  const productCategories = new Set(catalogProducts.map((p) => p.category));
+  const catalogSections: { name: string; category?: Category }[] = categoryTree(categories)
+    .filter(({ category }) => productCategories.has(category.name))
+    .map(({ category }) => ({ name: category.name, category }));
+  productCategories.forEach((name) => {
+    if (!catalogSections.some((section) => section.name === name)) catalogSections.push({ name });
+  });
+
+  // Catalogue products asked for beyond what is on hand, across every line for the same product.
+  // Bundle lines ask for their components, so a bundle is short when any component is.
+  const catalogStock = new Map(catalogProducts.map((p) => [p.id, p.stock]));
+  const requested = requestedQuantities(products);
+  const shortLineIds = new Set(
+    [...requested.keys()].filter((id) => (requested.get(id) ?? 0) > (catalogStock.get(id) ?? Infinity))
+  );
+  const shortComponents = (line: Product) => (line.components ?? []).filter((component) => shortLineIds.has(component.id));
+
   return (
     <Card className="border-border/50 shadow-lg">
       <CardHeader className="border-b border-border/50">
@@ -172,69 +341,94 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
       <CardContent className="pt-6">
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Company Info */}
-          <div className="grid gap-4 md:grid-cols-3">
-            <div className="space-y-2">
-              <Label htmlFor="companyName">Company Name</Label>
-              <Input
-                id="companyName"
-                value={companyName}
-                onChange={(e) => setCompanyName(e.target.value)}
-                placeholder="Company name"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="companyAddress">Address</Label>
-              <Input
-                id="companyAddress"
-                value={companyAddress}
-                onChange={(e) => setCompanyAddress(e.target.value)}
-                placeholder="Address"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="companyPhone">Phone</Label>
-              <Input
-                id="companyPhone"
-                value={companyPhone}
-                onChange={(e) => setCompanyPhone(e.target.value)}
-                placeholder="Phone"
-              />
+          <div className="rounded-lg bg-muted/50 p-3 text-sm flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {settings.company_name || "No company name set"}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {[settings.company_address, settings.company_phone].filter(Boolean).join(" · ")}
+              </p>
             </div>
+            <Link to="/settings" className="text-xs text-primary shrink-0 hover:underline">
+              Edit in Settings
+            </Link>
           </div>
 
           {/* Customer Info */}
           <div className="space-y-2">
-            <Label htmlFor="customerName">Customer Name *</Label>
-            <Input
-              id="customerName"
-              value={customerName}
-              onChange={(e) => setCustomerName(e.target.value)}
-              placeholder="Enter customer name"
-              required
-            />
+            <Label>Customer *</Label>
+            <CustomerPicker value={customer} onChange={setCustomer} />
           </div>
 
           {/* Products */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <Label className="text-base font-semibold">Products</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={addProduct}
-                className="gap-1"
-              >
-                <Plus className="h-4 w-4" />
-                Add Product
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={scanning ? "secondary" : "outline"}
+                  size="sm"
+                  onClick={toggleScanning}
+                  className="gap-1"
+                >
+                  <ScanLine className="h-4 w-4" />
+                  {scanning ? "Stop Scanning" : "Scan"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addProduct}
+                  className="gap-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Product
+                </Button>
+              </div>
             </div>
 
+            {scanning && (
+              <div className="space-y-1">
+                <div className="relative">
+                  <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    ref={scanInputRef}
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleScan(scanCode);
+                      }
+                    }}
+                    // Keep the scanner's keystrokes landing here after picking or editing a line
+                    onBlur={() => setTimeout(() => {
+                      if (!document.activeElement || document.activeElement === document.body) {
+                        scanInputRef.current?.focus();
+                      }
+                    })}
+                    placeholder="Scan a barcode or type a SKU and press Enter"
+                    className={`pl-9 font-mono ${scanError ? "border-destructive" : ""}`}
+                    autoComplete="off"
+                    autoFocus
+                  />
+                </div>
+                {scanError && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="h-3 w-3" />
+                    {scanError}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="space-y-3">
               {products.map((product) => (
                 <div
                   key={product.id}
-                  className="grid gap-3 p-3 rounded-lg bg-muted/50 md:grid-cols-[1fr_100px_100px_40px]"
+                  className="grid gap-3 p-3 rounded-lg bg-muted/50 md:grid-cols-[1fr_100px_100px_40px_40px]"
                 >
                   <div className="space-y-1">
                     <Label className="text-xs text-muted-foreground">
@@ -254,27 +448,22 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
                             No products yet. Add products in the Products page.
                           </div>
                         ) : (
-                          categories.map((category) => (
-                            <div key={category}>
+                          catalogSections.map(({ name, category }) => (
+                            <div key={name}>
                               <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground bg-muted/50">
-                                {category}
+                                <CategoryBadge name={name} category={category} />
                               </div>
-                              {catalogProducts
-                                .filter((p) => p.category === category)
-                                .map((catalogProduct) => (
-                                  <SelectItem
-                                    key={catalogProduct.id}
-                                    value={catalogProduct.id}
-                                    className="cursor-pointer"
-                                  >
-                                    <div className="flex justify-between items-center w-full gap-4">
-                                      <span>{catalogProduct.name}</span>
-                                      <span className="text-muted-foreground text-xs">
-                                        ₦{catalogProduct.price.toLocaleString()}
-                                      </span>
-                                    </div>
-                                  </SelectItem>
-                                ))}
+                              {groupVariants(catalogProducts.filter((p) => p.category === name)).map(({ product: catalogProduct, variants }) =>
+                                // A parent is a heading; the cashier picks one of its variants
+                                variants.length > 0 ? (
+                                  <div key={catalogProduct.id}>
+                                    <div className="px-2 pt-1.5 pb-0.5 text-sm font-medium">{catalogProduct.name}</div>
+                                    {variants.map((variant) => renderCatalogItem(variant, variantLabel(variant.variant_attributes), "pl-8"))}
+                                  </div>
+                                ) : (
+                                  catalogProduct.variant_count === 0 && renderCatalogItem(catalogProduct, catalogProduct.name)
+                                )
+                              )}
                             </div>
                           ))
                         )}
@@ -285,10 +474,16 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
                         </div>
                       </SelectContent>
                     </Select>
+                    {product.tax_rate_name && (
+                      <p className="text-[11px] text-muted-foreground">
+                        {product.tax_rate_name}
+                        {product.tax_class === "standard" ? ` ${product.tax_rate}%` : ""}
+                      </p>
+                    )}
                   </div>
                   <div className="space-y-1">
                     <Label className="text-xs text-muted-foreground">
-                      Price (₦)
+                      Price ({currency})
                     </Label>
                     <Input
                       type="number"
@@ -314,6 +509,19 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
                       }
                     />
                   </div>
+                  <div className="flex items-end">
+                    <Button
+                      type="button"
+                      variant={product.discount ? "secondary" : "ghost"}
+                      size="icon"
+                      title="Line discount"
+                      onClick={() =>
+                        updateLineDiscount(product.id, product.discount ? null : { type: "percent", value: 0 })
+                      }
+                    >
+                      <Tag className="h-4 w-4" />
+                    </Button>
+                  </div>
                   <div className="flex items-end">
                     <Button
                       type="button"
@@ -326,24 +534,85 @@ export const InvoiceForm = ({ onGenerateInvoice }: InvoiceFormProps) => {
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
+                  {(shortLineIds.has(product.id) || shortComponents(product).length > 0) && (
+                    <p className="md:col-span-5 flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      {product.components?.length
+                        ? `Not enough ${shortComponents(product).map((component) => component.name).join(", ")} in stock`
+                        : `Only ${catalogStock.get(product.id)} in stock`}
+                      {settings.stock_policy === "block" && " - reduce the quantity to sell"}
+                      {settings.stock_policy === "override" && " - a manager override will be needed"}
+                    </p>
+                  )}
+                  {product.discount && (
+                    <div className="md:col-span-5">
+                      <DiscountInput
+                        discount={product.discount}
+                        currency={currency}
+                        onChange={(discount) => updateLineDiscount(product.id, discount)}
+                      />
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
 
+          {/* Invoice Discount */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-semibold">Invoice Discount</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setInvoiceDiscount(invoiceDiscount ? null : { type: "percent", value: 0 })}
+                className="gap-1"
+              >
+                <Tag className="h-4 w-4" />
+                {invoiceDiscount ? "Remove Discount" : "Add Discount"}
+              </Button>
+            </div>
+            {invoiceDiscount && (
+              <div className="p-3 rounded-lg bg-muted/50">
+                <DiscountInput
+                  discount={invoiceDiscount}
+                  currency={currency}
+                  onChange={setInvoiceDiscount}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Summary */}
           <div className="rounded-lg bg-muted/50 p-4 space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal:</span>
-              <span>₦{subtotal.toFixed(2)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">VAT (7.5%):</span>
-              <span>₦{tax.toFixed(2)}</span>
+              <span>{currency}{subtotal.toFixed(2)}</span>
             </div>
+            {discountTotal > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Discount:</span>
+                <span>-{currency}{discountTotal.toFixed(2)}</span>
+              </div>
+            )}
+            {taxSummary.map((entry) => (
+              <div key={`${entry.name}-${entry.rate}`} className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {entry.name} ({entry.rate}%){settings.prices_include_tax ? " incl." : ""}:
+                </span>
+                <span>{currency}{entry.tax.toFixed(2)}</span>
+              </div>
+            ))}
+            {taxSummary.length === 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Tax:</span>
+                <span>{currency}{tax.toFixed(2)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-lg font-bold border-t border-border pt-2">
               <span>Total:</span>
-              <span className="text-primary">₦{total.toFixed(2)}</span>
+              <span className="text-primary">{currency}{total.toFixed(2)}</span>
             </div>
           </div>
 
@@ -1,17 +1,46 @@
 import { forwardRef } from "react";
 import { Invoice } from "@/types/invoice";
 import { format } from "date-fns";
+import { useSettings } from "@/hooks/useSettings";
+import { summariseTaxByRate } from "@/lib/tax";
+import { formatDiscount, roundMoney } from "@/lib/discounts";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { receiptVerificationUrl } from "@/lib/receiptVerification";
+import { QrCode } from "@/components/QrCode";
+import { ReceiptText } from "@/components/ReceiptText";
 
 interface POSReceiptProps {
   invoice: Invoice;
+  paperWidthMm?: 58 | 80;
 }
 
 export const POSReceipt = forwardRef<HTMLDivElement, POSReceiptProps>(
-  ({ invoice }, ref) => {
+  ({ invoice, paperWidthMm = 80 }, ref) => {
+    const { settings } = useSettings();
+    const currency = settings.currency_symbol;
+    const taxSummary = summariseTaxByRate(invoice.products);
+    const lineDiscountTotal = invoice.products.reduce((sum, p) => sum + (p.discount_amount ?? 0), 0);
+    const invoiceDiscountAmount = invoice.products.reduce((sum, p) => sum + (p.invoice_discount_share ?? 0), 0);
+    const balanceDue = roundMoney(invoice.total - (invoice.amountPaid ?? invoice.total));
+    const { refund } = invoice;
+    // Credit note amounts print as negatives
+    const sign = refund ? "-" : "";
+    const discountSign = refund ? "+" : "-";
+    // Narrow rolls have no room for the figures beside the name, so they go on a line below it
+    const narrow = paperWidthMm < 80;
+    const verificationUrl = receiptVerificationUrl(invoice);
+
     return (
-      <div ref={ref} className="receipt-paper mx-auto">
+      <div ref={ref} className={`receipt-paper mx-auto${narrow ? " receipt-paper-58mm" : ""}`}>
         {/* Header */}
         <div className="text-center mb-2">
+          {settings.receipt_logo && (
+            <img
+              src={settings.receipt_logo}
+              alt=""
+              style={{ display: "block", margin: "0 auto 4px", maxWidth: "60%", maxHeight: "64px", filter: "grayscale(1)" }}
+            />
+          )}
           <h1 className="text-lg font-bold uppercase tracking-wide">
             {invoice.companyName}
           </h1>
@@ -21,16 +50,44 @@ export const POSReceipt = forwardRef<HTMLDivElement, POSReceiptProps>(
           {invoice.companyPhone && (
             <p className="text-[10px]">Tel: {invoice.companyPhone}</p>
           )}
+          {invoice.companyEmail && (
+            <p className="text-[10px]">{invoice.companyEmail}</p>
+          )}
+          <ReceiptText text={settings.receipt_header} className="text-[10px] mt-1" />
         </div>
 
         <div className="receipt-double-line" />
 
+        {refund && (
+          <>
+            <p className="text-center text-sm font-bold tracking-widest">*** REFUND ***</p>
+            <div className="receipt-divider" />
+          </>
+        )}
+
+        {invoice.voided && (
+          <>
+            <p className="text-center text-sm font-bold tracking-widest">*** VOID ***</p>
+            <p className="text-center text-[9px]">
+              {format(invoice.voided.at, "dd/MM/yyyy HH:mm")} by {invoice.voided.by}
+            </p>
+            <p className="text-center text-[9px]">Reason: {invoice.voided.reason}</p>
+            <div className="receipt-divider" />
+          </>
+        )}
+
         {/* Invoice Info */}
         <div className="text-[10px] space-y-1">
           <div className="flex justify-between">
-            <span>Invoice #:</span>
+            <span>{refund ? "Credit Note #:" : "Invoice #:"}</span>
             <span className="font-medium">{invoice.id}</span>
           </div>
+          {refund && (
+            <div className="flex justify-between">
+              <span>Original Invoice #:</span>
+              <span>{refund.originalInvoiceNumber}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span>Date:</span>
             <span>{format(invoice.date, "dd/MM/yyyy")}</span>
@@ -62,12 +119,19 @@ export const POSReceipt = forwardRef<HTMLDivElement, POSReceiptProps>(
         <div className="receipt-divider" />
 
         {/* Products Header */}
-        <div className="text-[10px] font-bold flex justify-between mb-1">
-          <span className="flex-1">ITEM</span>
-          <span className="w-8 text-center">QTY</span>
-          <span className="w-16 text-right">PRICE</span>
-          <span className="w-16 text-right">TOTAL</span>
-        </div>
+        {narrow ? (
+          <div className="text-[10px] font-bold flex justify-between mb-1">
+            <span>ITEM</span>
+            <span>TOTAL</span>
+          </div>
+        ) : (
+          <div className="text-[10px] font-bold flex justify-between mb-1">
+            <span className="flex-1">ITEM</span>
+            <span className="w-8 text-center">QTY</span>
+            <span className="w-16 text-right">PRICE</span>
+            <span className="w-16 text-right">TOTAL</span>
+          </div>
+        )}
 
         <div className="receipt-divider" />
 
@@ -75,16 +139,49 @@ export const POSReceipt = forwardRef<HTMLDivElement, POSReceiptProps>(
         <div className="space-y-2">
           {invoice.products.map((product) => (
             <div key={product.id} className="text-[10px]">
-              <div className="flex justify-between">
-                <span className="flex-1 truncate pr-2">{product.name}</span>
-                <span className="w-8 text-center">{product.quantity}</span>
-                <span className="w-16 text-right">
-                  {product.price.toFixed(2)}
-                </span>
-                <span className="w-16 text-right font-medium">
-                  {(product.price * product.quantity).toFixed(2)}
-                </span>
-              </div>
+              {narrow ? (
+                <>
+                  <p className="truncate">{product.name}</p>
+                  <div className="flex justify-between">
+                    <span>{"  "}{product.quantity} x {product.price.toFixed(2)}</span>
+                    <span className="font-medium">{(product.price * product.quantity).toFixed(2)}</span>
+                  </div>
+                </>
+              ) : (
+                <div className="flex justify-between">
+                  <span className="flex-1 truncate pr-2">{product.name}</span>
+                  <span className="w-8 text-center">{product.quantity}</span>
+                  <span className="w-16 text-right">
+                    {product.price.toFixed(2)}
+                  </span>
+                  <span className="w-16 text-right font-medium">
+                    {(product.price * product.quantity).toFixed(2)}
+                  </span>
+                </div>
+              )}
+              {settings.receipt_show_bundle_components && product.components?.map((component) => (
+                narrow ? (
+                  <p key={component.id} className="truncate opacity-70">
+                    {"  "}- {component.quantity * product.quantity} x {component.name}
+                  </p>
+                ) : (
+                  <div key={component.id} className="flex justify-between opacity-70">
+                    <span className="flex-1 truncate pr-2">{"  "}- {component.name}</span>
+                    <span className="w-8 text-center">{component.quantity * product.quantity}</span>
+                    <span className="w-16" />
+                    <span className="w-16" />
+                  </div>
+                )
+              ))}
+              {product.discount && (product.discount_amount ?? 0) > 0 && (
+                <div className="flex justify-between">
+                  <span className="flex-1 truncate pr-2">
+                    {"  "}Disc {formatDiscount(product.discount, currency)}
+                    {product.discount.reason ? ` - ${product.discount.reason}` : ""}
+                  </span>
+                  <span className="w-16 text-right">-{(product.discount_amount ?? 0).toFixed(2)}</span>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -95,47 +192,150 @@ export const POSReceipt = forwardRef<HTMLDivElement, POSReceiptProps>(
         <div className="text-[10px] space-y-1">
           <div className="flex justify-between">
             <span>Subtotal:</span>
-            <span>₦{invoice.subtotal.toFixed(2)}</span>
-          </div>
-          <div className="flex justify-between">
-            <span>VAT (7.5%):</span>
-            <span>₦{invoice.tax.toFixed(2)}</span>
+            <span>{sign}{currency}{invoice.subtotal.toFixed(2)}</span>
           </div>
+          {lineDiscountTotal > 0 && (
+            <div className="flex justify-between">
+              <span>Line Discounts:</span>
+              <span>{discountSign}{currency}{lineDiscountTotal.toFixed(2)}</span>
+            </div>
+          )}
+          {invoice.discount && invoiceDiscountAmount > 0 && (
+            <>
+              <div className="flex justify-between">
+                <span>Discount ({formatDiscount(invoice.discount, currency)}):</span>
+                <span>{discountSign}{currency}{invoiceDiscountAmount.toFixed(2)}</span>
+              </div>
+              {invoice.discount.reason && (
+                <p className="text-[9px]">{invoice.discount.reason}</p>
+              )}
+            </>
+          )}
+          {taxSummary.length > 0 ? (
+            taxSummary.map((entry) => (
+              <div key={`${entry.name}-${entry.rate}`} className="flex justify-between">
+                <span>
+                  {entry.name} ({entry.rate}%){invoice.pricesIncludeTax ? " incl." : ""}:
+                </span>
+                <span>{sign}{currency}{entry.tax.toFixed(2)}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between">
+              <span>VAT:</span>
+              <span>{sign}{currency}{invoice.tax.toFixed(2)}</span>
+            </div>
+          )}
         </div>
 
         <div className="receipt-divider" />
 
         <div className="flex justify-between text-sm font-bold">
-          <span>TOTAL:</span>
-          <span>₦{invoice.total.toFixed(2)}</span>
+          <span>{refund ? "TOTAL REFUND:" : "TOTAL:"}</span>
+          <span>{sign}{currency}{invoice.total.toFixed(2)}</span>
         </div>
 
+        {/* Refund settlement */}
+        {refund && (
+          <>
+            <div className="receipt-divider" />
+            <div className="text-[10px] space-y-1">
+              {refund.appliedToBalance > 0 && (
+                <div className="flex justify-between">
+                  <span>Taken off balance owed:</span>
+                  <span>{currency}{refund.appliedToBalance.toFixed(2)}</span>
+                </div>
+              )}
+              {refund.refundedAmount > 0 && refund.refundMethod && (
+                <div className="flex justify-between font-medium">
+                  <span>Refunded ({PAYMENT_METHOD_LABELS[refund.refundMethod]}):</span>
+                  <span>{currency}{refund.refundedAmount.toFixed(2)}</span>
+                </div>
+              )}
+              {refund.reason && <p className="text-[9px]">Reason: {refund.reason}</p>}
+            </div>
+          </>
+        )}
+
+        {/* Payments */}
+        {invoice.payments && invoice.payments.length > 0 && (
+          <>
+            <div className="receipt-divider" />
+            <div className="text-[10px] space-y-1">
+              {invoice.payments.map((payment, index) => (
+                <div key={index}>
+                  <div className="flex justify-between">
+                    <span>{PAYMENT_METHOD_LABELS[payment.method]}:</span>
+                    <span>{currency}{(payment.tendered ?? payment.amount).toFixed(2)}</span>
+                  </div>
+                  {payment.reference && (
+                    <p className="text-[9px]">{"  "}Ref: {payment.reference}</p>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-between font-medium">
+                <span>Change:</span>
+                <span>{currency}{(invoice.changeDue ?? 0).toFixed(2)}</span>
+              </div>
+            </div>
+          </>
+        )}
+        {invoice.amountPaid !== undefined && balanceDue > 0 && (
+          <>
+            <div className="receipt-divider" />
+            <div className="text-[10px] space-y-1">
+              <div className="flex justify-between">
+                <span>Amount Paid:</span>
+                <span>{currency}{invoice.amountPaid.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between text-sm font-bold">
+                <span>BALANCE DUE:</span>
+                <span>{currency}{balanceDue.toFixed(2)}</span>
+              </div>
+              <p className="text-[9px] text-center">CREDIT SALE</p>
+            </div>
+          </>
+        )}
+
+        {settings.receipt_return_policy.trim() && (
+          <>
+            <div className="receipt-divider" />
+            <ReceiptText text={settings.receipt_return_policy} className="text-[9px]" />
+          </>
+        )}
+
         <div className="receipt-double-line" />
 
         {/* Footer */}
         <div className="text-center text-[9px] space-y-2 mt-3">
-          <p className="font-medium">Thank you for your patronage!</p>
-          <p>Please keep this receipt for your records</p>
+          <ReceiptText text={settings.receipt_footer} />
           <p className="text-[8px] opacity-70">
             Powered by YAROTECH Invoice Pro
           </p>
         </div>
 
-        {/* Barcode placeholder */}
-        <div className="mt-3 flex justify-center">
-          <div className="flex gap-[1px]">
-            {Array.from({ length: 30 }).map((_, i) => (
-              <div
-                key={i}
-                className="bg-black"
-                style={{
-                  width: Math.random() > 0.5 ? "2px" : "1px",
-                  height: "24px",
-                }}
-              />
-            ))}
+        {verificationUrl ? (
+          <div className="mt-3 flex flex-col items-center">
+            <QrCode value={verificationUrl} size={narrow ? 88 : 104} />
+            <p className="text-center text-[8px]">Scan to verify this receipt</p>
           </div>
-        </div>
+        ) : (
+          /* Barcode placeholder */
+          <div className="mt-3 flex justify-center">
+            <div className="flex gap-[1px]">
+              {Array.from({ length: 30 }).map((_, i) => (
+                <div
+                  key={i}
+                  className="bg-black"
+                  style={{
+                    width: Math.random() > 0.5 ? "2px" : "1px",
+                    height: "24px",
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        )}
         <p className="text-center text-[8px] mt-1">{invoice.id}</p>
       </div>
     );
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Trash2, Wallet } from "lucide-react";
+import { Payment, PaymentMethod } from "@/lib/api";
+import { PAYMENT_METHOD_LABELS, TenderEntry, settlePayments } from "@/lib/payments";
+
+interface PaymentFormProps {
+  total: number;
+  currency: string;
+  saving?: boolean;
+  // Credit sales need a customer on file to carry the balance
+  allowCredit?: boolean;
+  onBack: () => void;
+  onConfirm: (payment: { payments: Payment[]; amountPaid: number; changeDue: number }) => void;
+}
+
+const METHODS: PaymentMethod[] = ["cash", "card", "transfer", "mobile_money"];
+
+export const PaymentForm = ({ total, currency, saving, allowCredit, onBack, onConfirm }: PaymentFormProps) => {
+  const [tenders, setTenders] = useState<TenderEntry[]>([{ method: "cash", amount: total }]);
+
+  const { payments, amountPaid, changeDue, balance, overpaidNonCash } = settlePayments(tenders, total);
+  const canConfirm = balance <= 0 && !overpaidNonCash && payments.length > 0;
+  const canSellOnCredit = !!allowCredit && balance > 0 && !overpaidNonCash;
+
+  const updateTender = (index: number, changes: Partial<TenderEntry>) => {
+    setTenders(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  const addTender = () => {
+    setTenders([...tenders, { method: "card", amount: Math.max(0, balance) }]);
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canConfirm) return;
+    onConfirm({ payments, amountPaid, changeDue });
+  };
+
+  const handleCredit = () => {
+    if (!canSellOnCredit) return;
+    onConfirm({ payments, amountPaid, changeDue });
+  };
+
+  return (
+    <Card className="border-border/50 shadow-lg">
+      <CardHeader className="border-b border-border/50">
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Wallet className="h-5 w-5 text-primary" />
+          Take Payment
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="rounded-lg bg-muted/50 p-4 flex justify-between text-lg font-bold">
+            <span>Amount Due:</span>
+            <span className="text-primary">{currency}{total.toFixed(2)}</span>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-semibold">Tenders</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addTender} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Split Payment
+              </Button>
+            </div>
+
+            {tenders.map((tender, index) => (
+              <div
+                key={index}
+                className="grid gap-3 p-4 rounded-lg bg-muted/50 md:grid-cols-[150px_130px_1fr_auto]"
+              >
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Method</Label>
+                  <Select
+                    value={tender.method}
+                    onValueChange={(value) => updateTender(index, { method: value as PaymentMethod })}
+                  >
+                    <SelectTrigger className="bg-background">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">
+                    {tender.method === "cash" ? `Tendered (${currency})` : `Amount (${currency})`}
+                  </Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={tender.amount || ""}
+                    onChange={(e) => updateTender(index, { amount: parseFloat(e.target.value) || 0 })}
+                    placeholder="0.00"
+                    className="bg-background"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Reference (optional)</Label>
+                  <Input
+                    value={tender.reference || ""}
+                    onChange={(e) => updateTender(index, { reference: e.target.value })}
+                    placeholder={tender.method === "cash" ? "" : "Terminal or transfer ref"}
+                    disabled={tender.method === "cash"}
+                    className="bg-background"
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTender(index)}
+                    disabled={tenders.length === 1}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-4 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Paid:</span>
+              <span>{currency}{amountPaid.toFixed(2)}</span>
+            </div>
+            {balance > 0 && (
+              <div className="flex justify-between text-sm text-destructive">
+                <span>Balance Remaining:</span>
+                <span>{currency}{balance.toFixed(2)}</span>
+              </div>
+            )}
+            {balance > 0 && !allowCredit && (
+              <p className="text-xs text-muted-foreground">
+                Select a saved customer (not walk-in) to sell the balance on credit.
+              </p>
+            )}
+            <div className="flex justify-between text-lg font-bold border-t border-border pt-2">
+              <span>Change Due:</span>
+              <span className="text-primary">{currency}{changeDue.toFixed(2)}</span>
+            </div>
+            {overpaidNonCash && (
+              <p className="text-xs text-destructive">
+                Card, transfer and mobile money payments cannot exceed the amount due.
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="outline" size="lg" onClick={onBack} disabled={saving} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            {canSellOnCredit ? (
+              <Button type="button" size="lg" variant="secondary" className="flex-1" onClick={handleCredit} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Complete on Credit ({currency}{balance.toFixed(2)} owed)
+              </Button>
+            ) : (
+              <Button type="submit" size="lg" className="flex-1" disabled={!canConfirm || saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Complete Sale
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
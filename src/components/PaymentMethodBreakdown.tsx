@@ -0,0 +1,42 @@
+import { PaymentMethodTotal } from "@/lib/api";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+
+interface PaymentMethodBreakdownProps {
+  totals: PaymentMethodTotal[];
+  currency: string;
+}
+
+export const PaymentMethodBreakdown = ({ totals, currency }: PaymentMethodBreakdownProps) => {
+  const grandTotal = totals.reduce((sum, entry) => sum + entry.total, 0);
+
+  if (totals.length === 0) {
+    return <p className="text-sm text-muted-foreground">No payments recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {totals.map((entry) => {
+        const share = grandTotal > 0 ? (entry.total / grandTotal) * 100 : 0;
+        return (
+          <div key={entry.method} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">
+                {PAYMENT_METHOD_LABELS[entry.method]}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {entry.count} payment{entry.count === 1 ? "" : "s"}
+                </span>
+              </span>
+              <span>
+                {currency}{entry.total.toLocaleString()}
+                <span className="text-xs text-muted-foreground ml-2">{share.toFixed(1)}%</span>
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-primary" style={{ width: `${share}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { api, ProductImportInput, ProductImportResult } from "@/lib/api";
+import {
+  ColumnMapping,
+  PRODUCT_IMPORT_FIELDS,
+  Spreadsheet,
+  buildImportRows,
+  guessColumnMapping,
+  importResultFrom,
+  readSpreadsheet,
+} from "@/lib/productImport";
+import { toast } from "sonner";
+
+// Select value for fields that are not in the file
+const NOT_MAPPED = "none";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (result: ProductImportResult) => void;
+}
+
+export const ProductImportDialog = ({ open, onOpenChange, onImported }: ProductImportDialogProps) => {
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [matchBy, setMatchBy] = useState<ProductImportInput['match_by']>("name");
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSheet(null);
+      setFileName("");
+      setMapping(null);
+      setMatchBy("name");
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error("The file has no rows to import");
+      } else {
+        setSheet(data);
+        setFileName(file.name);
+        setMapping(guessColumnMapping(data.headers));
+        setResult(null);
+      }
+    } catch (error) {
+      toast.error("Could not read that file. Use CSV or Excel (.xlsx).");
+    }
+    setBusy(false);
+  };
+
+  const setColumn = (field: keyof ColumnMapping, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) });
+    setResult(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!sheet || !mapping) return;
+    setBusy(true);
+    try {
+      const response = await api.importProducts({
+        match_by: matchBy,
+        rows: buildImportRows(sheet, mapping),
+        dry_run: dryRun,
+      });
+      if (dryRun) {
+        setResult(response);
+      } else {
+        toast.success(`Imported: ${response.created} added, ${response.updated} updated`);
+        onImported(response);
+        onOpenChange(false);
+      }
+    } catch (error) {
+      // Rows can start failing between the preview and the import, e.g. a product added meanwhile
+      const rejected = importResultFrom(error);
+      if (rejected) setResult(rejected);
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    }
+    setBusy(false);
+  };
+
+  const keyMapped = mapping?.[matchBy] !== null && mapping?.[matchBy] !== undefined;
+  const failedRows = result?.rows.filter((row) => row.errors.length > 0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Add or update products from a CSV or Excel (.xlsx) file. Nothing is saved until every row passes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            disabled={busy}
+          />
+          {sheet && (
+            <p className="text-xs text-muted-foreground">{fileName} · {sheet.rows.length} rows</p>
+          )}
+        </div>
+
+        {sheet && mapping && (
+          <>
+            <div className="space-y-2">
+              <Label>Match existing products by</Label>
+              <RadioGroup
+                value={matchBy}
+                onValueChange={(value) => { setMatchBy(value as ProductImportInput['match_by']); setResult(null); }}
+                className="flex gap-6"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="name" id="match-name" />
+                  <Label htmlFor="match-name" className="font-normal">Name</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="sku" id="match-sku" />
+                  <Label htmlFor="match-sku" className="font-normal">SKU</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              {PRODUCT_IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="flex items-center gap-2">
+                  <Label className="w-32 shrink-0 text-sm">{label}</Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="bg-emerald-500/20 text-emerald-600">{result.created} new</Badge>
+              <Badge variant="secondary">{result.updated} to update</Badge>
+              {result.failed > 0 && <Badge variant="destructive">{result.failed} with errors</Badge>}
+            </div>
+            <div className="max-h-[40vh] overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[70px]">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(failedRows.length > 0 ? failedRows : result.rows).map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.name || '-'}</TableCell>
+                      <TableCell>{row.action === 'create' ? 'Add' : 'Update'}</TableCell>
+                      <TableCell className="text-sm text-destructive">{row.errors.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {failedRows.length > 0 && (
+              <p className="text-xs text-muted-foreground">Only rows with problems are listed. Fix them in the file and choose it again.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          {result && result.failed === 0 ? (
+            <Button onClick={() => runImport(false)} disabled={busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import {result.rows.length} Rows
+            </Button>
+          ) : (
+            <Button onClick={() => runImport(true)} disabled={!sheet || !keyMapped || busy}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { api, Product, PurchaseOrder, Supplier } from "@/lib/api";
+import { orderValue } from "@/lib/purchasing";
+import { toast } from "sonner";
+
+interface OrderLine {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  suppliers: Supplier[];
+  products: Product[];
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (order: PurchaseOrder) => void;
+}
+
+export const PurchaseOrderDialog = ({ open, suppliers, products, currency, onOpenChange, onCreated }: PurchaseOrderDialogProps) => {
+  const [supplierId, setSupplierId] = useState("");
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [productId, setProductId] = useState("");
+  const [expectedAt, setExpectedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSupplierId("");
+      setLines([]);
+      setProductId("");
+      setExpectedAt("");
+      setNotes("");
+    }
+  }, [open]);
+
+  const productName = (id: string) => products.find((product) => product.id === id)?.name ?? "";
+  const total = orderValue(lines);
+  const valid = !!supplierId && lines.length > 0 && lines.every((line) => line.quantity > 0 && line.unit_cost >= 0);
+
+  const addLine = () => {
+    if (!productId) return;
+    if (lines.some((line) => line.product_id === productId)) {
+      toast.error("That product is already on the order");
+      return;
+    }
+    setLines([...lines, { product_id: productId, quantity: 1, unit_cost: 0 }]);
+    setProductId("");
+  };
+
+  const updateLine = (index: number, changes: Partial<OrderLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (!valid) return;
+    setSaving(true);
+    try {
+      const order = await api.createPurchaseOrder({
+        supplier_id: supplierId,
+        items: lines,
+        expected_at: expectedAt || undefined,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`Purchase order ${order.po_number} created`);
+      onCreated(order);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create purchase order");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New Purchase Order</DialogTitle>
+          <DialogDescription>Order stock from a supplier and book it in when it arrives.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Supplier</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="po-expected">Expected (optional)</Label>
+            <Input id="po-expected" type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={productId} onValueChange={setProductId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Add a product" />
+            </SelectTrigger>
+            <SelectContent>
+              {products.map((product) => (
+                <SelectItem key={product.id} value={product.id}>
+                  {product.name} ({product.stock} in stock)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" onClick={addLine} disabled={!productId}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {lines.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="w-[100px]">Qty</TableHead>
+                <TableHead className="w-[120px]">Unit Cost</TableHead>
+                <TableHead className="text-right">Line Total</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={line.product_id}>
+                  <TableCell className="font-medium">{productName(line.product_id)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={line.quantity || ""}
+                      onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={line.unit_cost || ""}
+                      onChange={(e) => updateLine(index, { unit_cost: parseFloat(e.target.value) || 0 })}
+                      placeholder="0.00"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{currency}{(line.quantity * line.unit_cost).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Button type="button" size="icon" variant="ghost" onClick={() => removeLine(index)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="po-notes">Notes (optional)</Label>
+          <Input id="po-notes" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} placeholder="e.g. Deliver to back door" />
+        </div>
+
+        <div className="flex justify-between rounded-lg bg-muted/50 p-3 text-sm font-medium">
+          <span>Order total:</span>
+          <span>{currency}{total.toFixed(2)}</span>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!valid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Order
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { qrCodeModules, qrCodeSvgPath } from "@/utils/qrCode";
+
+interface QrCodeProps {
+  value: string;
+  // Width and height in pixels, including the quiet zone
+  size: number;
+}
+
+/**
+ * QR code as inline SVG, so it survives being copied into the print window as HTML
+ */
+export const QrCode = ({ value, size }: QrCodeProps) => {
+  const [modules, setModules] = useState<boolean[][]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    qrCodeModules(value)
+      .then((loaded) => { if (!cancelled) setModules(loaded); })
+      .catch((error) => console.error("Failed to draw QR code:", error));
+    return () => { cancelled = true; };
+  }, [value]);
+
+  // Scanners need a margin of light modules around the code
+  const quietZone = 2;
+  const extent = modules.length + quietZone * 2;
+
+  // Keep the space while the encoder loads so the receipt does not jump
+  if (modules.length === 0) return <div style={{ width: size, height: size }} />;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-quietZone} ${-quietZone} ${extent} ${extent}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="Verification QR code"
+    >
+      <rect x={-quietZone} y={-quietZone} width={extent} height={extent} fill="white" />
+      <path d={qrCodeSvgPath(modules)} fill="black" />
+    </svg>
+  );
+};
@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { ReceiptText } from "@/components/ReceiptText";
+import { Bold, Heading, ImageIcon, Loader2, Trash2, Underline } from "lucide-react";
+import { useSettings } from "@/hooks/useSettings";
+import { RECEIPT_TEXT_MARKERS } from "@/lib/receiptText";
+import { prepareReceiptLogo } from "@/utils/receiptLogo";
+import { toast } from "sonner";
+
+interface FormattedTextFieldProps {
+  id: string;
+  label: string;
+  hint: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+}
+
+/**
+ * A textarea with buttons that wrap the selection in receipt text markers
+ */
+const FormattedTextField = ({ id, label, hint, value, onChange, rows = 3 }: FormattedTextFieldProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (format: keyof typeof RECEIPT_TEXT_MARKERS) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const marker = RECEIPT_TEXT_MARKERS[format];
+
+    let next: string;
+    let cursor: [number, number];
+    if (format === "large") {
+      // Large applies to whole lines, so mark or unmark the start of the line the cursor is on
+      const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+      const marked = value.startsWith(marker, lineStart);
+      next = marked
+        ? value.slice(0, lineStart) + value.slice(lineStart + marker.length)
+        : value.slice(0, lineStart) + marker + value.slice(lineStart);
+      const shift = marked ? -marker.length : marker.length;
+      cursor = [Math.max(lineStart, start + shift), Math.max(lineStart, end + shift)];
+    } else {
+      next = value.slice(0, start) + marker + value.slice(start, end) + marker + value.slice(end);
+      cursor = [start + marker.length, end + marker.length];
+    }
+
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(...cursor);
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>{label}</Label>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Bold" onClick={() => applyFormat("bold")}>
+            <Bold className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Underline" onClick={() => applyFormat("underline")}>
+            <Underline className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Large line" onClick={() => applyFormat("large")}>
+            <Heading className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <Textarea
+        ref={textareaRef}
+        id={id}
+        rows={rows}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="font-mono text-sm"
+      />
+      <p className="text-xs text-muted-foreground">{hint}</p>
+    </div>
+  );
+};
+
+/**
+ * The company's logo and the text printed around every receipt and invoice
+ */
+export const ReceiptDesignSettings = () => {
+  const { settings, updateSettings } = useSettings();
+  const [logo, setLogo] = useState<string | null>(settings.receipt_logo);
+  const [header, setHeader] = useState(settings.receipt_header);
+  const [footer, setFooter] = useState(settings.receipt_footer);
+  const [returnPolicy, setReturnPolicy] = useState(settings.receipt_return_policy);
+  const [processingLogo, setProcessingLogo] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setLogo(settings.receipt_logo);
+    setHeader(settings.receipt_header);
+    setFooter(settings.receipt_footer);
+    setReturnPolicy(settings.receipt_return_policy);
+  }, [settings.receipt_logo, settings.receipt_header, settings.receipt_footer, settings.receipt_return_policy]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setProcessingLogo(true);
+    try {
+      setLogo(await prepareReceiptLogo(file));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read the logo");
+    }
+    setProcessingLogo(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const { error } = await updateSettings({
+      receipt_logo: logo,
+      receipt_header: header.trim(),
+      receipt_footer: footer.trim(),
+      receipt_return_policy: returnPolicy.trim(),
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Receipt design saved");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ImageIcon className="h-5 w-5" />
+          Receipt Design
+        </CardTitle>
+        <CardDescription>
+          Logo and messages printed on receipts, A4 invoices and PDFs
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="receiptLogo">Logo</Label>
+            <div className="flex items-center gap-4">
+              <div className="flex h-20 w-40 items-center justify-center rounded-md border bg-white p-2">
+                {logo ? (
+                  <img src={logo} alt="Receipt logo" className="max-h-full max-w-full" />
+                ) : (
+                  <span className="text-xs text-muted-foreground">No logo</span>
+                )}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Input
+                  id="receiptLogo"
+                  type="file"
+                  accept="image/png,image/jpeg,image/gif,image/webp"
+                  onChange={handleLogoChange}
+                  disabled={processingLogo}
+                />
+                {logo && (
+                  <Button type="button" variant="outline" size="sm" className="gap-2 self-start" onClick={() => setLogo(null)}>
+                    <Trash2 className="h-4 w-4" />
+                    Remove Logo
+                  </Button>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Stored in greyscale. Simple dark artwork on a white background prints best on receipt printers.
+            </p>
+          </div>
+
+          <FormattedTextField
+            id="receiptHeader"
+            label="Header"
+            hint="Printed under the company details, e.g. a slogan or tax number"
+            value={header}
+            onChange={setHeader}
+          />
+          <FormattedTextField
+            id="receiptFooter"
+            label="Footer message"
+            hint="Printed at the bottom of every receipt"
+            value={footer}
+            onChange={setFooter}
+          />
+          <FormattedTextField
+            id="receiptReturnPolicy"
+            label="Return policy"
+            hint="Printed above the footer. Leave empty to leave it off."
+            value={returnPolicy}
+            onChange={setReturnPolicy}
+            rows={4}
+          />
+
+          {(header.trim() || footer.trim() || returnPolicy.trim()) && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Preview</p>
+              <div className="receipt-paper mx-auto space-y-2 text-center text-[10px]">
+                <ReceiptText text={header} />
+                <ReceiptText text={returnPolicy} className="text-left" />
+                <ReceiptText text={footer} />
+              </div>
+            </div>
+          )}
+
+          <Button type="submit" className="gap-2" disabled={saving || processingLogo}>
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save Receipt Design
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
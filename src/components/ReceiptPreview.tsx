@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import { POSReceipt } from "@/components/POSReceipt";
+import { A4Invoice } from "@/components/A4Invoice";
+import { ShareReceiptMenu } from "@/components/ShareReceiptMenu";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2, Printer, X } from "lucide-react";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Customer, ReceiptShare, ReceiptTemplate } from "@/lib/api";
+import { RECEIPT_TEMPLATE_LABELS, RECEIPT_TEMPLATE_OPTIONS, THERMAL_PAPER, isThermalTemplate } from "@/lib/receiptTemplates";
+import { Invoice } from "@/types/invoice";
+import { printInvoiceReceipt, printReceipt } from "@/utils/printReceipt";
+import { downloadInvoicePdf, printInvoicePdf } from "@/utils/invoicePdf";
+import { toast } from "sonner";
+
+interface ReceiptPreviewProps {
+  invoice: Invoice;
+  // Kick the cash drawer when the receipt goes to a receipt printer
+  openDrawer?: boolean;
+  busy?: boolean;
+  onClose?: () => void;
+  // Called with the invoice's updated share log after it is sent to the customer
+  onShared?: (shares: ReceiptShare[]) => void;
+}
+
+/**
+ * The printable copy of an invoice in the Settings default layout, which can be switched
+ * for a single print
+ */
+export const ReceiptPreview = ({ invoice, openDrawer = false, busy = false, onClose, onShared }: ReceiptPreviewProps) => {
+  const { settings } = useSettings();
+  const [template, setTemplate] = useState<ReceiptTemplate>(settings.receipt_template);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const receiptRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setTemplate(settings.receipt_template);
+  }, [settings.receipt_template]);
+
+  // For the A4 bill-to block and the contact details sharing sends to
+  useEffect(() => {
+    setCustomer(null);
+    if (!invoice.customerId) return;
+    let cancelled = false;
+    api.getCustomer(invoice.customerId)
+      .then((loaded) => { if (!cancelled) setCustomer(loaded); })
+      .catch((error) => console.error("Failed to load customer:", error));
+    return () => { cancelled = true; };
+  }, [invoice.customerId]);
+
+  const handleDownload = async () => {
+    try {
+      await downloadInvoicePdf(invoice, settings, customer);
+    } catch (error) {
+      console.error("Failed to build invoice PDF:", error);
+      toast.error("Could not create the PDF");
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!isThermalTemplate(template)) {
+      try {
+        if (!(await printInvoicePdf(invoice, settings, customer))) {
+          toast.error("Unable to print. Please allow popups for this site.");
+        }
+      } catch (error) {
+        console.error("Failed to build invoice PDF:", error);
+        toast.error("Could not create the PDF");
+      }
+      return;
+    }
+
+    if (!receiptRef.current) return;
+    const content = receiptRef.current.innerHTML;
+    const { printed, printerError } = await printInvoiceReceipt(invoice, content, settings, {
+      template,
+      openDrawer,
+    });
+    if (printerError) {
+      // Offered as a button so the print popup opens from a fresh click
+      toast.error(`Receipt printer unavailable (${printerError})`, {
+        duration: 30000,
+        action: {
+          label: "Print in browser",
+          onClick: () => {
+            if (!printReceipt(content, invoice.id, THERMAL_PAPER[template].widthMm)) {
+              toast.error("Unable to print. Please allow popups for this site.");
+            }
+          },
+        },
+      });
+    } else if (!printed) {
+      toast.error("Unable to print. Please allow popups for this site.");
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 mb-4 no-print">
+        <h2 className="font-semibold">{template === "a4" ? "Invoice Preview" : "Receipt Preview"}</h2>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Select value={template} onValueChange={(value) => setTemplate(value as ReceiptTemplate)}>
+            <SelectTrigger className="h-9 w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECEIPT_TEMPLATE_OPTIONS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {RECEIPT_TEMPLATE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {template === "a4" && (
+            <Button
+              onClick={handleDownload}
+              size="sm"
+              variant="outline"
+              className="gap-2"
+            >
+              <Download className="h-4 w-4" />
+              PDF
+            </Button>
+          )}
+          {invoice.recordId && <ShareReceiptMenu invoice={invoice} customer={customer} onShared={onShared} />}
+          <Button onClick={handlePrint} size="sm" className="gap-2" disabled={busy}>
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
+            Print
+          </Button>
+          {onClose && (
+            <Button onClick={onClose} size="sm" variant="ghost">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="bg-muted/30 rounded-lg p-4 flex justify-center">
+        {isThermalTemplate(template) ? (
+          <POSReceipt ref={receiptRef} invoice={invoice} paperWidthMm={THERMAL_PAPER[template].widthMm} />
+        ) : (
+          <A4Invoice invoice={invoice} customer={customer} />
+        )}
+      </div>
+    </>
+  );
+};
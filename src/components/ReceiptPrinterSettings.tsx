@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Printer } from "lucide-react";
+import { useSettings } from "@/hooks/useSettings";
+import { THERMAL_PAPER, isThermalTemplate } from "@/lib/receiptTemplates";
+import { renderEscPosTestPage } from "@/utils/escpos";
+import {
+  RECEIPT_PRINTER_CONNECTION_LABELS,
+  ReceiptPrinterConfig,
+  ReceiptPrinterConnection,
+  choosePrinter,
+  isConnectionSupported,
+  loadPrinterConfig,
+  savePrinterConfig,
+  sendToPrinter,
+} from "@/utils/thermalPrinter";
+import { toast } from "sonner";
+
+/**
+ * How this device prints receipts. Saved in the browser rather than with the company settings,
+ * since each till has its own printer.
+ */
+export const ReceiptPrinterSettings = () => {
+  const { settings } = useSettings();
+  const [config, setConfig] = useState<ReceiptPrinterConfig>(loadPrinterConfig);
+  const [printerName, setPrinterName] = useState<string>();
+  const [testing, setTesting] = useState(false);
+
+  const update = (changes: Partial<ReceiptPrinterConfig>) => setConfig({ ...config, ...changes });
+  const direct = config.connection !== "browser";
+
+  const handleChoosePrinter = async () => {
+    if (config.connection !== "usb" && config.connection !== "serial") return;
+    try {
+      setPrinterName(await choosePrinter(config.connection));
+    } catch (error) {
+      // Closing the browser's device picker rejects with NotFoundError
+      if (!(error instanceof DOMException && error.name === "NotFoundError")) {
+        toast.error(error instanceof Error ? error.message : "Could not connect to the printer");
+      }
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (config.connection === "bridge" && !/^https?:\/\//.test(config.bridgeUrl.trim())) {
+      toast.error("Enter the print bridge address, e.g. http://localhost:9100/print");
+      return;
+    }
+    savePrinterConfig({ ...config, bridgeUrl: config.bridgeUrl.trim() });
+    toast.success("Receipt printer saved on this device");
+  };
+
+  const handleTestPrint = async () => {
+    setTesting(true);
+    // A4 is never sent to the receipt printer, so test on the usual roll
+    const paper = THERMAL_PAPER[isThermalTemplate(settings.receipt_template) ? settings.receipt_template : "80mm"];
+    try {
+      await sendToPrinter(
+        renderEscPosTestPage(settings.company_name, { columns: paper.escPosColumns, openDrawer: config.openDrawer }),
+        config
+      );
+      toast.success("Test page sent");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Test print failed");
+    }
+    setTesting(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Printer className="h-5 w-5" />
+          Receipt Printer
+        </CardTitle>
+        <CardDescription>
+          Print straight to a thermal printer without the print dialog. Applies to this device only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="printerConnection">Print with</Label>
+            <Select
+              value={config.connection}
+              onValueChange={(value) => update({ connection: value as ReceiptPrinterConnection })}
+            >
+              <SelectTrigger id="printerConnection">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RECEIPT_PRINTER_CONNECTION_LABELS) as ReceiptPrinterConnection[]).map((connection) => (
+                  <SelectItem key={connection} value={connection} disabled={!isConnectionSupported(connection)}>
+                    {RECEIPT_PRINTER_CONNECTION_LABELS[connection]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {direct && (
+              <p className="text-xs text-muted-foreground">
+                If the printer cannot be reached, receipts open in the print dialog instead
+              </p>
+            )}
+          </div>
+
+          {(config.connection === "usb" || config.connection === "serial") && (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">{printerName ?? "The browser remembers the printer you choose"}</p>
+              <Button type="button" variant="outline" onClick={handleChoosePrinter}>
+                Choose Printer
+              </Button>
+            </div>
+          )}
+
+          {config.connection === "serial" && (
+            <div className="space-y-2">
+              <Label htmlFor="serialBaudRate">Baud rate</Label>
+              <Input
+                id="serialBaudRate"
+                type="number"
+                min="1200"
+                value={config.serialBaudRate}
+                onChange={(e) => update({ serialBaudRate: parseInt(e.target.value) || 9600 })}
+              />
+            </div>
+          )}
+
+          {config.connection === "bridge" && (
+            <div className="space-y-2">
+              <Label htmlFor="bridgeUrl">Print bridge address</Label>
+              <Input
+                id="bridgeUrl"
+                value={config.bridgeUrl}
+                onChange={(e) => update({ bridgeUrl: e.target.value })}
+                placeholder="http://localhost:9100/print"
+              />
+              <p className="text-xs text-muted-foreground">Receives each receipt as raw ESC/POS data in a POST request</p>
+            </div>
+          )}
+
+          {direct && (
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="openDrawer">Open cash drawer</Label>
+                <p className="text-xs text-muted-foreground">Kick the drawer plugged into the printer after a cash sale</p>
+              </div>
+              <Switch id="openDrawer" checked={config.openDrawer} onCheckedChange={(openDrawer) => update({ openDrawer })} />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit">Save Printer</Button>
+            {direct && (
+              <Button type="button" variant="outline" className="gap-2" onClick={handleTestPrint} disabled={testing}>
+                {testing && <Loader2 className="h-4 w-4 animate-spin" />}
+                Test Print
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
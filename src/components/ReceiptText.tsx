@@ -0,0 +1,33 @@
+import { parseReceiptText } from "@/lib/receiptText";
+
+interface ReceiptTextProps {
+  // Formatted text from settings, see lib/receiptText
+  text: string;
+  className?: string;
+  // Size class for lines marked as large
+  largeClassName?: string;
+}
+
+export const ReceiptText = ({ text, className, largeClassName = "text-sm" }: ReceiptTextProps) => {
+  const lines = parseReceiptText(text);
+  if (lines.length === 0) return null;
+
+  return (
+    <div className={className}>
+      {lines.map((line, index) => (
+        <p key={index} className={line.large ? `${largeClassName} font-bold` : undefined}>
+          {line.segments.length === 0
+            ? " "
+            : line.segments.map((segment, segmentIndex) => (
+                <span
+                  key={segmentIndex}
+                  className={[segment.bold && "font-bold", segment.underline && "underline"].filter(Boolean).join(" ") || undefined}
+                >
+                  {segment.text}
+                </span>
+              ))}
+        </p>
+      ))}
+    </div>
+  );
+};
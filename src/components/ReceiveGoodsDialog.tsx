@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { api, PurchaseOrder, PurchaseOrderReceipt } from "@/lib/api";
+import { outstandingQuantity } from "@/lib/purchasing";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface ReceiveGoodsDialogProps {
+  order: PurchaseOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onReceived: (order: PurchaseOrder) => void;
+}
+
+export const ReceiveGoodsDialog = ({ order, onOpenChange, onReceived }: ReceiveGoodsDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState("");
+  const [receipts, setReceipts] = useState<PurchaseOrderReceipt[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (order) {
+      setQuantities({});
+      setReason("");
+      setReceipts([]);
+      // Earlier deliveries are only loaded with the single order
+      api.getPurchaseOrder(order.id)
+        .then((detail) => setReceipts(detail.receipts ?? []))
+        .catch(() => setReceipts([]));
+    }
+  }, [order]);
+
+  const items = order?.items ?? [];
+  const hasSelection = Object.values(quantities).some((quantity) => quantity > 0);
+
+  const setQuantity = (index: number, value: number) => {
+    setQuantities({ ...quantities, [index]: Math.max(0, Math.min(outstandingQuantity(items[index]), value)) });
+  };
+
+  const receiveAll = () => {
+    const all: Record<number, number> = {};
+    items.forEach((item, index) => { all[index] = outstandingQuantity(item); });
+    setQuantities(all);
+  };
+
+  const handleSubmit = async () => {
+    if (!order || !hasSelection) return;
+    setSaving(true);
+    try {
+      const updated = await api.receivePurchaseOrder(order.id, {
+        lines: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([index, quantity]) => ({ line_index: Number(index), quantity })),
+        reason: reason.trim() || undefined,
+      });
+      toast.success(updated.status === 'received' ? `${order.po_number} fully received` : `Delivery booked against ${order.po_number}`);
+      onReceived(updated);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to receive goods");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            {order?.po_number} · {order?.supplier_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button type="button" variant="outline" size="sm" onClick={receiveAll}>
+            Receive everything outstanding
+          </Button>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-center">Ordered</TableHead>
+              <TableHead className="text-center">Received</TableHead>
+              <TableHead className="w-[110px]">Now</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell className="font-medium">{item.name}</TableCell>
+                <TableCell className="text-center">{item.quantity}</TableCell>
+                <TableCell className="text-center text-muted-foreground">{item.received_quantity}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={outstandingQuantity(item)}
+                    value={quantities[index] || ""}
+                    onChange={(e) => setQuantity(index, parseInt(e.target.value) || 0)}
+                    disabled={outstandingQuantity(item) <= 0}
+                    placeholder="0"
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="receipt-reason">Delivery note (optional)</Label>
+          <Input
+            id="receipt-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Delivery note DN-1042"
+            maxLength={255}
+          />
+        </div>
+
+        {receipts.length > 0 && (
+          <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+            <p className="font-medium">Earlier deliveries</p>
+            {receipts.map((receipt) => (
+              <div key={receipt.id} className="flex justify-between gap-4 text-muted-foreground">
+                <span>{format(new Date(receipt.created_at), 'dd/MM/yyyy HH:mm')} · {receipt.product_name}</span>
+                <span>+{receipt.quantity}{receipt.reason ? ` · ${receipt.reason}` : ''}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!hasSelection || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Book Into Stock
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { api, InvoicePaymentResult, PaymentMethod } from "@/lib/api";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { roundMoney } from "@/lib/discounts";
+import { toast } from "sonner";
+
+interface RecordPaymentDialogProps {
+  invoice: { id: string; invoice_number: string; customer_name: string; balance_due: number } | null;
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: (result: InvoicePaymentResult) => void;
+}
+
+const METHODS: PaymentMethod[] = ["cash", "card", "transfer", "mobile_money"];
+
+export const RecordPaymentDialog = ({ invoice, currency, onOpenChange, onRecorded }: RecordPaymentDialogProps) => {
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (invoice) {
+      setMethod("cash");
+      setAmount(invoice.balance_due.toFixed(2));
+      setReference("");
+    }
+  }, [invoice]);
+
+  const balance = invoice?.balance_due ?? 0;
+  const entered = parseFloat(amount) || 0;
+  // Cash beyond the balance is handed back as change; other methods must not exceed it
+  const applied = method === "cash" ? Math.min(entered, balance) : entered;
+  const change = method === "cash" ? Math.max(0, roundMoney(entered - balance)) : 0;
+  const isValid = entered > 0 && (method === "cash" || entered <= balance + 0.005);
+
+  const handleSave = async () => {
+    if (!invoice || !isValid) return;
+    setSaving(true);
+    try {
+      const result = await api.recordPayment(invoice.id, {
+        method,
+        amount: roundMoney(applied),
+        tendered: method === "cash" ? roundMoney(entered) : undefined,
+        reference: reference.trim() || undefined,
+      });
+      toast.success(
+        result.payment_status === "paid"
+          ? "Invoice fully paid"
+          : `Payment recorded. ${currency}${result.balance_due.toFixed(2)} still owed`
+      );
+      onRecorded(result);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to record payment");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            {invoice?.invoice_number} · {invoice?.customer_name} · {currency}{balance.toFixed(2)} owed
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METHODS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {PAYMENT_METHOD_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{method === "cash" ? `Tendered (${currency})` : `Amount (${currency})`}</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          {method !== "cash" && (
+            <div className="space-y-2 sm:col-span-2">
+              <Label>Reference (optional)</Label>
+              <Input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Terminal or transfer ref"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Applied to invoice:</span>
+            <span>{currency}{applied.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Balance after:</span>
+            <span>{currency}{Math.max(0, roundMoney(balance - applied)).toFixed(2)}</span>
+          </div>
+          {change > 0 && (
+            <div className="flex justify-between font-medium">
+              <span>Change:</span>
+              <span>{currency}{change.toFixed(2)}</span>
+            </div>
+          )}
+          {!isValid && entered > 0 && (
+            <p className="text-xs text-destructive">Payment is more than the balance due.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Record Payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2 } from "lucide-react";
+import { api, ReorderReport as ReorderReportData } from "@/lib/api";
+import { downloadCsv } from "@/utils/downloadCsv";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const PERIODS = [14, 30, 60, 90];
+
+export const ReorderReport = () => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<ReorderReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    fetchReport(days);
+  }, [days]);
+
+  const fetchReport = async (period: number) => {
+    setLoading(true);
+    try {
+      setReport(await api.getReorderReport(period));
+    } catch (error) {
+      toast.error('Failed to load reorder report');
+    }
+    setLoading(false);
+  };
+
+  const rows = (report?.products ?? []).filter((row) => showAll || row.needs_reorder);
+  const toReorder = (report?.products ?? []).filter((row) => row.needs_reorder).length;
+
+  const handleExport = () => {
+    downloadCsv(
+      `reorder_report_${format(new Date(), "yyyyMMdd")}.csv`,
+      ["Product", "Category", "In Stock", "Reorder At", "On Order", `Sold (${days} days)`, "Per Day", "Days Left", "Suggested Order"],
+      rows.map((row) => [
+        row.name,
+        row.category,
+        row.stock,
+        row.reorder_point,
+        row.on_order,
+        row.units_sold,
+        row.daily_sales,
+        row.days_left ?? "",
+        row.suggested_quantity,
+      ])
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+        <CardTitle>Reorder Suggestions ({toReorder})</CardTitle>
+        <div className="flex flex-wrap gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map((period) => (
+                <SelectItem key={period} value={String(period)}>Sales over {period} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Only to reorder' : 'All products'}
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={handleExport} disabled={rows.length === 0}>
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Products at or below their reorder point once open orders arrive. Suggested quantities cover
+          the next {days} days at the recent sales rate, and are never below the product's usual order quantity.
+        </p>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nothing needs reordering right now</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-center">In Stock</TableHead>
+                <TableHead className="text-center">Reorder At</TableHead>
+                <TableHead className="text-center">On Order</TableHead>
+                <TableHead className="text-center">Per Day</TableHead>
+                <TableHead className="text-center">Days Left</TableHead>
+                <TableHead className="text-right">Suggested</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.product_id}>
+                  <TableCell>
+                    <Link to={`/products/${row.product_id}`} className="font-medium hover:underline">{row.name}</Link>
+                    <p className="text-xs text-muted-foreground">{row.category}</p>
+                  </TableCell>
+                  <TableCell className={`text-center ${row.stock <= 0 ? 'text-destructive font-medium' : ''}`}>{row.stock}</TableCell>
+                  <TableCell className="text-center text-muted-foreground">{row.reorder_point}</TableCell>
+                  <TableCell className="text-center">{row.on_order || '-'}</TableCell>
+                  <TableCell className="text-center">{row.daily_sales}</TableCell>
+                  <TableCell className="text-center">
+                    {row.days_left === null ? (
+                      <span className="text-muted-foreground">No sales</span>
+                    ) : row.days_left <= 7 ? (
+                      <Badge variant="secondary" className="bg-destructive/20 text-destructive">{row.days_left}</Badge>
+                    ) : (
+                      row.days_left
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">{row.suggested_quantity || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
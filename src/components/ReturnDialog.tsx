@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { api, CreditNote, InvoiceProduct, PaymentMethod } from "@/lib/api";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { estimateReturnValue, returnedQuantities } from "@/lib/creditNotes";
+import { roundMoney } from "@/lib/discounts";
+import { toast } from "sonner";
+
+interface ReturnDialogProps {
+  invoice: {
+    id: string;
+    invoice_number: string;
+    customer_name: string;
+    products: InvoiceProduct[];
+    prices_include_tax: boolean;
+    balance_due: number;
+  } | null;
+  creditNotes: CreditNote[];
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onReturned: (creditNote: CreditNote) => void;
+}
+
+const METHODS: PaymentMethod[] = ["cash", "card", "transfer", "mobile_money"];
+
+export const ReturnDialog = ({ invoice, creditNotes, currency, onOpenChange, onReturned }: ReturnDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(true);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>("cash");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (invoice) {
+      setQuantities({});
+      setReason("");
+      setRestock(true);
+      setRefundMethod("cash");
+    }
+  }, [invoice]);
+
+  const returned = returnedQuantities(creditNotes);
+  const lines = invoice?.products ?? [];
+  const remaining = (index: number) => lines[index].quantity - (returned[index] || 0);
+
+  const estimate = roundMoney(
+    lines.reduce(
+      (sum, line, index) => sum + estimateReturnValue(line, quantities[index] || 0, !!invoice?.prices_include_tax),
+      0
+    )
+  );
+  const appliedToBalance = Math.min(invoice?.balance_due ?? 0, estimate);
+  const refundDue = roundMoney(estimate - appliedToBalance);
+  const hasSelection = Object.values(quantities).some((quantity) => quantity > 0);
+  const nothingLeft = lines.every((_, index) => remaining(index) <= 0);
+
+  const setQuantity = (index: number, value: number) => {
+    setQuantities({ ...quantities, [index]: Math.max(0, Math.min(remaining(index), value)) });
+  };
+
+  const returnAll = () => {
+    const all: Record<number, number> = {};
+    lines.forEach((_, index) => { all[index] = remaining(index); });
+    setQuantities(all);
+  };
+
+  const handleSubmit = async () => {
+    if (!invoice || !hasSelection) return;
+    setSaving(true);
+    try {
+      const creditNote = await api.createCreditNote({
+        invoice_id: invoice.id,
+        lines: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([index, quantity]) => ({ line_index: Number(index), quantity })),
+        reason: reason.trim() || undefined,
+        refund_method: refundMethod,
+        restock,
+      });
+      toast.success(`Credit note ${creditNote.credit_note_number} issued`);
+      onReturned(creditNote);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to process return");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            {invoice?.invoice_number} · {invoice?.customer_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {nothingLeft ? (
+          <p className="text-sm text-muted-foreground py-4">Every item on this invoice has already been returned.</p>
+        ) : (
+          <>
+            <div className="flex justify-end">
+              <Button type="button" variant="outline" size="sm" onClick={returnAll}>
+                Return everything
+              </Button>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-center">Sold</TableHead>
+                  <TableHead className="text-center">Returned</TableHead>
+                  <TableHead className="w-[110px]">Return</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="font-medium">{line.name}</TableCell>
+                    <TableCell className="text-center">{line.quantity}</TableCell>
+                    <TableCell className="text-center text-muted-foreground">{returned[index] || 0}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={remaining(index)}
+                        value={quantities[index] || ""}
+                        onChange={(e) => setQuantity(index, parseInt(e.target.value) || 0)}
+                        disabled={remaining(index) <= 0}
+                        placeholder="0"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Reason (optional)</Label>
+                <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Faulty item" />
+              </div>
+              {refundDue > 0 && (
+                <div className="space-y-2">
+                  <Label>Refund Method</Label>
+                  <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox id="restock" checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+              <Label htmlFor="restock" className="font-normal">Put returned items back in stock</Label>
+            </div>
+
+            <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Return value (approx.):</span>
+                <span>{currency}{estimate.toFixed(2)}</span>
+              </div>
+              {appliedToBalance > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taken off balance owed:</span>
+                  <span>{currency}{appliedToBalance.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>To refund:</span>
+                <span>{currency}{refundDue.toFixed(2)}</span>
+              </div>
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!hasSelection || saving || nothingLeft}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Issue Credit Note
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Mail, MessageCircle, Share2 } from "lucide-react";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Customer, ReceiptShare } from "@/lib/api";
+import {
+  emailShareUrl,
+  receiptShareMessage,
+  receiptShareSubject,
+  whatsAppNumber,
+  whatsAppShareUrl,
+} from "@/lib/receiptSharing";
+import { Invoice } from "@/types/invoice";
+import { downloadInvoicePdf, invoicePdfFile } from "@/utils/invoicePdf";
+import { canShareFiles, shareFile } from "@/utils/shareReceipt";
+import { toast } from "sonner";
+
+interface ShareReceiptMenuProps {
+  // Must have a recordId, so the send can be logged
+  invoice: Invoice;
+  customer?: Customer | null;
+  onShared?: (shares: ReceiptShare[]) => void;
+}
+
+/**
+ * Send the customer a PDF copy of their invoice. Email and WhatsApp links cannot carry a file,
+ * so the PDF is downloaded for the cashier to attach; the share sheet sends it directly.
+ */
+export const ShareReceiptMenu = ({ invoice, customer, onShared }: ShareReceiptMenuProps) => {
+  const { settings } = useSettings();
+  const deviceShare = useMemo(canShareFiles, []);
+  const message = receiptShareMessage(invoice, settings.currency_symbol);
+  // Built when the menu opens: the share sheet must open straight from the click, with no wait first
+  const [pdfFile, setPdfFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    setPdfFile(null);
+  }, [invoice, customer]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || !deviceShare || pdfFile) return;
+    invoicePdfFile(invoice, settings, customer)
+      .then(setPdfFile)
+      .catch((error) => console.error("Failed to build receipt PDF:", error));
+  };
+
+  // Resolves to whether the PDF was downloaded
+  const downloadPdf = () =>
+    downloadInvoicePdf(invoice, settings, customer).then(
+      () => true,
+      (error) => {
+        console.error("Failed to build receipt PDF:", error);
+        toast.error("Could not create the PDF");
+        return false;
+      }
+    );
+
+  const logShare = async (share: Pick<ReceiptShare, "channel" | "recipient">) => {
+    if (!invoice.recordId) return;
+    try {
+      const result = await api.logInvoiceShare(invoice.recordId, share);
+      onShared?.(result.shares);
+    } catch (error) {
+      console.error("Failed to log receipt share:", error);
+      toast.warning("The receipt was shared, but it could not be logged on the invoice");
+    }
+  };
+
+  const handleEmail = async () => {
+    const email = customer?.email?.trim() || null;
+    // Navigating to the mail app before the download starts can cancel it
+    if (!(await downloadPdf())) return;
+    window.location.href = emailShareUrl(email, invoice, message);
+    toast.info(email ? `PDF downloaded - attach it to the email to ${email}` : "PDF downloaded - attach it to the email");
+    logShare({ channel: "email", recipient: email });
+  };
+
+  const handleWhatsApp = async () => {
+    const number = whatsAppNumber(customer?.phone);
+    if (!window.open(whatsAppShareUrl(number, message), "_blank")) {
+      toast.error("Unable to open WhatsApp. Please allow popups for this site.");
+      return;
+    }
+    // The chat is already open with the message, so the send is logged even without the PDF
+    if (await downloadPdf()) {
+      toast.info(
+        number
+          ? "PDF downloaded - attach it to the WhatsApp chat"
+          : "PDF downloaded - choose the customer in WhatsApp and attach it"
+      );
+    }
+    logShare({ channel: "whatsapp", recipient: number && `+${number}` });
+  };
+
+  const handleDeviceShare = async () => {
+    if (!pdfFile) return;
+    try {
+      const shared = await shareFile(pdfFile, receiptShareSubject(invoice), message);
+      if (shared) logShare({ channel: "device", recipient: null });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not share the receipt");
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={handleEmail} className="gap-2">
+          <Mail className="h-4 w-4" />
+          Email{customer?.email ? ` ${customer.email}` : ""}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleWhatsApp} className="gap-2">
+          <MessageCircle className="h-4 w-4" />
+          WhatsApp{customer?.phone ? ` ${customer.phone}` : ""}
+        </DropdownMenuItem>
+        {deviceShare && (
+          <DropdownMenuItem onClick={handleDeviceShare} disabled={!pdfFile} className="gap-2">
+            <Share2 className="h-4 w-4" />
+            Share PDF...
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { InsufficientStockError } from "@/lib/api";
+
+interface StockOverrideDialogProps {
+  shortage: InsufficientStockError | null;
+  error?: string;
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOverride: (pin: string) => void;
+}
+
+export const StockOverrideDialog = ({ shortage, error, saving, onOpenChange, onOverride }: StockOverrideDialogProps) => {
+  const [pin, setPin] = useState("");
+
+  useEffect(() => {
+    setPin("");
+  }, [shortage, error]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin) onOverride(pin);
+  };
+
+  return (
+    <Dialog open={!!shortage} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Not Enough Stock</DialogTitle>
+          <DialogDescription>
+            {shortage?.override_allowed
+              ? "A manager can enter the override PIN to complete the sale anyway."
+              : "Reduce these quantities to what is on hand to complete the sale."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg bg-muted/50 p-3 space-y-1 text-sm">
+          {shortage?.lines.map((line) => (
+            <div key={line.product_id} className="flex justify-between gap-4">
+              <span>{line.name}</span>
+              <span className="text-muted-foreground">
+                {line.requested} wanted · {line.available} in stock
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {shortage?.override_allowed && (
+          <form id="stock-override-form" onSubmit={handleSubmit} className="space-y-2">
+            <Label htmlFor="override-pin">Manager PIN</Label>
+            <Input
+              id="override-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              autoFocus
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {shortage?.override_allowed ? "Cancel" : "Back to Sale"}
+          </Button>
+          {shortage?.override_allowed && (
+            <Button type="submit" form="stock-override-form" disabled={!pin || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Override and Complete
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { api, Product, VariantAttribute } from "@/lib/api";
+import { variantName } from "@/lib/variants";
+import { toast } from "sonner";
+
+// Source value for creating a brand new variant rather than attaching an existing product
+const NEW_VARIANT = "new";
+
+interface VariantDialogProps {
+  open: boolean;
+  parent: Product;
+  // The variant being edited, or null to add one
+  variant: Product | null;
+  // Attribute names already used by the parent's variants, offered for a new variant
+  attributeNames: string[];
+  // Standalone products that could be attached to the parent as a variant
+  candidates: Product[];
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export const VariantDialog = ({
+  open,
+  parent,
+  variant,
+  attributeNames,
+  candidates,
+  currency,
+  onOpenChange,
+  onSaved,
+}: VariantDialogProps) => {
+  const [source, setSource] = useState(NEW_VARIANT);
+  const [attributes, setAttributes] = useState<VariantAttribute[]>([]);
+  const [price, setPrice] = useState("");
+  const [costPrice, setCostPrice] = useState("");
+  const [sku, setSku] = useState("");
+  const [barcode, setBarcode] = useState("");
+  const [stock, setStock] = useState("0");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSource(NEW_VARIANT);
+    setAttributes(
+      variant?.variant_attributes ??
+        (attributeNames.length > 0 ? attributeNames : [""]).map((name) => ({ name, value: "" }))
+    );
+    setPrice((variant ?? parent).price.toString());
+    setCostPrice((variant ?? parent).cost_price?.toString() ?? "");
+    setSku(variant?.sku ?? "");
+    setBarcode(variant?.barcode ?? "");
+    setStock(variant?.stock.toString() ?? "0");
+  }, [open, variant, parent, attributeNames]);
+
+  const attaching = !variant && source !== NEW_VARIANT;
+  const filledAttributes = attributes
+    .map((attribute) => ({ name: attribute.name.trim(), value: attribute.value.trim() }))
+    .filter((attribute) => attribute.value);
+
+  const updateAttribute = (index: number, field: keyof VariantAttribute, value: string) => {
+    setAttributes(attributes.map((attribute, i) => (i === index ? { ...attribute, [field]: value } : attribute)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filledAttributes.length === 0) {
+      toast.error("Give the variant at least one attribute value");
+      return;
+    }
+    if (!attaching && !price) {
+      toast.error("Price is required");
+      return;
+    }
+
+    const details = {
+      name: variantName(parent.name, filledAttributes),
+      variant_attributes: filledAttributes,
+      sku: sku.trim() || null,
+      barcode: barcode.trim() || null,
+      price: parseFloat(price),
+      cost_price: costPrice ? parseFloat(costPrice) : null,
+      stock: parseInt(stock) || 0,
+    };
+
+    setSaving(true);
+    try {
+      if (variant) {
+        await api.updateProduct(variant.id, details);
+        toast.success("Variant updated");
+      } else if (attaching) {
+        await api.updateProduct(source, { parent_id: parent.id, variant_attributes: filledAttributes });
+        toast.success(`Product moved under ${parent.name}`);
+      } else {
+        await api.createProduct({
+          ...details,
+          parent_id: parent.id,
+          reorder_point: parent.reorder_point,
+          reorder_quantity: parent.reorder_quantity,
+          category: parent.category,
+          tax_rate_id: parent.tax_rate_id,
+        });
+        toast.success("Variant added");
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save variant");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{variant ? "Edit Variant" : "Add Variant"}</DialogTitle>
+          <DialogDescription>
+            {filledAttributes.length > 0
+              ? `Sold as "${variantName(parent.name, filledAttributes)}"`
+              : `A size, colour or capacity of ${parent.name}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="variant-form" onSubmit={handleSubmit} className="space-y-4">
+          {!variant && candidates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="variant-source">Product</Label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger id="variant-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border border-border z-50">
+                  <SelectItem value={NEW_VARIANT}>New variant</SelectItem>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      Existing: {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {attaching && (
+                <p className="text-xs text-muted-foreground">
+                  Keeps its price, stock, SKU and sales history, and is renamed after {parent.name}.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Attributes</Label>
+            {attributes.map((attribute, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_40px] gap-2">
+                <Input
+                  value={attribute.name}
+                  onChange={(e) => updateAttribute(index, "name", e.target.value)}
+                  placeholder="e.g. Speed"
+                  maxLength={50}
+                />
+                <Input
+                  value={attribute.value}
+                  onChange={(e) => updateAttribute(index, "value", e.target.value)}
+                  placeholder="e.g. 300Mbps"
+                  maxLength={100}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setAttributes(attributes.filter((_, i) => i !== index))}
+                  disabled={attributes.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setAttributes([...attributes, { name: "", value: "" }])}
+            >
+              <Plus className="h-4 w-4" />
+              Add Attribute
+            </Button>
+          </div>
+
+          {!attaching && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="variant-price">Price ({currency})</Label>
+                  <Input
+                    id="variant-price"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder="0.00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="variant-cost">Cost ({currency})</Label>
+                  <Input
+                    id="variant-cost"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={costPrice}
+                    onChange={(e) => setCostPrice(e.target.value)}
+                    placeholder="Unknown"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="variant-sku">SKU (optional)</Label>
+                  <Input id="variant-sku" value={sku} onChange={(e) => setSku(e.target.value)} maxLength={64} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="variant-barcode">Barcode (optional)</Label>
+                  <Input
+                    id="variant-barcode"
+                    value={barcode}
+                    onChange={(e) => setBarcode(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+                    placeholder="Scan or type"
+                    maxLength={64}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="variant-stock">Stock Qty</Label>
+                <Input
+                  id="variant-stock"
+                  type="number"
+                  min="0"
+                  value={stock}
+                  onChange={(e) => setStock(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="variant-form" disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {variant ? "Save Variant" : "Add Variant"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { api, InvoiceVoidResult } from "@/lib/api";
+import { toast } from "sonner";
+
+interface VoidInvoiceDialogProps {
+  invoice: { id: string; invoice_number: string; customer_name: string; total: number } | null;
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onVoided: (result: InvoiceVoidResult) => void;
+}
+
+export const VoidInvoiceDialog = ({ invoice, currency, onOpenChange, onVoided }: VoidInvoiceDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (invoice) setReason("");
+  }, [invoice]);
+
+  const handleVoid = async () => {
+    if (!invoice || !reason.trim()) return;
+    setSaving(true);
+    try {
+      const result = await api.voidInvoice(invoice.id, reason.trim());
+      toast.success(`Invoice ${invoice.invoice_number} voided`);
+      onVoided(result);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to void invoice");
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={!!invoice} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Void Invoice</DialogTitle>
+          <DialogDescription>
+            {invoice?.invoice_number} · {invoice?.customer_name} · {currency}{invoice?.total.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          The invoice stays in history marked as void, its items go back into stock and it no longer
+          counts towards sales or tax.
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="void-reason">Reason</Label>
+          <Textarea
+            id="void-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Rung up twice, customer cancelled"
+            maxLength={255}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleVoid} disabled={!reason.trim() || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Void Invoice
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
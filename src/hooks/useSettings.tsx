@@ -0,0 +1,97 @@
+import { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
+import { api, CompanySettings, CompanySettingsInput } from '@/lib/api';
+import { useAuth } from '@/hooks/useAuth';
+
+const DEFAULT_SETTINGS: CompanySettings = {
+  company_name: '',
+  company_address: '',
+  company_phone: '',
+  company_email: '',
+  currency_symbol: '₦',
+  tax_rates: [
+    { id: 'vat', name: 'VAT', rate: 7.5, tax_class: 'standard' },
+    { id: 'zero', name: 'Zero-rated', rate: 0, tax_class: 'zero_rated' },
+    { id: 'exempt', name: 'Exempt', rate: 0, tax_class: 'exempt' },
+  ],
+  default_tax_rate_id: 'vat',
+  category_tax_rates: {},
+  prices_include_tax: false,
+  invoice_prefix: 'INV-',
+  invoice_number_padding: 6,
+  invoice_number_include_year: true,
+  invoice_number_yearly_reset: true,
+  stock_policy: 'allow_negative',
+  stock_override_pin_set: false,
+  receipt_show_bundle_components: true,
+  receipt_template: '80mm',
+  receipt_logo: null,
+  receipt_header: '',
+  receipt_footer: '**Thank you for your patronage!**\nPlease keep this receipt for your records',
+  receipt_return_policy: '',
+};
+
+interface SettingsContextType {
+  settings: CompanySettings;
+  loading: boolean;
+  updateSettings: (data: CompanySettingsInput) => Promise<{ error: Error | null }>;
+  refreshSettings: () => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | null>(null);
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<CompanySettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const refreshSettings = useCallback(async () => {
+    try {
+      const data = await api.getSettings();
+      setSettings({ ...DEFAULT_SETTINGS, ...data });
+    } catch (error) {
+      console.error('Failed to fetch settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      refreshSettings();
+    } else {
+      setSettings(DEFAULT_SETTINGS);
+      setLoading(false);
+    }
+  }, [user, refreshSettings]);
+
+  const updateSettings = async (data: CompanySettingsInput) => {
+    try {
+      const updated = await api.updateSettings(data);
+      setSettings({ ...DEFAULT_SETTINGS, ...updated });
+      return { error: null };
+    } catch (error) {
+      return { error: error as Error };
+    }
+  };
+
+  const value: SettingsContextType = {
+    settings,
+    loading,
+    updateSettings,
+    refreshSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings(): SettingsContextType {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within SettingsProvider');
+  }
+  return context;
+}
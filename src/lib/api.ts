@@ -6,9 +6,12 @@
 import { API_URL } from './config';
 
 // Types
+export type UserRole = 'admin' | 'cashier';
+
 export interface User {
   id: string;
   email: string;
+  role?: UserRole;
   created_at?: string;
 }
 
@@ -20,17 +23,328 @@ export interface AuthResponse {
 export interface Product {
   id: string;
   name: string;
+  sku: string | null;
+  barcode: string | null;
   price: number;
+  // What one unit costs to buy in; null when unknown
+  cost_price: number | null;
   stock: number;
+  // Low at or below reorder_point; reorder_quantity is the usual order size
+  reorder_point: number;
+  reorder_quantity: number;
   category: string;
+  tax_rate_id?: string | null;
+  // Variants point at their parent; a parent with variants is not sold itself
+  parent_id: string | null;
+  variant_attributes: VariantAttribute[] | null;
+  variant_count: number;
+  // A bundle is sold as these products and holds no stock of its own; empty for other products
+  components: BundleComponent[];
+  created_at?: string;
+}
+
+// Products refer to their category by name; renaming a category renames it everywhere
+export interface Category {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  color: string | null;
+  icon: CategoryIcon | null;
+  product_count: number;
   created_at?: string;
 }
 
+export type CategoryIcon = 'wifi' | 'cpu' | 'wrench' | 'package' | 'cable' | 'smartphone' | 'monitor' | 'printer' | 'shopping-bag' | 'tag';
+
+export interface CategoryInput {
+  name: string;
+  parent_id?: string | null;
+  color?: string | null;
+  icon?: CategoryIcon | null;
+}
+
+export interface VariantAttribute {
+  name: string;
+  value: string;
+}
+
+// quantity is how many of the product go into one bundle
+export interface BundleComponent {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  stock: number;
+  cost_price: number | null;
+}
+
 export interface ProductInput {
   name: string;
+  sku?: string | null;
+  barcode?: string | null;
   price: number;
+  cost_price?: number | null;
   stock: number;
+  reorder_point?: number;
+  reorder_quantity?: number;
   category: string;
+  tax_rate_id?: string | null;
+  // The server names variants after their parent and attribute values
+  parent_id?: string | null;
+  variant_attributes?: VariantAttribute[] | null;
+  // Replaces a bundle's components; an empty list makes it an ordinary product
+  components?: { product_id: string; quantity: number }[];
+  // Recorded on the ledger when an edit changes the stock level
+  stock_reason?: string;
+}
+
+export type ProductImportField = 'name' | 'sku' | 'barcode' | 'price' | 'cost_price' | 'stock' | 'category' | 'reorder_point' | 'reorder_quantity';
+
+// Cells as read from the file; blank cells leave an existing product's value unchanged
+export type ProductImportRow = { row: number } & Partial<Record<ProductImportField, string>>;
+
+export interface ProductImportInput {
+  match_by: 'name' | 'sku';
+  rows: ProductImportRow[];
+  // Validate and report without writing anything
+  dry_run?: boolean;
+}
+
+export interface ProductImportResult {
+  created: number;
+  updated: number;
+  failed: number;
+  applied: boolean;
+  rows: Array<{
+    row: number;
+    action: 'create' | 'update';
+    name: string;
+    product_id: string | null;
+    errors: string[];
+  }>;
+}
+
+export type StockMovementType = 'opening' | 'sale' | 'return' | 'void' | 'adjustment' | 'receipt' | 'write_off';
+
+// Quantity is signed: positive adds stock, negative removes it
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  type: StockMovementType;
+  quantity: number;
+  balance_after: number;
+  reason: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  reference_number: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+// What happens when a sale asks for more than is on hand
+export type StockPolicy = 'block' | 'override' | 'allow_negative';
+
+// Paper the receipt is laid out for: a thermal roll width, or an A4 tax invoice
+export type ReceiptTemplate = '58mm' | '80mm' | 'a4';
+
+export interface StockShortage {
+  product_id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+export interface StockMovementInput {
+  product_id: string;
+  type: 'adjustment' | 'receipt' | 'write_off';
+  quantity: number;
+  reason?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  invoice_count: number;
+  total_spent: number;
+  balance: number;
+  last_purchase_at: string | null;
+  created_at?: string;
+}
+
+export interface CustomerInput {
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  order_count: number;
+  open_order_count: number;
+  total_received: number;
+  created_at?: string;
+}
+
+export interface SupplierInput {
+  name: string;
+  contact_name?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export type PurchaseOrderStatus = 'ordered' | 'partial' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  product_id: string;
+  name: string;
+  quantity: number;
+  unit_cost: number;
+  received_quantity: number;
+}
+
+// A stock receipt booked against a purchase order
+export interface PurchaseOrderReceipt {
+  id: string;
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  reason: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  items: PurchaseOrderItem[];
+  total: number;
+  received_total: number;
+  notes: string | null;
+  expected_at: string | null;
+  created_by: string;
+  created_at: string;
+  received_at: string | null;
+  // Only included when fetching a single order
+  receipts?: PurchaseOrderReceipt[];
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string;
+  items: { product_id: string; quantity: number; unit_cost: number }[];
+  notes?: string;
+  expected_at?: string;
+}
+
+export interface GoodsReceiptInput {
+  lines: { line_index: number; quantity: number }[];
+  reason?: string;
+}
+
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+
+// One counter's running count of a product
+export interface StocktakeCount {
+  counter: string;
+  quantity: number;
+  updated_at: string;
+}
+
+// A product as it stood when the stocktake started, with what has been counted since
+export interface StocktakeItem {
+  product_id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  category: string | null;
+  system_quantity: number;
+  cost_price: number | null;
+  counts: StocktakeCount[];
+  // Sum of every counter's count; null until someone counts the product
+  counted_quantity: number | null;
+}
+
+export interface Stocktake {
+  id: string;
+  stocktake_number: string;
+  status: StocktakeStatus;
+  // Category the count was limited to, or null for every product
+  category: string | null;
+  notes: string | null;
+  item_count: number;
+  counted_count: number;
+  // Net variance of the counted items at cost price
+  variance_value: number;
+  created_by: string;
+  created_at: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  // Only included when fetching a single stocktake
+  items?: StocktakeItem[];
+}
+
+export interface StocktakeInput {
+  category_id?: string | null;
+  notes?: string;
+}
+
+export interface StocktakeCountInput {
+  product_id: string;
+  counter: string;
+  // "add" adds to the counter's running count (e.g. one scan), "set" replaces it; null clears it
+  mode: 'add' | 'set';
+  quantity: number | null;
+}
+
+export type TaxClass = 'standard' | 'zero_rated' | 'exempt';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
+  tax_class: TaxClass;
+}
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface Discount {
+  type: DiscountType;
+  value: number;
+  reason?: string;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer' | 'mobile_money';
+
+export interface Payment {
+  method: PaymentMethod;
+  // Amount applied to the invoice; for cash, what the customer handed over is kept in tendered
+  amount: number;
+  tendered?: number;
+  reference?: string;
+  paid_at?: string;
+}
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+export interface InvoicePaymentResult {
+  id: string;
+  payments: Payment[];
+  amount_paid: number;
+  balance_due: number;
+  payment_status: PaymentStatus;
+  change_due: number;
 }
 
 export interface InvoiceProduct {
@@ -38,6 +352,29 @@ export interface InvoiceProduct {
   name: string;
   price: number;
   quantity: number;
+  // Line discount as entered, the amount it came to, and this line's share of any invoice discount
+  discount?: Discount | null;
+  discount_amount?: number;
+  invoice_discount_share?: number;
+  // Tax applied to the line at the time of sale
+  tax_rate_id?: string;
+  tax_rate_name?: string;
+  tax_rate?: number;
+  tax_class?: TaxClass;
+  tax_amount?: number;
+  // Cost and category captured by the server when the sale is saved
+  unit_cost?: number | null;
+  category?: string;
+  // What a bundle was made of when sold, per bundle; its stock moves come from these
+  components?: InvoiceProductComponent[];
+  // Position of the line on the original invoice (credit note lines only)
+  line_index?: number;
+}
+
+export interface InvoiceProductComponent {
+  id: string;
+  name: string;
+  quantity: number;
 }
 
 export interface Invoice {
@@ -47,26 +384,176 @@ export interface Invoice {
   company_name: string;
   company_address?: string;
   company_phone?: string;
+  company_email?: string;
+  customer_id?: string | null;
   customer_name: string;
   issuer_name: string;
   subtotal: number;
   tax: number;
   total: number;
+  discount?: Discount | null;
+  discount_total?: number;
+  prices_include_tax?: boolean;
+  payments?: Payment[];
+  amount_paid?: number;
+  change_due?: number;
+  payment_status?: PaymentStatus;
+  balance_due?: number;
+  returned_total?: number;
+  voided_at?: string | null;
+  voided_by?: string | null;
+  void_reason?: string | null;
   products: InvoiceProduct[];
+  // Signature printed in the receipt's QR code; null on invoices from before receipts were signed
+  verification_hash?: string | null;
+  shares?: ReceiptShare[];
   created_at: string;
 }
 
-export interface InvoiceInput {
+// How a receipt was sent: a mailto: draft, a WhatsApp link, or the device's share sheet
+export type ReceiptShareChannel = 'email' | 'whatsapp' | 'device';
+
+export interface ReceiptShare {
+  channel: ReceiptShareChannel;
+  // The email address or phone number it was addressed to, when the customer had one
+  recipient: string | null;
+  shared_by: string;
+  shared_at: string;
+}
+
+export interface InvoiceShareResult {
+  id: string;
+  shares: ReceiptShare[];
+}
+
+export interface InvoiceCreateResult {
+  id: string;
   invoice_number: string;
+  created_at: string;
+  verification_hash: string;
+}
+
+// What the public verification check found for a scanned receipt
+export type ReceiptVerificationStatus = 'valid' | 'voided' | 'altered' | 'not_found';
+
+export interface ReceiptVerification {
+  status: ReceiptVerificationStatus;
+  invoice_number: string;
+  // The rest come from the records, and are missing when nothing matched
+  company_name?: string;
+  created_at?: string;
+  total?: number;
+  currency_symbol?: string;
+  voided_at?: string | null;
+}
+
+export interface InvoiceVoidResult {
+  id: string;
+  voided_at: string;
+  voided_by: string;
+  void_reason: string;
+}
+
+// The invoice number is assigned by the server when the invoice is saved
+export interface InvoiceInput {
   company_name: string;
   company_address?: string;
   company_phone?: string;
+  company_email?: string;
+  customer_id?: string | null;
   customer_name: string;
   issuer_name: string;
   subtotal: number;
   tax: number;
   total: number;
+  discount?: Discount | null;
+  discount_total?: number;
+  prices_include_tax?: boolean;
+  payments: Payment[];
   products: InvoiceProduct[];
+  // Manager PIN, when the stock policy allows overriding a shortage
+  stock_override_pin?: string;
+}
+
+export interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  invoice_id: string;
+  invoice_number: string;
+  customer_id: string | null;
+  customer_name: string;
+  issuer_name: string;
+  reason: string | null;
+  products: InvoiceProduct[];
+  subtotal: number;
+  discount_total: number;
+  tax: number;
+  total: number;
+  prices_include_tax: boolean;
+  // Part of the total that cancelled an unpaid balance, and the part paid back to the customer
+  applied_to_balance: number;
+  refunded_amount: number;
+  refund_method: PaymentMethod | null;
+  restocked: boolean;
+  created_at: string;
+}
+
+export interface CreditNoteInput {
+  invoice_id: string;
+  lines: Array<{ line_index: number; quantity: number }>;
+  reason?: string;
+  refund_method?: PaymentMethod;
+  restock?: boolean;
+}
+
+export interface CompanySettings {
+  company_name: string;
+  company_address: string;
+  company_phone: string;
+  company_email: string;
+  currency_symbol: string;
+  tax_rates: TaxRate[];
+  default_tax_rate_id: string;
+  category_tax_rates: Record<string, string>;
+  prices_include_tax: boolean;
+  invoice_prefix: string;
+  invoice_number_padding: number;
+  invoice_number_include_year: boolean;
+  invoice_number_yearly_reset: boolean;
+  stock_policy: StockPolicy;
+  stock_override_pin_set: boolean;
+  // List each bundle's components under it on receipts
+  receipt_show_bundle_components: boolean;
+  // Layout used when printing, unless another is picked for that print
+  receipt_template: ReceiptTemplate;
+  // Greyscale PNG as a data URL, or null for no logo
+  receipt_logo: string | null;
+  // Formatted text (see lib/receiptText) under the company details, at the bottom, and above the footer
+  receipt_header: string;
+  receipt_footer: string;
+  receipt_return_policy: string;
+}
+
+// The settings every receipt layout draws on
+export type ReceiptSettings = Pick<
+  CompanySettings,
+  | 'currency_symbol'
+  | 'receipt_show_bundle_components'
+  | 'receipt_logo'
+  | 'receipt_header'
+  | 'receipt_footer'
+  | 'receipt_return_policy'
+>;
+
+// The override PIN is write-only: send a new PIN, or an empty string to remove it
+export type CompanySettingsInput = Partial<Omit<CompanySettings, 'stock_override_pin_set'>> & {
+  stock_override_pin?: string;
+};
+
+export interface PaymentMethodTotal {
+  method: PaymentMethod | 'credit' | 'unrecorded';
+  total: number;
+  count: number;
 }
 
 export interface DashboardStats {
@@ -78,8 +565,13 @@ export interface DashboardStats {
     id: string;
     name: string;
     stock: number;
+    reorder_point: number;
     category: string;
   }>;
+  salesByPaymentMethod: PaymentMethodTotal[];
+  grossProfit: number;
+  grossMargin: number | null;
+  uncostedRevenue: number;
 }
 
 export interface AnalysisData {
@@ -89,6 +581,47 @@ export interface AnalysisData {
   lastWeekTotal: number;
   thisMonthTotal: number;
   lastMonthTotal: number;
+  thisMonthByPaymentMethod: PaymentMethodTotal[];
+}
+
+// Revenue is net of discounts and tax. Margin only covers lines with a known unit cost
+// and is null when there are none; the rest of the revenue is reported as uncosted.
+export interface ProfitSummary {
+  quantity: number;
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  margin: number | null;
+  uncostedRevenue: number;
+}
+
+export interface ProfitData extends ProfitSummary {
+  from: string;
+  to: string;
+  groupBy: 'product' | 'parent';
+  byProduct: Array<ProfitSummary & { product_id: string | null; name: string; category: string }>;
+  byCategory: Array<ProfitSummary & { category: string }>;
+}
+
+// days_left is null when the product has not sold in the period
+export interface ReorderSuggestion {
+  product_id: string;
+  name: string;
+  category: string;
+  stock: number;
+  reorder_point: number;
+  reorder_quantity: number;
+  units_sold: number;
+  daily_sales: number;
+  days_left: number | null;
+  on_order: number;
+  needs_reorder: boolean;
+  suggested_quantity: number;
+}
+
+export interface ReorderReport {
+  days: number;
+  products: ReorderSuggestion[];
 }
 
 export interface TaxData {
@@ -104,13 +637,49 @@ export interface TaxData {
     sales: number;
     invoiceCount: number;
   }>;
+  rateBreakdown: Array<{
+    name: string;
+    rate: number | null;
+    taxClass: TaxClass | null;
+    taxable: number;
+    tax: number;
+    lineCount: number;
+  }>;
   totalTax: number;
   totalSales: number;
   totalInvoices: number;
+  totalReturns: number;
   availableYears: number[];
   selectedYear: number;
 }
 
+/**
+ * Error thrown for a failed request, carrying the status and any structured detail
+ * the endpoint sent alongside its message (e.g. code and lines for a stock shortage)
+ */
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  data: Record<string, unknown>;
+
+  constructor(message: string, status: number, data: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = typeof data.code === 'string' ? data.code : undefined;
+    this.data = data;
+  }
+}
+
+/**
+ * Body of the 409 returned when a sale asks for more stock than is on hand
+ */
+export interface InsufficientStockError {
+  code: 'insufficient_stock';
+  override_allowed: boolean;
+  lines: StockShortage[];
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -155,7 +724,7 @@ class ApiClient {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || 'Request failed');
+      throw new ApiError(data.error || 'Request failed', response.status, data);
     }
 
     return data;
@@ -204,6 +773,10 @@ class ApiClient {
     return this.request<Product[]>('/products/index.php');
   }
 
+  async getProduct(id: string): Promise<Product> {
+    return this.request<Product>(`/products/index.php?id=${id}`);
+  }
+
   async createProduct(data: ProductInput): Promise<Product> {
     return this.request<Product>('/products/index.php', {
       method: 'POST',
@@ -218,12 +791,199 @@ class ApiClient {
     });
   }
 
+  async importProducts(data: ProductImportInput): Promise<ProductImportResult> {
+    return this.request<ProductImportResult>('/products/import.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   async deleteProduct(id: string): Promise<void> {
     await this.request<{ success: boolean }>(`/products/delete.php?id=${id}`, {
       method: 'DELETE',
     });
   }
 
+  // ==================== CATEGORIES ====================
+
+  async getCategories(): Promise<Category[]> {
+    return this.request<Category[]>('/categories/index.php');
+  }
+
+  async createCategory(data: CategoryInput): Promise<Category> {
+    return this.request<Category>('/categories/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateCategory(id: string, data: Partial<CategoryInput>): Promise<Category> {
+    return this.request<Category>(`/categories/update.php?id=${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Moves the category's products, subcategories and history into the target, then deletes it
+  async mergeCategory(id: string, targetId: string): Promise<Category> {
+    return this.request<Category>(`/categories/merge.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify({ target_id: targetId }),
+    });
+  }
+
+  async deleteCategory(id: string): Promise<void> {
+    await this.request<{ success: boolean }>(`/categories/delete.php?id=${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // ==================== STOCK ====================
+
+  async getStockMovements(productId: string, filters?: { from?: string; to?: string }): Promise<StockMovement[]> {
+    const params = new URLSearchParams({ product_id: productId });
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+
+    return this.request<StockMovement[]>(`/stock/index.php?${params.toString()}`);
+  }
+
+  async createStockMovement(data: StockMovementInput): Promise<StockMovement> {
+    return this.request<StockMovement>('/stock/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==================== PURCHASING ====================
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.request<Supplier[]>('/suppliers/index.php');
+  }
+
+  async createSupplier(data: SupplierInput): Promise<Supplier> {
+    return this.request<Supplier>('/suppliers/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateSupplier(id: string, data: Partial<SupplierInput>): Promise<Supplier> {
+    return this.request<Supplier>(`/suppliers/update.php?id=${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteSupplier(id: string): Promise<void> {
+    await this.request<{ success: boolean }>(`/suppliers/delete.php?id=${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getPurchaseOrders(filters?: { supplierId?: string; status?: PurchaseOrderStatus }): Promise<PurchaseOrder[]> {
+    const params = new URLSearchParams();
+    if (filters?.supplierId) params.append('supplier_id', filters.supplierId);
+    if (filters?.status) params.append('status', filters.status);
+
+    const query = params.toString();
+    return this.request<PurchaseOrder[]>(`/purchase-orders/index.php${query ? `?${query}` : ''}`);
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return this.request<PurchaseOrder>(`/purchase-orders/index.php?id=${id}`);
+  }
+
+  async createPurchaseOrder(data: PurchaseOrderInput): Promise<PurchaseOrder> {
+    return this.request<PurchaseOrder>('/purchase-orders/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async receivePurchaseOrder(id: string, data: GoodsReceiptInput): Promise<PurchaseOrder> {
+    return this.request<PurchaseOrder>(`/purchase-orders/receive.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return this.request<PurchaseOrder>(`/purchase-orders/cancel.php?id=${id}`, {
+      method: 'POST',
+    });
+  }
+
+  // ==================== STOCKTAKES ====================
+
+  async getStocktakes(filters?: { status?: StocktakeStatus }): Promise<Stocktake[]> {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+
+    const query = params.toString();
+    return this.request<Stocktake[]>(`/stocktakes/index.php${query ? `?${query}` : ''}`);
+  }
+
+  async getStocktake(id: string): Promise<Stocktake> {
+    return this.request<Stocktake>(`/stocktakes/index.php?id=${id}`);
+  }
+
+  async createStocktake(data: StocktakeInput): Promise<Stocktake> {
+    return this.request<Stocktake>('/stocktakes/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async recordStocktakeCount(id: string, data: StocktakeCountInput): Promise<Stocktake> {
+    return this.request<Stocktake>(`/stocktakes/count.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async approveStocktake(id: string): Promise<Stocktake> {
+    return this.request<Stocktake>(`/stocktakes/approve.php?id=${id}`, {
+      method: 'POST',
+    });
+  }
+
+  async cancelStocktake(id: string): Promise<Stocktake> {
+    return this.request<Stocktake>(`/stocktakes/cancel.php?id=${id}`, {
+      method: 'POST',
+    });
+  }
+
+  // ==================== CUSTOMERS ====================
+
+  async getCustomers(): Promise<Customer[]> {
+    return this.request<Customer[]>('/customers/index.php');
+  }
+
+  async getCustomer(id: string): Promise<Customer> {
+    return this.request<Customer>(`/customers/index.php?id=${id}`);
+  }
+
+  async createCustomer(data: CustomerInput): Promise<Customer> {
+    return this.request<Customer>('/customers/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateCustomer(id: string, data: Partial<CustomerInput>): Promise<Customer> {
+    return this.request<Customer>(`/customers/update.php?id=${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteCustomer(id: string): Promise<void> {
+    await this.request<{ success: boolean }>(`/customers/delete.php?id=${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // ==================== INVOICES ====================
 
   async getInvoices(filters?: {
@@ -231,10 +991,18 @@ class ApiClient {
     to?: string;
     year?: number;
     limit?: number;
+    customerId?: string;
+    categoryId?: string;
+    paymentStatus?: PaymentStatus[];
+    excludeVoided?: boolean;
   }): Promise<Invoice[]> {
     const params = new URLSearchParams();
     if (filters?.from) params.append('from', filters.from);
     if (filters?.to) params.append('to', filters.to);
+    if (filters?.customerId) params.append('customer_id', filters.customerId);
+    if (filters?.categoryId) params.append('category_id', filters.categoryId);
+    if (filters?.paymentStatus?.length) params.append('payment_status', filters.paymentStatus.join(','));
+    if (filters?.excludeVoided) params.append('voided', '0');
     if (filters?.year) params.append('year', filters.year.toString());
     if (filters?.limit) params.append('limit', filters.limit.toString());
 
@@ -244,19 +1012,83 @@ class ApiClient {
     return this.request<Invoice[]>(endpoint);
   }
 
-  async createInvoice(data: InvoiceInput): Promise<{ id: string; invoice_number: string }> {
-    return this.request<{ id: string; invoice_number: string }>('/invoices/index.php', {
+  async createInvoice(data: InvoiceInput): Promise<InvoiceCreateResult> {
+    return this.request<InvoiceCreateResult>('/invoices/index.php', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
+  async recordPayment(id: string, payment: Omit<Payment, 'paid_at'>): Promise<InvoicePaymentResult> {
+    return this.request<InvoicePaymentResult>(`/invoices/payments.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    });
+  }
+
+  async logInvoiceShare(id: string, share: Pick<ReceiptShare, 'channel' | 'recipient'>): Promise<InvoiceShareResult> {
+    return this.request<InvoiceShareResult>(`/invoices/shares.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify(share),
+    });
+  }
+
+  async voidInvoice(id: string, reason: string): Promise<InvoiceVoidResult> {
+    return this.request<InvoiceVoidResult>(`/invoices/void.php?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  /** Permanently remove a voided invoice */
   async deleteInvoice(id: string): Promise<void> {
     await this.request<{ success: boolean }>(`/invoices/delete.php?id=${id}`, {
       method: 'DELETE',
     });
   }
 
+  /** Check a receipt's QR code against the records; needs no sign-in */
+  async verifyReceipt(invoiceNumber: string, hash: string): Promise<ReceiptVerification> {
+    const params = new URLSearchParams({ invoice_number: invoiceNumber, hash });
+    return this.request<ReceiptVerification>(`/verify/index.php?${params.toString()}`);
+  }
+
+  // ==================== CREDIT NOTES ====================
+
+  async getCreditNotes(filters?: {
+    invoiceId?: string;
+    from?: string;
+    to?: string;
+  }): Promise<CreditNote[]> {
+    const params = new URLSearchParams();
+    if (filters?.invoiceId) params.append('invoice_id', filters.invoiceId);
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+
+    const queryString = params.toString();
+    return this.request<CreditNote[]>(`/credit-notes/index.php${queryString ? `?${queryString}` : ''}`);
+  }
+
+  async createCreditNote(data: CreditNoteInput): Promise<CreditNote> {
+    return this.request<CreditNote>('/credit-notes/index.php', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // ==================== SETTINGS ====================
+
+  async getSettings(): Promise<CompanySettings> {
+    return this.request<CompanySettings>('/settings/index.php');
+  }
+
+  async updateSettings(data: CompanySettingsInput): Promise<CompanySettings> {
+    return this.request<CompanySettings>('/settings/index.php', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
   // ==================== STATS ====================
 
   async getDashboardStats(): Promise<DashboardStats> {
@@ -267,6 +1099,26 @@ class ApiClient {
     return this.request<AnalysisData>('/stats/analysis.php');
   }
 
+  async getProfitData(filters?: {
+    from?: string;
+    to?: string;
+    groupBy?: ProfitData['groupBy'];
+    categoryId?: string;
+  }): Promise<ProfitData> {
+    const params = new URLSearchParams();
+    if (filters?.from) params.append('from', filters.from);
+    if (filters?.to) params.append('to', filters.to);
+    if (filters?.groupBy) params.append('group_by', filters.groupBy);
+    if (filters?.categoryId) params.append('category_id', filters.categoryId);
+
+    const query = params.toString();
+    return this.request<ProfitData>(`/stats/profit.php${query ? `?${query}` : ''}`);
+  }
+
+  async getReorderReport(days?: number): Promise<ReorderReport> {
+    return this.request<ReorderReport>(days ? `/stats/reorder.php?days=${days}` : '/stats/reorder.php');
+  }
+
   async getTaxData(year?: number): Promise<TaxData> {
     const endpoint = year 
       ? `/stats/tax.php?year=${year}` 
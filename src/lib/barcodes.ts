@@ -0,0 +1,110 @@
+/**
+ * Barcodes
+ * Scanner lookups, symbology detection and label sheet layouts for product barcodes
+ */
+
+import type { Product } from './api';
+
+export type LabelSheetId = 'avery-l7160' | 'avery-l7651' | 'avery-5160';
+
+export interface LabelSheetLayout {
+  id: LabelSheetId;
+  name: string;
+  page: 'A4' | 'Letter';
+  columns: number;
+  rows: number;
+  /** Label size and page margins in millimetres */
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  columnGap: number;
+  rowGap: number;
+}
+
+export const LABEL_SHEET_LAYOUTS: LabelSheetLayout[] = [
+  {
+    id: 'avery-l7160',
+    name: 'A4 · 21 labels (Avery L7160)',
+    page: 'A4',
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.1,
+    marginLeft: 7.2,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  {
+    id: 'avery-l7651',
+    name: 'A4 · 65 labels (Avery L7651)',
+    page: 'A4',
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.7,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  {
+    id: 'avery-5160',
+    name: 'Letter · 30 labels (Avery 5160)',
+    page: 'Letter',
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.7,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.8,
+    columnGap: 3.2,
+    rowGap: 0,
+  },
+];
+
+/**
+ * The code printed on a product's label: its barcode, or the SKU when it has none
+ */
+export function labelCode(product: Pick<Product, 'barcode' | 'sku'>): string | null {
+  return product.barcode || product.sku || null;
+}
+
+/**
+ * Find the product a scanned code belongs to. Barcodes match exactly, SKUs
+ * ignore case since they are often typed in by hand.
+ */
+export function findProductByCode<T extends Pick<Product, 'barcode' | 'sku'>>(products: T[], code: string): T | undefined {
+  const trimmed = code.trim();
+  if (!trimmed) return undefined;
+
+  const byBarcode = products.find((product) => product.barcode === trimmed);
+  if (byBarcode) return byBarcode;
+
+  const lower = trimmed.toLowerCase();
+  return products.find((product) => product.sku?.toLowerCase() === lower);
+}
+
+function hasValidCheckDigit(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  // Weights alternate 3,1,... counting from the digit next to the check digit
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Pick the symbology to print a code in: retail EAN/UPC codes keep their
+ * format so till scanners read them as usual, anything else is Code 128
+ */
+export function barcodeFormat(code: string): 'EAN13' | 'EAN8' | 'UPC' | 'CODE128' {
+  if (/^\d+$/.test(code) && hasValidCheckDigit(code)) {
+    if (code.length === 13) return 'EAN13';
+    if (code.length === 12) return 'UPC';
+    if (code.length === 8) return 'EAN8';
+  }
+  return 'CODE128';
+}
@@ -0,0 +1,36 @@
+/**
+ * Product Bundles
+ * A bundle has its own price but is sold as its components, so it holds no stock of its own.
+ * These helpers work out how many can be sold and what one costs from the components.
+ */
+
+import type { BundleComponent, InvoiceProductComponent, Product } from './api';
+import { roundMoney } from './discounts';
+
+export function isBundle(product: Pick<Product, 'components'>): boolean {
+  return (product.components?.length ?? 0) > 0;
+}
+
+/**
+ * How many complete bundles the components on hand make up
+ */
+export function bundleAvailability(components: Pick<BundleComponent, 'stock' | 'quantity'>[]): number {
+  if (components.length === 0) return 0;
+  return Math.max(0, Math.min(...components.map((component) => Math.floor(component.stock / component.quantity))));
+}
+
+/**
+ * What the components of one bundle cost, or null if any of them has no cost price
+ */
+export function bundleCost(components: Pick<BundleComponent, 'cost_price' | 'quantity'>[]): number | null {
+  if (components.some((component) => component.cost_price === null)) return null;
+  return roundMoney(components.reduce((sum, component) => sum + (component.cost_price ?? 0) * component.quantity, 0));
+}
+
+/**
+ * A product's components as carried on a sale line, or undefined if it is not a bundle
+ */
+export function lineComponents(components: BundleComponent[] | undefined): InvoiceProductComponent[] | undefined {
+  if (!components || components.length === 0) return undefined;
+  return components.map((component) => ({ id: component.product_id, name: component.name, quantity: component.quantity }));
+}
@@ -0,0 +1,76 @@
+/**
+ * Categories
+ * Icons, colours and tree ordering for user-managed product categories
+ */
+
+import { Cable, Cpu, Monitor, Package, Printer, ShoppingBag, Smartphone, Tag, Wifi, Wrench } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { Category, CategoryIcon } from './api';
+
+export const CATEGORY_ICONS: Record<CategoryIcon, LucideIcon> = {
+  wifi: Wifi,
+  cpu: Cpu,
+  wrench: Wrench,
+  package: Package,
+  cable: Cable,
+  smartphone: Smartphone,
+  monitor: Monitor,
+  printer: Printer,
+  'shopping-bag': ShoppingBag,
+  tag: Tag,
+};
+
+export const CATEGORY_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#64748b'];
+
+// Used when there are no categories yet, matching the products table default
+export const DEFAULT_CATEGORY = 'Other';
+
+export interface CategoryTreeEntry {
+  category: Category;
+  depth: number;
+}
+
+/**
+ * Categories in tree order, each parent followed by its subcategories, alphabetical at each level
+ */
+export function categoryTree(categories: Category[]): CategoryTreeEntry[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const entries: CategoryTreeEntry[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter((category) => (parentId === null ? !category.parent_id || !ids.has(category.parent_id) : category.parent_id === parentId))
+      .sort(byName)
+      .forEach((category) => {
+        entries.push({ category, depth });
+        visit(category.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return entries;
+}
+
+/**
+ * The category and all of its subcategories, e.g. to stop a category being moved under its own child
+ */
+export function categoryDescendantIds(categories: Category[], id: string): Set<string> {
+  const found = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    categories.forEach((category) => {
+      if (category.parent_id && found.has(category.parent_id) && !found.has(category.id)) {
+        found.add(category.id);
+        grew = true;
+      }
+    });
+  }
+  return found;
+}
+
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+  const lower = name.toLowerCase();
+  return categories.find((category) => category.name.toLowerCase() === lower);
+}
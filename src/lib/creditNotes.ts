@@ -0,0 +1,65 @@
+/**
+ * Credit Notes
+ * Tracks what has already been returned against an invoice and previews the value of a return
+ */
+
+import type { CreditNote, InvoiceProduct } from './api';
+import type { Invoice } from '@/types/invoice';
+import { roundMoney } from './discounts';
+
+/**
+ * Quantities already returned per invoice line index
+ */
+export function returnedQuantities(creditNotes: CreditNote[]): Record<number, number> {
+  const returned: Record<number, number> = {};
+  creditNotes.forEach((creditNote) => {
+    creditNote.products.forEach((line) => {
+      if (line.line_index === undefined) return;
+      returned[line.line_index] = (returned[line.line_index] || 0) + line.quantity;
+    });
+  });
+  return returned;
+}
+
+/**
+ * Approximate value of returning some units of a line, net of discounts and including tax.
+ * The server works out the exact figures when the credit note is issued.
+ */
+export function estimateReturnValue(line: InvoiceProduct, quantity: number, pricesIncludeTax: boolean): number {
+  if (quantity <= 0 || line.quantity <= 0) return 0;
+  const net = line.price * line.quantity - (line.discount_amount ?? 0) - (line.invoice_discount_share ?? 0);
+  const gross = pricesIncludeTax ? net : net + (line.tax_amount ?? 0);
+  return roundMoney((gross * quantity) / line.quantity);
+}
+
+/**
+ * Shape a credit note for POSReceipt, which prints it as a REFUND document
+ */
+export function creditNoteToReceipt(creditNote: CreditNote, company: Pick<Invoice, 'companyName' | 'companyAddress' | 'companyPhone' | 'companyEmail'>): Invoice {
+  const invoiceDiscount = roundMoney(
+    creditNote.products.reduce((sum, line) => sum + (line.invoice_discount_share ?? 0), 0)
+  );
+
+  return {
+    ...company,
+    id: creditNote.credit_note_number,
+    customerId: creditNote.customer_id,
+    customerName: creditNote.customer_name,
+    issuerName: creditNote.issuer_name,
+    products: creditNote.products,
+    date: new Date(creditNote.created_at),
+    subtotal: creditNote.subtotal,
+    discount: invoiceDiscount > 0 ? { type: 'fixed', value: invoiceDiscount } : null,
+    discountTotal: creditNote.discount_total,
+    tax: creditNote.tax,
+    pricesIncludeTax: creditNote.prices_include_tax,
+    total: creditNote.total,
+    refund: {
+      originalInvoiceNumber: creditNote.invoice_number,
+      reason: creditNote.reason,
+      appliedToBalance: creditNote.applied_to_balance,
+      refundedAmount: creditNote.refunded_amount,
+      refundMethod: creditNote.refund_method,
+    },
+  };
+}
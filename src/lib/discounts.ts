@@ -0,0 +1,45 @@
+/**
+ * Discounts
+ * Percentage and fixed-amount discounts on lines and whole invoices
+ */
+
+import type { Discount } from './api';
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount taken off a base amount, never more than the base itself
+ */
+export function calculateDiscountAmount(base: number, discount?: Discount | null): number {
+  if (!discount || !(discount.value > 0) || base <= 0) return 0;
+  const amount = discount.type === 'percent'
+    ? base * (Math.min(discount.value, 100) / 100)
+    : discount.value;
+  return roundMoney(Math.min(amount, base));
+}
+
+/**
+ * Spread an invoice-level discount across line amounts in proportion to their size.
+ * The last line absorbs rounding so the shares always add up to the discount.
+ */
+export function allocateDiscount(amounts: number[], discount: number): number[] {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (discount <= 0 || base <= 0) return amounts.map(() => 0);
+
+  let allocated = 0;
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) return roundMoney(discount - allocated);
+    const share = roundMoney(discount * (amount / base));
+    allocated += share;
+    return share;
+  });
+}
+
+/**
+ * Short label for receipts, e.g. "10%" or "₦500.00"
+ */
+export function formatDiscount(discount: Discount, currency: string): string {
+  return discount.type === 'percent'
+    ? `${discount.value}%`
+    : `${currency}${discount.value.toFixed(2)}`;
+}
@@ -0,0 +1,19 @@
+/**
+ * Invoice Numbering
+ * Mirrors the server's format so settings can preview the next number
+ */
+
+import type { CompanySettings } from './api';
+
+type NumberingSettings = Pick<
+  CompanySettings,
+  'invoice_prefix' | 'invoice_number_padding' | 'invoice_number_include_year'
+>;
+
+/**
+ * Build an invoice number such as INV-2025-000042
+ */
+export function formatInvoiceNumber(settings: NumberingSettings, sequence: number, year: number): string {
+  const number = String(sequence).padStart(settings.invoice_number_padding, '0');
+  return `${settings.invoice_prefix}${settings.invoice_number_include_year ? `${year}-` : ''}${number}`;
+}
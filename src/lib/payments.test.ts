@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { settlePayments } from "@/lib/payments";
+
+describe("settlePayments", () => {
+  it("applies cash after the other tenders and gives the rest back as change", () => {
+    const result = settlePayments([
+      { method: "card", amount: 20, reference: " 4411 " },
+      { method: "cash", amount: 50 },
+    ], 45);
+
+    expect(result.payments).toEqual([
+      { method: "card", amount: 20, reference: "4411" },
+      { method: "cash", amount: 25, tendered: 50, reference: undefined },
+    ]);
+    expect(result.amountPaid).toBe(45);
+    expect(result.changeDue).toBe(25);
+    expect(result.balance).toBe(0);
+  });
+
+  it("keeps a cash tender that only went to change", () => {
+    const result = settlePayments([
+      { method: "transfer", amount: 30 },
+      { method: "cash", amount: 10 },
+    ], 30);
+
+    expect(result.payments).toEqual([
+      { method: "transfer", amount: 30, reference: undefined },
+      { method: "cash", amount: 0, tendered: 10, reference: undefined },
+    ]);
+    expect(result.changeDue).toBe(10);
+  });
+
+  it("drops empty tenders", () => {
+    const result = settlePayments([
+      { method: "cash", amount: 0 },
+      { method: "card", amount: 12 },
+    ], 12);
+
+    expect(result.payments).toEqual([{ method: "card", amount: 12, reference: undefined }]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Payments
+ * Settles split tenders against an invoice total and works out change for cash
+ */
+
+import type { Payment, PaymentMethod, PaymentStatus } from './api';
+import { roundMoney } from './discounts';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod | 'credit' | 'unrecorded', string> = {
+  cash: 'Cash',
+  card: 'POS Card',
+  transfer: 'Bank Transfer',
+  mobile_money: 'Mobile Money',
+  credit: 'On Credit',
+  unrecorded: 'Not recorded',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  paid: 'Paid',
+  partial: 'Partially paid',
+  unpaid: 'Unpaid',
+};
+
+/**
+ * Status for an amount paid against a total, allowing a cent of rounding
+ */
+export function getPaymentStatus(total: number, amountPaid: number): PaymentStatus {
+  if (amountPaid >= roundMoney(total) - 0.01) return 'paid';
+  return amountPaid > 0 ? 'partial' : 'unpaid';
+}
+
+export interface TenderEntry {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+}
+
+/**
+ * Apply tenders to a total. Card, transfer and mobile money are applied at face value;
+ * cash covers whatever they leave and anything handed over beyond that is change.
+ * Non-cash tenders can never exceed the total because they cannot be given back as change.
+ */
+export function settlePayments(entries: TenderEntry[], total: number) {
+  const tenders = entries.filter((entry) => entry.amount > 0);
+  const nonCashTotal = roundMoney(
+    tenders.filter((entry) => entry.method !== 'cash').reduce((sum, entry) => sum + entry.amount, 0)
+  );
+  const cashTendered = roundMoney(
+    tenders.filter((entry) => entry.method === 'cash').reduce((sum, entry) => sum + entry.amount, 0)
+  );
+
+  const dueInCash = Math.max(0, roundMoney(total - nonCashTotal));
+  const cashApplied = Math.min(cashTendered, dueInCash);
+  const changeDue = roundMoney(cashTendered - cashApplied);
+
+  let cashRemaining = cashApplied;
+  const payments: Payment[] = tenders.map((entry) => {
+    const reference = entry.reference?.trim() || undefined;
+    if (entry.method !== 'cash') {
+      return { method: entry.method, amount: roundMoney(entry.amount), reference };
+    }
+    const applied = Math.min(entry.amount, cashRemaining);
+    cashRemaining = roundMoney(cashRemaining - applied);
+    return { method: 'cash', amount: roundMoney(applied), tendered: roundMoney(entry.amount), reference };
+  });
+
+  const amountPaid = roundMoney(nonCashTotal + cashApplied);
+
+  return {
+    // A cash tender that only went to change is kept so the change still has a source
+    payments: payments.filter((payment) => payment.amount > 0 || (payment.tendered ?? 0) > 0),
+    amountPaid,
+    changeDue,
+    balance: roundMoney(total - amountPaid),
+    overpaidNonCash: nonCashTotal > roundMoney(total),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Product Import and Export
+ * Reads CSV and Excel files into import rows, guesses which column holds which field,
+ * and writes the catalog back out in the same layout so an export can be re-imported.
+ * Excel files are read with read-excel-file: the npm release of SheetJS has known flaws in
+ * its parsers, so it is only used to write Excel exports. Both load when first needed.
+ */
+
+import { ApiError } from './api';
+import type { Product, ProductImportField, ProductImportResult, ProductImportRow } from './api';
+
+export const PRODUCT_IMPORT_FIELDS: { field: ProductImportField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['name', 'product', 'product name', 'item', 'description'] },
+  { field: 'sku', label: 'SKU', aliases: ['sku', 'code', 'item code', 'product code'] },
+  { field: 'barcode', label: 'Barcode', aliases: ['barcode', 'ean', 'upc', 'gtin'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'group', 'type'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'selling price', 'unit price', 'retail price'] },
+  { field: 'cost_price', label: 'Cost Price', aliases: ['cost price', 'cost', 'unit cost', 'buying price'] },
+  { field: 'stock', label: 'Stock', aliases: ['stock', 'qty', 'quantity', 'on hand', 'stock qty'] },
+  { field: 'reorder_point', label: 'Reorder Point', aliases: ['reorder point', 'reorder at', 'reorder level', 'min stock'] },
+  { field: 'reorder_quantity', label: 'Reorder Quantity', aliases: ['reorder quantity', 'reorder qty', 'order qty'] },
+];
+
+export type ColumnMapping = Record<ProductImportField, number | null>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+// Spreadsheet apps in some locales save CSV with semicolons or tabs between the values
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Split CSV text into rows of cells. Quoted cells may hold delimiters, line breaks and
+ * doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = CSV_DELIMITERS.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Excel cells as the text they would show; dates as yyyy-mm-dd
+const excelCellText = (cell: unknown) => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell);
+};
+
+/**
+ * Read a CSV file or the first sheet of an Excel (.xlsx) file. The first row is taken as
+ * the headers and completely blank rows are dropped.
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  let table: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    table = (await readSheet(file)).map((row) => row.map(excelCellText));
+  } else {
+    table = parseCsv(await file.text());
+  }
+
+  const [headerRow = [], ...rows] = table;
+  return {
+    headers: headerRow.map((cell) => cell.trim()),
+    rows: rows.filter((row) => row.some((cell) => cell.trim() !== '')),
+  };
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Match columns to fields by header name, e.g. "Unit Cost" to the cost price
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map(normaliseHeader);
+  const mapping = {} as ColumnMapping;
+  PRODUCT_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = normalised.findIndex((header) => aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+/**
+ * Turn sheet rows into import rows. Row numbers count the header as row 1 so they
+ * match what the user sees in their spreadsheet.
+ */
+export function buildImportRows(sheet: Spreadsheet, mapping: ColumnMapping): ProductImportRow[] {
+  return sheet.rows.map((cells, index) => {
+    const row: ProductImportRow = { row: index + 2 };
+    PRODUCT_IMPORT_FIELDS.forEach(({ field }) => {
+      const column = mapping[field];
+      if (column !== null) row[field] = (cells[column] ?? '').trim();
+    });
+    return row;
+  });
+}
+
+/**
+ * The per-row report sent back when an import is rejected because some rows failed
+ */
+export function importResultFrom(error: unknown): ProductImportResult | null {
+  if (error instanceof ApiError && error.code === 'invalid_rows') {
+    return error.data as unknown as ProductImportResult;
+  }
+  return null;
+}
+
+/**
+ * Download the whole catalog with the same column headings the import recognises
+ */
+export async function exportProducts(products: Product[], bookType: 'csv' | 'xlsx', filename: string) {
+  const records = products.map((product) => ({
+    Name: product.name,
+    SKU: product.sku ?? '',
+    Barcode: product.barcode ?? '',
+    Category: product.category,
+    Price: product.price,
+    'Cost Price': product.cost_price ?? '',
+    Stock: product.stock,
+    'Reorder Point': product.reorder_point,
+    'Reorder Quantity': product.reorder_quantity,
+  }));
+
+  if (bookType === 'csv') {
+    const headers = PRODUCT_IMPORT_FIELDS.map(({ label }) => label);
+    const lines = [headers, ...records.map((record) => Object.values(record))].map((cells) => cells.map(csvCell).join(','));
+    // The byte order mark makes Excel open the file as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.json_to_sheet(records);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Products');
+  XLSX.writeFile(workbook, `${filename}.${bookType}`, { bookType });
+}
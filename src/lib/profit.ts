@@ -0,0 +1,30 @@
+/**
+ * Profit
+ * Margin helpers for products and profitability reports
+ */
+
+import type { CompanySettings, Product } from './api';
+import { calculateTax, effectiveRate, resolveTaxRate } from './tax';
+
+/**
+ * Margin % a product makes at its current price and cost, taking tax out of
+ * tax-inclusive prices. Null when the cost is unknown or the price is zero.
+ */
+export function unitMargin(
+  product: Pick<Product, 'price' | 'cost_price' | 'category' | 'tax_rate_id'>,
+  settings: Pick<CompanySettings, 'tax_rates' | 'default_tax_rate_id' | 'category_tax_rates' | 'prices_include_tax'>
+): number | null {
+  if (product.cost_price === null || product.cost_price === undefined) return null;
+
+  const tax = settings.prices_include_tax
+    ? calculateTax(product.price, effectiveRate(resolveTaxRate(product, settings)), true)
+    : 0;
+  const netPrice = product.price - tax;
+  if (netPrice <= 0) return null;
+
+  return ((netPrice - product.cost_price) / netPrice) * 100;
+}
+
+export function formatMargin(margin: number | null): string {
+  return margin === null ? '-' : `${margin.toFixed(1)}%`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Purchasing
+ * Labels and quantity helpers for purchase orders and goods receiving
+ */
+
+import type { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from './api';
+import { roundMoney } from './discounts';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  ordered: 'Ordered',
+  partial: 'Partly received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Units still expected from the supplier on one line
+ */
+export function outstandingQuantity(item: PurchaseOrderItem): number {
+  return Math.max(0, item.quantity - item.received_quantity);
+}
+
+/**
+ * Units received against units ordered across the whole order
+ */
+export function receivedProgress(order: PurchaseOrder) {
+  return order.items.reduce(
+    (progress, item) => ({
+      ordered: progress.ordered + item.quantity,
+      received: progress.received + Math.min(item.received_quantity, item.quantity),
+    }),
+    { ordered: 0, received: 0 }
+  );
+}
+
+/**
+ * Value of an order's lines at their unit costs
+ */
+export function orderValue(items: { quantity: number; unit_cost: number }[]): number {
+  return roundMoney(items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0));
+}
+
+/**
+ * Whether goods can still be booked in against an order
+ */
+export function isOpenOrder(order: PurchaseOrder): boolean {
+  return order.status === 'ordered' || order.status === 'partial';
+}
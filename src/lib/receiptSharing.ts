@@ -0,0 +1,61 @@
+/**
+ * Receipt Sharing
+ * The message and links used to send a customer their receipt by email or WhatsApp
+ */
+
+import { format } from 'date-fns';
+import type { ReceiptShareChannel } from './api';
+import type { Invoice } from '@/types/invoice';
+import { receiptVerificationUrl } from './receiptVerification';
+
+export const RECEIPT_SHARE_CHANNEL_LABELS: Record<ReceiptShareChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  device: 'Share sheet',
+};
+
+export function receiptShareSubject(invoice: Invoice): string {
+  return `${invoice.refund ? 'Credit note' : 'Receipt'} ${invoice.id} from ${invoice.companyName}`;
+}
+
+/**
+ * Plain text summary sent with the PDF, with the verification link when the receipt is signed
+ */
+export function receiptShareMessage(invoice: Invoice, currency: string): string {
+  const verificationUrl = receiptVerificationUrl(invoice);
+  return [
+    `Hello ${invoice.customerName},`,
+    '',
+    `Here is your ${invoice.refund ? 'credit note' : 'receipt'} ${invoice.id} from ${invoice.companyName}.`,
+    `Date: ${format(invoice.date, 'dd/MM/yyyy HH:mm')}`,
+    `Total: ${invoice.refund ? '-' : ''}${currency}${invoice.total.toFixed(2)}`,
+    ...(verificationUrl ? ['', `Check it against our records: ${verificationUrl}`] : []),
+    '',
+    'Thank you.',
+  ].join('\n');
+}
+
+export function emailShareUrl(email: string | null | undefined, invoice: Invoice, message: string): string {
+  const params = new URLSearchParams({ subject: receiptShareSubject(invoice), body: message });
+  // mailto: expects %20 for spaces, not the + URLSearchParams writes
+  return `mailto:${encodeURI(email?.trim() ?? '')}?${params.toString().replace(/\+/g, '%20')}`;
+}
+
+/**
+ * The number in the international form WhatsApp links need, or null when it cannot be worked out.
+ * Numbers written in local form (leading 0) have no country code, so they are not guessed at.
+ */
+export function whatsAppNumber(phone: string | null | undefined): string | null {
+  const trimmed = phone?.trim() ?? '';
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return digits.length >= 8 ? digits : null;
+  if (digits.startsWith('00')) return digits.length >= 10 ? digits.slice(2) : null;
+  return null;
+}
+
+/**
+ * Link that opens WhatsApp with the message ready to send; without a number WhatsApp asks who to send it to
+ */
+export function whatsAppShareUrl(number: string | null, message: string): string {
+  return `https://wa.me/${number ?? ''}?text=${encodeURIComponent(message)}`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Receipt Templates
+ * The paper layouts an invoice can be printed on
+ */
+
+import type { ReceiptTemplate } from './api';
+
+// Roll widths a thermal printer can print on
+export type ThermalTemplate = Exclude<ReceiptTemplate, 'a4'>;
+
+export const RECEIPT_TEMPLATE_LABELS: Record<ReceiptTemplate, string> = {
+  '58mm': '58mm receipt',
+  '80mm': '80mm receipt',
+  a4: 'A4 tax invoice',
+};
+
+export const RECEIPT_TEMPLATE_OPTIONS = Object.keys(RECEIPT_TEMPLATE_LABELS) as ReceiptTemplate[];
+
+// Paper width, characters per line in the printer's normal font, and dots across the print head
+export const THERMAL_PAPER: Record<ThermalTemplate, { widthMm: 58 | 80; escPosColumns: number; printDots: number }> = {
+  '58mm': { widthMm: 58, escPosColumns: 32, printDots: 384 },
+  '80mm': { widthMm: 80, escPosColumns: 48, printDots: 576 },
+};
+
+export function isThermalTemplate(template: ReceiptTemplate): template is ThermalTemplate {
+  return template !== 'a4';
+}
@@ -0,0 +1,94 @@
+/**
+ * Receipt Text
+ * The formatting receipt header, footer and return policy text can carry, kept to what a
+ * thermal printer can also print: **bold**, __underline__, and "# " at the start of a line
+ * for large text
+ */
+
+export interface ReceiptTextSegment {
+  text: string;
+  bold: boolean;
+  underline: boolean;
+}
+
+export interface ReceiptTextLine {
+  large: boolean;
+  // Empty for a blank line
+  segments: ReceiptTextSegment[];
+}
+
+export const RECEIPT_TEXT_MARKERS = {
+  bold: '**',
+  underline: '__',
+  large: '# ',
+} as const;
+
+/**
+ * Split formatted text into lines of styled segments. Markers left open run to the end of the line.
+ */
+export function parseReceiptText(text: string): ReceiptTextLine[] {
+  if (!text.trim()) return [];
+
+  return text.replace(/\r\n/g, '\n').replace(/\s+$/, '').split('\n').map((raw) => {
+    const large = raw.startsWith(RECEIPT_TEXT_MARKERS.large);
+    const content = large ? raw.slice(RECEIPT_TEXT_MARKERS.large.length) : raw;
+    const segments: ReceiptTextSegment[] = [];
+    let bold = false;
+    let underline = false;
+
+    content.split(/(\*\*|__)/).forEach((token) => {
+      if (token === RECEIPT_TEXT_MARKERS.bold) {
+        bold = !bold;
+      } else if (token === RECEIPT_TEXT_MARKERS.underline) {
+        underline = !underline;
+      } else if (token) {
+        segments.push({ text: token, bold, underline });
+      }
+    });
+
+    return { large, segments: segments.some((segment) => segment.text.trim()) ? segments : [] };
+  });
+}
+
+/**
+ * Break a line into rows no wider than width, at spaces. A single word wider than a row gets a row
+ * of its own rather than being cut.
+ */
+export function wrapReceiptLine(
+  line: ReceiptTextLine,
+  width: number,
+  measure: (segment: ReceiptTextSegment) => number
+): ReceiptTextSegment[][] {
+  const rows: ReceiptTextSegment[][] = [];
+  let row: ReceiptTextSegment[] = [];
+  let rowWidth = 0;
+
+  const finishRow = () => {
+    while (row.length > 0 && !row[row.length - 1].text.trim()) row.pop();
+    if (row.length > 0) rows.push(row);
+    row = [];
+    rowWidth = 0;
+  };
+
+  line.segments.forEach((segment) => {
+    segment.text.split(/(\s+)/).filter(Boolean).forEach((piece) => {
+      const part = { ...segment, text: piece };
+      const partWidth = measure(part);
+      const isSpace = !piece.trim();
+
+      if (isSpace) {
+        if (row.length > 0) {
+          row.push({ ...part, text: ' ' });
+          rowWidth += measure({ ...part, text: ' ' });
+        }
+        return;
+      }
+      if (row.length > 0 && rowWidth + partWidth > width) finishRow();
+      row.push(part);
+      rowWidth += partWidth;
+    });
+  });
+  finishRow();
+
+  return rows.length > 0 ? rows : [[]];
+}
@@ -0,0 +1,42 @@
+/**
+ * Receipt Verification
+ * The link a receipt's QR code carries, and how a scanned receipt's check is described
+ */
+
+import { format } from 'date-fns';
+import type { ReceiptVerificationStatus } from './api';
+import type { Invoice } from '@/types/invoice';
+
+export const RECEIPT_VERIFICATION_LABELS: Record<ReceiptVerificationStatus, { title: string; description: string }> = {
+  valid: {
+    title: 'Genuine receipt',
+    description: 'This receipt matches an invoice in our records.',
+  },
+  voided: {
+    title: 'Sale cancelled',
+    description: 'This receipt was issued, but the sale has since been voided.',
+  },
+  altered: {
+    title: 'Does not match',
+    description: 'The invoice on record has changed since this receipt was printed.',
+  },
+  not_found: {
+    title: 'Not recognised',
+    description: 'No invoice was issued with this number and verification code.',
+  },
+};
+
+/**
+ * Link to the public verification page with the invoice number, date, total and signature.
+ * Null for receipts that were never signed (credit notes and invoices from before signing).
+ */
+export function receiptVerificationUrl(invoice: Invoice): string | null {
+  if (!invoice.verificationHash || invoice.refund) return null;
+
+  const params = new URLSearchParams({
+    d: format(invoice.date, 'yyyy-MM-dd'),
+    t: invoice.total.toFixed(2),
+    h: invoice.verificationHash,
+  });
+  return `${window.location.origin}/verify/${encodeURIComponent(invoice.id)}?${params.toString()}`;
+}
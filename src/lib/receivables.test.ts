@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { CreditNote, Invoice } from "@/lib/api";
+import { balanceAsOf, buildAgingReport } from "@/lib/receivables";
+
+const invoice: Invoice = {
+  id: "inv-1",
+  user_id: "user-1",
+  invoice_number: "INV-2026-0001",
+  company_name: "Acme Store",
+  customer_id: "cust-1",
+  customer_name: "Bola",
+  issuer_name: "Ada",
+  subtotal: 100,
+  tax: 0,
+  total: 100,
+  products: [],
+  payments: [
+    { method: "cash", amount: 30, paid_at: "2026-08-01T10:00:00" },
+    { method: "transfer", amount: 70, paid_at: "2026-10-01T10:00:00" },
+  ],
+  amount_paid: 100,
+  balance_due: 0,
+  created_at: "2026-08-01 10:00:00",
+};
+
+const creditNote = {
+  invoice_id: "inv-1",
+  total: 20,
+  created_at: "2026-09-01 12:00:00",
+} as CreditNote;
+
+const endOf = (date: string) => new Date(`${date}T23:59:59`);
+
+describe("balanceAsOf", () => {
+  it("leaves out payments and returns made after the report date", () => {
+    expect(balanceAsOf(invoice, [creditNote], endOf("2026-08-15"))).toBe(70);
+    expect(balanceAsOf(invoice, [creditNote], endOf("2026-09-15"))).toBe(50);
+    expect(balanceAsOf(invoice, [creditNote], endOf("2026-10-15"))).toBe(0);
+  });
+
+  it("owes nothing once the sale was voided", () => {
+    const voided = { ...invoice, voided_at: "2026-08-10 09:00:00" };
+
+    expect(balanceAsOf(voided, [], endOf("2026-08-05"))).toBe(70);
+    expect(balanceAsOf(voided, [], endOf("2026-08-10"))).toBe(0);
+  });
+
+  it("counts payments without a date as taken at the sale", () => {
+    const legacy = { ...invoice, payments: [{ method: "cash" as const, amount: 40 }], amount_paid: 40 };
+
+    expect(balanceAsOf(legacy, [], endOf("2026-08-01"))).toBe(60);
+  });
+});
+
+describe("buildAgingReport", () => {
+  it("ages the balance owed on the report date and skips later invoices", () => {
+    const later = { ...invoice, id: "inv-2", created_at: "2026-09-20 10:00:00", payments: [], amount_paid: 0 };
+    const report = buildAgingReport([invoice, later], [creditNote], endOf("2026-09-15"));
+
+    expect(report.grandTotal).toBe(50);
+    expect(report.rows).toHaveLength(1);
+    expect(report.rows[0].buckets.days31to60).toBe(50);
+  });
+});
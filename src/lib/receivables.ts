@@ -0,0 +1,96 @@
+/**
+ * Receivables
+ * Ages outstanding invoice balances by how long they have been owed
+ */
+
+import { differenceInCalendarDays } from 'date-fns';
+import type { CreditNote, Invoice } from './api';
+import { roundMoney } from './discounts';
+
+export const AGING_BUCKETS = [
+  { key: 'current', label: '0–30 days', maxDays: 30 },
+  { key: 'days31to60', label: '31–60 days', maxDays: 60 },
+  { key: 'days61to90', label: '61–90 days', maxDays: 90 },
+  { key: 'over90', label: '90+ days', maxDays: Infinity },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]['key'];
+
+export interface AgingRow {
+  customerId: string | null;
+  customerName: string;
+  invoiceCount: number;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+});
+
+/**
+ * Bucket an invoice by its age in days on the report date
+ */
+export function agingBucketFor(invoiceDate: Date, asOf: Date): AgingBucket {
+  const age = Math.max(0, differenceInCalendarDays(asOf, invoiceDate));
+  return AGING_BUCKETS.find((bucket) => age <= bucket.maxDays)!.key;
+}
+
+/**
+ * What an invoice still owed at the end of the report date: payments and returns dated after it
+ * are left out, and a sale voided by then owes nothing. Payments without a date were taken at the sale.
+ */
+export function balanceAsOf(invoice: Invoice, creditNotes: CreditNote[], asOf: Date): number {
+  if (invoice.voided_at && new Date(invoice.voided_at) <= asOf) return 0;
+
+  const payments = invoice.payments ?? [];
+  const paid = payments.length > 0
+    ? payments
+        .filter((payment) => !payment.paid_at || new Date(payment.paid_at) <= asOf)
+        .reduce((sum, payment) => sum + payment.amount, 0)
+    : invoice.amount_paid ?? 0;
+  const returned = creditNotes
+    .filter((note) => note.invoice_id === invoice.id && new Date(note.created_at) <= asOf)
+    .reduce((sum, note) => sum + note.total, 0);
+
+  return Math.max(0, roundMoney(invoice.total - returned - paid));
+}
+
+/**
+ * Group balances owed on the report date by customer and age. Invoices with nothing owed are
+ * skipped; unlinked invoices are grouped by their customer name snapshot.
+ */
+export function buildAgingReport(invoices: Invoice[], creditNotes: CreditNote[], asOf: Date) {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyBuckets();
+
+  invoices.forEach((invoice) => {
+    if (new Date(invoice.created_at) > asOf) return;
+    const balance = balanceAsOf(invoice, creditNotes, asOf);
+    if (balance <= 0) return;
+
+    const key = invoice.customer_id || `name:${invoice.customer_name.toLowerCase()}`;
+    const row = rows.get(key) || {
+      customerId: invoice.customer_id || null,
+      customerName: invoice.customer_name,
+      invoiceCount: 0,
+      buckets: emptyBuckets(),
+      total: 0,
+    };
+
+    const bucket = agingBucketFor(new Date(invoice.created_at), asOf);
+    row.buckets[bucket] = roundMoney(row.buckets[bucket] + balance);
+    row.total = roundMoney(row.total + balance);
+    row.invoiceCount++;
+    totals[bucket] = roundMoney(totals[bucket] + balance);
+    rows.set(key, row);
+  });
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) => b.total - a.total);
+  const grandTotal = roundMoney(sortedRows.reduce((sum, row) => sum + row.total, 0));
+
+  return { rows: sortedRows, totals, grandTotal };
+}
@@ -0,0 +1,69 @@
+/**
+ * Stock Ledger
+ * Labels and running-balance helpers for product stock movements, and overselling checks
+ */
+
+import { ApiError } from './api';
+import type { InsufficientStockError, InvoiceProduct, StockMovement, StockMovementType, StockPolicy } from './api';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening: 'Opening stock',
+  sale: 'Sale',
+  return: 'Return',
+  void: 'Voided sale',
+  adjustment: 'Adjustment',
+  receipt: 'Received',
+  write_off: 'Write-off',
+};
+
+/**
+ * Stock on hand before the first movement shown, e.g. when the list is filtered by date
+ */
+export function balanceBroughtForward(movements: StockMovement[]): number {
+  if (movements.length === 0) return 0;
+  return movements[0].balance_after - movements[0].quantity;
+}
+
+/**
+ * Sum movements by type, e.g. to show how much was sold versus written off
+ */
+export function totalsByMovementType(movements: StockMovement[]) {
+  const totals: Partial<Record<StockMovementType, number>> = {};
+  movements.forEach((movement) => {
+    totals[movement.type] = (totals[movement.type] ?? 0) + movement.quantity;
+  });
+  return totals;
+}
+
+export const STOCK_POLICY_LABELS: Record<StockPolicy, string> = {
+  block: 'Block the sale',
+  override: 'Allow with manager override',
+  allow_negative: 'Allow negative stock',
+};
+
+/**
+ * Quantity asked for per catalogue product, adding up lines that repeat a product.
+ * Bundle lines ask for their components rather than the bundle.
+ */
+export function requestedQuantities(lines: Pick<InvoiceProduct, 'id' | 'quantity' | 'components'>[]): Map<string, number> {
+  const requested = new Map<string, number>();
+  const add = (id: string, quantity: number) => requested.set(id, (requested.get(id) ?? 0) + quantity);
+  lines.forEach((line) => {
+    if (line.components?.length) {
+      line.components.forEach((component) => add(component.id, component.quantity * line.quantity));
+    } else {
+      add(line.id, line.quantity);
+    }
+  });
+  return requested;
+}
+
+/**
+ * The shortage detail from a failed sale, or null if the error was something else
+ */
+export function insufficientStockFrom(error: unknown): InsufficientStockError | null {
+  if (error instanceof ApiError && error.code === 'insufficient_stock') {
+    return error.data as unknown as InsufficientStockError;
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+/**
+ * Stocktakes
+ * Labels and variance helpers for physical stock counts
+ */
+
+import type { StocktakeItem, StocktakeStatus } from './api';
+import { roundMoney } from './discounts';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Counted minus expected units, or null if nobody has counted the item yet
+ */
+export function itemVariance(item: StocktakeItem): number | null {
+  return item.counted_quantity === null ? null : item.counted_quantity - item.system_quantity;
+}
+
+/**
+ * The variance valued at the item's cost price, or null if it is uncounted or its cost is unknown
+ */
+export function itemVarianceValue(item: StocktakeItem): number | null {
+  const variance = itemVariance(item);
+  if (variance === null || item.cost_price === null) return null;
+  return roundMoney(variance * item.cost_price);
+}
+
+/**
+ * Totals across a stocktake's items. Values only include items with a known cost price;
+ * unknownCost counts the items with a variance that could not be valued.
+ */
+export function summariseStocktake(items: StocktakeItem[]) {
+  return items.reduce(
+    (summary, item) => {
+      const variance = itemVariance(item);
+      if (variance === null) {
+        return { ...summary, uncounted: summary.uncounted + 1 };
+      }
+
+      const value = itemVarianceValue(item) ?? 0;
+      return {
+        ...summary,
+        counted: summary.counted + 1,
+        matched: summary.matched + (variance === 0 ? 1 : 0),
+        shortUnits: summary.shortUnits + Math.max(0, -variance),
+        overUnits: summary.overUnits + Math.max(0, variance),
+        shortValue: roundMoney(summary.shortValue + Math.min(0, value)),
+        overValue: roundMoney(summary.overValue + Math.max(0, value)),
+        netValue: roundMoney(summary.netValue + value),
+        unknownCost: summary.unknownCost + (variance !== 0 && item.cost_price === null ? 1 : 0),
+      };
+    },
+    { counted: 0, uncounted: 0, matched: 0, shortUnits: 0, overUnits: 0, shortValue: 0, overValue: 0, netValue: 0, unknownCost: 0 }
+  );
+}
+
+/**
+ * What one counter has counted of an item, or null if they have not counted it
+ */
+export function counterQuantity(item: StocktakeItem, counter: string): number | null {
+  return item.counts.find((count) => count.counter === counter)?.quantity ?? null;
+}
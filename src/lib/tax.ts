@@ -0,0 +1,124 @@
+/**
+ * Tax Engine
+ * Resolves which tax rate applies to a product and computes line tax and invoice totals
+ */
+
+import type { CompanySettings, Discount, InvoiceProduct, TaxClass, TaxRate } from './api';
+import { allocateDiscount, calculateDiscountAmount, roundMoney } from './discounts';
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: 'Standard',
+  zero_rated: 'Zero-rated',
+  exempt: 'Exempt',
+};
+
+type TaxSettings = Pick<CompanySettings, 'tax_rates' | 'default_tax_rate_id' | 'category_tax_rates'>;
+
+/**
+ * Pick the rate for a product: its own override, then its category's rate, then the default.
+ * Falls back to the first configured rate if a stored id no longer exists.
+ */
+export function resolveTaxRate(
+  product: { tax_rate_id?: string | null; category?: string },
+  settings: TaxSettings
+): TaxRate {
+  const findRate = (id?: string | null) =>
+    id ? settings.tax_rates.find((rate) => rate.id === id) : undefined;
+
+  return (
+    findRate(product.tax_rate_id) ||
+    (product.category ? findRate(settings.category_tax_rates[product.category]) : undefined) ||
+    findRate(settings.default_tax_rate_id) ||
+    settings.tax_rates[0]
+  );
+}
+
+/**
+ * Percentage actually charged for a rate; only standard-rated supplies carry tax
+ */
+export function effectiveRate(rate: TaxRate): number {
+  return rate.tax_class === 'standard' ? rate.rate : 0;
+}
+
+/**
+ * Tax contained in (inclusive) or added to (exclusive) an amount
+ */
+export function calculateTax(amount: number, ratePercent: number, pricesIncludeTax: boolean): number {
+  if (ratePercent <= 0) return 0;
+  return pricesIncludeTax
+    ? amount - amount / (1 + ratePercent / 100)
+    : amount * (ratePercent / 100);
+}
+
+/**
+ * Stamp a line with the rate it is sold under
+ */
+export function applyTaxRate<T extends InvoiceProduct>(line: T, rate: TaxRate): T {
+  return {
+    ...line,
+    tax_rate_id: rate.id,
+    tax_rate_name: rate.name,
+    tax_rate: effectiveRate(rate),
+    tax_class: rate.tax_class,
+  };
+}
+
+/**
+ * Compute discounts, per-line tax and invoice totals, in that order.
+ * Line discounts come off each line first; an invoice discount is then taken off
+ * what remains and shared across lines so each line is taxed on its net amount.
+ * Subtotal is the sum of line amounts as priced; with tax-inclusive pricing the
+ * total equals the discounted subtotal and tax is the portion already contained in it.
+ */
+export function calculateInvoiceTotals<T extends InvoiceProduct>(
+  lines: T[],
+  pricesIncludeTax: boolean,
+  invoiceDiscount?: Discount | null
+) {
+  const grossAmounts = lines.map((line) => roundMoney(line.price * line.quantity));
+  const lineDiscounts = lines.map((line, index) => calculateDiscountAmount(grossAmounts[index], line.discount));
+  const afterLineDiscounts = grossAmounts.map((gross, index) => gross - lineDiscounts[index]);
+
+  const invoiceDiscountAmount = calculateDiscountAmount(
+    afterLineDiscounts.reduce((sum, amount) => sum + amount, 0),
+    invoiceDiscount
+  );
+  const invoiceDiscountShares = allocateDiscount(afterLineDiscounts, invoiceDiscountAmount);
+
+  const taxedLines = lines.map((line, index) => {
+    const taxable = afterLineDiscounts[index] - invoiceDiscountShares[index];
+    return {
+      ...line,
+      discount_amount: lineDiscounts[index],
+      invoice_discount_share: invoiceDiscountShares[index],
+      tax_amount: roundMoney(calculateTax(taxable, line.tax_rate ?? 0, pricesIncludeTax)),
+    };
+  });
+
+  const subtotal = roundMoney(grossAmounts.reduce((sum, amount) => sum + amount, 0));
+  const discountTotal = roundMoney(
+    lineDiscounts.reduce((sum, amount) => sum + amount, 0) + invoiceDiscountAmount
+  );
+  const tax = roundMoney(taxedLines.reduce((sum, line) => sum + line.tax_amount, 0));
+  const net = roundMoney(subtotal - discountTotal);
+  const total = pricesIncludeTax ? net : roundMoney(net + tax);
+
+  return { lines: taxedLines, subtotal, invoiceDiscountAmount, discountTotal, tax, total };
+}
+
+/**
+ * Group line tax by rate for display on receipts and summaries
+ */
+export function summariseTaxByRate(lines: InvoiceProduct[]) {
+  const summary = new Map<string, { name: string; rate: number; tax: number }>();
+
+  lines.forEach((line) => {
+    if (line.tax_rate_name === undefined || line.tax_class === 'exempt') return;
+    const key = `${line.tax_rate_name}|${line.tax_rate}`;
+    const entry = summary.get(key) || { name: line.tax_rate_name, rate: line.tax_rate ?? 0, tax: 0 };
+    entry.tax = roundMoney(entry.tax + (line.tax_amount ?? 0));
+    summary.set(key, entry);
+  });
+
+  return Array.from(summary.values());
+}
@@ -0,0 +1,68 @@
+/**
+ * Product Variants
+ * Variants are products with a parent_id; these helpers group them under their parent for display
+ */
+
+import type { Product, VariantAttribute } from './api';
+
+type VariantNode = Pick<Product, 'id' | 'name' | 'parent_id'>;
+
+export interface ProductGroup<T extends VariantNode = Product> {
+  product: T;
+  variants: T[];
+}
+
+export function hasVariants(product: Pick<Product, 'variant_count'>): boolean {
+  return product.variant_count > 0;
+}
+
+/**
+ * Products that can go on a sale or order: everything except parents that have variants
+ */
+export function sellableProducts<T extends Pick<Product, 'variant_count'>>(products: T[]): T[] {
+  return products.filter((product) => !hasVariants(product));
+}
+
+/**
+ * The attribute values that tell a variant apart, e.g. "Red / Large"
+ */
+export function variantLabel(attributes: VariantAttribute[] | null): string {
+  return (attributes ?? []).map((attribute) => attribute.value).join(' / ');
+}
+
+export function variantName(parentName: string, attributes: VariantAttribute[]): string {
+  return `${parentName} - ${variantLabel(attributes)}`;
+}
+
+/**
+ * Nest variants under their parent, keeping the order of the list. Variants whose
+ * parent is not in the list are shown on their own.
+ */
+export function groupVariants<T extends VariantNode>(products: T[]): ProductGroup<T>[] {
+  const ids = new Set(products.map((product) => product.id));
+  const variantsByParent = new Map<string, T[]>();
+  products.forEach((product) => {
+    if (product.parent_id && ids.has(product.parent_id)) {
+      variantsByParent.set(product.parent_id, [...(variantsByParent.get(product.parent_id) ?? []), product]);
+    }
+  });
+
+  return products
+    .filter((product) => !product.parent_id || !ids.has(product.parent_id))
+    .map((product) => ({
+      product,
+      variants: (variantsByParent.get(product.id) ?? []).sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
+
+/**
+ * Stock and price range across a parent's variants
+ */
+export function variantSummary(variants: Pick<Product, 'stock' | 'price'>[]) {
+  const prices = variants.map((variant) => variant.price);
+  return {
+    stock: variants.reduce((total, variant) => total + variant.stock, 0),
+    minPrice: Math.min(...prices),
+    maxPrice: Math.max(...prices),
+  };
+}
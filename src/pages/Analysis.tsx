@@ -1,9 +1,18 @@
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { TrendingUp, TrendingDown, Calendar, DollarSign } from "lucide-react";
-import { api } from "@/lib/api";
+import { api, PaymentMethodTotal, ProfitData } from "@/lib/api";
+import { formatMargin } from "@/lib/profit";
+import { format, startOfMonth } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { PaymentMethodBreakdown } from "@/components/PaymentMethodBreakdown";
+import { CategoryFilter } from "@/components/CategoryFilter";
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts";
 
 interface SalesData {
@@ -14,9 +23,16 @@ interface SalesData {
 
 const Analysis = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const [weeklyData, setWeeklyData] = useState<SalesData[]>([]);
   const [monthlyData, setMonthlyData] = useState<SalesData[]>([]);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodTotal[]>([]);
   const [loading, setLoading] = useState(true);
+  const [profit, setProfit] = useState<ProfitData | null>(null);
+  const [profitFrom, setProfitFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [profitTo, setProfitTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [profitGroupBy, setProfitGroupBy] = useState<ProfitData['groupBy']>('product');
+  const [profitCategoryId, setProfitCategoryId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     thisWeekTotal: 0,
     lastWeekTotal: 0,
@@ -30,6 +46,25 @@ const Analysis = () => {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (user) {
+      fetchProfit(profitFrom, profitTo, profitGroupBy, profitCategoryId);
+    }
+  }, [user, profitFrom, profitTo, profitGroupBy, profitCategoryId]);
+
+  const fetchProfit = async (from: string, to: string, groupBy: ProfitData['groupBy'], categoryId: string | null) => {
+    try {
+      setProfit(await api.getProfitData({
+        from: from || undefined,
+        to: to || undefined,
+        groupBy,
+        categoryId: categoryId ?? undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to fetch profitability:', error);
+    }
+  };
+
   const fetchAnalytics = async () => {
     setLoading(true);
     
@@ -38,6 +73,7 @@ const Analysis = () => {
       
       setWeeklyData(data.weeklyData);
       setMonthlyData(data.monthlyData);
+      setPaymentMethods(data.thisMonthByPaymentMethod);
       setStats({
         thisWeekTotal: data.thisWeekTotal,
         lastWeekTotal: data.lastWeekTotal,
@@ -59,7 +95,8 @@ const Analysis = () => {
     ? ((stats.thisMonthTotal - stats.lastMonthTotal) / stats.lastMonthTotal * 100).toFixed(1)
     : stats.thisMonthTotal > 0 ? "100" : "0";
 
-  const formatCurrency = (value: number) => `₦${value.toLocaleString()}`;
+  const currency = settings.currency_symbol;
+  const formatCurrency = (value: number) => `${currency}${value.toLocaleString()}`;
 
   return (
     <div className="space-y-6">
@@ -138,6 +175,8 @@ const Analysis = () => {
         <TabsList>
           <TabsTrigger value="weekly">Weekly Trend</TabsTrigger>
           <TabsTrigger value="monthly">Monthly Trend</TabsTrigger>
+          <TabsTrigger value="payments">Payment Methods</TabsTrigger>
+          <TabsTrigger value="profit">Profitability</TabsTrigger>
         </TabsList>
 
         <TabsContent value="weekly">
@@ -155,7 +194,7 @@ const Analysis = () => {
                   <BarChart data={weeklyData}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis dataKey="date" className="text-xs" />
-                    <YAxis tickFormatter={(value) => `₦${(value / 1000).toFixed(0)}k`} className="text-xs" />
+                    <YAxis tickFormatter={(value) => `${currency}${(value / 1000).toFixed(0)}k`} className="text-xs" />
                     <Tooltip 
                       formatter={(value: number) => [formatCurrency(value), "Sales"]}
                       contentStyle={{ 
@@ -187,7 +226,7 @@ const Analysis = () => {
                   <AreaChart data={monthlyData}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis dataKey="date" className="text-xs" />
-                    <YAxis tickFormatter={(value) => `₦${(value / 1000).toFixed(0)}k`} className="text-xs" />
+                    <YAxis tickFormatter={(value) => `${currency}${(value / 1000).toFixed(0)}k`} className="text-xs" />
                     <Tooltip 
                       formatter={(value: number) => [formatCurrency(value), "Sales"]}
                       contentStyle={{ 
@@ -209,6 +248,157 @@ const Analysis = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="payments">
+          <Card>
+            <CardHeader>
+              <CardTitle>This Month by Payment Method</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                  Loading...
+                </div>
+              ) : (
+                <PaymentMethodBreakdown totals={paymentMethods} currency={currency} />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="profit" className="space-y-4">
+          <Card>
+            <CardHeader className="space-y-4">
+              <CardTitle>Gross Profit</CardTitle>
+              <div className="flex flex-wrap gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="profit-from" className="text-xs">From</Label>
+                  <Input id="profit-from" type="date" value={profitFrom} onChange={(e) => setProfitFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="profit-to" className="text-xs">To</Label>
+                  <Input id="profit-to" type="date" value={profitTo} onChange={(e) => setProfitTo(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Category</Label>
+                  <CategoryFilter value={profitCategoryId} onChange={setProfitCategoryId} />
+                </div>
+                <div className="flex items-center gap-2 self-end pb-2">
+                  <Switch
+                    id="profit-group-by"
+                    checked={profitGroupBy === 'parent'}
+                    onCheckedChange={(checked) => setProfitGroupBy(checked ? 'parent' : 'product')}
+                  />
+                  <Label htmlFor="profit-group-by" className="text-sm">Combine variants under their parent</Label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {profit && (
+                <div className="grid gap-4 sm:grid-cols-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Net Revenue</p>
+                    <p className="text-2xl font-bold">{formatCurrency(profit.revenue)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Cost of Goods</p>
+                    <p className="text-2xl font-bold">{formatCurrency(profit.cost)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Gross Profit</p>
+                    <p className={`text-2xl font-bold ${profit.grossProfit < 0 ? "text-red-500" : ""}`}>{formatCurrency(profit.grossProfit)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Margin</p>
+                    <p className="text-2xl font-bold">{formatMargin(profit.margin)}</p>
+                  </div>
+                </div>
+              )}
+              {profit && profit.uncostedRevenue !== 0 && (
+                <p className="text-xs text-muted-foreground mt-4">
+                  {formatCurrency(profit.uncostedRevenue)} of revenue came from items without a cost price and is left out of profit and margin.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>By Product</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!profit || profit.byProduct.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No sales in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead className="text-center">Sold</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                        <TableHead className="text-right">Profit</TableHead>
+                        <TableHead className="text-right">Margin</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profit.byProduct.map((row) => (
+                        <TableRow key={row.product_id ?? row.name}>
+                          <TableCell>
+                            <p className="font-medium">{row.name}</p>
+                            <p className="text-xs text-muted-foreground">{row.category}</p>
+                          </TableCell>
+                          <TableCell className="text-center">{row.quantity}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                          <TableCell className={`text-right ${row.grossProfit < 0 ? "text-red-500" : ""}`}>
+                            {row.margin === null ? '-' : formatCurrency(row.grossProfit)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMargin(row.margin)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:self-start">
+              <CardHeader>
+                <CardTitle>By Category</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!profit || profit.byCategory.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No sales in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                        <TableHead className="text-right">Profit</TableHead>
+                        <TableHead className="text-right">Margin</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profit.byCategory.map((row) => (
+                        <TableRow key={row.category}>
+                          <TableCell className="font-medium">{row.category}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.revenue)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.cost)}</TableCell>
+                          <TableCell className={`text-right ${row.grossProfit < 0 ? "text-red-500" : ""}`}>
+                            {formatCurrency(row.grossProfit)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatMargin(row.margin)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -10,8 +10,11 @@ import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import { api } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { downloadCsv } from "@/utils/downloadCsv";
+import { CategoryFilter } from "@/components/CategoryFilter";
 
 interface AuditEntry {
   id: string;
@@ -19,28 +22,35 @@ interface AuditEntry {
   invoice_number: string;
   customer_name: string;
   issuer_name: string;
+  discount_total: number;
   total: number;
   products: { name: string; quantity: number; price: number }[];
 }
 
 const Audits = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
   const [audits, setAudits] = useState<AuditEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [fromDate, setFromDate] = useState<Date | undefined>();
   const [toDate, setToDate] = useState<Date | undefined>();
+  const [categoryId, setCategoryId] = useState<string | null>(null);
 
   useEffect(() => {
     if (user) {
       fetchAudits();
     }
-  }, [user, fromDate, toDate]);
+  }, [user, fromDate, toDate, categoryId]);
 
   const fetchAudits = async () => {
     setLoading(true);
     
     try {
-      const filters: { from?: string; to?: string; limit?: number } = { limit: 500 };
+      const filters: { from?: string; to?: string; categoryId?: string; limit?: number; excludeVoided?: boolean } = {
+        limit: 500,
+        excludeVoided: true,
+      };
       
       if (fromDate) {
         filters.from = format(fromDate, "yyyy-MM-dd");
@@ -48,6 +58,9 @@ const Audits = () => {
       if (toDate) {
         filters.to = format(toDate, "yyyy-MM-dd");
       }
+      if (categoryId) {
+        filters.categoryId = categoryId;
+      }
       
       const data = await api.getInvoices(filters);
       
@@ -57,6 +70,7 @@ const Audits = () => {
         invoice_number: inv.invoice_number,
         customer_name: inv.customer_name,
         issuer_name: inv.issuer_name,
+        discount_total: inv.discount_total || 0,
         total: inv.total,
         products: inv.products as unknown as { name: string; quantity: number; price: number }[],
       })));
@@ -67,10 +81,13 @@ const Audits = () => {
     setLoading(false);
   };
 
+  const periodSalesTotal = audits.reduce((sum, audit) => sum + audit.total, 0);
+  const periodDiscountTotal = audits.reduce((sum, audit) => sum + audit.discount_total, 0);
+
   const downloadCSV = () => {
     if (audits.length === 0) return;
 
-    const headers = ["Date", "Invoice #", "Customer", "Issued By", "Items", "Products Detail", "Total (₦)"];
+    const headers = ["Date", "Invoice #", "Customer", "Issued By", "Items", "Products Detail", `Discount (${currency})`, `Total (${currency})`];
     const rows = audits.map((audit) => [
       format(new Date(audit.created_at), "dd/MM/yyyy HH:mm"),
       audit.invoice_number,
@@ -78,18 +95,10 @@ const Audits = () => {
       audit.issuer_name,
       audit.products.reduce((sum, p) => sum + p.quantity, 0),
       audit.products.map(p => `${p.name} x${p.quantity}`).join("; "),
+      audit.discount_total.toLocaleString(),
       audit.total.toLocaleString()
     ]);
 
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(","))
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    
     const dateRange = fromDate && toDate 
       ? `_${format(fromDate, "yyyyMMdd")}-${format(toDate, "yyyyMMdd")}`
       : fromDate 
@@ -98,12 +107,7 @@ const Audits = () => {
           ? `_to_${format(toDate, "yyyyMMdd")}`
           : "";
     
-    link.setAttribute("href", url);
-    link.setAttribute("download", `transaction_history${dateRange}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(`transaction_history${dateRange}.csv`, headers, rows);
   };
 
   const downloadPDF = () => {
@@ -119,11 +123,24 @@ const Audits = () => {
           ? `To ${format(toDate, "dd/MM/yyyy")}`
           : "All Time";
 
+    const companyDetails = [settings.company_address, settings.company_phone, settings.company_email]
+      .filter(Boolean)
+      .join(" | ");
+
+    doc.setFontSize(14);
+    doc.text(settings.company_name || "Transaction History", 14, 16);
+    doc.setFontSize(9);
+    doc.text(companyDetails, 14, 21);
     doc.setFontSize(18);
-    doc.text("Transaction History", 14, 22);
+    doc.text("Transaction History", 14, 30);
     doc.setFontSize(11);
-    doc.text(`Period: ${dateRange}`, 14, 30);
-    doc.text(`Generated: ${format(new Date(), "dd/MM/yyyy HH:mm")}`, 14, 36);
+    doc.text(`Period: ${dateRange}`, 14, 38);
+    doc.text(`Generated: ${format(new Date(), "dd/MM/yyyy HH:mm")}`, 14, 44);
+    doc.text(
+      `Sales: ${currency}${periodSalesTotal.toLocaleString()}   Discounts given: ${currency}${periodDiscountTotal.toLocaleString()}`,
+      14,
+      50
+    );
 
     const tableData = audits.map((audit) => [
       format(new Date(audit.created_at), "dd/MM/yyyy HH:mm"),
@@ -131,13 +148,14 @@ const Audits = () => {
       audit.customer_name,
       audit.issuer_name,
       audit.products.reduce((sum, p) => sum + p.quantity, 0).toString(),
-      `₦${audit.total.toLocaleString()}`
+      audit.discount_total > 0 ? `-${currency}${audit.discount_total.toLocaleString()}` : "",
+      `${currency}${audit.total.toLocaleString()}`
     ]);
 
     autoTable(doc, {
-      head: [["Date", "Invoice #", "Customer", "Issued By", "Items", "Total"]],
+      head: [["Date", "Invoice #", "Customer", "Issued By", "Items", "Discount", "Total"]],
       body: tableData,
-      startY: 42,
+      startY: 56,
       styles: { fontSize: 9 },
       headStyles: { fillColor: [41, 128, 185] },
     });
@@ -192,8 +210,10 @@ const Audits = () => {
                 </PopoverContent>
               </Popover>
 
-              {(fromDate || toDate) && (
-                <Button variant="ghost" size="sm" onClick={() => { setFromDate(undefined); setToDate(undefined); }}>
+              <CategoryFilter value={categoryId} onChange={setCategoryId} className="h-9 w-[180px]" />
+
+              {(fromDate || toDate || categoryId) && (
+                <Button variant="ghost" size="sm" onClick={() => { setFromDate(undefined); setToDate(undefined); setCategoryId(null); }}>
                   Clear
                 </Button>
               )}
@@ -217,38 +237,54 @@ const Audits = () => {
           ) : audits.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">No transactions found</p>
           ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Invoice #</TableHead>
-                  <TableHead>Customer</TableHead>
-                  <TableHead>Issued By</TableHead>
-                  <TableHead>Items</TableHead>
-                  <TableHead className="text-right">Total</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {audits.map((audit) => (
-                  <TableRow key={audit.id}>
-                    <TableCell className="text-sm">
-                      {format(new Date(audit.created_at), "dd/MM/yyyy HH:mm")}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="outline">{audit.invoice_number}</Badge>
-                    </TableCell>
-                    <TableCell>{audit.customer_name}</TableCell>
-                    <TableCell>{audit.issuer_name}</TableCell>
-                    <TableCell>
-                      {audit.products.reduce((sum, p) => sum + p.quantity, 0)} items
-                    </TableCell>
-                    <TableCell className="text-right font-medium">
-                      ₦{audit.total.toLocaleString()}
-                    </TableCell>
+            <>
+              <div className="flex flex-wrap gap-x-6 gap-y-1 mb-4 text-sm">
+                <span>
+                  <span className="text-muted-foreground">Sales: </span>
+                  <span className="font-medium">{currency}{periodSalesTotal.toLocaleString()}</span>
+                </span>
+                <span>
+                  <span className="text-muted-foreground">Discounts given: </span>
+                  <span className="font-medium">{currency}{periodDiscountTotal.toLocaleString()}</span>
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Invoice #</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Issued By</TableHead>
+                    <TableHead>Items</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </TableHeader>
+                <TableBody>
+                  {audits.map((audit) => (
+                    <TableRow key={audit.id}>
+                      <TableCell className="text-sm">
+                        {format(new Date(audit.created_at), "dd/MM/yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{audit.invoice_number}</Badge>
+                      </TableCell>
+                      <TableCell>{audit.customer_name}</TableCell>
+                      <TableCell>{audit.issuer_name}</TableCell>
+                      <TableCell>
+                        {audit.products.reduce((sum, p) => sum + p.quantity, 0)} items
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {audit.discount_total > 0 ? `-${currency}${audit.discount_total.toLocaleString()}` : "—"}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {currency}{audit.total.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
           )}
         </CardContent>
       </Card>
@@ -0,0 +1,369 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Ban, Combine, Loader2, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { api, Category, CategoryIcon } from "@/lib/api";
+import { CATEGORY_COLORS, CATEGORY_ICONS, categoryDescendantIds, categoryTree } from "@/lib/categories";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+// Select value for a top-level category
+const NO_PARENT = "none";
+
+const Categories = () => {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(NO_PARENT);
+  const [color, setColor] = useState<string | null>(null);
+  const [icon, setIcon] = useState<CategoryIcon | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // Merge dialog state
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  useEffect(() => {
+    if (user) {
+      fetchCategories();
+    }
+  }, [user]);
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await api.getCategories());
+    } catch (error) {
+      toast.error('Failed to load categories');
+    }
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setName("");
+    setParentId(NO_PARENT);
+    setColor(null);
+    setIcon(null);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Category name is required");
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      parent_id: parentId === NO_PARENT ? null : parentId,
+      color,
+      icon,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await api.updateCategory(editingId, data);
+        toast.success('Category updated');
+      } else {
+        await api.createCategory(data);
+        toast.success('Category added');
+      }
+      fetchCategories();
+      resetForm();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Operation failed');
+    }
+    setSaving(false);
+  };
+
+  const handleEdit = (category: Category) => {
+    setName(category.name);
+    setParentId(category.parent_id ?? NO_PARENT);
+    setColor(category.color);
+    setIcon(category.icon);
+    setEditingId(category.id);
+  };
+
+  const handleDelete = async (category: Category) => {
+    try {
+      await api.deleteCategory(category.id);
+      toast.success('Category deleted');
+      if (editingId === category.id) resetForm();
+      fetchCategories();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete category');
+    }
+  };
+
+  const openMerge = (category: Category) => {
+    setMerging(category);
+    setMergeTargetId("");
+  };
+
+  const handleMerge = async () => {
+    if (!merging || !mergeTargetId) return;
+    setSaving(true);
+    try {
+      const target = await api.mergeCategory(merging.id, mergeTargetId);
+      toast.success(`${merging.name} merged into ${target.name}`);
+      if (editingId === merging.id) resetForm();
+      setMerging(null);
+      fetchCategories();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge categories');
+    }
+    setSaving(false);
+  };
+
+  const tree = categoryTree(categories);
+  // A category cannot move under itself or one of its own subcategories
+  const blockedParents = editingId ? categoryDescendantIds(categories, editingId) : new Set<string>();
+  const blockedTargets = merging ? categoryDescendantIds(categories, merging.id) : new Set<string>();
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link to="/products" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to products
+        </Link>
+        <h1 className="text-2xl font-bold">Categories</h1>
+        <p className="text-muted-foreground">Group products for the till, tax rates and reports</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[350px_1fr]">
+        {/* Add/Edit Form */}
+        <Card className="lg:self-start">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+              {editingId ? 'Edit Category' : 'Add Category'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Routers"
+                  maxLength={100}
+                />
+                {editingId && (
+                  <p className="text-xs text-muted-foreground">Renaming updates its products, tax rate and past sales</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="category-parent">Parent Category</Label>
+                <Select value={parentId} onValueChange={setParentId}>
+                  <SelectTrigger id="category-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border border-border z-50">
+                    <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                    {tree
+                      .filter(({ category }) => !blockedParents.has(category.id))
+                      .map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          <span style={{ paddingLeft: depth * 12 }}>{category.name}</span>
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Colour</Label>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    title="No colour"
+                    onClick={() => setColor(null)}
+                    className={cn(
+                      "h-7 w-7 rounded-full border flex items-center justify-center text-muted-foreground",
+                      color === null && "ring-2 ring-primary ring-offset-2"
+                    )}
+                  >
+                    <Ban className="h-3.5 w-3.5" />
+                  </button>
+                  {CATEGORY_COLORS.map((swatch) => (
+                    <button
+                      key={swatch}
+                      type="button"
+                      title={swatch}
+                      onClick={() => setColor(swatch)}
+                      className={cn("h-7 w-7 rounded-full", color === swatch && "ring-2 ring-primary ring-offset-2")}
+                      style={{ backgroundColor: swatch }}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Icon</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant={icon === null ? "secondary" : "outline"}
+                    title="No icon"
+                    onClick={() => setIcon(null)}
+                  >
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                  {(Object.keys(CATEGORY_ICONS) as CategoryIcon[]).map((key) => {
+                    const Icon = CATEGORY_ICONS[key];
+                    return (
+                      <Button
+                        key={key}
+                        type="button"
+                        size="icon"
+                        variant={icon === key ? "secondary" : "outline"}
+                        title={key}
+                        onClick={() => setIcon(key)}
+                      >
+                        <Icon className="h-4 w-4" style={{ color: color ?? undefined }} />
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1 gap-2" disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  {editingId ? 'Update' : 'Add'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Categories List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Categories ({categories.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : categories.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No categories yet. Add your first category!</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-center">Products</TableHead>
+                    <TableHead className="w-[140px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tree.map(({ category, depth }) => (
+                    <TableRow key={category.id}>
+                      <TableCell style={{ paddingLeft: 16 + depth * 24 }}>
+                        <CategoryBadge name={category.name} category={category} className="font-medium" />
+                      </TableCell>
+                      <TableCell className="text-center">{category.product_count}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button size="icon" variant="ghost" title="Edit" onClick={() => handleEdit(category)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title="Merge into another category"
+                            onClick={() => openMerge(category)}
+                            disabled={categories.length < 2}
+                          >
+                            <Combine className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            title={category.product_count > 0 ? "Merge to move its products first" : "Delete"}
+                            onClick={() => handleDelete(category)}
+                            disabled={category.product_count > 0}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!merging} onOpenChange={(open) => { if (!open) setMerging(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {merging?.name}</DialogTitle>
+            <DialogDescription>
+              Its {merging?.product_count ?? 0} product(s), subcategories and past sales move to the chosen
+              category, and {merging?.name} is deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="merge-target">Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger id="merge-target">
+                <SelectValue placeholder="Choose a category" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border border-border z-50">
+                {tree
+                  .filter(({ category }) => !blockedTargets.has(category.id))
+                  .map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      <span style={{ paddingLeft: depth * 12 }}>{category.name}</span>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerging(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Categories;
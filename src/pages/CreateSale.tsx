@@ -1,63 +1,101 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { InvoiceForm } from "@/components/InvoiceForm";
-import { POSReceipt } from "@/components/POSReceipt";
+import { PaymentForm } from "@/components/PaymentForm";
+import { ReceiptPreview } from "@/components/ReceiptPreview";
+import { StockOverrideDialog } from "@/components/StockOverrideDialog";
 import { Invoice } from "@/types/invoice";
-import { Button } from "@/components/ui/button";
-import { Printer, X, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
-import { api } from "@/lib/api";
+import { useSettings } from "@/hooks/useSettings";
+import { api, InsufficientStockError, Payment } from "@/lib/api";
+import { insufficientStockFrom } from "@/lib/stock";
 import { toast } from "sonner";
-import { printReceipt } from "@/utils/printReceipt";
+
+interface SalePayment {
+  payments: Payment[];
+  amountPaid: number;
+  changeDue: number;
+}
 
 const CreateSale = () => {
+  const [pendingInvoice, setPendingInvoice] = useState<Invoice | null>(null);
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [saving, setSaving] = useState(false);
-  const receiptRef = useRef<HTMLDivElement>(null);
+  // Remounting the form after a sale clears the cart and reloads stock levels
+  const [formKey, setFormKey] = useState(0);
+  const [shortage, setShortage] = useState<InsufficientStockError | null>(null);
+  const [overrideError, setOverrideError] = useState<string>();
+  const [heldPayment, setHeldPayment] = useState<SalePayment | null>(null);
   const { user } = useAuth();
+  const { settings } = useSettings();
+
+  const handleGenerateInvoice = (newInvoice: Invoice) => {
+    setInvoice(null);
+    setPendingInvoice(newInvoice);
+  };
+
+  const handleConfirmPayment = async (payment: SalePayment, stockOverridePin?: string) => {
+    if (!pendingInvoice || !user) return;
 
-  const handleGenerateInvoice = async (newInvoice: Invoice) => {
-    setInvoice(newInvoice);
+    setSaving(true);
+    try {
+      // Create invoice via API (stock decrement and numbering happen on backend)
+      const saved = await api.createInvoice({
+        company_name: pendingInvoice.companyName,
+        company_address: pendingInvoice.companyAddress,
+        company_phone: pendingInvoice.companyPhone,
+        company_email: pendingInvoice.companyEmail,
+        customer_id: pendingInvoice.customerId,
+        customer_name: pendingInvoice.customerName,
+        issuer_name: pendingInvoice.issuerName,
+        subtotal: pendingInvoice.subtotal,
+        discount: pendingInvoice.discount,
+        discount_total: pendingInvoice.discountTotal,
+        tax: pendingInvoice.tax,
+        total: pendingInvoice.total,
+        prices_include_tax: pendingInvoice.pricesIncludeTax,
+        payments: payment.payments,
+        products: pendingInvoice.products,
+        stock_override_pin: stockOverridePin,
+      });
 
-    if (user) {
-      setSaving(true);
-      
-      try {
-        // Create invoice via API (stock decrement happens on backend)
-        await api.createInvoice({
-          invoice_number: newInvoice.id,
-          company_name: newInvoice.companyName,
-          company_address: newInvoice.companyAddress,
-          company_phone: newInvoice.companyPhone,
-          customer_name: newInvoice.customerName,
-          issuer_name: newInvoice.issuerName,
-          subtotal: newInvoice.subtotal,
-          tax: newInvoice.tax,
-          total: newInvoice.total,
-          products: newInvoice.products.map(p => ({
-            id: p.id,
-            name: p.name,
-            price: p.price,
-            quantity: p.quantity
-          })),
-        });
-        
-        toast.success("Invoice saved to history");
-      } catch (error) {
+      toast.success(`Invoice ${saved.invoice_number} saved to history`);
+      setShortage(null);
+      setHeldPayment(null);
+      setPendingInvoice(null);
+      setFormKey((key) => key + 1);
+      setInvoice({
+        ...pendingInvoice,
+        ...payment,
+        id: saved.invoice_number,
+        recordId: saved.id,
+        date: new Date(saved.created_at),
+        verificationHash: saved.verification_hash,
+      });
+    } catch (error) {
+      // Stay on the payment step so the sale can be retried without re-entering it
+      const stockError = insufficientStockFrom(error);
+      if (stockError) {
+        setShortage(stockError);
+        setHeldPayment(payment);
+        setOverrideError(stockOverridePin ? (error as Error).message : undefined);
+      } else {
         console.error("Failed to save invoice:", error);
-        toast.error("Failed to save invoice to history");
+        toast.error(error instanceof Error ? error.message : "Failed to save invoice");
       }
-      
-      setSaving(false);
     }
+    setSaving(false);
   };
 
-  const handlePrint = () => {
-    if (receiptRef.current && invoice) {
-      const success = printReceipt(receiptRef.current.innerHTML, invoice.id);
-      if (!success) {
-        toast.error("Unable to print. Please allow popups for this site.");
-      }
-    }
+  const handleOverride = (pin: string) => {
+    if (heldPayment) handleConfirmPayment(heldPayment, pin);
+  };
+
+  const handleCloseShortage = () => {
+    setShortage(null);
+    setHeldPayment(null);
+    setOverrideError(undefined);
+    // Without an override the cart has to change, so go back to it
+    if (!shortage?.override_allowed) setPendingInvoice(null);
   };
 
   const handleCloseReceipt = () => {
@@ -73,31 +111,45 @@ const CreateSale = () => {
 
       <div className="grid gap-8 lg:grid-cols-[1fr_auto]">
         <div className="no-print">
-          <InvoiceForm onGenerateInvoice={handleGenerateInvoice} />
+          {/* Kept mounted while taking payment so going back keeps the cart */}
+          <div className={pendingInvoice ? "hidden" : undefined}>
+            <InvoiceForm key={formKey} onGenerateInvoice={handleGenerateInvoice} />
+          </div>
+          {pendingInvoice && (
+            <PaymentForm
+              key={pendingInvoice.date.getTime()}
+              total={pendingInvoice.total}
+              currency={settings.currency_symbol}
+              saving={saving}
+              allowCredit={!!pendingInvoice.customerId}
+              onBack={() => setPendingInvoice(null)}
+              onConfirm={(payment) => handleConfirmPayment(payment)}
+            />
+          )}
         </div>
 
         {invoice && (
           <div className="lg:sticky lg:top-24 lg:self-start">
             <div className="bg-card rounded-xl p-6 shadow-lg border border-border/50">
-              <div className="flex items-center justify-between mb-4 no-print">
-                <h2 className="font-semibold">Receipt Preview</h2>
-                <div className="flex gap-2">
-                  <Button onClick={handlePrint} size="sm" className="gap-2" disabled={saving}>
-                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Printer className="h-4 w-4" />}
-                    Print
-                  </Button>
-                  <Button onClick={handleCloseReceipt} size="sm" variant="ghost">
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-              <div className="bg-muted/30 rounded-lg p-4 flex justify-center">
-                <POSReceipt ref={receiptRef} invoice={invoice} />
-              </div>
+              <ReceiptPreview
+                invoice={invoice}
+                busy={saving}
+                // Only a cash sale needs the drawer
+                openDrawer={!!invoice.payments?.some((payment) => payment.method === "cash")}
+                onClose={handleCloseReceipt}
+              />
             </div>
           </div>
         )}
       </div>
+
+      <StockOverrideDialog
+        shortage={shortage}
+        error={overrideError}
+        saving={saving}
+        onOpenChange={(open) => { if (!open) handleCloseShortage(); }}
+        onOverride={handleOverride}
+      />
     </div>
   );
 };
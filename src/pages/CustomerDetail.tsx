@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Calendar, FileText, Loader2, Mail, MapPin, Phone, TrendingUp, Wallet } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Customer, Invoice } from "@/lib/api";
+import { PAYMENT_STATUS_LABELS } from "@/lib/payments";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const CustomerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && id) {
+      fetchCustomer(id);
+    }
+  }, [user, id]);
+
+  const fetchCustomer = async (customerId: string) => {
+    setLoading(true);
+    try {
+      const [customerData, invoiceData] = await Promise.all([
+        api.getCustomer(customerId),
+        api.getInvoices({ customerId, excludeVoided: true }),
+      ]);
+      setCustomer(customerData);
+      setInvoices(invoiceData);
+    } catch (error) {
+      toast.error('Failed to load customer');
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="space-y-4">
+        <Link to="/customers" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to customers
+        </Link>
+        <p className="text-muted-foreground">Customer not found</p>
+      </div>
+    );
+  }
+
+  const averageSale = customer.invoice_count > 0 ? customer.total_spent / customer.invoice_count : 0;
+
+  const cards = [
+    {
+      title: "Total Spent",
+      value: `${currency}${customer.total_spent.toLocaleString()}`,
+      icon: TrendingUp,
+      description: `Average ${currency}${averageSale.toFixed(2)} per sale`,
+    },
+    {
+      title: "Balance Owed",
+      value: `${currency}${customer.balance.toLocaleString()}`,
+      icon: Wallet,
+      description: customer.balance > 0 ? "Outstanding on credit" : "Nothing owed",
+      alert: customer.balance > 0,
+    },
+    {
+      title: "Invoices",
+      value: customer.invoice_count,
+      icon: FileText,
+      description: "Purchases recorded",
+    },
+    {
+      title: "Last Purchase",
+      value: customer.last_purchase_at ? format(new Date(customer.last_purchase_at), 'dd/MM/yyyy') : '-',
+      icon: Calendar,
+      description: customer.created_at ? `Customer since ${format(new Date(customer.created_at), 'MMM yyyy')}` : '',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link to="/customers" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to customers
+        </Link>
+        <h1 className="text-2xl font-bold">{customer.name}</h1>
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+          {customer.phone && (
+            <span className="flex items-center gap-1"><Phone className="h-4 w-4" />{customer.phone}</span>
+          )}
+          {customer.email && (
+            <span className="flex items-center gap-1"><Mail className="h-4 w-4" />{customer.email}</span>
+          )}
+          {customer.address && (
+            <span className="flex items-center gap-1"><MapPin className="h-4 w-4" />{customer.address}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title} className={card.alert ? "border-destructive/50" : ""}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No purchases yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-medium">{invoice.invoice_number}</TableCell>
+                    <TableCell>{format(new Date(invoice.created_at), 'dd/MM/yyyy HH:mm')}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-[300px] truncate">
+                      {invoice.products.map((p) => `${p.name} x${p.quantity}`).join(', ')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.payment_status === 'paid' || !invoice.payment_status ? 'secondary' : 'destructive'}>
+                        {PAYMENT_STATUS_LABELS[invoice.payment_status || 'paid']}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{currency}{invoice.total.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      {(invoice.balance_due ?? 0) > 0 ? `${currency}${(invoice.balance_due ?? 0).toFixed(2)}` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomerDetail;
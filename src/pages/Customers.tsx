@@ -0,0 +1,258 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Pencil, Trash2, Loader2, Save, X, Search } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Customer } from "@/lib/api";
+import { toast } from "sonner";
+
+const Customers = () => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const navigate = useNavigate();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loadingCustomers, setLoadingCustomers] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // Form state
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [address, setAddress] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchCustomers();
+    }
+  }, [user]);
+
+  const fetchCustomers = async () => {
+    try {
+      const data = await api.getCustomers();
+      setCustomers(data);
+    } catch (error) {
+      toast.error('Failed to load customers');
+    }
+    setLoadingCustomers(false);
+  };
+
+  const resetForm = () => {
+    setName("");
+    setPhone("");
+    setEmail("");
+    setAddress("");
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Customer name is required");
+      return;
+    }
+
+    setSaving(true);
+
+    const data = {
+      name: name.trim(),
+      phone: phone.trim(),
+      email: email.trim(),
+      address: address.trim(),
+    };
+
+    try {
+      if (editingId) {
+        await api.updateCustomer(editingId, data);
+        toast.success('Customer updated');
+      } else {
+        await api.createCustomer(data);
+        toast.success('Customer added');
+      }
+      fetchCustomers();
+      resetForm();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Operation failed';
+      toast.error(message.includes('exists') ? 'Customer already exists' : message);
+    }
+
+    setSaving(false);
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setName(customer.name);
+    setPhone(customer.phone || "");
+    setEmail(customer.email || "");
+    setAddress(customer.address || "");
+    setEditingId(customer.id);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await api.deleteCustomer(id);
+      toast.success('Customer deleted');
+      fetchCustomers();
+    } catch (error) {
+      toast.error('Failed to delete customer');
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredCustomers = query
+    ? customers.filter((customer) =>
+        customer.name.toLowerCase().includes(query) ||
+        (customer.phone || "").includes(query) ||
+        (customer.email || "").toLowerCase().includes(query)
+      )
+    : customers;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Customers</h1>
+        <p className="text-muted-foreground">Manage customer records and view their purchases</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[350px_1fr]">
+        {/* Add/Edit Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+              {editingId ? 'Edit Customer' : 'Add Customer'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Enter customer name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="e.g. 0801 234 5678"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="customer@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Address</Label>
+                <Input
+                  id="address"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  placeholder="Street, city"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1 gap-2" disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  {editingId ? 'Update' : 'Add'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="outline" onClick={resetForm}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Customers List */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle>Customers ({customers.length})</CardTitle>
+            <div className="relative w-full max-w-xs">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search name, phone or email"
+                className="pl-9"
+              />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loadingCustomers ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : filteredCustomers.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {customers.length === 0 ? 'No customers yet. Add your first customer!' : 'No customers match your search'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="text-center">Invoices</TableHead>
+                    <TableHead className="text-right">Total Spent</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.map((customer) => (
+                    <TableRow
+                      key={customer.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/customers/${customer.id}`)}
+                    >
+                      <TableCell className="font-medium">{customer.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{customer.phone || '-'}</TableCell>
+                      <TableCell className="text-center">{customer.invoice_count}</TableCell>
+                      <TableCell className="text-right">
+                        {settings.currency_symbol}{customer.total_spent.toLocaleString()}
+                      </TableCell>
+                      <TableCell className={`text-right ${customer.balance > 0 ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                        {customer.balance > 0 ? `${settings.currency_symbol}${customer.balance.toLocaleString()}` : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button size="icon" variant="ghost" onClick={() => handleEdit(customer)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" onClick={() => handleDelete(customer.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Customers;
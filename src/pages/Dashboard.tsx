@@ -4,27 +4,35 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart, Package, FileText, TrendingUp, AlertTriangle, Bell, X } from "lucide-react";
-import { api } from "@/lib/api";
+import { ShoppingCart, Package, FileText, TrendingUp, AlertTriangle, Bell, X, Wallet, PiggyBank, Truck } from "lucide-react";
+import { api, PaymentMethodTotal } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { PaymentMethodBreakdown } from "@/components/PaymentMethodBreakdown";
+import { formatMargin } from "@/lib/profit";
 
 interface LowStockProduct {
   id: string;
   name: string;
   stock: number;
+  reorder_point: number;
   category: string;
 }
 
 const Dashboard = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const navigate = useNavigate();
   const [stats, setStats] = useState({
     totalSales: 0,
+    grossProfit: 0,
+    grossMargin: null as number | null,
     totalProducts: 0,
     totalInvoices: 0,
     lowStock: 0,
   });
   const [lowStockProducts, setLowStockProducts] = useState<LowStockProduct[]>([]);
+  const [salesByPaymentMethod, setSalesByPaymentMethod] = useState<PaymentMethodTotal[]>([]);
   const [showAlerts, setShowAlerts] = useState(true);
 
   useEffect(() => {
@@ -39,12 +47,15 @@ const Dashboard = () => {
       
       setStats({
         totalSales: dashboardStats.totalSales,
+        grossProfit: dashboardStats.grossProfit,
+        grossMargin: dashboardStats.grossMargin,
         totalProducts: dashboardStats.totalProducts,
         totalInvoices: dashboardStats.totalInvoices,
         lowStock: dashboardStats.lowStockCount,
       });
       
       setLowStockProducts(dashboardStats.lowStockProducts);
+      setSalesByPaymentMethod(dashboardStats.salesByPaymentMethod);
     } catch (error) {
       console.error('Failed to fetch dashboard stats:', error);
     }
@@ -53,10 +64,16 @@ const Dashboard = () => {
   const cards = [
     {
       title: "Total Sales",
-      value: `₦${stats.totalSales.toLocaleString()}`,
+      value: `${settings.currency_symbol}${stats.totalSales.toLocaleString()}`,
       icon: TrendingUp,
       description: "All time revenue",
     },
+    {
+      title: "Gross Profit",
+      value: `${settings.currency_symbol}${stats.grossProfit.toLocaleString()}`,
+      icon: PiggyBank,
+      description: `${formatMargin(stats.grossMargin)} margin on costed sales`,
+    },
     {
       title: "Total Invoices",
       value: stats.totalInvoices,
@@ -73,7 +90,7 @@ const Dashboard = () => {
       title: "Low Stock",
       value: stats.lowStock,
       icon: ShoppingCart,
-      description: "Items below 10 units",
+      description: "At or below reorder point",
       alert: stats.lowStock > 0,
     },
   ];
@@ -133,20 +150,31 @@ const Dashboard = () => {
                 <Badge variant="outline">+{lowStockProducts.length - 5} more</Badge>
               )}
             </div>
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => navigate("/products")}
-              className="gap-2"
-            >
-              <Package className="h-4 w-4" />
-              Manage Products
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => navigate("/products")}
+                className="gap-2"
+              >
+                <Package className="h-4 w-4" />
+                Manage Products
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => navigate("/purchasing?tab=reorder")}
+                className="gap-2"
+              >
+                <Truck className="h-4 w-4" />
+                Reorder Report
+              </Button>
+            </div>
           </AlertDescription>
         </Alert>
       )}
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {cards.map((card) => (
           <Card
             key={card.title}
@@ -170,6 +198,19 @@ const Dashboard = () => {
         ))}
       </div>
 
+      {/* Revenue by Payment Method */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Revenue by Payment Method
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PaymentMethodBreakdown totals={salesByPaymentMethod} currency={settings.currency_symbol} />
+        </CardContent>
+      </Card>
+
       {/* Low Stock Table */}
       {lowStockProducts.length > 0 && (
         <Card>
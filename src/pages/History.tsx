@@ -1,17 +1,35 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { api, Invoice as APIInvoice } from '@/lib/api';
-import { POSReceipt } from '@/components/POSReceipt';
+import { useSettings } from '@/hooks/useSettings';
+import { api, CreditNote, Discount, Invoice as APIInvoice, InvoicePaymentResult, InvoiceVoidResult, Payment, PaymentStatus, ReceiptShare } from '@/lib/api';
+import { ReceiptPreview } from '@/components/ReceiptPreview';
+import { RecordPaymentDialog } from '@/components/RecordPaymentDialog';
+import { ReturnDialog } from '@/components/ReturnDialog';
+import { VoidInvoiceDialog } from '@/components/VoidInvoiceDialog';
+import { CategoryFilter } from '@/components/CategoryFilter';
 import { Invoice, Product } from '@/types/invoice';
-import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button, buttonVariants } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { FileText, Printer, Trash2, Loader2, Search, X, Filter } from 'lucide-react';
+import { FileText, Trash2, Loader2, Search, X, Filter, Wallet, Undo2, Ban } from 'lucide-react';
 import { format, startOfDay, endOfDay, isWithinInterval, parseISO } from 'date-fns';
-import { printReceipt } from '@/utils/printReceipt';
+import { PAYMENT_STATUS_LABELS, getPaymentStatus } from '@/lib/payments';
+import { creditNoteToReceipt } from '@/lib/creditNotes';
+import { RECEIPT_SHARE_CHANNEL_LABELS } from '@/lib/receiptSharing';
 
 interface DBInvoice {
   id: string;
@@ -19,50 +37,95 @@ interface DBInvoice {
   company_name: string;
   company_address: string | null;
   company_phone: string | null;
+  company_email: string | null;
+  customer_id: string | null;
   customer_name: string;
   issuer_name: string;
   subtotal: number;
+  discount: Discount | null;
+  discount_total: number;
   tax: number;
   total: number;
+  prices_include_tax: boolean;
+  payments: Payment[];
+  amount_paid: number;
+  change_due: number;
+  payment_status: PaymentStatus;
+  balance_due: number;
+  returned_total: number;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
   products: Product[];
+  verification_hash: string | null;
+  shares: ReceiptShare[];
   created_at: string;
 }
 
 const History = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
   const [invoices, setInvoices] = useState<DBInvoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
-  const receiptRef = useRef<HTMLDivElement>(null);
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [dateFrom, setDateFrom] = useState('');
   const [dateTo, setDateTo] = useState('');
   const [sortBy, setSortBy] = useState<'date-desc' | 'date-asc' | 'total-desc' | 'total-asc'>('date-desc');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'outstanding' | 'voided' | PaymentStatus>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const [payingInvoice, setPayingInvoice] = useState<DBInvoice | null>(null);
+  const [returningInvoice, setReturningInvoice] = useState<DBInvoice | null>(null);
+  const [voidingInvoice, setVoidingInvoice] = useState<DBInvoice | null>(null);
+  const [purgingInvoice, setPurgingInvoice] = useState<DBInvoice | null>(null);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
 
   useEffect(() => {
     if (user) {
-      fetchInvoices();
+      fetchInvoices(categoryFilter);
     }
-  }, [user]);
+  }, [user, categoryFilter]);
 
-  const fetchInvoices = async () => {
+  // The category filter runs on the server, as it looks inside each sale's lines
+  const fetchInvoices = async (categoryId: string | null) => {
     try {
-      const data = await api.getInvoices();
+      const [data, creditNoteData] = await Promise.all([
+        api.getInvoices(categoryId ? { categoryId } : undefined),
+        api.getCreditNotes(),
+      ]);
+      setCreditNotes(creditNoteData);
       const mapped = data.map(inv => ({
         id: inv.id,
         invoice_number: inv.invoice_number,
         company_name: inv.company_name,
         company_address: inv.company_address || null,
         company_phone: inv.company_phone || null,
+        company_email: inv.company_email || null,
+        customer_id: inv.customer_id || null,
         customer_name: inv.customer_name,
         issuer_name: inv.issuer_name,
         subtotal: inv.subtotal,
+        discount: inv.discount || null,
+        discount_total: inv.discount_total || 0,
         tax: inv.tax,
         total: inv.total,
+        prices_include_tax: !!inv.prices_include_tax,
+        payments: inv.payments || [],
+        amount_paid: inv.amount_paid || 0,
+        change_due: inv.change_due || 0,
+        payment_status: inv.payment_status || 'paid',
+        balance_due: inv.balance_due || 0,
+        returned_total: inv.returned_total || 0,
+        voided_at: inv.voided_at || null,
+        voided_by: inv.voided_by || null,
+        void_reason: inv.void_reason || null,
         products: inv.products as unknown as Product[],
+        verification_hash: inv.verification_hash || null,
+        shares: inv.shares || [],
         created_at: inv.created_at,
       })) as DBInvoice[];
       setInvoices(mapped);
@@ -104,6 +167,15 @@ const History = () => {
       });
     }
 
+    // Payment status filter
+    if (statusFilter === 'voided') {
+      result = result.filter(inv => inv.voided_at);
+    } else if (statusFilter === 'outstanding') {
+      result = result.filter(inv => !inv.voided_at && inv.payment_status !== 'paid');
+    } else if (statusFilter !== 'all') {
+      result = result.filter(inv => !inv.voided_at && inv.payment_status === statusFilter);
+    }
+
     // Sorting
     result.sort((a, b) => {
       switch (sortBy) {
@@ -121,53 +193,149 @@ const History = () => {
     });
 
     return result;
-  }, [invoices, searchQuery, dateFrom, dateTo, sortBy]);
+  }, [invoices, searchQuery, dateFrom, dateTo, statusFilter, sortBy]);
 
   const clearFilters = () => {
     setSearchQuery('');
     setDateFrom('');
     setDateTo('');
+    setStatusFilter('all');
+    setCategoryFilter(null);
     setSortBy('date-desc');
   };
 
-  const hasActiveFilters = searchQuery || dateFrom || dateTo || sortBy !== 'date-desc';
+  // Discounts given across the invoices currently shown (i.e. the filtered period); voided sales gave nothing away
+  const periodDiscountTotal = useMemo(
+    () => filteredInvoices.reduce((sum, inv) => sum + (inv.voided_at ? 0 : Number(inv.discount_total || 0)), 0),
+    [filteredInvoices]
+  );
+
+  const hasActiveFilters = searchQuery || dateFrom || dateTo || statusFilter !== 'all' || categoryFilter || sortBy !== 'date-desc';
 
-  const handleDelete = async (id: string) => {
+  // Permanently remove a voided invoice, once confirmed
+  const handlePurge = async (dbInvoice: DBInvoice) => {
     try {
-      await api.deleteInvoice(id);
-      toast.success('Invoice deleted');
-      setInvoices(invoices.filter(inv => inv.id !== id));
-      if (selectedInvoice?.id === id) setSelectedInvoice(null);
+      await api.deleteInvoice(dbInvoice.id);
+      toast.success('Invoice purged');
+      setInvoices(invoices.filter(inv => inv.id !== dbInvoice.id));
+      if (selectedInvoice?.id === dbInvoice.invoice_number) setSelectedInvoice(null);
     } catch (error) {
-      toast.error('Failed to delete invoice');
+      toast.error(error instanceof Error ? error.message : 'Failed to purge invoice');
     }
   };
 
+  const handleVoided = (result: InvoiceVoidResult) => {
+    const updated = invoices.map(inv =>
+      inv.id === result.id
+        ? {
+            ...inv,
+            voided_at: result.voided_at,
+            voided_by: result.voided_by,
+            void_reason: result.void_reason,
+            balance_due: 0,
+          }
+        : inv
+    );
+    setInvoices(updated);
+
+    const voidedInvoice = updated.find(inv => inv.id === result.id);
+    if (voidedInvoice && selectedInvoice?.id === voidedInvoice.invoice_number) {
+      handleViewInvoice(voidedInvoice);
+    }
+  };
+
+  const handlePaymentRecorded = (result: InvoicePaymentResult) => {
+    const updated = invoices.map(inv =>
+      inv.id === result.id
+        ? {
+            ...inv,
+            payments: result.payments,
+            amount_paid: result.amount_paid,
+            balance_due: result.balance_due,
+            payment_status: result.payment_status,
+          }
+        : inv
+    );
+    setInvoices(updated);
+
+    const paidInvoice = updated.find(inv => inv.id === result.id);
+    if (paidInvoice && selectedInvoice?.id === paidInvoice.invoice_number) {
+      handleViewInvoice(paidInvoice);
+    }
+  };
+
+  // Sharing is only offered on the selected invoice
+  const handleShared = (shares: ReceiptShare[]) => {
+    const invoiceId = selectedInvoice?.recordId;
+    setInvoices(current => current.map(inv => (inv.id === invoiceId ? { ...inv, shares } : inv)));
+  };
+
+  // The latest send, and how many times the receipt has been sent
+  const describeShares = (shares: ReceiptShare[]) => {
+    const last = shares[shares.length - 1];
+    const recipient = last.recipient ? ` to ${last.recipient}` : '';
+    const times = shares.length > 1 ? ` (${shares.length} times)` : '';
+    return `Sent by ${RECEIPT_SHARE_CHANNEL_LABELS[last.channel]}${recipient}, ${format(new Date(last.shared_at), 'dd/MM/yyyy HH:mm')}${times}`;
+  };
+
+  const creditNotesFor = (invoiceId: string) => creditNotes.filter(cn => cn.invoice_id === invoiceId);
+
+  const handleViewCreditNote = (creditNote: CreditNote, dbInvoice: DBInvoice) => {
+    setSelectedInvoice(creditNoteToReceipt(creditNote, {
+      companyName: dbInvoice.company_name,
+      companyAddress: dbInvoice.company_address || undefined,
+      companyPhone: dbInvoice.company_phone || undefined,
+      companyEmail: dbInvoice.company_email || undefined,
+    }));
+  };
+
+  const handleReturned = (creditNote: CreditNote) => {
+    setCreditNotes([creditNote, ...creditNotes]);
+
+    const original = invoices.find(inv => inv.id === creditNote.invoice_id);
+    if (!original) return;
+
+    const returnedTotal = original.returned_total + creditNote.total;
+    const updated = {
+      ...original,
+      returned_total: returnedTotal,
+      balance_due: Math.max(0, original.balance_due - creditNote.applied_to_balance),
+      payment_status: getPaymentStatus(original.total - returnedTotal, original.amount_paid),
+    };
+    setInvoices(invoices.map(inv => (inv.id === updated.id ? updated : inv)));
+    handleViewCreditNote(creditNote, updated);
+  };
+
   const handleViewInvoice = (dbInvoice: DBInvoice) => {
     const invoice: Invoice = {
       id: dbInvoice.invoice_number,
+      recordId: dbInvoice.id,
       companyName: dbInvoice.company_name,
       companyAddress: dbInvoice.company_address || undefined,
       companyPhone: dbInvoice.company_phone || undefined,
+      companyEmail: dbInvoice.company_email || undefined,
+      customerId: dbInvoice.customer_id,
       customerName: dbInvoice.customer_name,
       issuerName: dbInvoice.issuer_name,
       products: dbInvoice.products,
       date: new Date(dbInvoice.created_at),
       subtotal: Number(dbInvoice.subtotal),
+      discount: dbInvoice.discount,
+      discountTotal: Number(dbInvoice.discount_total),
       tax: Number(dbInvoice.tax),
+      pricesIncludeTax: dbInvoice.prices_include_tax,
       total: Number(dbInvoice.total),
+      payments: dbInvoice.payments,
+      amountPaid: Number(dbInvoice.amount_paid),
+      changeDue: Number(dbInvoice.change_due),
+      verificationHash: dbInvoice.verification_hash,
+      voided: dbInvoice.voided_at
+        ? { at: new Date(dbInvoice.voided_at), by: dbInvoice.voided_by || '', reason: dbInvoice.void_reason || '' }
+        : undefined,
     };
     setSelectedInvoice(invoice);
   };
 
-  const handlePrint = () => {
-    if (!receiptRef.current || !selectedInvoice) return;
-    const success = printReceipt(receiptRef.current.innerHTML, selectedInvoice.id);
-    if (!success) {
-      toast.error("Unable to print. Please allow popups for this site.");
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -182,6 +350,7 @@ const History = () => {
         <h1 className="text-2xl font-bold">Invoice History</h1>
         <p className="text-muted-foreground">
           {filteredInvoices.length} of {invoices.length} invoices
+          {periodDiscountTotal > 0 && ` · ${currency}${periodDiscountTotal.toFixed(2)} in discounts given`}
         </p>
       </div>
 
@@ -230,7 +399,7 @@ const History = () => {
 
           {/* Expanded Filters */}
           {showFilters && (
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 pt-2 border-t">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 pt-2 border-t">
               <div className="space-y-2">
                 <Label htmlFor="date-from">From Date</Label>
                 <Input
@@ -249,7 +418,27 @@ const History = () => {
                   onChange={(e) => setDateTo(e.target.value)}
                 />
               </div>
-              <div className="space-y-2 sm:col-span-2 lg:col-span-2">
+              <div className="space-y-2">
+                <Label htmlFor="payment-status">Payment Status</Label>
+                <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}>
+                  <SelectTrigger id="payment-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="outstanding">Outstanding</SelectItem>
+                    <SelectItem value="paid">{PAYMENT_STATUS_LABELS.paid}</SelectItem>
+                    <SelectItem value="partial">{PAYMENT_STATUS_LABELS.partial}</SelectItem>
+                    <SelectItem value="unpaid">{PAYMENT_STATUS_LABELS.unpaid}</SelectItem>
+                    <SelectItem value="voided">Voided</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <CategoryFilter value={categoryFilter} onChange={setCategoryFilter} className="w-full" />
+              </div>
+              <div className="space-y-2">
                 <Label htmlFor="sort-by">Sort By</Label>
                 <Select value={sortBy} onValueChange={(v) => setSortBy(v as typeof sortBy)}>
                   <SelectTrigger id="sort-by">
@@ -293,20 +482,101 @@ const History = () => {
               >
                 <CardContent className="flex items-center justify-between p-4">
                   <div className="flex-1">
-                    <p className="font-medium">{inv.invoice_number}</p>
+                    <p className={`font-medium ${inv.voided_at ? 'line-through text-muted-foreground' : ''}`}>{inv.invoice_number}</p>
                     <p className="text-sm text-muted-foreground">{inv.customer_name}</p>
+                    {inv.voided_at && (
+                      <div className="mt-1">
+                        <Badge variant="destructive">Void</Badge>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {inv.void_reason} · {inv.voided_by}, {format(new Date(inv.voided_at), 'dd/MM/yyyy HH:mm')}
+                        </p>
+                      </div>
+                    )}
+                    {inv.returned_total > 0 && (
+                      <Badge variant="outline" className="mt-1 mr-1">
+                        {inv.returned_total >= inv.total - 0.01 ? 'Returned' : 'Partly returned'}
+                      </Badge>
+                    )}
+                    {!inv.voided_at && inv.payment_status !== 'paid' && (
+                      <Badge
+                        variant="secondary"
+                        className={`mt-1 ${inv.payment_status === 'unpaid' ? 'bg-destructive/20 text-destructive' : 'bg-amber-500/20 text-amber-600'}`}
+                      >
+                        {PAYMENT_STATUS_LABELS[inv.payment_status]} · {currency}{inv.balance_due.toFixed(2)} owed
+                      </Badge>
+                    )}
                     <p className="text-xs text-muted-foreground">{format(new Date(inv.created_at), 'dd/MM/yyyy HH:mm')}</p>
+                    {inv.shares.length > 0 && (
+                      <p className="text-xs text-muted-foreground">{describeShares(inv.shares)}</p>
+                    )}
+                    {creditNotesFor(inv.id).length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {creditNotesFor(inv.id).map(cn => (
+                          <button
+                            key={cn.id}
+                            className={`text-xs text-primary hover:underline ${selectedInvoice?.id === cn.credit_note_number ? 'font-bold' : ''}`}
+                            onClick={(e) => { e.stopPropagation(); handleViewCreditNote(cn, inv); }}
+                          >
+                            {cn.credit_note_number} (-{currency}{cn.total.toFixed(2)})
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
-                    <p className="font-bold">₦{Number(inv.total).toFixed(2)}</p>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="mt-1"
-                      onClick={(e) => { e.stopPropagation(); handleDelete(inv.id); }}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    <p className={`font-bold ${inv.voided_at ? 'line-through text-muted-foreground' : ''}`}>
+                      {currency}{Number(inv.total).toFixed(2)}
+                    </p>
+                    {Number(inv.discount_total) > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Disc -{currency}{Number(inv.discount_total).toFixed(2)}
+                      </p>
+                    )}
+                    {inv.voided_at ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="mt-1"
+                        title="Purge invoice"
+                        onClick={(e) => { e.stopPropagation(); setPurgingInvoice(inv); }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    ) : (
+                      <>
+                        {inv.payment_status !== 'paid' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="mt-1"
+                            title="Record payment"
+                            onClick={(e) => { e.stopPropagation(); setPayingInvoice(inv); }}
+                          >
+                            <Wallet className="h-4 w-4 text-primary" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="mt-1"
+                          title="Return items"
+                          onClick={(e) => { e.stopPropagation(); setReturningInvoice(inv); }}
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                        {creditNotesFor(inv.id).length === 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="mt-1"
+                            title="Void invoice"
+                            onClick={(e) => { e.stopPropagation(); setVoidingInvoice(inv); }}
+                          >
+                            <Ban className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -317,20 +587,54 @@ const History = () => {
         {selectedInvoice && (
           <div className="lg:sticky lg:top-24 lg:self-start">
             <Card className="p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="font-semibold">Receipt Preview</h2>
-                <Button onClick={handlePrint} size="sm" className="gap-2">
-                  <Printer className="h-4 w-4" />
-                  Print
-                </Button>
-              </div>
-              <div className="bg-muted/30 rounded-lg p-4 flex justify-center">
-                <POSReceipt ref={receiptRef} invoice={selectedInvoice} />
-              </div>
+              <ReceiptPreview invoice={selectedInvoice} onShared={handleShared} />
             </Card>
           </div>
         )}
       </div>
+
+      <RecordPaymentDialog
+        invoice={payingInvoice}
+        currency={currency}
+        onOpenChange={(open) => { if (!open) setPayingInvoice(null); }}
+        onRecorded={handlePaymentRecorded}
+      />
+
+      <ReturnDialog
+        invoice={returningInvoice}
+        creditNotes={returningInvoice ? creditNotesFor(returningInvoice.id) : []}
+        currency={currency}
+        onOpenChange={(open) => { if (!open) setReturningInvoice(null); }}
+        onReturned={handleReturned}
+      />
+
+      <VoidInvoiceDialog
+        invoice={voidingInvoice}
+        currency={currency}
+        onOpenChange={(open) => { if (!open) setVoidingInvoice(null); }}
+        onVoided={handleVoided}
+      />
+
+      <AlertDialog open={!!purgingInvoice} onOpenChange={(open) => { if (!open) setPurgingInvoice(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge {purgingInvoice?.invoice_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The voided invoice is deleted permanently and cannot be recovered. Only its number, total and
+              void details are kept so the invoice sequence still accounts for it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: 'destructive' })}
+              onClick={() => { if (purgingInvoice) handlePurge(purgingInvoice); }}
+            >
+              Purge Invoice
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,498 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowLeft, Boxes, Layers, Loader2, Package, PackageMinus, PackagePlus, Pencil, Plus, Save, ShoppingCart } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Product, StockMovement, StockMovementInput } from "@/lib/api";
+import { STOCK_MOVEMENT_LABELS, balanceBroughtForward, totalsByMovementType } from "@/lib/stock";
+import { formatMargin, unitMargin } from "@/lib/profit";
+import { hasVariants, variantLabel } from "@/lib/variants";
+import { bundleAvailability, bundleCost, isBundle } from "@/lib/bundles";
+import { VariantDialog } from "@/components/VariantDialog";
+import { BundleDialog } from "@/components/BundleDialog";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+type ManualMovementType = StockMovementInput['type'];
+
+const MANUAL_TYPES: ManualMovementType[] = ['receipt', 'adjustment', 'write_off'];
+
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const [product, setProduct] = useState<Product | null>(null);
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [editingVariant, setEditingVariant] = useState<Product | null>(null);
+  const [variantDialogOpen, setVariantDialogOpen] = useState(false);
+  const [bundleDialogOpen, setBundleDialogOpen] = useState(false);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  // Adjustment form state
+  const [type, setType] = useState<ManualMovementType>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user && id) {
+      fetchProduct(id, dateFrom, dateTo);
+    }
+  }, [user, id, dateFrom, dateTo]);
+
+  const fetchProduct = async (productId: string, from: string, to: string) => {
+    try {
+      const [productData, movementData, catalogData] = await Promise.all([
+        api.getProduct(productId),
+        api.getStockMovements(productId, { from: from || undefined, to: to || undefined }),
+        api.getProducts(),
+      ]);
+      setProduct(productData);
+      setMovements(movementData);
+      setCatalog(catalogData);
+    } catch (error) {
+      toast.error('Failed to load product');
+    }
+    setLoading(false);
+  };
+
+  const variants = useMemo(
+    () => catalog.filter((p) => p.parent_id === id).sort((a, b) => a.name.localeCompare(b.name)),
+    [catalog, id]
+  );
+  const attributeNames = useMemo(
+    () => [...new Set(variants.flatMap((variant) => (variant.variant_attributes ?? []).map((attribute) => attribute.name)))],
+    [variants]
+  );
+  // Products that could be moved under this one as a variant
+  const variantCandidates = catalog.filter((p) => p.id !== id && !p.parent_id && !hasVariants(p) && !isBundle(p));
+  // Products that could go in this one as a bundle component
+  const componentCandidates = catalog.filter((p) => p.id !== id && !hasVariants(p) && !isBundle(p));
+  const parent = product?.parent_id ? catalog.find((p) => p.id === product.parent_id) : undefined;
+
+  const openVariantDialog = (variant: Product | null) => {
+    setEditingVariant(variant);
+    setVariantDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) return;
+
+    const qty = parseInt(quantity);
+    if (!qty) {
+      toast.error('Enter a quantity');
+      return;
+    }
+    if (type !== 'receipt' && !reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const movement = await api.createStockMovement({
+        product_id: product.id,
+        type,
+        quantity: type === 'adjustment' ? qty : Math.abs(qty),
+        reason: reason.trim() || undefined,
+      });
+      toast.success(`Stock is now ${movement.balance_after}`);
+      setQuantity('');
+      setReason('');
+      fetchProduct(product.id, dateFrom, dateTo);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update stock');
+    }
+    setSaving(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="space-y-4">
+        <Link to="/products" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to products
+        </Link>
+        <p className="text-muted-foreground">Product not found</p>
+      </div>
+    );
+  }
+
+  const totals = totalsByMovementType(movements);
+  const broughtForward = balanceBroughtForward(movements);
+  const ledgerBalance = movements.length > 0 ? movements[movements.length - 1].balance_after : broughtForward;
+  // Only meaningful for the unfiltered ledger, which should end at the current level
+  const unexplained = !dateTo && movements.length > 0 ? product.stock - ledgerBalance : 0;
+
+  const isParent = hasVariants(product);
+  const variantStock = variants.reduce((total, variant) => total + variant.stock, 0);
+  const isBundleProduct = isBundle(product);
+  // A bundle costs what its components cost, whatever cost price it carries itself
+  const unitCost = isBundleProduct ? bundleCost(product.components) : product.cost_price;
+  // Bundles and parents hold no stock of their own, so there is nothing to adjust here
+  const holdsStock = !isParent && !isBundleProduct;
+
+  const cards = [
+    isBundleProduct ? {
+      title: "Available",
+      value: bundleAvailability(product.components),
+      icon: Boxes,
+      description: "Complete bundles the components make up",
+      alert: false,
+    } : isParent ? {
+      title: "On Hand",
+      value: variantStock,
+      icon: Boxes,
+      description: `Across ${variants.length} variants`,
+      alert: variantStock < 0,
+    } : {
+      title: "On Hand",
+      value: product.stock,
+      icon: Boxes,
+      description: product.stock < 0 ? "More sold than booked in" : `${currency}${(product.stock * product.price).toLocaleString()} at selling price`,
+      alert: product.stock < 0,
+    },
+    {
+      title: "Sold",
+      value: -((totals.sale ?? 0) + (totals.void ?? 0) + (totals.return ?? 0)),
+      icon: ShoppingCart,
+      description: "Net of returns and voids",
+    },
+    {
+      title: "Received",
+      value: totals.receipt ?? 0,
+      icon: PackagePlus,
+      description: "Booked in from suppliers",
+    },
+    {
+      title: "Written Off",
+      value: -(totals.write_off ?? 0),
+      icon: PackageMinus,
+      description: `Adjustments ${(totals.adjustment ?? 0) >= 0 ? '+' : ''}${totals.adjustment ?? 0}`,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Link to="/products" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to products
+        </Link>
+        <h1 className="text-2xl font-bold">{product.name}</h1>
+        {parent && (
+          <p className="text-sm text-muted-foreground">
+            Variant of{" "}
+            <Link to={`/products/${parent.id}`} className="text-primary hover:underline">{parent.name}</Link>
+            {" · "}{variantLabel(product.variant_attributes)}
+          </p>
+        )}
+        <p className="text-muted-foreground">
+          {product.category} · {currency}{product.price.toLocaleString()}
+          {unitCost !== null && ` · cost ${currency}${unitCost.toLocaleString()} · ${formatMargin(unitMargin({ ...product, cost_price: unitCost }, settings))} margin`}
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title} className={card.alert ? "border-destructive/50" : ""}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {!product.parent_id && !isParent && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Bundle Contents
+            </CardTitle>
+            <Button size="sm" variant="outline" className="gap-2" onClick={() => setBundleDialogOpen(true)}>
+              {isBundleProduct ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {isBundleProduct ? "Edit Contents" : "Make Bundle"}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {!isBundleProduct ? (
+              <p className="text-sm text-muted-foreground">
+                Sell a kit or combo of other products at its own price. Each sale takes the products in it out of stock.
+                {product.stock !== 0 && ` Bring the ${product.stock} in stock down to 0 first.`}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-center">Per Bundle</TableHead>
+                    <TableHead className="text-center">Stock</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {product.components.map((component) => (
+                    <TableRow key={component.product_id}>
+                      <TableCell>
+                        <Link to={`/products/${component.product_id}`} className="font-medium hover:underline">
+                          {component.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-center">{component.quantity}</TableCell>
+                      <TableCell className={`text-center ${component.stock < component.quantity ? "text-destructive" : ""}`}>
+                        {component.stock}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {component.cost_price === null
+                          ? "-"
+                          : `${currency}${(component.cost_price * component.quantity).toLocaleString()}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-medium">Contents cost</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {unitCost === null ? "Unknown" : `${currency}${unitCost.toLocaleString()}`}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {!product.parent_id && !isBundleProduct && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" />
+              Variants
+            </CardTitle>
+            <Button size="sm" variant="outline" className="gap-2" onClick={() => openVariantDialog(null)}>
+              <Plus className="h-4 w-4" />
+              Add Variant
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {variants.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Sell this product in different sizes, colours or capacities, each with its own price, stock, SKU and barcode.
+                {product.stock !== 0 && ` Move the ${product.stock} in stock onto a variant first.`}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variant</TableHead>
+                    <TableHead>SKU / Barcode</TableHead>
+                    <TableHead className="text-center">Stock</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variants.map((variant) => (
+                    <TableRow key={variant.id}>
+                      <TableCell>
+                        <Link to={`/products/${variant.id}`} className="font-medium hover:underline">
+                          {variantLabel(variant.variant_attributes)}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          {(variant.variant_attributes ?? []).map((attribute) => attribute.name).filter(Boolean).join(" / ")}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {[variant.sku, variant.barcode].filter(Boolean).join(" · ") || "-"}
+                      </TableCell>
+                      <TableCell className={`text-center ${variant.stock <= variant.reorder_point ? "text-amber-600" : ""}`}>
+                        {variant.stock}
+                      </TableCell>
+                      <TableCell className="text-right">{currency}{variant.price.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Button size="icon" variant="ghost" onClick={() => openVariantDialog(variant)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className={`grid gap-6 ${holdsStock ? "lg:grid-cols-[350px_1fr]" : ""}`}>
+        {/* Manual movement form; a parent's stock is held on its variants, a bundle's on its components */}
+        {holdsStock && (
+          <Card className="lg:self-start">
+            <CardHeader>
+              <CardTitle>Adjust Stock</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="movement-type">Type</Label>
+                  <Select value={type} onValueChange={(value) => setType(value as ManualMovementType)}>
+                    <SelectTrigger id="movement-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MANUAL_TYPES.map((option) => (
+                        <SelectItem key={option} value={option}>{STOCK_MOVEMENT_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movement-quantity">
+                    {type === 'adjustment' ? 'Change (+ or -)' : 'Quantity'}
+                  </Label>
+                  <Input
+                    id="movement-quantity"
+                    type="number"
+                    min={type === 'adjustment' ? undefined : "1"}
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="movement-reason">Reason{type === 'receipt' && ' (optional)'}</Label>
+                  <Input
+                    id="movement-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={type === 'write_off' ? 'e.g. Damaged in storage' : type === 'receipt' ? 'e.g. Supplier delivery note' : 'e.g. Stock count correction'}
+                    maxLength={255}
+                  />
+                </div>
+                <Button type="submit" className="w-full gap-2" disabled={saving}>
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  Record
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Ledger */}
+        <Card>
+          <CardHeader className="space-y-4">
+            <CardTitle>Stock Ledger</CardTitle>
+            <div className="flex flex-wrap gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="ledger-from" className="text-xs">From</Label>
+                <Input id="ledger-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ledger-to" className="text-xs">To</Label>
+                <Input id="ledger-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {unexplained !== 0 && (
+              <div className="mb-4 flex items-center gap-2 rounded-lg bg-amber-500/10 p-3 text-sm text-amber-600">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {unexplained > 0 ? '+' : ''}{unexplained} units changed outside the ledger
+              </div>
+            )}
+            {movements.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No stock movements{dateFrom || dateTo ? ' in this period' : ' yet'}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Reference / Reason</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {broughtForward !== 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-muted-foreground">Balance brought forward</TableCell>
+                      <TableCell className="text-right font-medium">{broughtForward}</TableCell>
+                    </TableRow>
+                  )}
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="whitespace-nowrap">{format(new Date(movement.created_at), 'dd/MM/yyyy HH:mm')}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{STOCK_MOVEMENT_LABELS[movement.type]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground max-w-[240px]">
+                        {movement.reference_number && <span className="font-medium text-foreground">{movement.reference_number} </span>}
+                        {movement.reason}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{movement.created_by}</TableCell>
+                      <TableCell className={`text-right ${movement.quantity < 0 ? 'text-destructive' : 'text-emerald-600'}`}>
+                        {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{movement.balance_after}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <VariantDialog
+        open={variantDialogOpen}
+        parent={product}
+        variant={editingVariant}
+        attributeNames={attributeNames}
+        candidates={variantCandidates}
+        currency={currency}
+        onOpenChange={setVariantDialogOpen}
+        onSaved={() => fetchProduct(product.id, dateFrom, dateTo)}
+      />
+
+      <BundleDialog
+        open={bundleDialogOpen}
+        bundle={product}
+        candidates={componentCandidates}
+        currency={currency}
+        onOpenChange={setBundleDialogOpen}
+        onSaved={() => fetchProduct(product.id, dateFrom, dateTo)}
+      />
+    </div>
+  );
+};
+
+export default ProductDetail;
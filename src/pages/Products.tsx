@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,24 +7,48 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Pencil, Trash2, Loader2, Save, X } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Plus, Pencil, Trash2, Loader2, Save, X, Upload, Download, Barcode, Tags } from "lucide-react";
+import { ProductImportDialog } from "@/components/ProductImportDialog";
+import { BarcodeLabelDialog } from "@/components/BarcodeLabelDialog";
+import { CategoryBadge } from "@/components/CategoryBadge";
 import { useAuth } from "@/hooks/useAuth";
-import { api, Product } from "@/lib/api";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Category, Product } from "@/lib/api";
+import { resolveTaxRate } from "@/lib/tax";
+import { DEFAULT_CATEGORY, categoryTree, findCategoryByName } from "@/lib/categories";
+import { formatMargin, unitMargin } from "@/lib/profit";
+import { exportProducts } from "@/lib/productImport";
+import { groupVariants, hasVariants, sellableProducts, variantLabel, variantSummary } from "@/lib/variants";
+import { bundleAvailability, bundleCost, isBundle } from "@/lib/bundles";
+import { format } from "date-fns";
 import { toast } from "sonner";
 
-const categories = ["Internet", "Hardware", "Services", "Other"];
+// Select value for products that inherit their category's (or the default) rate
+const INHERIT_TAX_RATE = "inherit";
 
 const Products = () => {
   const { user } = useAuth();
+  const { settings } = useSettings();
+  const navigate = useNavigate();
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loadingProducts, setLoadingProducts] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [printingLabels, setPrintingLabels] = useState(false);
   
   // Form state
   const [name, setName] = useState("");
+  const [sku, setSku] = useState("");
+  const [barcode, setBarcode] = useState("");
   const [price, setPrice] = useState("");
+  const [costPrice, setCostPrice] = useState("");
   const [stock, setStock] = useState("0");
-  const [category, setCategory] = useState("Other");
+  const [reorderPoint, setReorderPoint] = useState("10");
+  const [reorderQuantity, setReorderQuantity] = useState("0");
+  const [category, setCategory] = useState(DEFAULT_CATEGORY);
+  const [taxRateId, setTaxRateId] = useState(INHERIT_TAX_RATE);
   const [editingId, setEditingId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -34,8 +59,10 @@ const Products = () => {
 
   const fetchProducts = async () => {
     try {
-      const data = await api.getProducts();
+      // Categories are refetched too, as saving a product can add one
+      const [data, categoryData] = await Promise.all([api.getProducts(), api.getCategories()]);
       setProducts(data);
+      setCategories(categoryData);
     } catch (error) {
       toast.error('Failed to load products');
     }
@@ -44,9 +71,15 @@ const Products = () => {
 
   const resetForm = () => {
     setName("");
+    setSku("");
+    setBarcode("");
     setPrice("");
+    setCostPrice("");
     setStock("0");
-    setCategory("Other");
+    setReorderPoint("10");
+    setReorderQuantity("0");
+    setCategory(DEFAULT_CATEGORY);
+    setTaxRateId(INHERIT_TAX_RATE);
     setEditingId(null);
   };
 
@@ -63,17 +96,29 @@ const Products = () => {
       if (editingId) {
         await api.updateProduct(editingId, {
           name: name.trim(),
+          sku: sku.trim() || null,
+          barcode: barcode.trim() || null,
           price: parseFloat(price),
+          cost_price: costPrice ? parseFloat(costPrice) : null,
           stock: parseInt(stock) || 0,
-          category
+          reorder_point: parseInt(reorderPoint) || 0,
+          reorder_quantity: parseInt(reorderQuantity) || 0,
+          category,
+          tax_rate_id: taxRateId === INHERIT_TAX_RATE ? null : taxRateId
         });
         toast.success('Product updated');
       } else {
         await api.createProduct({
           name: name.trim(),
+          sku: sku.trim() || null,
+          barcode: barcode.trim() || null,
           price: parseFloat(price),
+          cost_price: costPrice ? parseFloat(costPrice) : null,
           stock: parseInt(stock) || 0,
-          category
+          reorder_point: parseInt(reorderPoint) || 0,
+          reorder_quantity: parseInt(reorderQuantity) || 0,
+          category,
+          tax_rate_id: taxRateId === INHERIT_TAX_RATE ? null : taxRateId
         });
         toast.success('Product added');
       }
@@ -81,7 +126,7 @@ const Products = () => {
       resetForm();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Operation failed';
-      toast.error(message.includes('exists') ? 'Product already exists' : message);
+      toast.error(message.includes('name already exists') ? 'Product already exists' : message);
     }
     
     setSaving(false);
@@ -89,9 +134,15 @@ const Products = () => {
 
   const handleEdit = (product: Product) => {
     setName(product.name);
+    setSku(product.sku ?? "");
+    setBarcode(product.barcode ?? "");
     setPrice(product.price.toString());
+    setCostPrice(product.cost_price?.toString() ?? "");
     setStock(product.stock?.toString() || "0");
+    setReorderPoint(product.reorder_point.toString());
+    setReorderQuantity(product.reorder_quantity.toString());
     setCategory(product.category);
+    setTaxRateId(product.tax_rate_id || INHERIT_TAX_RATE);
     setEditingId(product.id);
   };
 
@@ -101,16 +152,29 @@ const Products = () => {
       toast.success('Product deleted');
       fetchProducts();
     } catch (error) {
-      toast.error('Failed to delete product');
+      toast.error(error instanceof Error ? error.message : 'Failed to delete product');
     }
   };
 
-  const getStockBadge = (stock: number) => {
-    if (stock === 0) return <Badge variant="destructive">Out of stock</Badge>;
-    if (stock < 10) return <Badge variant="secondary" className="bg-amber-500/20 text-amber-600">Low: {stock}</Badge>;
+  const editingProduct = products.find((product) => product.id === editingId);
+
+  const handleExport = (bookType: 'csv' | 'xlsx') => {
+    exportProducts(products, bookType, `products_${format(new Date(), "yyyyMMdd")}`).catch((error) => {
+      console.error("Failed to export products:", error);
+      toast.error("Failed to export products");
+    });
+  };
+
+  const getStockBadge = (stock: number, reorderPoint: number) => {
+    if (stock <= 0) return <Badge variant="destructive">Out of stock</Badge>;
+    if (stock <= reorderPoint) return <Badge variant="secondary" className="bg-amber-500/20 text-amber-600">Low: {stock}</Badge>;
     return <Badge variant="secondary" className="bg-emerald-500/20 text-emerald-600">{stock}</Badge>;
   };
 
+  const categoryOptions = categoryTree(categories);
+  // Keep the product's current category selectable even before it shows up in the managed list
+  const unlistedCategory = findCategoryByName(categories, category) ? null : category;
+
   return (
     <div className="space-y-6">
       <div>
@@ -136,7 +200,35 @@ const Products = () => {
                   value={name}
                   onChange={(e) => setName(e.target.value)}
                   placeholder="Enter product name"
+                  disabled={!!editingProduct?.parent_id}
                 />
+                {editingProduct?.parent_id && (
+                  <p className="text-xs text-muted-foreground">Variants are named after their parent and attributes</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sku">SKU (optional)</Label>
+                  <Input
+                    id="sku"
+                    value={sku}
+                    onChange={(e) => setSku(e.target.value)}
+                    placeholder="e.g. RTR-AC1200"
+                    maxLength={64}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="barcode">Barcode (optional)</Label>
+                  <Input
+                    id="barcode"
+                    value={barcode}
+                    onChange={(e) => setBarcode(e.target.value)}
+                    // Keyboard-wedge scanners finish with Enter, which would submit the form early
+                    onKeyDown={(e) => { if (e.key === "Enter") e.preventDefault(); }}
+                    placeholder="Scan or type"
+                    maxLength={64}
+                  />
+                </div>
               </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -152,13 +244,56 @@ const Products = () => {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="stock">Stock Qty</Label>
+                  <Label htmlFor="costPrice">Cost (₦)</Label>
+                  <Input
+                    id="costPrice"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={costPrice}
+                    onChange={(e) => setCostPrice(e.target.value)}
+                    placeholder="Unknown"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stock">Stock Qty</Label>
+                <Input
+                  id="stock"
+                  type="number"
+                  min="0"
+                  value={stock}
+                  onChange={(e) => setStock(e.target.value)}
+                  placeholder="0"
+                  disabled={!!editingProduct && (hasVariants(editingProduct) || isBundle(editingProduct))}
+                />
+                {editingProduct && hasVariants(editingProduct) && (
+                  <p className="text-xs text-muted-foreground">Stock is held on the variants</p>
+                )}
+                {editingProduct && isBundle(editingProduct) && (
+                  <p className="text-xs text-muted-foreground">A bundle is sold from the stock of its contents</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reorderPoint">Reorder At</Label>
+                  <Input
+                    id="reorderPoint"
+                    type="number"
+                    min="0"
+                    value={reorderPoint}
+                    onChange={(e) => setReorderPoint(e.target.value)}
+                    placeholder="10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reorderQuantity">Order Qty</Label>
                   <Input
-                    id="stock"
+                    id="reorderQuantity"
                     type="number"
                     min="0"
-                    value={stock}
-                    onChange={(e) => setStock(e.target.value)}
+                    value={reorderQuantity}
+                    onChange={(e) => setReorderQuantity(e.target.value)}
                     placeholder="0"
                   />
                 </div>
@@ -170,8 +305,29 @@ const Products = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent className="bg-popover border border-border z-50">
-                    {categories.map((cat) => (
-                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    {unlistedCategory && <SelectItem value={unlistedCategory}>{unlistedCategory}</SelectItem>}
+                    {categoryOptions.map(({ category: option, depth }) => (
+                      <SelectItem key={option.id} value={option.name}>
+                        <span style={{ paddingLeft: depth * 12 }}>
+                          <CategoryBadge name={option.name} category={option} />
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="taxRate">Tax Rate</Label>
+                <Select value={taxRateId} onValueChange={setTaxRateId}>
+                  <SelectTrigger id="taxRate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover border border-border z-50">
+                    <SelectItem value={INHERIT_TAX_RATE}>
+                      Category default ({resolveTaxRate({ category }, settings).name})
+                    </SelectItem>
+                    {settings.tax_rates.map((rate) => (
+                      <SelectItem key={rate.id} value={rate.id}>{rate.name}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
@@ -193,8 +349,36 @@ const Products = () => {
 
         {/* Products List */}
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
             <CardTitle>Products ({products.length})</CardTitle>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" className="gap-2" asChild>
+                <Link to="/categories">
+                  <Tags className="h-4 w-4" />
+                  Categories
+                </Link>
+              </Button>
+              <Button size="sm" variant="outline" className="gap-2" onClick={() => setPrintingLabels(true)} disabled={products.length === 0}>
+                <Barcode className="h-4 w-4" />
+                Labels
+              </Button>
+              <Button size="sm" variant="outline" className="gap-2" onClick={() => setImporting(true)}>
+                <Upload className="h-4 w-4" />
+                Import
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" className="gap-2" disabled={products.length === 0}>
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           </CardHeader>
           <CardContent>
             {loadingProducts ? (
@@ -209,36 +393,120 @@ const Products = () => {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Category</TableHead>
+                    <TableHead>Tax</TableHead>
                     <TableHead className="text-center">Stock</TableHead>
                     <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
                     <TableHead className="w-[100px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {products.map((product) => (
-                    <TableRow key={product.id}>
-                      <TableCell className="font-medium">{product.name}</TableCell>
-                      <TableCell>{product.category}</TableCell>
-                      <TableCell className="text-center">{getStockBadge(product.stock || 0)}</TableCell>
-                      <TableCell className="text-right">₦{product.price.toLocaleString()}</TableCell>
-                      <TableCell>
-                        <div className="flex gap-1">
-                          <Button size="icon" variant="ghost" onClick={() => handleEdit(product)}>
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button size="icon" variant="ghost" onClick={() => handleDelete(product.id)}>
-                            <Trash2 className="h-4 w-4 text-destructive" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {groupVariants(products).map(({ product, variants }) => {
+                    const summary = variants.length > 0 ? variantSummary(variants) : null;
+                    return (
+                      <Fragment key={product.id}>
+                        <TableRow className="cursor-pointer" onClick={() => navigate(`/products/${product.id}`)}>
+                          <TableCell>
+                            <p className="font-medium">{product.name}</p>
+                            {summary ? (
+                              <p className="text-xs text-muted-foreground">{variants.length} variants</p>
+                            ) : isBundle(product) ? (
+                              <p className="text-xs text-muted-foreground">Bundle of {product.components.length} products</p>
+                            ) : (product.sku || product.barcode) && (
+                              <p className="text-xs text-muted-foreground">
+                                {[product.sku, product.barcode].filter(Boolean).join(" · ")}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <CategoryBadge name={product.category} category={findCategoryByName(categories, product.category)} />
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{resolveTaxRate(product, settings).name}</TableCell>
+                          <TableCell className="text-center">
+                            {summary ? (
+                              <Badge variant="outline">{summary.stock}</Badge>
+                            ) : isBundle(product) ? (
+                              <Badge variant="outline">{bundleAvailability(product.components)} available</Badge>
+                            ) : (
+                              getStockBadge(product.stock || 0, product.reorder_point)
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {summary && summary.minPrice !== summary.maxPrice
+                              ? `₦${summary.minPrice.toLocaleString()} - ₦${summary.maxPrice.toLocaleString()}`
+                              : `₦${(summary?.minPrice ?? product.price).toLocaleString()}`}
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {summary
+                              ? ""
+                              : formatMargin(unitMargin(isBundle(product) ? { ...product, cost_price: bundleCost(product.components) } : product, settings))}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                              <Button size="icon" variant="ghost" onClick={() => handleEdit(product)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button size="icon" variant="ghost" onClick={() => handleDelete(product.id)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                        {variants.map((variant) => (
+                          <TableRow
+                            key={variant.id}
+                            className="cursor-pointer bg-muted/30"
+                            onClick={() => navigate(`/products/${variant.id}`)}
+                          >
+                            <TableCell className="pl-8">
+                              <p className="text-sm">{variantLabel(variant.variant_attributes)}</p>
+                              {(variant.sku || variant.barcode) && (
+                                <p className="text-xs text-muted-foreground">
+                                  {[variant.sku, variant.barcode].filter(Boolean).join(" · ")}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              <CategoryBadge name={variant.category} category={findCategoryByName(categories, variant.category)} />
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">{resolveTaxRate(variant, settings).name}</TableCell>
+                            <TableCell className="text-center">{getStockBadge(variant.stock || 0, variant.reorder_point)}</TableCell>
+                            <TableCell className="text-right">₦{variant.price.toLocaleString()}</TableCell>
+                            <TableCell className="text-right text-muted-foreground">{formatMargin(unitMargin(variant, settings))}</TableCell>
+                            <TableCell>
+                              <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                                <Button size="icon" variant="ghost" onClick={() => handleEdit(variant)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button size="icon" variant="ghost" onClick={() => handleDelete(variant.id)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
                 </TableBody>
               </Table>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <ProductImportDialog
+        open={importing}
+        onOpenChange={setImporting}
+        onImported={() => fetchProducts()}
+      />
+
+      <BarcodeLabelDialog
+        open={printingLabels}
+        products={sellableProducts(products)}
+        currency={settings.currency_symbol}
+        onOpenChange={setPrintingLabels}
+      />
     </div>
   );
 };
@@ -0,0 +1,443 @@
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Ban, Loader2, PackageCheck, Pencil, Plus, Save, Trash2, X } from "lucide-react";
+import { PurchaseOrderDialog } from "@/components/PurchaseOrderDialog";
+import { ReceiveGoodsDialog } from "@/components/ReceiveGoodsDialog";
+import { ReorderReport } from "@/components/ReorderReport";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Product, PurchaseOrder, PurchaseOrderStatus, Supplier } from "@/lib/api";
+import { PURCHASE_ORDER_STATUS_LABELS, isOpenOrder, receivedProgress } from "@/lib/purchasing";
+import { sellableProducts } from "@/lib/variants";
+import { isBundle } from "@/lib/bundles";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const STATUS_BADGE_CLASSES: Record<PurchaseOrderStatus, string> = {
+  ordered: 'bg-primary/10 text-primary',
+  partial: 'bg-amber-500/20 text-amber-600',
+  received: 'bg-emerald-500/20 text-emerald-600',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+const Purchasing = () => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [creatingOrder, setCreatingOrder] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+
+  // Supplier form state
+  const [name, setName] = useState("");
+  const [contactName, setContactName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [address, setAddress] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const [orderData, supplierData, productData] = await Promise.all([
+        api.getPurchaseOrders(),
+        api.getSuppliers(),
+        api.getProducts(),
+      ]);
+      setOrders(orderData);
+      setSuppliers(supplierData);
+      setProducts(productData);
+    } catch (error) {
+      toast.error('Failed to load purchasing data');
+    }
+    setLoading(false);
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      setSuppliers(await api.getSuppliers());
+    } catch (error) {
+      toast.error('Failed to load suppliers');
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setContactName("");
+    setPhone("");
+    setEmail("");
+    setAddress("");
+    setEditingId(null);
+  };
+
+  const handleSubmitSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Supplier name is required");
+      return;
+    }
+
+    setSaving(true);
+
+    const data = {
+      name: name.trim(),
+      contact_name: contactName.trim(),
+      phone: phone.trim(),
+      email: email.trim(),
+      address: address.trim(),
+    };
+
+    try {
+      if (editingId) {
+        await api.updateSupplier(editingId, data);
+        toast.success('Supplier updated');
+      } else {
+        await api.createSupplier(data);
+        toast.success('Supplier added');
+      }
+      fetchSuppliers();
+      resetForm();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Operation failed');
+    }
+
+    setSaving(false);
+  };
+
+  const handleEditSupplier = (supplier: Supplier) => {
+    setName(supplier.name);
+    setContactName(supplier.contact_name || "");
+    setPhone(supplier.phone || "");
+    setEmail(supplier.email || "");
+    setAddress(supplier.address || "");
+    setEditingId(supplier.id);
+  };
+
+  const handleDeleteSupplier = async (id: string) => {
+    try {
+      await api.deleteSupplier(id);
+      toast.success('Supplier deleted');
+      fetchSuppliers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete supplier');
+    }
+  };
+
+  const replaceOrder = (updated: PurchaseOrder) => {
+    setOrders((current) => current.map((order) => (order.id === updated.id ? updated : order)));
+  };
+
+  const handleOrderCreated = (order: PurchaseOrder) => {
+    setOrders((current) => [order, ...current]);
+    fetchSuppliers();
+  };
+
+  const handleReceived = (order: PurchaseOrder) => {
+    replaceOrder(order);
+    fetchSuppliers();
+    // Stock levels in the order form's product list have changed
+    api.getProducts().then(setProducts).catch(() => undefined);
+  };
+
+  const handleCancelOrder = async (order: PurchaseOrder) => {
+    try {
+      replaceOrder(await api.cancelPurchaseOrder(order.id));
+      toast.success(`${order.po_number} cancelled`);
+      fetchSuppliers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel purchase order');
+    }
+  };
+
+  const filteredOrders = statusFilter === 'all' ? orders : orders.filter((order) => order.status === statusFilter);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Purchasing</h1>
+        <p className="text-muted-foreground">Order stock from suppliers and book deliveries in</p>
+      </div>
+
+      <Tabs value={searchParams.get('tab') || 'orders'} onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}>
+        <TabsList>
+          <TabsTrigger value="orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+          <TabsTrigger value="reorder">Reorder</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle>Purchase Orders ({orders.length})</CardTitle>
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | 'all')}>
+                  <SelectTrigger className="w-[170px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                      <SelectItem key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  className="gap-2"
+                  onClick={() => setCreatingOrder(true)}
+                  disabled={suppliers.length === 0}
+                  title={suppliers.length === 0 ? 'Add a supplier first' : undefined}
+                >
+                  <Plus className="h-4 w-4" />
+                  New Order
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {filteredOrders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  {orders.length === 0
+                    ? suppliers.length === 0 ? 'Add a supplier to start ordering stock' : 'No purchase orders yet'
+                    : 'No purchase orders with this status'}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Items</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-center">Received</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="w-[100px]">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredOrders.map((order) => {
+                      const progress = receivedProgress(order);
+                      return (
+                        <TableRow key={order.id}>
+                          <TableCell>
+                            <p className="font-medium">{order.po_number}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(new Date(order.created_at), 'dd/MM/yyyy')}
+                              {order.expected_at && ` · due ${format(new Date(order.expected_at), 'dd/MM/yyyy')}`}
+                            </p>
+                          </TableCell>
+                          <TableCell>{order.supplier_name}</TableCell>
+                          <TableCell className="text-muted-foreground max-w-[240px]">
+                            {order.items.map((item) => `${item.name} × ${item.quantity}`).join(', ')}
+                            {order.notes && <p className="text-xs italic">{order.notes}</p>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={STATUS_BADGE_CLASSES[order.status]}>
+                              {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-center">{progress.received} / {progress.ordered}</TableCell>
+                          <TableCell className="text-right">
+                            {currency}{order.total.toFixed(2)}
+                            {order.received_total > 0 && order.received_total < order.total && (
+                              <p className="text-xs text-muted-foreground">{currency}{order.received_total.toFixed(2)} received</p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {isOpenOrder(order) && (
+                              <div className="flex gap-1">
+                                <Button size="icon" variant="ghost" title="Receive goods" onClick={() => setReceivingOrder(order)}>
+                                  <PackageCheck className="h-4 w-4" />
+                                </Button>
+                                <Button size="icon" variant="ghost" title="Cancel order" onClick={() => handleCancelOrder(order)}>
+                                  <Ban className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <div className="grid gap-6 lg:grid-cols-[350px_1fr]">
+            {/* Add/Edit Form */}
+            <Card className="lg:self-start">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  {editingId ? <Pencil className="h-5 w-5" /> : <Plus className="h-5 w-5" />}
+                  {editingId ? 'Edit Supplier' : 'Add Supplier'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmitSupplier} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="supplier-name">Name</Label>
+                    <Input
+                      id="supplier-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Enter supplier name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="supplier-contact">Contact Person</Label>
+                    <Input
+                      id="supplier-contact"
+                      value={contactName}
+                      onChange={(e) => setContactName(e.target.value)}
+                      placeholder="Who you order from"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="supplier-phone">Phone</Label>
+                    <Input
+                      id="supplier-phone"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      placeholder="e.g. 0801 234 5678"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="supplier-email">Email</Label>
+                    <Input
+                      id="supplier-email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="orders@supplier.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="supplier-address">Address</Label>
+                    <Input
+                      id="supplier-address"
+                      value={address}
+                      onChange={(e) => setAddress(e.target.value)}
+                      placeholder="Street, city"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" className="flex-1 gap-2" disabled={saving}>
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      {editingId ? 'Update' : 'Add'}
+                    </Button>
+                    {editingId && (
+                      <Button type="button" variant="outline" onClick={resetForm}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Suppliers List */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Suppliers ({suppliers.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {suppliers.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No suppliers yet. Add your first supplier!</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead className="text-center">Open Orders</TableHead>
+                        <TableHead className="text-right">Received</TableHead>
+                        <TableHead className="w-[100px]">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {suppliers.map((supplier) => (
+                        <TableRow key={supplier.id}>
+                          <TableCell className="font-medium">{supplier.name}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {[supplier.contact_name, supplier.phone, supplier.email].filter(Boolean).join(' · ') || '-'}
+                          </TableCell>
+                          <TableCell className="text-center">{supplier.open_order_count}</TableCell>
+                          <TableCell className="text-right">{currency}{supplier.total_received.toLocaleString()}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button size="icon" variant="ghost" onClick={() => handleEditSupplier(supplier)}>
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => handleDeleteSupplier(supplier.id)}
+                                disabled={supplier.order_count > 0}
+                                title={supplier.order_count > 0 ? 'Suppliers with orders cannot be deleted' : undefined}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="reorder">
+          <ReorderReport />
+        </TabsContent>
+      </Tabs>
+
+      <PurchaseOrderDialog
+        open={creatingOrder}
+        suppliers={suppliers}
+        products={sellableProducts(products).filter((product) => !isBundle(product))}
+        currency={currency}
+        onOpenChange={setCreatingOrder}
+        onCreated={handleOrderCreated}
+      />
+
+      <ReceiveGoodsDialog
+        order={receivingOrder}
+        onOpenChange={(open) => { if (!open) setReceivingOrder(null); }}
+        onReceived={handleReceived}
+      />
+    </div>
+  );
+};
+
+export default Purchasing;
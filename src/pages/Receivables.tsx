@@ -0,0 +1,152 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, CreditNote, Invoice } from "@/lib/api";
+import { AGING_BUCKETS, buildAgingReport } from "@/lib/receivables";
+import { format, endOfDay, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+const Receivables = () => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const [asOf, setAsOf] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && asOf) {
+      fetchOutstanding(asOf);
+    }
+  }, [user, asOf]);
+
+  // Invoices raised up to the report date and the returns made against them. Anything settled or
+  // voided today may still have been owed on an earlier date, so those are only filtered out for today.
+  const fetchOutstanding = async (date: string) => {
+    setLoading(true);
+    try {
+      const today = date >= format(new Date(), "yyyy-MM-dd");
+      const [invoiceData, creditNoteData] = await Promise.all([
+        api.getInvoices(today
+          ? { to: date, paymentStatus: ["unpaid", "partial"], excludeVoided: true }
+          : { to: date }),
+        api.getCreditNotes({ to: date }),
+      ]);
+      setInvoices(invoiceData);
+      setCreditNotes(creditNoteData);
+    } catch (error) {
+      toast.error("Failed to load receivables");
+    }
+    setLoading(false);
+  };
+
+  const report = useMemo(
+    () => buildAgingReport(invoices, creditNotes, endOfDay(parseISO(asOf))),
+    [invoices, creditNotes, asOf]
+  );
+
+  const formatAmount = (value: number) => (value > 0 ? `${currency}${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : "-");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Receivables</h1>
+          <p className="text-muted-foreground">Outstanding customer balances by age</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="as-of">As of</Label>
+          <Input id="as-of" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Owed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{currency}{report.grandTotal.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">{report.rows.length} customers</p>
+          </CardContent>
+        </Card>
+        {AGING_BUCKETS.map((bucket) => (
+          <Card key={bucket.key} className={bucket.key === "over90" && report.totals.over90 > 0 ? "border-destructive/50" : ""}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{bucket.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{currency}{report.totals[bucket.key].toLocaleString()}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aging by Customer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : report.rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No outstanding balances</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-center">Invoices</TableHead>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.customerId || row.customerName}>
+                    <TableCell className="font-medium">
+                      {row.customerId ? (
+                        <Link to={`/customers/${row.customerId}`} className="hover:underline">
+                          {row.customerName}
+                        </Link>
+                      ) : (
+                        row.customerName
+                      )}
+                    </TableCell>
+                    <TableCell className="text-center">{row.invoiceCount}</TableCell>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">{formatAmount(row.buckets[bucket.key])}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-bold">{formatAmount(row.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket.key} className="text-right">{formatAmount(report.totals[bucket.key])}</TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatAmount(report.grandTotal)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Receivables;
@@ -1,10 +1,277 @@
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Settings as SettingsIcon, Building, Phone, Mail } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ReceiptPrinterSettings } from "@/components/ReceiptPrinterSettings";
+import { ReceiptDesignSettings } from "@/components/ReceiptDesignSettings";
+import { Settings as SettingsIcon, Building, Hash, Loader2, Package, Percent, Plus, Trash2 } from "lucide-react";
+import { useSettings } from "@/hooks/useSettings";
+import { useAuth } from "@/hooks/useAuth";
+import { api, ReceiptTemplate, StockPolicy, TaxClass, TaxRate } from "@/lib/api";
+import { TAX_CLASS_LABELS } from "@/lib/tax";
+import { formatInvoiceNumber } from "@/lib/invoiceNumbers";
+import { STOCK_POLICY_LABELS } from "@/lib/stock";
+import { categoryTree } from "@/lib/categories";
+import { RECEIPT_TEMPLATE_LABELS, RECEIPT_TEMPLATE_OPTIONS } from "@/lib/receiptTemplates";
+import { toast } from "sonner";
+
+const USE_DEFAULT_RATE = "default";
 
 const Settings = () => {
+  const { user } = useAuth();
+  const { settings, loading, updateSettings } = useSettings();
+
+  // Company form state
+  const [companyName, setCompanyName] = useState("");
+  const [companyAddress, setCompanyAddress] = useState("");
+  const [companyPhone, setCompanyPhone] = useState("");
+  const [companyEmail, setCompanyEmail] = useState("");
+  const [savingCompany, setSavingCompany] = useState(false);
+
+  // Preferences form state
+  const [currencySymbol, setCurrencySymbol] = useState("");
+  const [showBundleComponents, setShowBundleComponents] = useState(true);
+  const [receiptTemplate, setReceiptTemplate] = useState<ReceiptTemplate>("80mm");
+  const [savingPreferences, setSavingPreferences] = useState(false);
+
+  // Tax form state
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [defaultTaxRateId, setDefaultTaxRateId] = useState("");
+  const [categoryTaxRates, setCategoryTaxRates] = useState<Record<string, string>>({});
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  const [productCategories, setProductCategories] = useState<string[]>([]);
+  const [savingTax, setSavingTax] = useState(false);
+
+  // Invoice numbering form state
+  const [invoicePrefix, setInvoicePrefix] = useState("");
+  const [invoiceNumberPadding, setInvoiceNumberPadding] = useState(6);
+  const [includeYear, setIncludeYear] = useState(true);
+  const [yearlyReset, setYearlyReset] = useState(true);
+  const [savingNumbering, setSavingNumbering] = useState(false);
+
+  // Stock control form state (the PIN is write-only)
+  const [stockPolicy, setStockPolicy] = useState<StockPolicy>("allow_negative");
+  const [overridePin, setOverridePin] = useState("");
+  const [savingStock, setSavingStock] = useState(false);
+  const canManageStockControl = user?.role !== "cashier";
+
+  useEffect(() => {
+    if (user) {
+      fetchCategories();
+    }
+  }, [user]);
+
+  const fetchCategories = async () => {
+    try {
+      const data = await api.getCategories();
+      setProductCategories(categoryTree(data).map(({ category }) => category.name));
+    } catch (error) {
+      console.error('Failed to fetch categories:', error);
+    }
+  };
+
+  useEffect(() => {
+    setCompanyName(settings.company_name);
+    setCompanyAddress(settings.company_address);
+    setCompanyPhone(settings.company_phone);
+    setCompanyEmail(settings.company_email);
+    setCurrencySymbol(settings.currency_symbol);
+    setShowBundleComponents(settings.receipt_show_bundle_components);
+    setReceiptTemplate(settings.receipt_template);
+    setTaxRates(settings.tax_rates);
+    setDefaultTaxRateId(settings.default_tax_rate_id);
+    setCategoryTaxRates(settings.category_tax_rates);
+    setPricesIncludeTax(settings.prices_include_tax);
+    setInvoicePrefix(settings.invoice_prefix);
+    setInvoiceNumberPadding(settings.invoice_number_padding);
+    setIncludeYear(settings.invoice_number_include_year);
+    setYearlyReset(settings.invoice_number_yearly_reset);
+    setStockPolicy(settings.stock_policy);
+    setOverridePin("");
+  }, [settings]);
+
+  const handleSaveCompany = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!companyName.trim()) {
+      toast.error("Company name is required");
+      return;
+    }
+
+    setSavingCompany(true);
+    const { error } = await updateSettings({
+      company_name: companyName.trim(),
+      company_address: companyAddress.trim(),
+      company_phone: companyPhone.trim(),
+      company_email: companyEmail.trim(),
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Company information saved");
+    }
+    setSavingCompany(false);
+  };
+
+  const handleSavePreferences = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currencySymbol.trim()) {
+      toast.error("Currency symbol is required");
+      return;
+    }
+
+    setSavingPreferences(true);
+    const { error } = await updateSettings({
+      currency_symbol: currencySymbol.trim(),
+      receipt_show_bundle_components: showBundleComponents,
+      receipt_template: receiptTemplate,
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Preferences saved");
+    }
+    setSavingPreferences(false);
+  };
+
+  const addTaxRate = () => {
+    setTaxRates([
+      ...taxRates,
+      { id: `rate-${Date.now()}`, name: "", rate: 0, tax_class: "standard" },
+    ]);
+  };
+
+  const updateTaxRate = (id: string, changes: Partial<TaxRate>) => {
+    setTaxRates(taxRates.map((rate) => (rate.id === id ? { ...rate, ...changes } : rate)));
+  };
+
+  const removeTaxRate = (id: string) => {
+    setTaxRates(taxRates.filter((rate) => rate.id !== id));
+    setCategoryTaxRates(
+      Object.fromEntries(Object.entries(categoryTaxRates).filter(([, rateId]) => rateId !== id))
+    );
+  };
+
+  const setCategoryRate = (category: string, rateId: string) => {
+    const next = { ...categoryTaxRates };
+    if (rateId === USE_DEFAULT_RATE) {
+      delete next[category];
+    } else {
+      next[category] = rateId;
+    }
+    setCategoryTaxRates(next);
+  };
+
+  const handleSaveTax = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (taxRates.some((rate) => !rate.name.trim())) {
+      toast.error("Every tax rate needs a name");
+      return;
+    }
+    if (taxRates.some((rate) => isNaN(rate.rate) || rate.rate < 0 || rate.rate > 100)) {
+      toast.error("Tax rates must be between 0 and 100");
+      return;
+    }
+
+    setSavingTax(true);
+    const { error } = await updateSettings({
+      tax_rates: taxRates.map((rate) => ({ ...rate, name: rate.name.trim() })),
+      default_tax_rate_id: defaultTaxRateId,
+      category_tax_rates: categoryTaxRates,
+      prices_include_tax: pricesIncludeTax,
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Tax settings saved");
+    }
+    setSavingTax(false);
+  };
+
+  const handleSaveNumbering = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNaN(invoiceNumberPadding) || invoiceNumberPadding < 1 || invoiceNumberPadding > 10) {
+      toast.error("Padding must be between 1 and 10 digits");
+      return;
+    }
+
+    setSavingNumbering(true);
+    const { error } = await updateSettings({
+      invoice_prefix: invoicePrefix.trim(),
+      invoice_number_padding: invoiceNumberPadding,
+      invoice_number_include_year: includeYear,
+      // Restarting each year would repeat numbers unless the year tells them apart
+      invoice_number_yearly_reset: includeYear && yearlyReset,
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Invoice numbering saved");
+    }
+    setSavingNumbering(false);
+  };
+
+  const handleSaveStockControl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (overridePin && !/^\d{4,8}$/.test(overridePin)) {
+      toast.error("Override PIN must be 4 to 8 digits");
+      return;
+    }
+    if (stockPolicy === "override" && !overridePin && !settings.stock_override_pin_set) {
+      toast.error("Set an override PIN to allow manager overrides");
+      return;
+    }
+
+    setSavingStock(true);
+    const { error } = await updateSettings({
+      stock_policy: stockPolicy,
+      ...(overridePin ? { stock_override_pin: overridePin } : {}),
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Stock control saved");
+    }
+    setSavingStock(false);
+  };
+
+  const handleRemovePin = async () => {
+    setSavingStock(true);
+    const { error } = await updateSettings({
+      // Overrides are impossible without a PIN, so fall back to blocking
+      stock_policy: stockPolicy === "override" ? "block" : stockPolicy,
+      stock_override_pin: "",
+    });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Override PIN removed");
+    }
+    setSavingStock(false);
+  };
+
+  const numberPreview = formatInvoiceNumber(
+    {
+      invoice_prefix: invoicePrefix.trim(),
+      invoice_number_padding: Math.min(Math.max(invoiceNumberPadding || 1, 1), 10),
+      invoice_number_include_year: includeYear,
+    },
+    1,
+    new Date().getFullYear()
+  );
+
+  const mappedCategories = [...new Set([...productCategories, ...Object.keys(categoryTaxRates)])];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -23,26 +290,52 @@ const Settings = () => {
               Update your company details for invoices
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="companyName">Company Name</Label>
-              <Input id="companyName" defaultValue="PURE TRUST GENERAL ENTERPRISES" />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="address">Address</Label>
-              <Input id="address" defaultValue="No. 122 Dorayi Chiranchi, Panshekara Road, Kano State" />
-            </div>
-            <div className="grid gap-4 md:grid-cols-2">
+          <CardContent>
+            <form onSubmit={handleSaveCompany} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="phone">Phone</Label>
-                <Input id="phone" defaultValue="+234 814 024 4774" />
+                <Label htmlFor="companyName">Company Name</Label>
+                <Input
+                  id="companyName"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
+                  placeholder="Company name"
+                />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input id="email" defaultValue="info@puretrust.com.ng" />
+                <Label htmlFor="address">Address</Label>
+                <Input
+                  id="address"
+                  value={companyAddress}
+                  onChange={(e) => setCompanyAddress(e.target.value)}
+                  placeholder="Address"
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={companyPhone}
+                    onChange={(e) => setCompanyPhone(e.target.value)}
+                    placeholder="Phone"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={companyEmail}
+                    onChange={(e) => setCompanyEmail(e.target.value)}
+                    placeholder="Email"
+                  />
+                </div>
               </div>
-            </div>
-            <Button className="mt-4">Save Changes</Button>
+              <Button type="submit" className="mt-4 gap-2" disabled={savingCompany}>
+                {savingCompany && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Changes
+              </Button>
+            </form>
           </CardContent>
         </Card>
 
@@ -56,16 +349,341 @@ const Settings = () => {
               Configure application preferences
             </CardDescription>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="currency">Currency Symbol</Label>
-              <Input id="currency" defaultValue="₦" />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="taxRate">VAT Rate (%)</Label>
-              <Input id="taxRate" type="number" defaultValue="7.5" />
-            </div>
-            <Button className="mt-4">Save Preferences</Button>
+          <CardContent>
+            <form onSubmit={handleSavePreferences} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="currency">Currency Symbol</Label>
+                <Input
+                  id="currency"
+                  value={currencySymbol}
+                  onChange={(e) => setCurrencySymbol(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receiptTemplate">Receipt layout</Label>
+                <Select value={receiptTemplate} onValueChange={(value) => setReceiptTemplate(value as ReceiptTemplate)}>
+                  <SelectTrigger id="receiptTemplate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECEIPT_TEMPLATE_OPTIONS.map((template) => (
+                      <SelectItem key={template} value={template}>
+                        {RECEIPT_TEMPLATE_LABELS[template]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Used for every print unless another layout is picked on the receipt</p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="showBundleComponents">List bundle contents on receipts</Label>
+                  <p className="text-xs text-muted-foreground">Print the products in each bundle under its line</p>
+                </div>
+                <Switch
+                  id="showBundleComponents"
+                  checked={showBundleComponents}
+                  onCheckedChange={setShowBundleComponents}
+                />
+              </div>
+              <Button type="submit" className="mt-4 gap-2" disabled={savingPreferences}>
+                {savingPreferences && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Preferences
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <ReceiptDesignSettings />
+
+        <ReceiptPrinterSettings />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Invoice Numbering
+            </CardTitle>
+            <CardDescription>
+              Numbers are assigned in sequence when a sale is saved
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveNumbering} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="invoicePrefix">Prefix</Label>
+                  <Input
+                    id="invoicePrefix"
+                    value={invoicePrefix}
+                    onChange={(e) => setInvoicePrefix(e.target.value)}
+                    maxLength={20}
+                    placeholder="INV-"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invoiceNumberPadding">Digits</Label>
+                  <Input
+                    id="invoiceNumberPadding"
+                    type="number"
+                    min="1"
+                    max="10"
+                    value={invoiceNumberPadding}
+                    onChange={(e) => setInvoiceNumberPadding(parseInt(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="includeYear">Include year</Label>
+                  <p className="text-xs text-muted-foreground">Put the year the sale was made in the number</p>
+                </div>
+                <Switch id="includeYear" checked={includeYear} onCheckedChange={setIncludeYear} />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="yearlyReset">Restart each year</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Start again from 1 on the first sale of a new year (requires the year in the number)
+                  </p>
+                </div>
+                <Switch
+                  id="yearlyReset"
+                  checked={includeYear && yearlyReset}
+                  disabled={!includeYear}
+                  onCheckedChange={setYearlyReset}
+                />
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Example: <span className="font-mono text-foreground">{numberPreview}</span>. Going back to a
+                format used before carries on after the highest number already issued in it.
+              </p>
+
+              <Button type="submit" className="gap-2" disabled={savingNumbering}>
+                {savingNumbering && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Numbering
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Stock Control
+            </CardTitle>
+            <CardDescription>
+              What happens when a sale asks for more than is on hand
+              {!canManageStockControl && " (only an admin can change this)"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveStockControl} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="stockPolicy">When stock runs short</Label>
+                <Select
+                  value={stockPolicy}
+                  onValueChange={(value) => setStockPolicy(value as StockPolicy)}
+                  disabled={!canManageStockControl}
+                >
+                  <SelectTrigger id="stockPolicy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STOCK_POLICY_LABELS) as StockPolicy[]).map((policy) => (
+                      <SelectItem key={policy} value={policy}>{STOCK_POLICY_LABELS[policy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="overridePin">Manager override PIN</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="overridePin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    value={overridePin}
+                    onChange={(e) => setOverridePin(e.target.value)}
+                    placeholder={settings.stock_override_pin_set ? "PIN set - enter a new one to change it" : "4 to 8 digits"}
+                    disabled={!canManageStockControl}
+                  />
+                  {settings.stock_override_pin_set && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleRemovePin}
+                      disabled={!canManageStockControl || savingStock}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <Button type="submit" className="gap-2" disabled={!canManageStockControl || savingStock}>
+                {savingStock && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Stock Control
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Tax
+            </CardTitle>
+            <CardDescription>
+              Named tax rates, category defaults and how prices are entered
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveTax} className="space-y-6">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base font-semibold">Tax Rates</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addTaxRate} className="gap-1">
+                    <Plus className="h-4 w-4" />
+                    Add Rate
+                  </Button>
+                </div>
+                {taxRates.map((rate) => (
+                  <div key={rate.id} className="grid gap-3 p-3 rounded-lg bg-muted/50 md:grid-cols-[1fr_140px_90px_40px]">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Name</Label>
+                      <Input
+                        value={rate.name}
+                        onChange={(e) => updateTaxRate(rate.id, { name: e.target.value })}
+                        placeholder="e.g. VAT"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Class</Label>
+                      <Select
+                        value={rate.tax_class}
+                        onValueChange={(value) =>
+                          updateTaxRate(rate.id, {
+                            tax_class: value as TaxClass,
+                            rate: value === "standard" ? rate.rate : 0,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="bg-background">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map((taxClass) => (
+                            <SelectItem key={taxClass} value={taxClass}>
+                              {TAX_CLASS_LABELS[taxClass]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">Rate (%)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={rate.rate}
+                        onChange={(e) => updateTaxRate(rate.id, { rate: parseFloat(e.target.value) || 0 })}
+                        disabled={rate.tax_class !== "standard"}
+                        className={rate.tax_class !== "standard" ? "bg-muted" : ""}
+                      />
+                    </div>
+                    <div className="flex items-end">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeTaxRate(rate.id)}
+                        disabled={rate.id === defaultTaxRateId || taxRates.length === 1}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="defaultTaxRate">Default Rate</Label>
+                <Select value={defaultTaxRateId} onValueChange={setDefaultTaxRateId}>
+                  <SelectTrigger id="defaultTaxRate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {taxRates.map((rate) => (
+                      <SelectItem key={rate.id} value={rate.id}>
+                        {rate.name || "Unnamed rate"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Used when neither the product nor its category names a rate
+                </p>
+              </div>
+
+              {mappedCategories.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Category Rates</Label>
+                  <div className="space-y-2">
+                    {mappedCategories.map((category) => (
+                      <div key={category} className="flex items-center justify-between gap-4">
+                        <span className="text-sm">{category}</span>
+                        <Select
+                          value={categoryTaxRates[category] || USE_DEFAULT_RATE}
+                          onValueChange={(value) => setCategoryRate(category, value)}
+                        >
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={USE_DEFAULT_RATE}>Use default</SelectItem>
+                            {taxRates.map((rate) => (
+                              <SelectItem key={rate.id} value={rate.id}>
+                                {rate.name || "Unnamed rate"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="pricesIncludeTax">Prices include tax</Label>
+                  <p className="text-xs text-muted-foreground">
+                    When on, product prices are tax-inclusive and tax is extracted from them
+                  </p>
+                </div>
+                <Switch
+                  id="pricesIncludeTax"
+                  checked={pricesIncludeTax}
+                  onCheckedChange={setPricesIncludeTax}
+                />
+              </div>
+
+              <Button type="submit" className="gap-2" disabled={savingTax}>
+                {savingTax && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save Tax Settings
+              </Button>
+            </form>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,482 @@
+import { useState, useEffect, useRef } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Ban,
+  CheckCircle2,
+  ClipboardList,
+  FileText,
+  Loader2,
+  RefreshCw,
+  ScanLine,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Stocktake, StocktakeCountInput, StocktakeItem } from "@/lib/api";
+import { findProductByCode } from "@/lib/barcodes";
+import {
+  STOCKTAKE_STATUS_LABELS,
+  counterQuantity,
+  itemVariance,
+  itemVarianceValue,
+  summariseStocktake,
+} from "@/lib/stocktakes";
+import { downloadStocktakePdf } from "@/utils/stocktakePdf";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+// Remembers who is counting on this device between visits
+const COUNTER_STORAGE_KEY = "stocktake_counter";
+
+type ItemFilter = 'all' | 'uncounted' | 'variances';
+
+const StocktakeDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const canApprove = user?.role !== "cashier";
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [counter, setCounter] = useState(() => localStorage.getItem(COUNTER_STORAGE_KEY) || user?.email || "");
+  const [filter, setFilter] = useState<ItemFilter>('all');
+  const [search, setSearch] = useState("");
+  // Typed counts not yet saved, by product
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [scanCode, setScanCode] = useState("");
+  const [scanError, setScanError] = useState<string>();
+  const [lastScanned, setLastScanned] = useState<StocktakeItem | null>(null);
+  const [confirming, setConfirming] = useState<'approve' | 'cancel' | null>(null);
+  const [finishing, setFinishing] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (user && id) {
+      fetchStocktake(id);
+    }
+  }, [user, id]);
+
+  const fetchStocktake = async (stocktakeId: string) => {
+    try {
+      setStocktake(await api.getStocktake(stocktakeId));
+    } catch (error) {
+      toast.error('Failed to load stocktake');
+    }
+    setLoading(false);
+  };
+
+  const handleRefresh = async () => {
+    if (!id) return;
+    setRefreshing(true);
+    await fetchStocktake(id);
+    setRefreshing(false);
+  };
+
+  const updateCounter = (name: string) => {
+    setCounter(name);
+    localStorage.setItem(COUNTER_STORAGE_KEY, name);
+  };
+
+  const recordCount = async (item: StocktakeItem, mode: StocktakeCountInput['mode'], quantity: number | null) => {
+    if (!stocktake) return null;
+    if (!counter.trim()) {
+      toast.error('Enter who is counting first');
+      return null;
+    }
+
+    try {
+      const updated = await api.recordStocktakeCount(stocktake.id, {
+        product_id: item.product_id,
+        counter: counter.trim(),
+        mode,
+        quantity,
+      });
+      setStocktake(updated);
+      return updated.items?.find((i) => i.product_id === item.product_id) ?? null;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save count');
+      return null;
+    }
+  };
+
+  // Each scan counts one unit for the current counter
+  const handleScan = async (code: string) => {
+    const item = findProductByCode(stocktake?.items ?? [], code);
+    setScanCode("");
+
+    if (!item) {
+      setScanError(`No product in this stocktake has barcode or SKU "${code.trim()}"`);
+      return;
+    }
+
+    setScanError(undefined);
+    const updated = await recordCount(item, 'add', 1);
+    if (updated) setLastScanned(updated);
+  };
+
+  const undoLastScan = async () => {
+    if (!lastScanned) return;
+    const updated = await recordCount(lastScanned, 'add', -1);
+    if (updated) setLastScanned(updated);
+    scanInputRef.current?.focus();
+  };
+
+  const commitDraft = async (item: StocktakeItem) => {
+    const draft = drafts[item.product_id];
+    if (draft === undefined) return;
+
+    const quantity = draft.trim() === '' ? null : parseInt(draft);
+    if (quantity !== null && (isNaN(quantity) || quantity < 0)) {
+      toast.error('Enter a count of zero or more');
+      return;
+    }
+
+    if (quantity !== counterQuantity(item, counter.trim())) {
+      await recordCount(item, 'set', quantity);
+    }
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[item.product_id];
+      return next;
+    });
+  };
+
+  const handleFinish = async () => {
+    if (!stocktake || !confirming) return;
+    setFinishing(true);
+    try {
+      if (confirming === 'approve') {
+        setStocktake(await api.approveStocktake(stocktake.id));
+        toast.success('Stocktake approved and stock levels updated');
+      } else {
+        setStocktake(await api.cancelStocktake(stocktake.id));
+        toast.success('Stocktake cancelled');
+      }
+      setConfirming(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update stocktake');
+    }
+    setFinishing(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="space-y-4">
+        <Link to="/stocktakes" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to stocktakes
+        </Link>
+        <p className="text-muted-foreground">Stocktake not found</p>
+      </div>
+    );
+  }
+
+  const items = stocktake.items ?? [];
+  const counting = stocktake.status === 'counting';
+  const summary = summariseStocktake(items);
+  const query = search.trim().toLowerCase();
+  const shownItems = items.filter((item) => {
+    const variance = itemVariance(item);
+    if (filter === 'uncounted' && variance !== null) return false;
+    if (filter === 'variances' && !variance) return false;
+    return !query || [item.name, item.sku, item.barcode].some((value) => value?.toLowerCase().includes(query));
+  });
+
+  const formatValue = (value: number) =>
+    `${value < 0 ? '-' : value > 0 ? '+' : ''}${currency}${Math.abs(value).toLocaleString()}`;
+
+  const cards = [
+    {
+      title: "Counted",
+      value: `${summary.counted} / ${items.length}`,
+      icon: ClipboardList,
+      description: summary.uncounted > 0 ? `${summary.uncounted} not counted yet` : "Every product counted",
+    },
+    {
+      title: "Short",
+      value: formatValue(summary.shortValue),
+      icon: TrendingDown,
+      description: `${summary.shortUnits} units fewer than expected`,
+      alert: summary.shortUnits > 0,
+    },
+    {
+      title: "Over",
+      value: formatValue(summary.overValue),
+      icon: TrendingUp,
+      description: `${summary.overUnits} units more than expected`,
+    },
+    {
+      title: "Net Variance",
+      value: formatValue(summary.netValue),
+      icon: AlertTriangle,
+      description: summary.unknownCost > 0 ? `${summary.unknownCost} with no cost price left out` : "At cost price",
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-2">
+          <Link to="/stocktakes" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to stocktakes
+          </Link>
+          <h1 className="text-2xl font-bold flex items-center gap-3">
+            Stocktake {stocktake.stocktake_number}
+            <Badge variant="outline">{STOCKTAKE_STATUS_LABELS[stocktake.status]}</Badge>
+          </h1>
+          <p className="text-muted-foreground">
+            {stocktake.category ?? 'All products'} · started {format(new Date(stocktake.created_at), 'dd/MM/yyyy HH:mm')} by {stocktake.created_by}
+            {stocktake.approved_at && ` · approved ${format(new Date(stocktake.approved_at), 'dd/MM/yyyy HH:mm')} by ${stocktake.approved_by}`}
+          </p>
+          {stocktake.notes && <p className="text-sm text-muted-foreground">{stocktake.notes}</p>}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => downloadStocktakePdf(stocktake, settings)}>
+            <FileText className="h-4 w-4" />
+            PDF
+          </Button>
+          {counting && (
+            <>
+              <Button variant="outline" className="gap-2" onClick={handleRefresh} disabled={refreshing}>
+                <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={() => setConfirming('cancel')}>
+                <Ban className="h-4 w-4" />
+                Cancel
+              </Button>
+              {canApprove && (
+                <Button className="gap-2" onClick={() => setConfirming('approve')} disabled={summary.counted === 0}>
+                  <CheckCircle2 className="h-4 w-4" />
+                  Approve
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title} className={card.alert ? "border-destructive/50" : ""}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {card.title}
+              </CardTitle>
+              <card.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.description}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {counting && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="h-5 w-5" />
+              Count
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-[250px_1fr]">
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-counter">Counting as</Label>
+              <Input
+                id="stocktake-counter"
+                value={counter}
+                onChange={(e) => updateCounter(e.target.value)}
+                placeholder="Your name or area"
+                maxLength={100}
+              />
+              <p className="text-xs text-muted-foreground">
+                Each counter keeps their own tally, which is added to everyone else's
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-scan">Scan or type a barcode / SKU</Label>
+              <Input
+                id="stocktake-scan"
+                ref={scanInputRef}
+                value={scanCode}
+                onChange={(e) => setScanCode(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    if (scanCode.trim()) handleScan(scanCode);
+                  }
+                }}
+                placeholder="Each scan counts one unit"
+                autoFocus
+              />
+              {scanError ? (
+                <p className="text-sm text-destructive">{scanError}</p>
+              ) : lastScanned && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>
+                    <span className="font-medium">{lastScanned.name}</span>
+                    {" · "}your count {counterQuantity(lastScanned, counter.trim()) ?? 0}
+                  </span>
+                  <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={undoLastScan}>
+                    Undo
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-center sm:justify-between">
+          <Tabs value={filter} onValueChange={(value) => setFilter(value as ItemFilter)}>
+            <TabsList>
+              <TabsTrigger value="all">All ({items.length})</TabsTrigger>
+              <TabsTrigger value="uncounted">Not counted ({summary.uncounted})</TabsTrigger>
+              <TabsTrigger value="variances">Variances ({summary.counted - summary.matched})</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products..."
+            className="sm:max-w-[250px]"
+          />
+        </CardHeader>
+        <CardContent>
+          {shownItems.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No products match</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-center">Expected</TableHead>
+                  {counting && <TableHead className="w-[120px]">Your count</TableHead>}
+                  <TableHead className="text-center">Counted</TableHead>
+                  <TableHead className="text-center">Variance</TableHead>
+                  <TableHead className="text-right">Value at cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownItems.map((item) => {
+                  const variance = itemVariance(item);
+                  const value = itemVarianceValue(item);
+                  const ownCount = counterQuantity(item, counter.trim());
+                  return (
+                    <TableRow key={item.product_id}>
+                      <TableCell>
+                        <p className="font-medium">{item.name}</p>
+                        {(item.sku || item.barcode) && (
+                          <p className="text-xs text-muted-foreground">
+                            {[item.sku, item.barcode].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">{item.system_quantity}</TableCell>
+                      {counting && (
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            className="h-8"
+                            value={drafts[item.product_id] ?? ownCount?.toString() ?? ""}
+                            onChange={(e) => setDrafts({ ...drafts, [item.product_id]: e.target.value })}
+                            onBlur={() => commitDraft(item)}
+                            onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                            placeholder="-"
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className="text-center">
+                        {item.counted_quantity ?? <span className="text-muted-foreground">-</span>}
+                        {item.counts.some((count) => count.counter !== counter.trim()) && (
+                          <p className="text-xs text-muted-foreground">
+                            {item.counts.map((count) => `${count.counter}: ${count.quantity}`).join(", ")}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-center ${variance && variance < 0 ? 'text-destructive' : variance ? 'text-emerald-600' : ''}`}
+                      >
+                        {variance === null ? "" : `${variance > 0 ? '+' : ''}${variance}`}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {value === null ? (variance ? "No cost" : "") : formatValue(value)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!confirming} onOpenChange={(open) => { if (!open) setConfirming(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {confirming === 'approve' ? `Approve ${stocktake.stocktake_number}` : `Cancel ${stocktake.stocktake_number}`}
+            </DialogTitle>
+            <DialogDescription>
+              {confirming === 'approve'
+                ? `Stock for the ${summary.counted - summary.matched} product(s) with a variance will be adjusted by ${formatValue(summary.netValue)} at cost.`
+                : 'No stock levels will change. The counts so far stay on record.'}
+            </DialogDescription>
+          </DialogHeader>
+          {confirming === 'approve' && summary.uncounted > 0 && (
+            <p className="text-sm text-amber-600">
+              {summary.uncounted} product(s) were not counted and will keep their current stock.
+            </p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)} disabled={finishing}>
+              Back
+            </Button>
+            <Button
+              variant={confirming === 'cancel' ? 'destructive' : 'default'}
+              onClick={handleFinish}
+              disabled={finishing}
+            >
+              {finishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {confirming === 'approve' ? 'Approve and Adjust Stock' : 'Cancel Stocktake'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default StocktakeDetail;
@@ -0,0 +1,178 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, Loader2, Play } from "lucide-react";
+import { CategoryFilter } from "@/components/CategoryFilter";
+import { useAuth } from "@/hooks/useAuth";
+import { useSettings } from "@/hooks/useSettings";
+import { api, Stocktake, StocktakeStatus } from "@/lib/api";
+import { STOCKTAKE_STATUS_LABELS } from "@/lib/stocktakes";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const STATUS_BADGE_CLASSES: Record<StocktakeStatus, string> = {
+  counting: 'bg-primary/10 text-primary',
+  approved: 'bg-emerald-500/20 text-emerald-600',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+const Stocktakes = () => {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const currency = settings.currency_symbol;
+  const navigate = useNavigate();
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+
+  // Start form state
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (user) {
+      fetchStocktakes();
+    }
+  }, [user]);
+
+  const fetchStocktakes = async () => {
+    try {
+      setStocktakes(await api.getStocktakes());
+    } catch (error) {
+      toast.error('Failed to load stocktakes');
+    }
+    setLoading(false);
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStarting(true);
+    try {
+      const stocktake = await api.createStocktake({ category_id: categoryId, notes: notes.trim() || undefined });
+      toast.success(`Stocktake ${stocktake.stocktake_number} started with ${stocktake.item_count} products`);
+      navigate(`/stocktakes/${stocktake.id}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start stocktake');
+    }
+    setStarting(false);
+  };
+
+  const openStocktake = stocktakes.find((stocktake) => stocktake.status === 'counting');
+
+  const formatValue = (value: number) =>
+    `${value < 0 ? '-' : value > 0 ? '+' : ''}${currency}${Math.abs(value).toLocaleString()}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Stocktakes</h1>
+        <p className="text-muted-foreground">Count what is on the shelves and correct stock levels</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[350px_1fr]">
+        <Card className="lg:self-start">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Play className="h-5 w-5" />
+              Start Stocktake
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openStocktake ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {openStocktake.stocktake_number} is still being counted. Approve or cancel it before starting another.
+                </p>
+                <Button asChild className="w-full">
+                  <Link to={`/stocktakes/${openStocktake.id}`}>Continue {openStocktake.stocktake_number}</Link>
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleStart} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Products to count</Label>
+                  <CategoryFilter value={categoryId} onChange={setCategoryId} className="w-full" />
+                  <p className="text-xs text-muted-foreground">
+                    Stock levels are frozen when you start; sales made while you count are allowed for on approval
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stocktake-notes">Notes (optional)</Label>
+                  <Input
+                    id="stocktake-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. Month-end count"
+                    maxLength={500}
+                  />
+                </div>
+                <Button type="submit" className="w-full gap-2" disabled={starting || loading}>
+                  {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <ClipboardCheck className="h-4 w-4" />}
+                  Start Counting
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stocktakes ({stocktakes.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : stocktakes.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No stocktakes yet. Start your first count!</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stocktake</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-center">Counted</TableHead>
+                    <TableHead className="text-right">Variance at cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stocktakes.map((stocktake) => (
+                    <TableRow key={stocktake.id} className="cursor-pointer" onClick={() => navigate(`/stocktakes/${stocktake.id}`)}>
+                      <TableCell>
+                        <p className="font-medium">{stocktake.stocktake_number}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(stocktake.created_at), 'dd/MM/yyyy')} · {stocktake.created_by}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{stocktake.category ?? 'All products'}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={STATUS_BADGE_CLASSES[stocktake.status]}>
+                          {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {stocktake.counted_count} / {stocktake.item_count}
+                      </TableCell>
+                      <TableCell className={`text-right ${stocktake.variance_value < 0 ? 'text-destructive' : ''}`}>
+                        {formatValue(stocktake.variance_value)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Stocktakes;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
-import { api } from '@/lib/api';
+import { api, TaxData as ApiTaxData } from '@/lib/api';
+import { TAX_CLASS_LABELS } from '@/lib/tax';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -30,8 +31,9 @@ const TaxTracking = () => {
   const [availableYears, setAvailableYears] = useState<string[]>([]);
   const [monthlyData, setMonthlyData] = useState<TaxData[]>([]);
   const [quarterlyData, setQuarterlyData] = useState<QuarterlyData[]>([]);
+  const [rateBreakdown, setRateBreakdown] = useState<ApiTaxData['rateBreakdown']>([]);
   const [loading, setLoading] = useState(true);
-  const [totals, setTotals] = useState({ tax: 0, sales: 0, invoices: 0 });
+  const [totals, setTotals] = useState({ tax: 0, sales: 0, invoices: 0, returns: 0 });
 
   useEffect(() => {
     if (user) {
@@ -47,10 +49,12 @@ const TaxTracking = () => {
       
       setMonthlyData(data.monthlyData);
       setQuarterlyData(data.quarterlyData);
+      setRateBreakdown(data.rateBreakdown);
       setTotals({
         tax: data.totalTax,
         sales: data.totalSales,
         invoices: data.totalInvoices,
+        returns: data.totalReturns,
       });
       setAvailableYears(data.availableYears.map(y => y.toString()));
     } catch (error) {
@@ -64,7 +68,8 @@ const TaxTracking = () => {
     return `₦${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   };
 
-  const taxRate = totals.sales > 0 ? ((totals.tax / (totals.sales - totals.tax)) * 100).toFixed(2) : '0';
+  // Sales are reported net of tax
+  const taxRate = totals.sales > 0 ? ((totals.tax / totals.sales) * 100).toFixed(2) : '0';
 
   return (
     <div className="space-y-6">
@@ -105,7 +110,9 @@ const TaxTracking = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(totals.sales)}</div>
-            <p className="text-xs text-muted-foreground">Gross revenue</p>
+            <p className="text-xs text-muted-foreground">
+              Net of tax{totals.returns > 0 && ` and ${formatCurrency(totals.returns)} returns`}
+            </p>
           </CardContent>
         </Card>
 
@@ -136,6 +143,7 @@ const TaxTracking = () => {
         <TabsList>
           <TabsTrigger value="monthly">Monthly Breakdown</TabsTrigger>
           <TabsTrigger value="quarterly">Quarterly Summary</TabsTrigger>
+          <TabsTrigger value="rates">By Rate</TabsTrigger>
         </TabsList>
 
         <TabsContent value="monthly" className="space-y-4">
@@ -270,6 +278,46 @@ const TaxTracking = () => {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="rates" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax by Rate</CardTitle>
+              <CardDescription>Taxable sales and tax collected per rate in {selectedYear}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rateBreakdown.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No sales recorded for {selectedYear}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rate</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead className="text-right">Taxable Sales</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rateBreakdown.map((row) => (
+                      <TableRow key={`${row.name}-${row.rate}-${row.taxClass}`}>
+                        <TableCell className="font-medium">
+                          {row.name}
+                          {row.rate !== null && row.taxClass === 'standard' ? ` (${row.rate}%)` : ''}
+                        </TableCell>
+                        <TableCell>{row.taxClass ? TAX_CLASS_LABELS[row.taxClass] : '—'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.taxable)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.tax)}</TableCell>
+                        <TableCell className="text-right">{row.lineCount}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { api, ReceiptVerification } from '@/lib/api';
+import { RECEIPT_VERIFICATION_LABELS } from '@/lib/receiptVerification';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Ban, CheckCircle2, Loader2, ShieldAlert, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+const STATUS_ICONS = {
+  valid: <CheckCircle2 className="h-12 w-12 text-green-600" />,
+  voided: <Ban className="h-12 w-12 text-amber-600" />,
+  altered: <ShieldAlert className="h-12 w-12 text-destructive" />,
+  not_found: <XCircle className="h-12 w-12 text-destructive" />,
+};
+
+/**
+ * Public page opened by scanning a receipt's QR code. Shows what our records say about the
+ * invoice so the holder can compare it with the paper.
+ */
+const VerifyReceipt = () => {
+  const { invoiceNumber = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const hash = searchParams.get('h') ?? '';
+  const printedTotal = searchParams.get('t');
+  const printedDate = searchParams.get('d');
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (!hash) {
+      setError('This link has no verification code. Scan the QR code on the receipt again.');
+      return;
+    }
+    api.verifyReceipt(invoiceNumber, hash)
+      .then(setResult)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not check this receipt'));
+  }, [invoiceNumber, hash]);
+
+  // The signature matched, but the total carried in the link was changed
+  const totalMismatch = result?.total !== undefined && printedTotal !== null
+    && Math.abs(result.total - parseFloat(printedTotal)) > 0.005;
+  const status = result && result.status === 'valid' && totalMismatch ? 'altered' : result?.status;
+  const currency = result?.currency_symbol ?? '';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="items-center text-center">
+          {!result && !error && <Loader2 className="h-12 w-12 animate-spin text-primary" />}
+          {error && <XCircle className="h-12 w-12 text-destructive" />}
+          {status && STATUS_ICONS[status]}
+          <CardTitle>{status ? RECEIPT_VERIFICATION_LABELS[status].title : error ? 'Check failed' : 'Checking receipt'}</CardTitle>
+          <CardDescription>
+            {status ? RECEIPT_VERIFICATION_LABELS[status].description : error}
+          </CardDescription>
+        </CardHeader>
+        {result && (
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Invoice #</span>
+              <span className="font-medium">{result.invoice_number}</span>
+            </div>
+            {result.company_name && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Issued by</span>
+                <span>{result.company_name}</span>
+              </div>
+            )}
+            {result.created_at && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Date on record</span>
+                <span>{format(new Date(result.created_at), 'dd/MM/yyyy HH:mm')}</span>
+              </div>
+            )}
+            {result.total !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total on record</span>
+                <span className="font-medium">{currency}{result.total.toFixed(2)}</span>
+              </div>
+            )}
+            {totalMismatch && (
+              <p className="text-destructive">
+                The receipt says {currency}{printedTotal}
+                {printedDate ? ` on ${printedDate}` : ''}, which does not match the records.
+              </p>
+            )}
+            {result.voided_at && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Voided</span>
+                <span>{format(new Date(result.voided_at), 'dd/MM/yyyy HH:mm')}</span>
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyReceipt;
@@ -1,20 +1,49 @@
-export interface Product {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-}
+import type { Discount, InvoiceProduct, Payment, PaymentMethod } from "@/lib/api";
+
+// Receipt lines share their shape with the products JSON stored on each invoice
+export type Product = InvoiceProduct;
 
 export interface Invoice {
+  // The invoice number, or the credit note number for a refund
   id: string;
+  // The saved invoice's database id, for logging actions such as sharing against it
+  recordId?: string;
   companyName: string;
   companyAddress?: string;
   companyPhone?: string;
+  companyEmail?: string;
+  customerId?: string | null;
   customerName: string;
   issuerName: string;
   products: Product[];
   date: Date;
   subtotal: number;
+  discount?: Discount | null;
+  discountTotal?: number;
   tax: number;
+  pricesIncludeTax?: boolean;
   total: number;
+  payments?: Payment[];
+  amountPaid?: number;
+  changeDue?: number;
+  // Printed as a QR code so the receipt can be checked at /verify
+  verificationHash?: string | null;
+  // Set when this document is a credit note for returned goods
+  refund?: InvoiceRefund;
+  // Set when the sale has been cancelled
+  voided?: InvoiceVoid;
+}
+
+export interface InvoiceVoid {
+  at: Date;
+  by: string;
+  reason: string;
+}
+
+export interface InvoiceRefund {
+  originalInvoiceNumber: string;
+  reason?: string | null;
+  appliedToBalance: number;
+  refundedAmount: number;
+  refundMethod?: PaymentMethod | null;
 }
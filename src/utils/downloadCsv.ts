@@ -0,0 +1,28 @@
+type CsvCell = string | number | null | undefined;
+
+/**
+ * Quote a cell for CSV, doubling any quotes inside it
+ */
+const csvCell = (cell: CsvCell) => `"${String(cell ?? "").replace(/"/g, '""')}"`;
+
+/**
+ * Build a CSV file from a header row and data rows and have the browser download it
+ */
+export const downloadCsv = (filename: string, headers: string[], rows: CsvCell[][]) => {
+  const csvContent = [
+    headers.map(csvCell).join(","),
+    ...rows.map((row) => row.map(csvCell).join(","))
+  ].join("\n");
+
+  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
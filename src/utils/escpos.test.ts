@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ReceiptSettings } from "@/lib/api";
+import type { Invoice } from "@/types/invoice";
+import { renderEscPosReceipt, renderEscPosTestPage } from "@/utils/escpos";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const ALIGN_LEFT = [ESC, 0x61, 0];
+const ALIGN_CENTER = [ESC, 0x61, 1];
+const BOLD_ON = [ESC, 0x45, 1];
+const BOLD_OFF = [ESC, 0x45, 0];
+const UNDERLINE_OFF = [ESC, 0x2d, 0];
+const LARGE_ON = [GS, 0x21, 0x11];
+const LARGE_OFF = [GS, 0x21, 0x00];
+const FEED_3 = [ESC, 0x64, 3];
+const DRAWER_KICK = [ESC, 0x70, 0x00, 0x19, 0xfa];
+const CUT = [GS, 0x56, 0x42, 0x00];
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const line = (text: string) => [...ascii(text), LF];
+
+const startOf = (stream: Uint8Array, length: number) => Array.from(stream.slice(0, length));
+const endOf = (stream: Uint8Array, length: number) => Array.from(stream.slice(-length));
+
+// Position of needle in the stream, or -1
+const indexOf = (stream: Uint8Array, needle: number[]) => {
+  for (let i = 0; i + needle.length <= stream.length; i++) {
+    if (needle.every((byte, offset) => stream[i + offset] === byte)) return i;
+  }
+  return -1;
+};
+
+const invoice: Invoice = {
+  id: "INV-2026-0001",
+  companyName: "Acme Store",
+  companyAddress: "1 Market Road",
+  customerName: "Walk-in Customer",
+  issuerName: "Ada",
+  products: [
+    { id: "p1", name: "Rice 5kg", price: 12.5, quantity: 2 },
+    { id: "p2", name: "Palm Oil", price: 4, quantity: 1 },
+  ],
+  date: new Date(2026, 9, 19, 14, 30, 5),
+  subtotal: 29,
+  tax: 0,
+  total: 29,
+  payments: [{ method: "cash", amount: 29, tendered: 30 }],
+  amountPaid: 29,
+  changeDue: 1,
+};
+
+const settings: ReceiptSettings = {
+  currency_symbol: "₦",
+  receipt_show_bundle_components: true,
+  receipt_logo: null,
+  receipt_header: "",
+  receipt_footer: "**Thank you!**",
+  receipt_return_policy: "",
+};
+
+describe("renderEscPosReceipt", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("starts with init and a bold, double size company name", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48 });
+
+    const expected = [...INIT, ...ALIGN_CENTER, ...BOLD_ON, ...LARGE_ON, ...line("ACME STORE"), ...LARGE_OFF, ...BOLD_OFF];
+    expect(startOf(bytes, expected.length)).toEqual(expected);
+    expect(indexOf(bytes, [...line("1 Market Road"), ...ALIGN_LEFT, ...line("=".repeat(48))])).toBeGreaterThan(0);
+  });
+
+  it("lays out 80mm lines with the figures beside the name", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48 });
+
+    expect(indexOf(bytes, line("Invoice #:                         INV-2026-0001"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, [...BOLD_ON, ...line("ITEM                    QTY     PRICE      TOTAL"), ...BOLD_OFF])).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("Rice 5kg                  2     12.50      25.00"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("Palm Oil                  1      4.00       4.00"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("-".repeat(48)))).toBeGreaterThan(0);
+  });
+
+  it("puts the name above the figures on 58mm paper", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 32 });
+
+    expect(indexOf(bytes, [...BOLD_ON, ...line("ITEM                       TOTAL"), ...BOLD_OFF])).toBeGreaterThan(0);
+    expect(indexOf(bytes, [...line("Rice 5kg"), ...line("  2 x 12.50                25.00")])).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("=".repeat(32)))).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("-".repeat(48)))).toBe(-1);
+  });
+
+  it("prints totals and tenders with the currency in ASCII", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48 });
+
+    expect(indexOf(bytes, line("Subtotal:                                 N29.00"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, [...BOLD_ON, ...LARGE_ON, ...line("TOTAL:            N29.00"), ...LARGE_OFF, ...BOLD_OFF])).toBeGreaterThan(0);
+    expect(indexOf(bytes, line("Cash:                                     N30.00"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, [...BOLD_ON, ...line("Change:                                    N1.00"), ...BOLD_OFF])).toBeGreaterThan(0);
+  });
+
+  it("prints the formatted footer and ends with a feed and cut", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48 });
+
+    // Each word and space of formatted text carries its own styling
+    const boldText = (text: string) => [...BOLD_ON, ...UNDERLINE_OFF, ...ascii(text)];
+    expect(indexOf(bytes, [
+      ...ALIGN_CENTER,
+      ...LARGE_OFF,
+      ...boldText("Thank"),
+      ...boldText(" "),
+      ...boldText("you!"),
+      ...BOLD_OFF,
+      ...UNDERLINE_OFF,
+      LF,
+      ...LARGE_OFF,
+    ])).toBeGreaterThan(0);
+    const ending = [...line("INV-2026-0001"), ...ALIGN_LEFT, ...FEED_3, ...CUT];
+    expect(endOf(bytes, ending.length)).toEqual(ending);
+    expect(indexOf(bytes, DRAWER_KICK)).toBe(-1);
+  });
+
+  it("kicks the drawer before the cut when asked", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48, openDrawer: true });
+
+    expect(endOf(bytes, 12)).toEqual([...DRAWER_KICK, ...FEED_3, ...CUT]);
+  });
+
+  it("leaves the cut off when disabled", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48, cut: false });
+
+    expect(endOf(bytes, 3)).toEqual(FEED_3);
+    expect(indexOf(bytes, CUT)).toBe(-1);
+  });
+
+  it("prints the logo as a raster image before the company name", () => {
+    const logo = { width: 16, height: 2, data: Uint8Array.from([0xff, 0x00, 0x0f, 0xf0]) };
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48, logo });
+
+    // GS v 0, normal density, 2 bytes across, 2 rows high, then the rows
+    const expected = [...INIT, ...ALIGN_CENTER, GS, 0x76, 0x30, 0x00, 2, 0, 2, 0, 0xff, 0x00, 0x0f, 0xf0, LF, ...BOLD_ON];
+    expect(startOf(bytes, expected.length)).toEqual(expected);
+  });
+
+  it("prints the verification QR code with a module size for the paper width", () => {
+    vi.stubGlobal("window", { location: { origin: "https://pos.example" } });
+    const signed = { ...invoice, verificationHash: "ab".repeat(32) };
+    const url = `https://pos.example/verify/INV-2026-0001?d=2026-10-19&t=29.00&h=${"ab".repeat(32)}`;
+    const storeLength = url.length + 3;
+
+    const wide = renderEscPosReceipt(signed, settings, { columns: 48 });
+    expect(indexOf(wide, [
+      GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 5,
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+      GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...ascii(url),
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30, LF,
+      ...line("Scan to verify this receipt"),
+    ])).toBeGreaterThan(0);
+
+    const narrow = renderEscPosReceipt(signed, settings, { columns: 32 });
+    expect(indexOf(narrow, [GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 4])).toBeGreaterThan(0);
+  });
+
+  it("leaves the QR code off unsigned receipts", () => {
+    const bytes = renderEscPosReceipt(invoice, settings, { columns: 48 });
+
+    expect(indexOf(bytes, [GS, 0x28, 0x6b])).toBe(-1);
+  });
+});
+
+describe("renderEscPosTestPage", () => {
+  it("prints a heading, a bold line and the cut", () => {
+    const bytes = renderEscPosTestPage("Acme Store", { columns: 32, openDrawer: true });
+
+    const expected = [
+      ...INIT,
+      ...ALIGN_CENTER,
+      ...BOLD_ON,
+      ...LARGE_ON,
+      ...line("TEST PRINT"),
+      ...LARGE_OFF,
+      ...BOLD_OFF,
+      ...line("Acme Store"),
+    ];
+    expect(startOf(bytes, expected.length)).toEqual(expected);
+    expect(indexOf(bytes, line("Left                       Right"))).toBeGreaterThan(0);
+    expect(indexOf(bytes, [...BOLD_ON, ...line("Bold text"), ...BOLD_OFF, ...line("=".repeat(32))])).toBeGreaterThan(0);
+    expect(endOf(bytes, 12)).toEqual([...DRAWER_KICK, ...FEED_3, ...CUT]);
+  });
+});
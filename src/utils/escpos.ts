@@ -0,0 +1,369 @@
+import { format } from "date-fns";
+import type { ReceiptSettings } from "@/lib/api";
+import type { Invoice } from "@/types/invoice";
+import { summariseTaxByRate } from "@/lib/tax";
+import { formatDiscount, roundMoney } from "@/lib/discounts";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { receiptVerificationUrl } from "@/lib/receiptVerification";
+import { ReceiptTextLine, parseReceiptText, wrapReceiptLine } from "@/lib/receiptText";
+import type { LogoRaster } from "@/utils/receiptLogo";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Printers start in code page 437, which has no symbol for most currencies
+const ASCII_CURRENCY: Record<string, string> = {
+  "₦": "N",
+  "€": "EUR",
+  "£": "GBP",
+  "₵": "GHS",
+  "₹": "Rs",
+  "¥": "JPY",
+};
+
+type EscPosAlign = "left" | "center" | "right";
+
+export interface EscPosOptions {
+  // Characters per line in the printer's normal font: 48 on 80mm paper, 32 on 58mm
+  columns: number;
+  // Pulse the cash drawer connected to the printer's RJ11 port
+  openDrawer?: boolean;
+  cut?: boolean;
+  // The receipt logo, already dithered to fit the paper
+  logo?: LogoRaster;
+}
+
+/**
+ * Plain ASCII for the printer: accents are dropped and anything else unprintable becomes "?"
+ */
+const toPrinterText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, (char) => ASCII_CURRENCY[char] ?? char)
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+
+/**
+ * Collects ESC/POS commands and text into one byte stream
+ */
+class EscPosWriter {
+  private bytes: number[] = [];
+
+  constructor(readonly columns: number) {
+    // ESC @ resets the printer to its power-on state
+    this.command(ESC, 0x40);
+  }
+
+  command(...bytes: number[]) {
+    this.bytes.push(...bytes);
+    return this;
+  }
+
+  align(align: EscPosAlign) {
+    return this.command(ESC, 0x61, { left: 0, center: 1, right: 2 }[align]);
+  }
+
+  bold(on: boolean) {
+    return this.command(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // Double width and height halves the characters per line
+  large(on: boolean) {
+    return this.command(GS, 0x21, on ? 0x11 : 0x00);
+  }
+
+  underline(on: boolean) {
+    return this.command(ESC, 0x2d, on ? 1 : 0);
+  }
+
+  text(text: string) {
+    for (const char of toPrinterText(text)) {
+      this.bytes.push(char.charCodeAt(0));
+    }
+    return this;
+  }
+
+  line(text = "") {
+    return this.text(text).command(LF);
+  }
+
+  // Text wrapped at word boundaries to the line width
+  wrapped(text: string, width = this.columns) {
+    wrapText(toPrinterText(text), width).forEach((line) => this.line(line));
+    return this;
+  }
+
+  // Formatted receipt text, each line wrapped to the width its size allows
+  formatted(lines: ReceiptTextLine[]) {
+    lines.forEach((line) => {
+      const width = line.large ? Math.floor(this.columns / 2) : this.columns;
+      this.large(line.large);
+      wrapReceiptLine(line, width, (segment) => toPrinterText(segment.text).length).forEach((row) => {
+        row.forEach((part) => this.bold(part.bold).underline(part.underline).text(part.text));
+        this.bold(false).underline(false).line();
+      });
+      this.large(false);
+    });
+    return this;
+  }
+
+  // Left text and right text on one line, the left one cut short if they would collide
+  row(left: string, right: string, width = this.columns) {
+    const rightText = toPrinterText(right);
+    const leftText = toPrinterText(left).slice(0, Math.max(0, width - rightText.length - 1));
+    return this.line(leftText + " ".repeat(Math.max(1, width - leftText.length - rightText.length)) + rightText);
+  }
+
+  divider(char = "-") {
+    return this.line(char.repeat(this.columns));
+  }
+
+  feed(lines: number) {
+    return this.command(ESC, 0x64, lines);
+  }
+
+  // GS ( k: the printer draws the QR code itself (model 2, medium error correction)
+  qrCode(data: string, moduleSize: number) {
+    const bytes = Array.from(toPrinterText(data), (char) => char.charCodeAt(0));
+    const storeLength = bytes.length + 3;
+    this.command(GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00);
+    this.command(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize);
+    this.command(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31);
+    this.command(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes);
+    return this.command(GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30).line();
+  }
+
+  // GS v 0: a bit image printed at normal density
+  raster(image: LogoRaster) {
+    const bytesPerRow = image.width / 8;
+    this.command(GS, 0x76, 0x30, 0x00, bytesPerRow & 0xff, bytesPerRow >> 8, image.height & 0xff, image.height >> 8);
+    return this.command(...image.data);
+  }
+
+  // ESC p: pulse pin 2 for 50ms on, 500ms off
+  openDrawer() {
+    return this.command(ESC, 0x70, 0x00, 0x19, 0xfa);
+  }
+
+  // GS V B: feed to the cutter, then a partial cut
+  cut() {
+    return this.command(GS, 0x56, 0x42, 0x00);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    while (word.length > width) {
+      if (current) {
+        lines.push(current);
+        current = "";
+      }
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+    }
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+const padStart = (text: string, width: number) => text.slice(0, width).padStart(width);
+
+/**
+ * An invoice or credit note as ESC/POS commands, laid out like the on-screen POS receipt
+ */
+export function renderEscPosReceipt(
+  invoice: Invoice,
+  settings: ReceiptSettings,
+  options: EscPosOptions
+): Uint8Array {
+  const { columns } = options;
+  const currency = settings.currency_symbol;
+  const { refund } = invoice;
+  const sign = refund ? "-" : "";
+  const discountSign = refund ? "+" : "-";
+  const money = (value: number) => `${currency}${value.toFixed(2)}`;
+  const taxSummary = summariseTaxByRate(invoice.products);
+  const lineDiscountTotal = invoice.products.reduce((sum, p) => sum + (p.discount_amount ?? 0), 0);
+  const invoiceDiscountAmount = invoice.products.reduce((sum, p) => sum + (p.invoice_discount_share ?? 0), 0);
+  const balanceDue = roundMoney(invoice.total - (invoice.amountPaid ?? invoice.total));
+
+  const out = new EscPosWriter(columns);
+
+  // Header
+  out.align("center");
+  if (options.logo) out.raster(options.logo).line();
+  out.bold(true).large(true).wrapped(invoice.companyName.toUpperCase(), Math.floor(columns / 2));
+  out.large(false).bold(false);
+  if (invoice.companyAddress) out.wrapped(invoice.companyAddress);
+  if (invoice.companyPhone) out.line(`Tel: ${invoice.companyPhone}`);
+  if (invoice.companyEmail) out.line(invoice.companyEmail);
+  out.formatted(parseReceiptText(settings.receipt_header));
+  out.align("left").divider("=");
+
+  if (refund) {
+    out.align("center").bold(true).line("*** REFUND ***").bold(false).align("left").divider();
+  }
+  if (invoice.voided) {
+    out.align("center").bold(true).line("*** VOID ***").bold(false);
+    out.line(`${format(invoice.voided.at, "dd/MM/yyyy HH:mm")} by ${invoice.voided.by}`);
+    out.wrapped(`Reason: ${invoice.voided.reason}`);
+    out.align("left").divider();
+  }
+
+  // Document details
+  out.row(refund ? "Credit Note #:" : "Invoice #:", invoice.id);
+  if (refund) out.row("Original Invoice #:", refund.originalInvoiceNumber);
+  out.row("Date:", format(invoice.date, "dd/MM/yyyy"));
+  out.row("Time:", format(invoice.date, "HH:mm:ss"));
+  out.divider();
+  out.row("Customer:", invoice.customerName);
+  out.row("Cashier:", invoice.issuerName);
+  out.divider();
+
+  // Lines: on wide paper the name shares a row with the figures; on narrow paper it sits above them
+  const wide = columns >= 40;
+  const nameWidth = columns - 25;
+  const figures = (quantity: string, price: string, total: string) =>
+    `${padStart(quantity, 4)}${padStart(price, 10)}${padStart(total, 11)}`;
+
+  out.bold(true);
+  if (wide) {
+    out.line(`${"ITEM".padEnd(nameWidth)}${figures("QTY", "PRICE", "TOTAL")}`);
+  } else {
+    out.row("ITEM", "TOTAL");
+  }
+  out.bold(false).divider();
+
+  invoice.products.forEach((product) => {
+    const lineTotal = (product.price * product.quantity).toFixed(2);
+    const name = toPrinterText(product.name);
+
+    if (wide && name.length <= nameWidth) {
+      out.line(`${name.padEnd(nameWidth)}${figures(String(product.quantity), product.price.toFixed(2), lineTotal)}`);
+    } else if (wide) {
+      out.wrapped(name);
+      out.line(`${"".padEnd(nameWidth)}${figures(String(product.quantity), product.price.toFixed(2), lineTotal)}`);
+    } else {
+      out.wrapped(name);
+      out.row(`  ${product.quantity} x ${product.price.toFixed(2)}`, lineTotal);
+    }
+
+    if (settings.receipt_show_bundle_components) {
+      (product.components ?? []).forEach((component) => {
+        out.line(`  - ${component.quantity * product.quantity} x ${component.name}`.slice(0, columns));
+      });
+    }
+    if (product.discount && (product.discount_amount ?? 0) > 0) {
+      const reason = product.discount.reason ? ` - ${product.discount.reason}` : "";
+      out.row(`  Disc ${formatDiscount(product.discount, currency)}${reason}`, `-${(product.discount_amount ?? 0).toFixed(2)}`);
+    }
+  });
+
+  out.divider("=");
+
+  // Totals
+  out.row("Subtotal:", `${sign}${money(invoice.subtotal)}`);
+  if (lineDiscountTotal > 0) {
+    out.row("Line Discounts:", `${discountSign}${money(lineDiscountTotal)}`);
+  }
+  if (invoice.discount && invoiceDiscountAmount > 0) {
+    out.row(`Discount (${formatDiscount(invoice.discount, currency)}):`, `${discountSign}${money(invoiceDiscountAmount)}`);
+    if (invoice.discount.reason) out.wrapped(invoice.discount.reason);
+  }
+  if (taxSummary.length > 0) {
+    taxSummary.forEach((entry) => {
+      out.row(`${entry.name} (${entry.rate}%)${invoice.pricesIncludeTax ? " incl." : ""}:`, `${sign}${money(entry.tax)}`);
+    });
+  } else {
+    out.row("VAT:", `${sign}${money(invoice.tax)}`);
+  }
+  out.divider();
+
+  out.bold(true).large(true);
+  out.row(refund ? "REFUND:" : "TOTAL:", `${sign}${money(invoice.total)}`, Math.floor(columns / 2));
+  out.large(false).bold(false);
+
+  // Refund settlement
+  if (refund) {
+    out.divider();
+    if (refund.appliedToBalance > 0) out.row("Taken off balance owed:", money(refund.appliedToBalance));
+    if (refund.refundedAmount > 0 && refund.refundMethod) {
+      out.row(`Refunded (${PAYMENT_METHOD_LABELS[refund.refundMethod]}):`, money(refund.refundedAmount));
+    }
+    if (refund.reason) out.wrapped(`Reason: ${refund.reason}`);
+  }
+
+  // Payments
+  if (invoice.payments && invoice.payments.length > 0) {
+    out.divider();
+    invoice.payments.forEach((payment) => {
+      out.row(`${PAYMENT_METHOD_LABELS[payment.method]}:`, money(payment.tendered ?? payment.amount));
+      if (payment.reference) out.line(`  Ref: ${payment.reference}`);
+    });
+    out.bold(true).row("Change:", money(invoice.changeDue ?? 0)).bold(false);
+  }
+  if (invoice.amountPaid !== undefined && balanceDue > 0) {
+    out.divider();
+    out.row("Amount Paid:", money(invoice.amountPaid));
+    out.bold(true).row("BALANCE DUE:", money(balanceDue)).bold(false);
+    out.align("center").line("CREDIT SALE").align("left");
+  }
+
+  out.divider("=");
+
+  const returnPolicy = parseReceiptText(settings.receipt_return_policy);
+  if (returnPolicy.length > 0) {
+    out.formatted(returnPolicy).divider();
+  }
+
+  // Footer
+  out.align("center");
+  out.formatted(parseReceiptText(settings.receipt_footer));
+  out.line();
+  const verificationUrl = receiptVerificationUrl(invoice);
+  if (verificationUrl) {
+    out.qrCode(verificationUrl, columns >= 40 ? 5 : 4);
+    out.line("Scan to verify this receipt");
+  }
+  out.line(invoice.id);
+  out.align("left");
+
+  if (options.openDrawer) out.openDrawer();
+  out.feed(3);
+  if (options.cut !== false) out.cut();
+
+  return out.toBytes();
+}
+
+/**
+ * A short page to check the printer connection, cutter and cash drawer
+ */
+export function renderEscPosTestPage(companyName: string, options: EscPosOptions): Uint8Array {
+  const out = new EscPosWriter(options.columns);
+  out.align("center").bold(true).large(true).line("TEST PRINT").large(false).bold(false);
+  if (companyName) out.line(companyName);
+  out.line(format(new Date(), "dd/MM/yyyy HH:mm:ss"));
+  out.align("left").divider();
+  out.row("Left", "Right");
+  out.bold(true).line("Bold text").bold(false);
+  out.divider("=");
+  if (options.openDrawer) out.openDrawer();
+  out.feed(3);
+  if (options.cut !== false) out.cut();
+  return out.toBytes();
+}
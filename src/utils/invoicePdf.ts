@@ -0,0 +1,340 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import type { Customer, ReceiptSettings } from "@/lib/api";
+import type { Invoice } from "@/types/invoice";
+import { summariseTaxByRate } from "@/lib/tax";
+import { formatDiscount, roundMoney } from "@/lib/discounts";
+import { PAYMENT_METHOD_LABELS } from "@/lib/payments";
+import { receiptVerificationUrl } from "@/lib/receiptVerification";
+import { parseReceiptText, wrapReceiptLine } from "@/lib/receiptText";
+import { qrCodeModules } from "@/utils/qrCode";
+
+const PAGE_WIDTH = 210;
+const MARGIN = 14;
+// Lowest the content may reach before the footer
+const CONTENT_BOTTOM = 280;
+const QR_SIZE = 26;
+const LOGO_MAX_WIDTH = 60;
+const LOGO_MAX_HEIGHT = 18;
+// Points to millimetres, for line heights
+const PT = 0.3528;
+
+/**
+ * Draw a QR code as filled squares, keeping it sharp at any zoom
+ */
+const drawQrCode = async (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const modules = await qrCodeModules(text);
+  const cell = size / modules.length;
+  modules.forEach((cells, row) => {
+    cells.forEach((dark, col) => {
+      if (dark) doc.rect(x + col * cell, y + row * cell, cell, cell, "F");
+    });
+  });
+};
+
+/**
+ * Draw formatted receipt text (see lib/receiptText) from y down, wrapping within width and
+ * moving to a new page when it runs out of room. Returns where the next line would go.
+ */
+const drawReceiptText = (
+  doc: jsPDF,
+  text: string,
+  x: number,
+  y: number,
+  width: number,
+  { fontSize = 9, align = "left" }: { fontSize?: number; align?: "left" | "center" } = {}
+): number => {
+  const widthOf = (part: { text: string; bold: boolean }) => {
+    doc.setFont("helvetica", part.bold ? "bold" : "normal");
+    return doc.getTextWidth(part.text);
+  };
+
+  parseReceiptText(text).forEach((line) => {
+    const size = line.large ? fontSize * 1.4 : fontSize;
+    doc.setFontSize(size);
+    wrapReceiptLine(line, width, widthOf).forEach((row) => {
+      if (y > CONTENT_BOTTOM) {
+        doc.addPage();
+        y = 20;
+      }
+      const rowWidth = row.reduce((sum, part) => sum + widthOf(part), 0);
+      let cursor = align === "center" ? x + (width - rowWidth) / 2 : x;
+      row.forEach((part) => {
+        const partWidth = widthOf(part);
+        doc.text(part.text, cursor, y);
+        if (part.underline) doc.line(cursor, y + 0.8, cursor + partWidth, y + 0.8);
+        cursor += partWidth;
+      });
+      y += size * PT * 1.4;
+    });
+  });
+
+  doc.setFont("helvetica", "normal");
+  return y;
+};
+
+/**
+ * An invoice or credit note as an A4 tax invoice, laid out like the on-screen A4 template
+ */
+export const createInvoicePdf = async (
+  invoice: Invoice,
+  settings: ReceiptSettings,
+  customer?: Customer | null
+): Promise<jsPDF> => {
+  const currency = settings.currency_symbol;
+  const { refund } = invoice;
+  const sign = refund ? "-" : "";
+  const discountSign = refund ? "+" : "-";
+  const money = (value: number) => `${currency}${value.toFixed(2)}`;
+  const taxSummary = summariseTaxByRate(invoice.products);
+  const lineDiscountTotal = invoice.products.reduce((sum, p) => sum + (p.discount_amount ?? 0), 0);
+  const invoiceDiscountAmount = invoice.products.reduce((sum, p) => sum + (p.invoice_discount_share ?? 0), 0);
+  const balanceDue = roundMoney(invoice.total - (invoice.amountPaid ?? invoice.total));
+
+  const doc = new jsPDF();
+  const right = PAGE_WIDTH - MARGIN;
+
+  // Letterhead: logo, company and header text on the left, document details on the right
+  let letterheadY = 20;
+  if (settings.receipt_logo) {
+    const { width, height } = doc.getImageProperties(settings.receipt_logo);
+    const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height);
+    doc.addImage(settings.receipt_logo, "PNG", MARGIN, 12, width * scale, height * scale);
+    letterheadY = 12 + height * scale + 7;
+  }
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(invoice.companyName || "Invoice", MARGIN, letterheadY);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const companyLines = [
+    invoice.companyAddress,
+    invoice.companyPhone && `Tel: ${invoice.companyPhone}`,
+    invoice.companyEmail,
+  ].filter(Boolean) as string[];
+  doc.text(companyLines, MARGIN, letterheadY + 6);
+  letterheadY = drawReceiptText(doc, settings.receipt_header, MARGIN, letterheadY + 6 + companyLines.length * 4, 100);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(refund ? "CREDIT NOTE" : "TAX INVOICE", right, 20, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const documentLines = [
+    `${refund ? "Credit Note" : "Invoice"} #: ${invoice.id}`,
+    ...(refund ? [`Original Invoice #: ${refund.originalInvoiceNumber}`] : []),
+    `Date: ${format(invoice.date, "dd/MM/yyyy HH:mm")}`,
+    `Cashier: ${invoice.issuerName}`,
+  ];
+  doc.text(documentLines, right, 26, { align: "right" });
+
+  const ruleY = Math.max(letterheadY, 26 + documentLines.length * 4);
+  doc.setDrawColor(180);
+  doc.line(MARGIN, ruleY, right, ruleY);
+
+  // Bill-to block
+  const billToY = ruleY + 8;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.text("BILL TO", MARGIN, billToY);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const billTo = [
+    invoice.customerName,
+    customer?.address,
+    customer?.phone && `Tel: ${customer.phone}`,
+    customer?.email,
+  ].filter(Boolean) as string[];
+  doc.text(billTo, MARGIN, billToY + 6);
+
+  if (invoice.voided) {
+    doc.setTextColor(200, 0, 0);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("VOID", right, billToY, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(
+      [`${format(invoice.voided.at, "dd/MM/yyyy HH:mm")} by ${invoice.voided.by}`, `Reason: ${invoice.voided.reason}`],
+      right,
+      billToY + 6,
+      { align: "right" }
+    );
+    doc.setTextColor(0);
+  }
+
+  // Line table
+  const body = invoice.products.map((product, index) => {
+    const components = settings.receipt_show_bundle_components
+      ? (product.components ?? []).map((component) => `\n  - ${component.quantity * product.quantity} x ${component.name}`).join("")
+      : "";
+    const discount = product.discount && (product.discount_amount ?? 0) > 0
+      ? `${discountSign}${money(product.discount_amount ?? 0)}`
+      : "";
+    return [
+      (index + 1).toString(),
+      `${product.name}${components}`,
+      product.quantity.toString(),
+      money(product.price),
+      product.tax_rate_name ? `${product.tax_rate_name} ${product.tax_rate ?? 0}%` : "",
+      discount,
+      `${sign}${money(product.price * product.quantity)}`,
+    ];
+  });
+
+  autoTable(doc, {
+    head: [["#", "Description", "Qty", "Unit Price", "Tax", "Discount", "Amount"]],
+    body,
+    startY: billToY + 6 + Math.max(billTo.length, 3) * 4 + 6,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [41, 128, 185] },
+    columnStyles: {
+      0: { cellWidth: 10 },
+      2: { halign: "right" },
+      3: { halign: "right" },
+      5: { halign: "right" },
+      6: { halign: "right" },
+    },
+  });
+
+  // Totals, right-aligned under the table
+  const totals: string[][] = [["Subtotal", `${sign}${money(invoice.subtotal)}`]];
+  if (lineDiscountTotal > 0) {
+    totals.push(["Line Discounts", `${discountSign}${money(lineDiscountTotal)}`]);
+  }
+  if (invoice.discount && invoiceDiscountAmount > 0) {
+    totals.push([`Discount (${formatDiscount(invoice.discount, currency)})`, `${discountSign}${money(invoiceDiscountAmount)}`]);
+  }
+  if (taxSummary.length > 0) {
+    taxSummary.forEach((entry) => {
+      totals.push([`${entry.name} (${entry.rate}%)${invoice.pricesIncludeTax ? " incl." : ""}`, `${sign}${money(entry.tax)}`]);
+    });
+  } else {
+    totals.push(["VAT", `${sign}${money(invoice.tax)}`]);
+  }
+  const totalRowIndex = totals.length;
+  totals.push([refund ? "Total Refund" : "Total", `${sign}${money(invoice.total)}`]);
+  if (refund) {
+    if (refund.appliedToBalance > 0) totals.push(["Taken off balance owed", money(refund.appliedToBalance)]);
+    if (refund.refundedAmount > 0 && refund.refundMethod) {
+      totals.push([`Refunded (${PAYMENT_METHOD_LABELS[refund.refundMethod]})`, money(refund.refundedAmount)]);
+    }
+  }
+  if (invoice.amountPaid !== undefined && !refund) {
+    totals.push(["Amount Paid", money(invoice.amountPaid)]);
+    totals.push(["Balance Due", money(Math.max(0, balanceDue))]);
+  }
+
+  autoTable(doc, {
+    body: totals,
+    theme: "plain",
+    styles: { fontSize: 10, cellPadding: 1.5 },
+    tableWidth: 90,
+    margin: { left: right - 90 },
+    columnStyles: { 1: { halign: "right" } },
+    didParseCell: (data) => {
+      if (data.row.index === totalRowIndex) {
+        data.cell.styles.fontStyle = "bold";
+      }
+    },
+  });
+
+  // Payments and notes
+  const notes: string[][] = [];
+  (invoice.payments ?? []).forEach((payment) => {
+    const reference = payment.reference ? ` (Ref: ${payment.reference})` : "";
+    notes.push([`Paid by ${PAYMENT_METHOD_LABELS[payment.method]}${reference}`, money(payment.tendered ?? payment.amount)]);
+  });
+  if ((invoice.changeDue ?? 0) > 0) notes.push(["Change", money(invoice.changeDue ?? 0)]);
+  if (invoice.discount?.reason) notes.push([`Discount: ${invoice.discount.reason}`, ""]);
+  if (refund?.reason) notes.push([`Reason for return: ${refund.reason}`, ""]);
+
+  if (notes.length > 0) {
+    autoTable(doc, {
+      body: notes,
+      theme: "plain",
+      styles: { fontSize: 9, cellPadding: 1 },
+      columnStyles: { 1: { halign: "right", cellWidth: 40 } },
+    });
+  }
+
+  let y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
+  y = drawReceiptText(doc, settings.receipt_return_policy, MARGIN, y, right - MARGIN, { fontSize: 8 });
+  y = drawReceiptText(doc, settings.receipt_footer, MARGIN, y + 2, right - MARGIN, { align: "center" });
+
+  // Verification code under everything else, on a new page if it does not fit
+  const verificationUrl = receiptVerificationUrl(invoice);
+  if (verificationUrl) {
+    y += 4;
+    if (y + QR_SIZE > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = 20;
+    }
+    await drawQrCode(doc, verificationUrl, MARGIN, y, QR_SIZE);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text("Scan to check this invoice against our records", MARGIN + QR_SIZE + 4, y + QR_SIZE / 2);
+    doc.setTextColor(0);
+  }
+
+  // Page numbers on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(`${invoice.id} - page ${page} of ${pageCount}`, right, 287, { align: "right" });
+    doc.setTextColor(0);
+  }
+
+  return doc;
+};
+
+export const invoicePdfFilename = (invoice: Invoice) => `${invoice.refund ? "credit_note" : "invoice"}_${invoice.id}.pdf`;
+
+/**
+ * Download the A4 tax invoice as a PDF
+ */
+export const downloadInvoicePdf = async (
+  invoice: Invoice,
+  settings: ReceiptSettings,
+  customer?: Customer | null
+) => {
+  (await createInvoicePdf(invoice, settings, customer)).save(invoicePdfFilename(invoice));
+};
+
+/**
+ * Open the A4 tax invoice in a new tab with the print dialog. False if the tab was blocked.
+ * The tab is opened before the PDF is built, while the click still allows popups.
+ */
+export const printInvoicePdf = async (
+  invoice: Invoice,
+  settings: ReceiptSettings,
+  customer?: Customer | null
+): Promise<boolean> => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  try {
+    const doc = await createInvoicePdf(invoice, settings, customer);
+    doc.autoPrint();
+    printWindow.location.href = String(doc.output("bloburl"));
+    return true;
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+};
+
+/**
+ * The A4 tax invoice as a file, for attaching to a share
+ */
+export const invoicePdfFile = async (
+  invoice: Invoice,
+  settings: ReceiptSettings,
+  customer?: Customer | null
+): Promise<File> =>
+  new File([(await createInvoicePdf(invoice, settings, customer)).output("blob")], invoicePdfFilename(invoice), {
+    type: "application/pdf",
+  });
@@ -0,0 +1,124 @@
+import type JsBarcodeType from "jsbarcode";
+import { barcodeFormat, LabelSheetLayout } from "@/lib/barcodes";
+
+export interface BarcodeLabel {
+  name: string;
+  code: string;
+  price?: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const renderBarcode = (JsBarcode: typeof JsBarcodeType, code: string): string => {
+  const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+  const options = { width: 1.4, height: 40, fontSize: 12, margin: 0, textMargin: 1 };
+  try {
+    JsBarcode(svg, code, { ...options, format: barcodeFormat(code) });
+  } catch {
+    // Codes the detected symbology rejects still print as Code 128
+    JsBarcode(svg, code, { ...options, format: "CODE128" });
+  }
+  svg.removeAttribute("width");
+  svg.removeAttribute("height");
+  return svg.outerHTML;
+};
+
+const labelStyles = (layout: LabelSheetLayout) => `
+  @page {
+    size: ${layout.page};
+    margin: 0;
+  }
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+  body {
+    font-family: Arial, Helvetica, sans-serif;
+    background: white;
+    color: black;
+  }
+  .sheet {
+    padding: ${layout.marginTop}mm 0 0 ${layout.marginLeft}mm;
+    display: grid;
+    grid-template-columns: repeat(${layout.columns}, ${layout.labelWidth}mm);
+    grid-auto-rows: ${layout.labelHeight}mm;
+    column-gap: ${layout.columnGap}mm;
+    row-gap: ${layout.rowGap}mm;
+    page-break-after: always;
+  }
+  .sheet:last-child { page-break-after: auto; }
+  .label {
+    overflow: hidden;
+    padding: 1.5mm 2mm;
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    text-align: center;
+  }
+  .label-name {
+    width: 100%;
+    font-size: ${layout.labelHeight < 25 ? 6 : 8}pt;
+    font-weight: bold;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+  .label-price { font-size: ${layout.labelHeight < 25 ? 6 : 8}pt; }
+  .label svg {
+    width: 100%;
+    min-height: 0;
+    flex: 1;
+  }
+`;
+
+/**
+ * Print barcode labels onto a label sheet, starting at the first position. The window opens
+ * before the barcode encoder loads, while the click still allows popups.
+ */
+export const printBarcodeLabels = async (labels: BarcodeLabel[], layout: LabelSheetLayout): Promise<boolean> => {
+  const printWindow = window.open("", "_blank", "width=800,height=900");
+
+  if (!printWindow) {
+    console.error("Print window blocked - please allow popups");
+    return false;
+  }
+
+  try {
+    const { default: JsBarcode } = await import("jsbarcode");
+
+    const perSheet = layout.columns * layout.rows;
+    const sheets: string[] = [];
+    for (let start = 0; start < labels.length; start += perSheet) {
+      const cells = labels.slice(start, start + perSheet).map((label) => `
+        <div class="label">
+          <div class="label-name">${escapeHtml(label.name)}</div>
+          ${renderBarcode(JsBarcode, label.code)}
+          ${label.price ? `<div class="label-price">${escapeHtml(label.price)}</div>` : ""}
+        </div>
+      `);
+      sheets.push(`<div class="sheet">${cells.join("")}</div>`);
+    }
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Barcode Labels</title>
+          <meta charset="UTF-8">
+          <style>${labelStyles(layout)}</style>
+        </head>
+        <body onload="window.print()">
+          ${sheets.join("")}
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(html);
+    printWindow.document.close();
+
+    return true;
+  } catch (error) {
+    console.error("Print error:", error);
+    printWindow.close();
+    return false;
+  }
+};
@@ -1,11 +1,18 @@
-export const printReceiptStyles = `
+import type { CompanySettings } from "@/lib/api";
+import type { Invoice } from "@/types/invoice";
+import { THERMAL_PAPER, ThermalTemplate } from "@/lib/receiptTemplates";
+import { renderEscPosReceipt } from "@/utils/escpos";
+import { loadPrinterConfig, sendToPrinter } from "@/utils/thermalPrinter";
+import { loadLogoRaster } from "@/utils/receiptLogo";
+
+export const printReceiptStyles = (paperWidthMm: 58 | 80 = 80) => `
   @page {
-    size: 80mm auto;
+    size: ${paperWidthMm}mm auto;
     margin: 0;
   }
   * { margin: 0; padding: 0; box-sizing: border-box; }
   html, body { 
-    width: 80mm;
+    width: ${paperWidthMm}mm;
     margin: 0;
     padding: 0;
   }
@@ -18,8 +25,8 @@ export const printReceiptStyles = `
     font-family: 'JetBrains Mono', 'Courier New', monospace;
     background: white;
     color: black;
-    width: 80mm;
-    max-width: 80mm;
+    width: ${paperWidthMm}mm;
+    max-width: ${paperWidthMm}mm;
     padding: 4mm 3mm;
     position: relative;
     page-break-inside: avoid;
@@ -55,6 +62,7 @@ export const printReceiptStyles = `
   .text-right { text-align: right; }
   .font-bold { font-weight: bold; }
   .font-medium { font-weight: 500; }
+  .underline { text-decoration: underline; }
   .uppercase { text-transform: uppercase; }
   .tracking-wide { letter-spacing: 0.025em; }
   .truncate { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
@@ -62,6 +70,7 @@ export const printReceiptStyles = `
   .justify-between { justify-content: space-between; }
   .justify-center { justify-content: center; }
   .items-center { align-items: center; }
+  .flex-col { flex-direction: column; }
   .gap-\\[1px\\] { gap: 1px; }
   .space-y-1 > * + * { margin-top: 3px; }
   .space-y-2 > * + * { margin-top: 5px; }
@@ -84,7 +93,7 @@ export const printReceiptStyles = `
   .bg-black { background: black; }
   @media print {
     html, body { 
-      width: 80mm;
+      width: ${paperWidthMm}mm;
       background: white !important;
       -webkit-print-color-adjust: exact;
       print-color-adjust: exact;
@@ -92,13 +101,13 @@ export const printReceiptStyles = `
     .receipt-paper { 
       box-shadow: none; 
       margin: 0; 
-      width: 80mm;
-      max-width: 80mm;
+      width: ${paperWidthMm}mm;
+      max-width: ${paperWidthMm}mm;
     }
   }
 `;
 
-export const printReceipt = (content: string, invoiceId: string): boolean => {
+export const printReceipt = (content: string, invoiceId: string, paperWidthMm: 58 | 80 = 80): boolean => {
   try {
     const printWindow = window.open("", "_blank", "width=350,height=600");
     
@@ -113,7 +122,7 @@ export const printReceipt = (content: string, invoiceId: string): boolean => {
         <head>
           <title>POS Receipt - ${invoiceId}</title>
           <meta charset="UTF-8">
-          <style>${printReceiptStyles}</style>
+          <style>${printReceiptStyles(paperWidthMm)}</style>
         </head>
         <body onload="window.print()">
           ${content}
@@ -130,3 +139,46 @@ export const printReceipt = (content: string, invoiceId: string): boolean => {
     return false;
   }
 };
+
+export interface ReceiptPrintOutcome {
+  printed: boolean;
+  // Set when a receipt printer is set up but could not be used. Nothing was printed: by now the
+  // click no longer allows a popup, so printing through the browser needs another click.
+  printerError?: string;
+}
+
+/**
+ * Print on this device's receipt printer, or through the browser print popup with the
+ * on-screen receipt's HTML when no printer is set up.
+ * The cash drawer only opens if asked for here and enabled for the printer.
+ */
+export const printInvoiceReceipt = async (
+  invoice: Invoice,
+  content: string,
+  settings: CompanySettings,
+  { template = "80mm", openDrawer = false }: { template?: ThermalTemplate; openDrawer?: boolean } = {}
+): Promise<ReceiptPrintOutcome> => {
+  const config = loadPrinterConfig();
+  const paper = THERMAL_PAPER[template];
+
+  // Before any await, so the popup still counts as opened by the click
+  if (config.connection === "browser") {
+    return { printed: printReceipt(content, invoice.id, paper.widthMm) };
+  }
+
+  try {
+    // A logo that cannot be decoded is left off rather than holding up the receipt
+    const logo = settings.receipt_logo
+      ? await loadLogoRaster(settings.receipt_logo, paper.printDots).catch(() => undefined)
+      : undefined;
+    const bytes = renderEscPosReceipt(invoice, settings, {
+      columns: paper.escPosColumns,
+      openDrawer: openDrawer && config.openDrawer,
+      logo,
+    });
+    await sendToPrinter(bytes, config);
+    return { printed: true };
+  } catch (error) {
+    return { printed: false, printerError: error instanceof Error ? error.message : "Receipt printer not reachable" };
+  }
+};
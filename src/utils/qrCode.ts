@@ -0,0 +1,23 @@
+// Loaded on first use so the QR encoder stays out of the main bundle
+let qrCodeLibrary: Promise<typeof import("qrcode")> | undefined;
+const loadQrCodeLibrary = () => (qrCodeLibrary ??= import("qrcode"));
+
+/**
+ * The dark and light modules of a QR code, row by row. Medium error correction survives
+ * the smudges and creases a paper receipt picks up.
+ */
+export const qrCodeModules = async (text: string): Promise<boolean[][]> => {
+  const { create } = await loadQrCodeLibrary();
+  const { modules } = create(text, { errorCorrectionLevel: "M" });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => modules.get(row, col) === 1)
+  );
+};
+
+/**
+ * An SVG path drawing the dark modules on a grid one unit per module
+ */
+export const qrCodeSvgPath = (modules: boolean[][]): string =>
+  modules
+    .flatMap((cells, row) => cells.map((dark, col) => (dark ? `M${col} ${row}h1v1h-1z` : "")))
+    .join("");
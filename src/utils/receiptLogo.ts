@@ -0,0 +1,112 @@
+/**
+ * Receipt logo processing: uploads are flattened onto white, scaled down and made greyscale so
+ * they look the same on screen and on paper; thermal printers get a dithered 1-bit copy.
+ */
+
+// The full print width of a 58mm printer, so the stored logo fits every roll
+const MAX_LOGO_WIDTH = 384;
+const MAX_LOGO_HEIGHT = 160;
+
+export interface LogoRaster {
+  // Dots across, always a multiple of 8
+  width: number;
+  height: number;
+  // One bit per dot, most significant first, a row of width / 8 bytes after another; 1 is black
+  data: Uint8Array;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The file is not an image the browser can read"));
+    image.src = src;
+  });
+
+const readFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Draw the image at the given size on white and return its pixels as 0-255 luminance
+ */
+const greyscalePixels = (image: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d")!;
+  context.fillStyle = "white";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  const pixels = context.getImageData(0, 0, width, height);
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    const [r, g, b] = [pixels.data[i * 4], pixels.data[i * 4 + 1], pixels.data[i * 4 + 2]];
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  return { canvas, context, pixels, luminance };
+};
+
+/**
+ * Turn an uploaded image into the greyscale PNG data URL stored in settings
+ */
+export const prepareReceiptLogo = async (file: File): Promise<string> => {
+  const image = await loadImage(await readFile(file));
+  const scale = Math.min(1, MAX_LOGO_WIDTH / image.naturalWidth, MAX_LOGO_HEIGHT / image.naturalHeight);
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const { canvas, context, pixels, luminance } = greyscalePixels(image, width, height);
+  luminance.forEach((value, i) => {
+    pixels.data[i * 4] = pixels.data[i * 4 + 1] = pixels.data[i * 4 + 2] = value;
+    pixels.data[i * 4 + 3] = 255;
+  });
+  context.putImageData(pixels, 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * Floyd-Steinberg dithering: each dot is set black or white and the difference is pushed on to
+ * the dots not yet decided, so greys come out as patterns rather than solid blocks
+ */
+export const ditherToRaster = (luminance: Float32Array, width: number, height: number): LogoRaster => {
+  const rasterWidth = Math.ceil(width / 8) * 8;
+  const bytesPerRow = rasterWidth / 8;
+  const data = new Uint8Array(bytesPerRow * height);
+  const values = Float32Array.from(luminance);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const black = values[i] < 128;
+      const error = values[i] - (black ? 0 : 255);
+      if (black) data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+
+      if (x + 1 < width) values[i + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) values[i + width - 1] += (error * 3) / 16;
+        values[i + width] += (error * 5) / 16;
+        if (x + 1 < width) values[i + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { width: rasterWidth, height, data };
+};
+
+/**
+ * The stored logo as dithered dots no wider than the printer can print
+ */
+export const loadLogoRaster = async (dataUrl: string, maxWidthDots: number): Promise<LogoRaster> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, maxWidthDots / image.naturalWidth);
+  const width = Math.max(8, Math.floor(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const { luminance } = greyscalePixels(image, width, height);
+  return ditherToRaster(luminance, width, height);
+};
@@ -0,0 +1,22 @@
+/**
+ * Sending a receipt PDF through the device's own share sheet (Web Share API), offered where the
+ * browser can share files, which in practice means phones and tablets
+ */
+
+export const canShareFiles = (): boolean => {
+  if (typeof navigator === "undefined" || !navigator.canShare) return false;
+  return navigator.canShare({ files: [new File([""], "receipt.pdf", { type: "application/pdf" })] });
+};
+
+/**
+ * Open the share sheet with the file attached. False if the sheet was dismissed without sharing.
+ */
+export const shareFile = async (file: File, title: string, text: string): Promise<boolean> => {
+  try {
+    await navigator.share({ files: [file], title, text });
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") return false;
+    throw error;
+  }
+};
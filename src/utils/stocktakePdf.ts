@@ -0,0 +1,68 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import type { CompanySettings, Stocktake } from "@/lib/api";
+import { STOCKTAKE_STATUS_LABELS, itemVariance, itemVarianceValue, summariseStocktake } from "@/lib/stocktakes";
+
+/**
+ * Download a stocktake as a PDF count sheet, laid out like the Audits transaction report
+ */
+export const downloadStocktakePdf = (stocktake: Stocktake, settings: CompanySettings) => {
+  const currency = settings.currency_symbol;
+  const items = stocktake.items ?? [];
+  const summary = summariseStocktake(items);
+  const money = (value: number) => `${value < 0 ? "-" : ""}${currency}${Math.abs(value).toLocaleString()}`;
+
+  const doc = new jsPDF();
+
+  const companyDetails = [settings.company_address, settings.company_phone, settings.company_email]
+    .filter(Boolean)
+    .join(" | ");
+
+  const status = stocktake.approved_at
+    ? `Approved by ${stocktake.approved_by} on ${format(new Date(stocktake.approved_at), "dd/MM/yyyy HH:mm")}`
+    : STOCKTAKE_STATUS_LABELS[stocktake.status];
+
+  doc.setFontSize(14);
+  doc.text(settings.company_name || "Stocktake", 14, 16);
+  doc.setFontSize(9);
+  doc.text(companyDetails, 14, 21);
+  doc.setFontSize(18);
+  doc.text(`Stocktake ${stocktake.stocktake_number}`, 14, 30);
+  doc.setFontSize(11);
+  doc.text(
+    `Started: ${format(new Date(stocktake.created_at), "dd/MM/yyyy HH:mm")} by ${stocktake.created_by}   Scope: ${stocktake.category ?? "All products"}`,
+    14,
+    38
+  );
+  doc.text(`Status: ${status}`, 14, 44);
+  doc.text(
+    `Counted: ${summary.counted} of ${items.length}   Short: ${money(summary.shortValue)}   Over: ${money(summary.overValue)}   Net: ${money(summary.netValue)}`,
+    14,
+    50
+  );
+
+  const tableData = items.map((item) => {
+    const variance = itemVariance(item);
+    const value = itemVarianceValue(item);
+    return [
+      item.name,
+      item.sku ?? "",
+      item.system_quantity.toString(),
+      item.counted_quantity?.toString() ?? "Not counted",
+      variance === null ? "" : `${variance > 0 ? "+" : ""}${variance}`,
+      value === null ? "" : money(value),
+      item.counts.map((count) => `${count.counter}: ${count.quantity}`).join(", "),
+    ];
+  });
+
+  autoTable(doc, {
+    head: [["Product", "SKU", "Expected", "Counted", "Variance", "Value at cost", "Counters"]],
+    body: tableData,
+    startY: 56,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [41, 128, 185] },
+  });
+
+  doc.save(`stocktake_${stocktake.stocktake_number}.pdf`);
+};
@@ -0,0 +1,181 @@
+/**
+ * Receipt printer connection for this device: WebUSB, Web Serial or a local print bridge
+ * that accepts raw ESC/POS bytes over HTTP. Kept in localStorage because each till has
+ * its own printer.
+ */
+
+export type ReceiptPrinterConnection = "browser" | "usb" | "serial" | "bridge";
+
+export interface ReceiptPrinterConfig {
+  connection: ReceiptPrinterConnection;
+  // e.g. http://localhost:9100/print; receives the bytes as the body of a POST
+  bridgeUrl: string;
+  serialBaudRate: number;
+  openDrawer: boolean;
+}
+
+export const RECEIPT_PRINTER_CONNECTION_LABELS: Record<ReceiptPrinterConnection, string> = {
+  browser: "Browser print dialog",
+  usb: "USB printer (WebUSB)",
+  serial: "Serial / Bluetooth printer (Web Serial)",
+  bridge: "Local print bridge",
+};
+
+const STORAGE_KEY = "receipt_printer";
+
+const DEFAULT_CONFIG: ReceiptPrinterConfig = {
+  connection: "browser",
+  bridgeUrl: "http://localhost:9100/print",
+  serialBaudRate: 9600,
+  openDrawer: false,
+};
+
+// The parts of WebUSB and Web Serial used here; TypeScript's DOM library does not include them
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: "in" | "out";
+  type: "bulk" | "interrupt" | "isochronous";
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { interfaceClass: number; endpoints: UsbEndpoint[] };
+}
+
+interface UsbDevice {
+  productName?: string;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(value: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: BufferSource): Promise<unknown>;
+}
+
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+interface DeviceNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const devices = () => navigator as unknown as DeviceNavigator;
+
+// USB class 7 is "printer"; cheaper printers report vendor-specific (255) instead
+const USB_PRINTER_CLASS = 7;
+
+export function loadPrinterConfig(): ReceiptPrinterConfig {
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
+
+export function savePrinterConfig(config: ReceiptPrinterConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Whether this browser can use the connection; WebUSB and Web Serial are Chromium-only
+ */
+export function isConnectionSupported(connection: ReceiptPrinterConnection): boolean {
+  if (connection === "usb") return !!devices().usb;
+  if (connection === "serial") return !!devices().serial;
+  return true;
+}
+
+/**
+ * Ask the user to pick the printer so the browser remembers it for later sales.
+ * Must be called from a click. Returns a name to show for the printer.
+ */
+export async function choosePrinter(connection: "usb" | "serial"): Promise<string> {
+  if (connection === "usb") {
+    const device = await devices().usb!.requestDevice({ filters: [] });
+    return device.productName || "USB printer";
+  }
+
+  const port = await devices().serial!.requestPort();
+  const info = port.getInfo();
+  return info.usbVendorId ? `Serial port ${info.usbVendorId.toString(16)}:${info.usbProductId?.toString(16)}` : "Serial port";
+}
+
+async function sendToUsb(bytes: Uint8Array) {
+  const [device] = await devices().usb!.getDevices();
+  if (!device) throw new Error("No USB printer chosen - choose one in Settings");
+
+  await device.open();
+  try {
+    if (!device.configuration) await device.selectConfiguration(1);
+
+    const interfaces = device.configuration?.interfaces ?? [];
+    const outInterface =
+      interfaces.find((item) => item.alternate.interfaceClass === USB_PRINTER_CLASS) ??
+      interfaces.find((item) => item.alternate.endpoints.some((endpoint) => endpoint.direction === "out"));
+    const endpoint = outInterface?.alternate.endpoints.find(
+      (item) => item.direction === "out" && item.type === "bulk"
+    );
+    if (!outInterface || !endpoint) throw new Error("The USB device does not accept print data");
+
+    await device.claimInterface(outInterface.interfaceNumber);
+    await device.transferOut(endpoint.endpointNumber, bytes);
+  } finally {
+    await device.close();
+  }
+}
+
+async function sendToSerial(bytes: Uint8Array, baudRate: number) {
+  const [port] = await devices().serial!.getPorts();
+  if (!port) throw new Error("No serial printer chosen - choose one in Settings");
+
+  await port.open({ baudRate });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+}
+
+async function sendToBridge(bytes: Uint8Array, url: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: bytes,
+  });
+  if (!response.ok) throw new Error(`Print bridge answered ${response.status}`);
+}
+
+/**
+ * Send ESC/POS bytes to the configured printer. Throws if there is no direct printer
+ * or it cannot be reached, so the caller can fall back to the browser.
+ */
+export async function sendToPrinter(bytes: Uint8Array, config: ReceiptPrinterConfig) {
+  if (config.connection === "browser") throw new Error("No receipt printer is set up");
+  if (!isConnectionSupported(config.connection)) {
+    throw new Error(`${RECEIPT_PRINTER_CONNECTION_LABELS[config.connection]} is not supported by this browser`);
+  }
+
+  if (config.connection === "usb") {
+    await sendToUsb(bytes);
+  } else if (config.connection === "serial") {
+    await sendToSerial(bytes, config.serialBaudRate);
+  } else {
+    await sendToBridge(bytes, config.bridgeUrl);
+  }
+}